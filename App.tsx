@@ -1,67 +1,371 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { FolderOpen, Menu, X, Box } from 'lucide-react';
 import Sidebar from './components/Sidebar';
 import MarkdownViewer from './components/MarkdownViewer';
 import SettingsPage from './components/SettingsPage';
+import BacklinksPanel from './components/BacklinksPanel';
+import GraphView from './components/GraphView';
+import TagNotesView, { TaggedNote } from './components/TagNotesView';
+import TasksView from './components/TasksView';
+import LinkRewriteDialog, { LinkRewriteDecision } from './components/LinkRewriteDialog';
+import ConflictDialog, { ConflictDecision } from './components/ConflictDialog';
+import HistoryDialog from './components/HistoryDialog';
+import TrashView from './components/TrashView';
+import BulkProgressToast, { BulkProgress } from './components/BulkProgressToast';
+import FileView from './components/FileView';
+import MarkdownContent from './components/MarkdownContent';
+import SiteExportDialog, { SiteExportRequest } from './components/SiteExportDialog';
+import { renderStaticMarkdown } from './components/StaticMarkdown';
 import { 
   openDirectory, 
+  openDirectoryHandle,
   openMockDirectory, 
   readFileContent, 
+  readFileWithVersion,
   writeFileContent, 
+  seedFromManifest,
+  readFileBlob,
+  FileConflictError,
   createNewFile, 
   createNewFolder, 
-  deleteFileSystemNode,
-  renameFileSystemNode
+  createBinaryFile,
+  renameFileSystemNode,
+  moveFileSystemNode,
+  configureVaultFiles
 } from './services/fileSystem';
-import { addOrUpdateVault, saveVaultManifest, getVaultManifest } from './services/vaultRegistry';
-import { FileSystemNode, FileType, AppSettings, VaultRecord } from './types';
+import { DEFAULT_FILE_EXTENSIONS, getFileKind, getMimeType } from './services/fileTypes';
+import { pastedImageName } from './services/attachments';
+import { addOrUpdateVault, saveVaultManifest, getVaultManifest, getVaultHistory } from './services/vaultRegistry';
+import { saveVaultHandle, getVaultHandle } from './services/handleStore';
+import { resolveVaultId } from './services/vaultIdentity';
+import {
+  buildContentIndex,
+  createContentIndex,
+  indexDocument,
+  indexFiles,
+  removeDocuments,
+  renameDocuments,
+  searchContent,
+  isMarkdownFile,
+  collectMarkdownFiles
+} from './services/contentIndex';
+import {
+  findNodeByName,
+  splitLinkTarget,
+  createLinkResolver,
+  buildLinkSuggestions,
+  createLinkIndexer,
+  getBacklinks,
+  findUnlinkedMentions,
+  linkMentionInContent
+} from './services/linkIndex';
+import { planLinkRewrites, applyLinkRewrites, countRewrites, remapPath } from './services/linkRewriter';
+import { buildGraphData } from './services/graphData';
+import { createNoteCache } from './services/noteCache';
+import { createTagIndexer, buildTagTree, findNotesWithTag, updateFrontmatterTag } from './services/tagIndex';
+import { createQueryIndexer, parseQuery, runQuery } from './services/query';
+import { createTaskIndexer, toggleTaskInContent } from './services/tasks';
+import { draftKeyFor, clearDraft } from './services/draftStore';
+import { createVaultWatcher } from './services/fileWatcher';
+import { createVaultCrawler, VaultCrawler } from './services/vaultCrawler';
+import { configureHistory, renameVersionHistory, DEFAULT_HISTORY_POLICY } from './services/versionHistory';
+import { moveToTrash, listTrash, restoreFromTrash, purgeTrashEntry, emptyTrash } from './services/trash';
+import { createZip, ZipEntry } from './services/zip';
+import { downloadBlob, writeToDirectory } from './services/download';
+import { buildStaticSite } from './services/siteExport';
+import { buildExportDocument, renderStandaloneHtml, printHtml, DocumentFormat, DOCUMENT_FORMAT_LABELS } from './services/documentExport';
+import { createDocx } from './services/docx';
+import { importYuqueArchive, formatImportReport, sanitizeFileName, YuqueImportIssue } from './services/yuqueImport';
+import { FileSystemNode, FileType, AppSettings, VaultRecord, ScrollTarget, LinkMention, RenamePlan, ResolvedNote, TaskItem, FileVersion, VaultChanges, SnapshotSource, TrashEntry, TreeItem } from './types';
+
+// 后台加载时目录树与索引的最短刷新间隔
+const TREE_REFRESH_INTERVAL = 500;
+// 起始页显示的最近仓库数
+const RECENT_VAULT_LIMIT = 5;
 
 const App: React.FC = () => {
   const [rootNode, setRootNode] = useState<FileSystemNode | null>(null);
+  // 后台加载读取最新的根节点
+  const rootNodeRef = useRef(rootNode);
+  rootNodeRef.current = rootNode;
   const [selectedFile, setSelectedFile] = useState<FileSystemNode | null>(null);
   const [fileContent, setFileContent] = useState<string>('');
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [isLoading, setIsLoading] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [currentVaultId, setCurrentVaultId] = useState<string | null>(null);
+  const [scrollTarget, setScrollTarget] = useState<ScrollTarget | null>(null);
+
+  // 自动保存回调据此判断保存完成时是否仍停留在原笔记；编辑器上报的未保存状态
+  const selectedFileRef = useRef(selectedFile);
+  selectedFileRef.current = selectedFile;
+  const isDirtyRef = useRef(false);
+  // 当前笔记最近一次读取或保存时的磁盘版本，保存前据此检测外部修改
+  const fileVersionRef = useRef<FileVersion | null>(null);
+
+  // Content Index (full-text search). Mutated in place, version bump triggers re-render.
+  const contentIndexRef = useRef(createContentIndex());
+  const [indexVersion, setIndexVersion] = useState(0);
+  const [isIndexing, setIsIndexing] = useState(false);
+
+  // Note content cache for previews/embeds, cleared whenever the index changes
+  const noteCacheRef = useRef(createNoteCache());
+
+  // 派生索引随内容索引的变更日志增量更新
+  const linkIndexerRef = useRef(createLinkIndexer());
+  const tagIndexerRef = useRef(createTagIndexer());
+  const queryIndexerRef = useRef(createQueryIndexer());
+  const taskIndexerRef = useRef(createTaskIndexer());
+
+  // Pending link-rewrite preview, resolved by LinkRewriteDialog
+  const [rewritePrompt, setRewritePrompt] = useState<{ plan: RenamePlan; resolve: (decision: LinkRewriteDecision) => void } | null>(null);
+  // Pending save conflict, resolved by ConflictDialog
+  const [conflictPrompt, setConflictPrompt] = useState<{
+    path: string;
+    base: string;
+    mine: string;
+    theirs: string;
+    resolve: (decision: ConflictDecision) => void;
+  } | null>(null);
   
   // View State
-  const [currentView, setCurrentView] = useState<'reader' | 'settings'>('reader');
+  const [currentView, setCurrentView] = useState<'reader' | 'settings' | 'graph' | 'tag' | 'tasks' | 'trash'>('reader');
+  const [trashEntries, setTrashEntries] = useState<TrashEntry[] | null>(null);
+  const [activeTag, setActiveTag] = useState<string | null>(null);
   
   // Settings
   const [settings, setSettings] = useState<AppSettings>({
-    attachmentPath: 'Attachments' 
+    attachmentPath: 'Attachments',
+    historyMaxVersions: DEFAULT_HISTORY_POLICY.maxVersions,
+    historyRetentionDays: DEFAULT_HISTORY_POLICY.retentionDays,
+    fileExtensions: DEFAULT_FILE_EXTENSIONS
   });
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [bulkProgress, setBulkProgress] = useState<BulkProgress | null>(null);
+  const [isSiteExportOpen, setIsSiteExportOpen] = useState(false);
+
+  // 版本历史记录到当前仓库，按设置中的保留策略清理
+  useEffect(() => {
+    configureHistory(currentVaultId, {
+      maxVersions: settings.historyMaxVersions,
+      retentionDays: settings.historyRetentionDays
+    });
+  }, [currentVaultId, settings.historyMaxVersions, settings.historyRetentionDays]);
 
   // Helper to sync manifest to local storage whenever rootNode changes
   const syncManifest = (id: string, root: FileSystemNode) => {
     saveVaultManifest(id, root);
   };
 
+  // 每次清空索引时递增；切换仓库后仍在进行的旧索引构建据此丢弃结果
+  const indexBuildRef = useRef(0);
+  const resetContentIndex = () => {
+    contentIndexRef.current = createContentIndex();
+    return ++indexBuildRef.current;
+  };
+
+  const rebuildContentIndex = async (root: FileSystemNode) => {
+    const build = resetContentIndex();
+    setIsIndexing(true);
+    let index = contentIndexRef.current;
+    try {
+      index = await buildContentIndex(root);
+    } catch (e) {
+      console.error('建立全文索引失败', e);
+    }
+    if (build !== indexBuildRef.current) return;
+    contentIndexRef.current = index;
+    setIsIndexing(false);
+    noteCacheRef.current.invalidate();
+    setIndexVersion(v => v + 1);
+  };
+
+  const touchContentIndex = () => {
+    noteCacheRef.current.invalidate();
+    setIndexVersion(v => v + 1);
+  };
+
+  // 本地仓库的文件夹按需读取，其余由后台逐个加载
+  const crawlerRef = useRef<VaultCrawler | null>(null);
+  const treeRefreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // 后台加载期间合并频繁的目录树与索引刷新
+  const scheduleTreeRefresh = () => {
+    if (treeRefreshTimerRef.current) return;
+    treeRefreshTimerRef.current = setTimeout(() => {
+      treeRefreshTimerRef.current = null;
+      setRootNode(prev => (prev ? { ...prev } : prev));
+      touchContentIndex();
+    }, TREE_REFRESH_INTERVAL);
+  };
+
+  // 文件夹读取完成：移除已不存在条目的索引，索引其中尚未索引的笔记 (内容变化由外部修改检测更新)
+  const handleFolderLoaded = async (dir: FileSystemNode, removed: FileSystemNode[]) => {
+    removed.forEach(node => removeDocuments(contentIndexRef.current, node.path));
+    const docs = contentIndexRef.current.docs;
+    await indexFiles(contentIndexRef.current, (dir.children || []).filter(node => isMarkdownFile(node) && !docs.has(node.path)));
+    scheduleTreeRefresh();
+  };
+
+  const stopCrawler = () => {
+    crawlerRef.current?.stop();
+    crawlerRef.current = null;
+  };
+
+  const startCrawler = (id: string, root: FileSystemNode) => {
+    stopCrawler();
+    rootNodeRef.current = root;
+    const crawler = createVaultCrawler(() => rootNodeRef.current || root, handleFolderLoaded);
+    crawlerRef.current = crawler;
+    crawlVault(id, crawler);
+  };
+
+  // 目录树显示的附件类型；设置修改后重新读取已加载的文件夹
+  const fileExtensionsRef = useRef(settings.fileExtensions);
+  useEffect(() => {
+    configureVaultFiles(settings.fileExtensions);
+    if (fileExtensionsRef.current === settings.fileExtensions) return;
+    fileExtensionsRef.current = settings.fileExtensions;
+    const root = rootNodeRef.current;
+    if (!root?.handle || !currentVaultId || !crawlerRef.current) return;
+    const markUnloaded = (node: FileSystemNode) => {
+      if (node.kind !== FileType.DIRECTORY || node.isLoaded === false) return;
+      node.isLoaded = false;
+      node.children?.forEach(markUnloaded);
+    };
+    markUnloaded(root);
+    crawlVault(currentVaultId, crawlerRef.current);
+  }, [settings.fileExtensions]);
+
+  const crawlVault = async (id: string, crawler: VaultCrawler) => {
+    setIsIndexing(true);
+    await crawler.crawl();
+    if (crawlerRef.current !== crawler) return;
+    setIsIndexing(false);
+    touchContentIndex();
+    if (rootNodeRef.current) syncManifest(id, rootNodeRef.current);
+  };
+
+  // 展开尚未读取的文件夹时立即加载
+  const handleLoadFolder = async (node: FileSystemNode) => {
+    try {
+      await crawlerRef.current?.load(node);
+      setRootNode(prev => (prev ? { ...prev } : prev));
+    } catch (e: any) {
+      console.error('读取文件夹失败', e);
+      alert('读取文件夹失败: ' + e.message);
+    }
+  };
+
+  // 缓存目录树中尚未与磁盘核对的条目没有句柄，读写前逐级加载所在文件夹，换成磁盘上的节点
+  const reconcileNode = async (node: FileSystemNode): Promise<FileSystemNode> => {
+    if (!rootNodeRef.current?.handle || node.handle || !crawlerRef.current) return node;
+    const resolved = await crawlerRef.current.resolve(node.path);
+    if (!resolved?.handle) throw new Error(`${node.name} 已不存在`);
+    return resolved;
+  };
+
+  // 文件夹连同其下所有文件夹一并加载
+  const reconcileTree = async (node: FileSystemNode): Promise<FileSystemNode> => {
+    const live = await reconcileNode(node);
+    if (live.kind === FileType.DIRECTORY) {
+      await crawlerRef.current?.load(live);
+      for (const child of live.children || []) {
+        if (child.kind === FileType.DIRECTORY) await reconcileTree(child);
+      }
+    }
+    return live;
+  };
+
+  // 目录树中的条目及其所在文件夹
+  const reconcileItem = async (parent: FileSystemNode, node: FileSystemNode) => {
+    const live = await reconcileNode(node);
+    return { parent: await reconcileNode(parent), node: live };
+  };
+
+  // 作为目标的文件夹需读取内容，同名检查才准确
+  const reconcileFolder = async (dir: FileSystemNode) => {
+    const live = await reconcileNode(dir);
+    await crawlerRef.current?.load(live);
+    return live;
+  };
+
+  useEffect(() => stopCrawler, []);
+
+  // 切换仓库时清空当前笔记与视图
+  const resetVaultView = () => {
+    setSelectedFile(null);
+    setFileContent('');
+    fileVersionRef.current = null;
+    setCurrentView('reader');
+    setActiveTag(null);
+    setTrashEntries(null);
+  };
+
+  // 打开仓库失败：起始页显示在页面上，已打开其他仓库时弹出提示
+  const reportOpenError = (message: string) => {
+    if (rootNode) alert(message);
+    else setErrorMsg(message);
+  };
+
+  // 本地仓库打开后：先显示上次缓存的目录树，后台读取时逐个文件夹与磁盘核对
+  const showLocalVault = async (root: FileSystemNode) => {
+    const id = await resolveVaultId(root.handle);
+    const cachedManifest = getVaultManifest(id);
+    if (cachedManifest) seedFromManifest(root, cachedManifest);
+
+    resetVaultView();
+    setRootNode(root);
+    setIsSidebarOpen(true);
+    
+    // Add to history
+    setCurrentVaultId(id);
+    addOrUpdateVault({
+      id,
+      name: root.name,
+      type: 'local',
+      lastAccessed: Date.now()
+    });
+    saveVaultHandle(id, root.handle);
+    
+    resetContentIndex();
+    touchContentIndex();
+    startCrawler(id, root);
+  };
+
   const handleOpenDirectory = async () => {
+    if (!confirmLeave()) return;
     setIsLoading(true);
     setErrorMsg(null);
     try {
-      const root = await openDirectory();
-      setRootNode(root);
-      setIsSidebarOpen(true);
-      
-      // Add to history
-      const id = `local-${root.name}`;
-      setCurrentVaultId(id);
-      addOrUpdateVault({
-        id,
-        name: root.name,
-        type: 'local',
-        lastAccessed: Date.now()
-      });
-      
-      // Automatically create/update manifest
-      syncManifest(id, root);
-
+      await showLocalVault(await openDirectory());
     } catch (err: any) {
       if (err.name !== 'AbortError') {
-        setErrorMsg('无法打开文件夹，请确保浏览器支持 File System Access API (推荐使用 Chrome/Edge 且在 HTTPS 或 localhost 环境下运行)。');
+        reportOpenError('无法打开文件夹，请确保浏览器支持 File System Access API (推荐使用 Chrome/Edge 且在 HTTPS 或 localhost 环境下运行)。');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // 从最近打开的仓库重新打开：本地仓库使用保存的目录句柄，重新确认读写权限；没有保存句柄时改为选择文件夹
+  const handleReopenVault = async (vault: VaultRecord) => {
+    if (vault.type === 'mock') {
+      await handleOpenMock();
+      return;
+    }
+    if (!confirmLeave()) return;
+    setIsLoading(true);
+    setErrorMsg(null);
+    try {
+      const handle = await getVaultHandle(vault.id);
+      await showLocalVault(handle ? await openDirectoryHandle(handle) : await openDirectory());
+    } catch (err: any) {
+      console.error('重新打开仓库失败', err);
+      if (err.name === 'NotFoundError') {
+        reportOpenError(`找不到「${vault.name}」对应的文件夹，它可能已被移动或删除，请重新选择。`);
+      } else if (err.name !== 'AbortError') {
+        reportOpenError(`无法访问「${vault.name}」，请在浏览器提示中允许读写该文件夹。`);
       }
     } finally {
       setIsLoading(false);
@@ -69,6 +373,7 @@ const App: React.FC = () => {
   };
 
   const handleOpenMock = async () => {
+    if (!confirmLeave()) return;
     setIsLoading(true);
     setErrorMsg(null);
     try {
@@ -86,6 +391,8 @@ const App: React.FC = () => {
           root = await openMockDirectory();
       }
 
+      stopCrawler();
+      resetVaultView();
       setRootNode(root);
       setIsSidebarOpen(true);
       setCurrentVaultId(id);
@@ -99,6 +406,7 @@ const App: React.FC = () => {
 
       // Update manifest (or re-save it)
       syncManifest(id, root);
+      rebuildContentIndex(root);
 
       if (!cachedManifest && root.children && root.children.length > 0) {
         const welcomeFile = root.children.find(c => c.name === 'Welcome.md');
@@ -108,17 +416,49 @@ const App: React.FC = () => {
       }
     } catch (err) {
       console.error(err);
-      setErrorMsg('加载演示仓库失败，请检查 vault/manifest.json 是否存在。');
+      reportOpenError('加载演示仓库失败，请检查 vault/manifest.json 是否存在。');
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleSelectFile = async (node: FileSystemNode) => {
+  // 离开有未保存修改的笔记前确认，确认后丢弃草稿
+  const confirmLeave = () => {
+    if (!isDirtyRef.current) return true;
+    if (!window.confirm('当前笔记有未保存的修改，确定要离开吗？')) return false;
+    if (selectedFile && currentVaultId) clearDraft(draftKeyFor(currentVaultId, selectedFile.path));
+    isDirtyRef.current = false;
+    return true;
+  };
+
+  const openView = (view: typeof currentView) => {
+    if (view !== currentView && !confirmLeave()) return;
+    setCurrentView(view);
+  };
+
+  const handleSelectFile = async (target: FileSystemNode) => {
+    if (target.path !== selectedFile?.path && !confirmLeave()) return false;
+    let node: FileSystemNode;
+    try {
+      node = await reconcileNode(target);
+    } catch (e: any) {
+      alert(e.message);
+      setRootNode(prev => (prev ? { ...prev } : prev));
+      return false;
+    }
     setSelectedFile(node);
     setCurrentView('reader'); 
+    fileVersionRef.current = null;
+    const kind = getFileKind(node.name);
+    if (kind !== 'markdown' && kind !== 'canvas') {
+      // 附件由 FileView 按需读取为对象 URL
+      setFileContent('');
+      if (window.innerWidth < 768) setIsSidebarOpen(false);
+      return true;
+    }
     try {
-      const content = await readFileContent(node);
+      const { content, version } = await readFileWithVersion(node);
+      fileVersionRef.current = version;
       setFileContent(content);
       if (window.innerWidth < 768) {
         setIsSidebarOpen(false);
@@ -127,23 +467,57 @@ const App: React.FC = () => {
       console.error('读取文件失败', err);
       setFileContent(`# Error\n\n读取文件内容失败。\n\n> **Technical Details:**\n> ${err.message || err}`);
     }
+    return true;
   };
 
-  const handleSaveFile = async (newContent: string) => {
-    if (!selectedFile) return;
-    try {
-      await writeFileContent(selectedFile, newContent);
-      setFileContent(newContent);
-      
-      // Sync structure if needed (Mock mode might update internal content ref)
-      if (!selectedFile.handle && currentVaultId && rootNode) {
-         // Although content is in LS, we might want to trigger a sync just in case
-         syncManifest(currentVaultId, rootNode);
-      }
+  const requestConflictDecision = (path: string, base: string, mine: string, theirs: string) =>
+    new Promise<ConflictDecision>((resolve) => setConflictPrompt({ path, base, mine, theirs, resolve }));
 
-    } catch (err) {
-      console.error('保存失败', err);
-      alert('保存文件失败');
+  // 保存当前笔记；磁盘上的文件在此期间被外部修改时弹出合并对话框。返回实际写入的内容
+  const handleSaveFile = async (newContent: string, source: SnapshotSource = 'save'): Promise<string | null> => {
+    const node = selectedFile;
+    if (!node) return null;
+    let text = newContent;
+    let base = fileContent;
+    let expected = fileVersionRef.current ?? undefined;
+    while (true) {
+      try {
+        const version = await writeFileContent(node, text, expected, source);
+        // 自动保存完成前可能已切换到其他笔记
+        if (selectedFileRef.current?.path === node.path) {
+          fileVersionRef.current = version;
+          setFileContent(text);
+        }
+        indexDocument(contentIndexRef.current, node.path, node.name, text);
+        touchContentIndex();
+        
+        // Sync structure if needed (Mock mode might update internal content ref)
+        if (!node.handle && currentVaultId && rootNode) {
+           // Although content is in LS, we might want to trigger a sync just in case
+           syncManifest(currentVaultId, rootNode);
+        }
+        return text;
+      } catch (err) {
+        if (!(err instanceof FileConflictError)) {
+          console.error('保存失败', err);
+          return null;
+        }
+        const decision = await requestConflictDecision(node.path, base, text, err.currentContent);
+        if (decision.action === 'cancel') return null;
+        if (decision.action === 'theirs') {
+          if (selectedFileRef.current?.path === node.path) {
+            fileVersionRef.current = err.currentVersion;
+            setFileContent(err.currentContent);
+          }
+          indexDocument(contentIndexRef.current, node.path, node.name, err.currentContent);
+          touchContentIndex();
+          return err.currentContent;
+        }
+        // 以磁盘当前版本为新的基准重试，期间再次被修改则继续提示
+        text = decision.content;
+        base = err.currentContent;
+        expected = err.currentVersion;
+      }
     }
   };
 
@@ -159,7 +533,11 @@ const App: React.FC = () => {
 
   const handleCreateFile = async (parent: FileSystemNode, name: string) => {
     try {
-      const newNode = await createNewFile(parent, name);
+      const newNode = await createNewFile(await reconcileFolder(parent), name);
+      if (isMarkdownFile(newNode)) {
+        indexDocument(contentIndexRef.current, newNode.path, newNode.name, '');
+        touchContentIndex();
+      }
       refreshRoot();
       handleSelectFile(newNode);
     } catch (e: any) {
@@ -170,7 +548,7 @@ const App: React.FC = () => {
 
   const handleCreateFolder = async (parent: FileSystemNode, name: string) => {
     try {
-      await createNewFolder(parent, name);
+      await createNewFolder(await reconcileFolder(parent), name);
       refreshRoot();
     } catch (e: any) {
       console.error(e);
@@ -178,122 +556,753 @@ const App: React.FC = () => {
     }
   };
 
+  // 附件文件夹 (设置中的相对路径)，不存在时逐级创建
+  const ensureAttachmentFolder = async (root: FileSystemNode) => {
+    let dir = root;
+    for (const name of settings.attachmentPath.split('/').map(part => part.trim()).filter(Boolean)) {
+      await crawlerRef.current?.load(dir);
+      const existing = dir.children?.find(child => child.name === name);
+      if (existing && existing.kind !== FileType.DIRECTORY) throw new Error(`${existing.path} 不是文件夹`);
+      dir = existing || await createNewFolder(dir, name);
+    }
+    await crawlerRef.current?.load(dir);
+    return dir;
+  };
+
+  // 编辑器中粘贴或拖入的图片：写入附件文件夹，返回插入 ![[...]] 用的文件名
+  const handleSaveImage = async (image: File): Promise<string | null> => {
+    if (!rootNode) return null;
+    try {
+      const folder = await ensureAttachmentFolder(rootNode);
+      const name = pastedImageName(image, candidate => !!folder.children?.some(child => child.name === candidate));
+      await createBinaryFile(folder, name, image);
+      refreshRoot();
+      return name;
+    } catch (e: any) {
+      console.error('保存图片失败', e);
+      alert('保存图片失败: ' + (e.message || e));
+      return null;
+    }
+  };
+
+  const trashNode = async (treeParent: FileSystemNode, treeNode: FileSystemNode) => {
+    if (!rootNode || !currentVaultId) return;
+    const { parent, node } = await reconcileItem(treeParent, treeNode);
+    await moveToTrash(currentVaultId, rootNode, parent, node);
+    removeDocuments(contentIndexRef.current, node.path);
+    touchContentIndex();
+    if (selectedFile && (selectedFile.path === node.path || selectedFile.path.startsWith(`${node.path}/`))) {
+        setSelectedFile(null);
+        setFileContent('');
+    }
+    refreshRoot();
+  };
+
   const handleDeleteNode = async (parent: FileSystemNode, node: FileSystemNode) => {
     try {
-       await deleteFileSystemNode(parent, node);
-       if (selectedFile?.path === node.path) {
-           setSelectedFile(null);
-           setFileContent('');
-       }
-       refreshRoot();
+       await trashNode(parent, node);
     } catch (e: any) {
       console.error(e);
       alert('删除失败: ' + e.message);
     }
   };
+
+  const loadTrash = async () => {
+    if (!rootNode || !currentVaultId) return;
+    try {
+      setTrashEntries(await listTrash(currentVaultId, rootNode));
+    } catch (e: any) {
+      console.error('读取回收站失败', e);
+      alert('读取回收站失败: ' + e.message);
+      setTrashEntries([]);
+    }
+  };
+
+  const handleOpenTrash = () => {
+    if (currentView !== 'trash' && !confirmLeave()) return;
+    setTrashEntries(null);
+    setCurrentView('trash');
+    loadTrash();
+  };
+
+  const handleRestoreTrash = async (entry: TrashEntry) => {
+    if (!rootNode || !currentVaultId) return;
+    try {
+      // 先加载原路径上的文件夹，恢复到磁盘上的实际位置
+      await crawlerRef.current?.resolve(entry.originalPath || entry.name);
+      const node = await restoreFromTrash(currentVaultId, rootNode, entry);
+      // 恢复的笔记重新加入索引
+      const files = (n: FileSystemNode): FileSystemNode[] => n.kind === FileType.FILE ? [n] : (n.children || []).flatMap(files);
+      for (const file of files(node).filter(isMarkdownFile)) {
+        indexDocument(contentIndexRef.current, file.path, file.name, await readFileContent(file));
+      }
+      touchContentIndex();
+      refreshRoot();
+      if (node.path !== entry.originalPath) alert(`原位置已有同名条目，已恢复为 ${node.path}`);
+    } catch (e: any) {
+      console.error(e);
+      alert('恢复失败: ' + e.message);
+    }
+    loadTrash();
+  };
+
+  const handlePurgeTrash = async (entry: TrashEntry) => {
+    if (!rootNode || !currentVaultId) return;
+    if (!window.confirm(`彻底删除 ${entry.name}？此操作不可恢复。`)) return;
+    try {
+      await purgeTrashEntry(currentVaultId, rootNode, entry);
+    } catch (e: any) {
+      console.error(e);
+      alert('删除失败: ' + e.message);
+    }
+    loadTrash();
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!rootNode || !currentVaultId) return;
+    if (!window.confirm('清空回收站中的全部条目？此操作不可恢复。')) return;
+    try {
+      await emptyTrash(currentVaultId, rootNode);
+    } catch (e: any) {
+      console.error(e);
+      alert('清空回收站失败: ' + e.message);
+    }
+    loadTrash();
+  };
   
-  const handleRenameNode = async (parent: FileSystemNode, node: FileSystemNode, newName: string) => {
+  const requestRewriteDecision = (plan: RenamePlan) =>
+    new Promise<LinkRewriteDecision>((resolve) => setRewritePrompt({ plan, resolve }));
+
+  // 按改写计划更新引用文档 (计划中的路径为重命名前的路径)
+  const applyRenamePlan = async (root: FileSystemNode, plan: RenamePlan) => {
+    const failures: string[] = [];
+    for (const file of plan.files) {
+      const path = remapPath(file.path, plan.oldPath, plan.newPath);
+      const sourceNode = findNodeByPath(root, path);
+      if (!sourceNode) {
+        failures.push(path);
+        continue;
+      }
+      try {
+        const content = await readFileContent(sourceNode);
+        const { content: updated, failed } = applyLinkRewrites(content, file.edits);
+        if (failed.length > 0) failures.push(`${path} (${failed.length} 处)`);
+        if (updated === content) continue;
+        const version = await writeFileContent(sourceNode, updated);
+        indexDocument(contentIndexRef.current, sourceNode.path, sourceNode.name, updated);
+        if (selectedFile?.path === sourceNode.path) {
+          fileVersionRef.current = version;
+          setFileContent(updated);
+        }
+      } catch (e) {
+        console.error('更新链接失败', path, e);
+        failures.push(path);
+      }
+    }
+    touchContentIndex();
+    return failures;
+  };
+
+  const alertLinkFailures = (failures: string[]) => {
+    if (failures.length > 0) {
+      alert(`以下文档的链接未能自动更新，请手动检查:\n${failures.join('\n')}`);
+    }
+  };
+
+  // 重命名与移动共用：预览并改写双链，执行后同步索引、版本历史与当前笔记。
+  // 批量操作已统一确认过，autoRewrite 时不再逐项弹出预览。返回未能更新链接的文档
+  const relocateNode = async (oldPath: string, newPath: string, perform: () => Promise<void>, autoRewrite = false) => {
+    // 预览需要改写的双链，确认后再执行；索引现建，批量移动时包含前几项的变化。
+    // 先加载全部文件夹，尚未读取的笔记中的链接也要改写；目录树已就地更新，传入新对象以重建链接解析
+    let plan: RenamePlan | null = null;
+    if (rootNode) {
+        await crawlerRef.current?.crawl();
+        const candidate = planLinkRewrites(rootNode, linkIndexerRef.current.sync({ ...rootNode }, contentIndexRef.current), oldPath, newPath);
+        if (countRewrites(candidate) > 0) {
+            const decision = autoRewrite ? 'rewrite' : await requestRewriteDecision(candidate);
+            if (decision === 'cancel') return [];
+            if (decision === 'rewrite') plan = candidate;
+        }
+    }
+
+    const selectedPath = selectedFile?.path;
+    await perform();
+    renameDocuments(contentIndexRef.current, oldPath, newPath);
+    await renameVersionHistory(oldPath, newPath);
+    touchContentIndex();
+    const failures = plan && rootNode ? await applyRenamePlan(rootNode, plan) : [];
+    if (rootNode && selectedPath && (selectedPath === oldPath || selectedPath.startsWith(`${oldPath}/`))) {
+        // 本地文件夹移动或改名后子树会重新扫描，按新路径重新查找当前笔记
+        const moved = findNodeByPath(rootNode, remapPath(selectedPath, oldPath, newPath));
+        if (moved) setSelectedFile({...moved});
+    }
+    refreshRoot();
+    return failures;
+  };
+
+  const handleRenameNode = async (treeParent: FileSystemNode, treeNode: FileSystemNode, newName: string) => {
     try {
-       await renameFileSystemNode(parent, node, newName);
-       if (selectedFile?.path === node.path) {
-           // Update selected file reference if we renamed the active file
-           // Note: Path inside selectedFile must be updated, which is done by renameFileSystemNode modifying the object reference
-           setSelectedFile({...node}); 
-       }
-       refreshRoot();
+       const { parent, node } = await reconcileItem(treeParent, treeNode);
+       const newPath = parent.path ? `${parent.path}/${newName}` : newName;
+       alertLinkFailures(await relocateNode(node.path, newPath, () => renameFileSystemNode(parent, node, newName)));
     } catch (e: any) {
        console.error(e);
        throw e; // Let sidebar handle alert
     }
   };
 
-  // 递归查找文件节点
-  const findNodeByName = (nodes: FileSystemNode[], targetName: string, isImage: boolean = false): FileSystemNode | null => {
-    const normalize = (str: string) => str.toLowerCase().replace(/\\/g, '/');
-    const target = normalize(targetName);
-    
-    for (const node of nodes) {
-      if (node.kind === FileType.FILE) {
-        const nodeName = normalize(node.name);
-        const nodePath = normalize(node.path);
-        
-        // 1. 尝试完全匹配路径
-        if (nodePath === target) return node;
-        
-        // 2. 如果是图片或双链引用，尝试匹配文件名
-        if (isImage || !target.includes('/')) {
-           if (nodeName === target) return node;
+  const handleMoveNode = async (treeParent: FileSystemNode, treeNode: FileSystemNode, treeTarget: FileSystemNode) => {
+    try {
+       const { parent: sourceParent, node } = await reconcileItem(treeParent, treeNode);
+       const targetParent = await reconcileFolder(treeTarget);
+       const newPath = targetParent.path ? `${targetParent.path}/${node.name}` : node.name;
+       alertLinkFailures(await relocateNode(node.path, newPath, () => moveFileSystemNode(sourceParent, node, targetParent)));
+    } catch (e: any) {
+       console.error(e);
+       throw e; // Let sidebar handle alert
+    }
+  };
+
+  // 批量操作逐项执行并显示进度，单项失败不中断，结束后汇总提示
+  const runBulk = async <T,>(label: string, items: T[], describe: (item: T) => string, run: (item: T) => Promise<void>) => {
+    const failures: string[] = [];
+    setBulkProgress({ label, done: 0, total: items.length });
+    for (let i = 0; i < items.length; i++) {
+      try {
+        await run(items[i]);
+      } catch (e: any) {
+        console.error(`${label}失败`, describe(items[i]), e);
+        failures.push(`${describe(items[i])}: ${e.message || e}`);
+      }
+      setBulkProgress({ label, done: i + 1, total: items.length });
+    }
+    setBulkProgress(null);
+    if (failures.length > 0) {
+      alert(`${label}完成，${items.length - failures.length} 项成功，${failures.length} 项失败:\n${failures.join('\n')}`);
+    }
+  };
+
+  // 批量操作前核对选中的条目，文件夹连同其下内容一并加载；失败时提示并返回 null
+  const reconcileSelection = async (items: TreeItem[]) => {
+    const nodes: FileSystemNode[] = [];
+    try {
+      for (const item of items) nodes.push(await reconcileTree(item.node));
+    } catch (e: any) {
+      console.error('读取文件夹失败', e);
+      alert('读取文件夹失败: ' + e.message);
+      refreshRoot();
+      return null;
+    }
+    return nodes;
+  };
+
+  // 选中文件夹时包含其下的全部文件
+  const collectFiles = (node: FileSystemNode): FileSystemNode[] =>
+    node.kind === FileType.FILE ? [node] : (node.children || []).flatMap(collectFiles);
+
+  const handleBulkMove = async (items: TreeItem[], target: FileSystemNode) => {
+    const linkFailures: string[] = [];
+    await runBulk('移动', items, item => item.node.path, async item => {
+      if (item.parent.path === target.path) return;
+      const { parent, node } = await reconcileItem(item.parent, item.node);
+      const targetParent = await reconcileFolder(target);
+      const newPath = targetParent.path ? `${targetParent.path}/${node.name}` : node.name;
+      linkFailures.push(...await relocateNode(node.path, newPath, () => moveFileSystemNode(parent, node, targetParent), true));
+    });
+    alertLinkFailures(linkFailures);
+  };
+
+  const handleBulkDelete = async (items: TreeItem[]) => {
+    await runBulk('删除', items, item => item.node.path, ({ parent, node }) => trashNode(parent, node));
+  };
+
+  // 在选中笔记的 Frontmatter 中添加或移除标签；正在编辑的笔记由编辑器把新内容合并到未保存的修改中
+  const handleBulkTag = async (items: TreeItem[], tag: string, mode: 'add' | 'remove') => {
+    const nodes = await reconcileSelection(items);
+    if (!nodes) return;
+    const notes = nodes.flatMap(node => collectMarkdownFiles(node));
+    await runBulk(mode === 'add' ? '添加标签' : '移除标签', notes, note => note.path, async note => {
+      const isSelected = selectedFileRef.current?.path === note.path;
+      const content = await readFileContent(note);
+      const updated = updateFrontmatterTag(content, tag, mode);
+      if (updated === null) return;
+      const version = await writeFileContent(note, updated);
+      indexDocument(contentIndexRef.current, note.path, note.name, updated);
+      if (isSelected) {
+        fileVersionRef.current = version;
+        setFileContent(updated);
+      }
+    });
+    touchContentIndex();
+  };
+
+  // 打包为 ZIP 下载，保留仓库内的相对路径
+  const handleBulkExport = async (items: TreeItem[]) => {
+    if (!rootNode) return;
+    const nodes = await reconcileSelection(items);
+    if (!nodes) return;
+    const files = nodes.flatMap(node => collectFiles(node));
+    if (files.length === 0) {
+      alert('选中的文件夹中没有文件');
+      return;
+    }
+    const entries: ZipEntry[] = [];
+    await runBulk('导出', files, file => file.path, async file => {
+      const blob = await readFileBlob(file);
+      entries.push({ path: file.path, data: blob, lastModified: blob instanceof File ? blob.lastModified : undefined });
+    });
+    if (entries.length === 0) return;
+    try {
+      downloadBlob(await createZip(entries), `${rootNode.name}-导出.zip`);
+    } catch (e: any) {
+      console.error(e);
+      alert('导出失败: ' + e.message);
+    }
+  };
+
+  // 发布站点前先加载全部文件夹，选择列表才完整
+  const handleOpenSiteExport = async () => {
+    await crawlerRef.current?.crawl();
+    setIsSiteExportOpen(true);
+  };
+
+  const handleExportSite = async ({ title, paths, target }: SiteExportRequest) => {
+    if (!rootNode) return;
+    let dirHandle: any = null;
+    if (target === 'directory') {
+      try {
+        // @ts-ignore - File System Access API 类型可能不完整
+        dirHandle = await window.showDirectoryPicker({ mode: 'readwrite' });
+      } catch (e: any) {
+        if (e?.name !== 'AbortError') alert('无法打开文件夹: ' + (e.message || e));
+        return;
+      }
+    }
+
+    const selected = new Set(paths);
+    const label = '发布站点';
+    setBulkProgress({ label, done: 0, total: paths.length });
+    try {
+      const result = await buildStaticSite({
+        title,
+        root: rootNode,
+        notes: collectMarkdownFiles(rootNode).filter(note => selected.has(note.path)),
+        readText: readFileContent,
+        readBlob: readFileBlob,
+        renderMarkdown: renderStaticMarkdown,
+        onProgress: (done, total) => setBulkProgress({ label, done, total }),
+      });
+      if (dirHandle) {
+        await writeToDirectory(dirHandle, result.entries);
+      } else {
+        downloadBlob(await createZip(result.entries), `${title}-站点.zip`);
+      }
+      setIsSiteExportOpen(false);
+
+      const notes = [`已发布 ${result.pageCount} 篇文档`];
+      if (result.unpublished.length > 0) notes.push(`${result.unpublished.length} 篇设置了 publish: false，未发布`);
+      if (result.failures.length > 0) {
+        notes.push(`${result.failures.length} 项失败:\n${result.failures.map(f => `${f.path}: ${f.error}`).join('\n')}`);
+      }
+      alert(notes.join('\n'));
+    } catch (e: any) {
+      console.error('发布站点失败', e);
+      alert('发布站点失败: ' + (e.message || e));
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  // 笔记或文件夹导出为 PDF / HTML / Word；文件夹先加载全部子文件夹，按目录树顺序合并
+  const handleExportDocument = async (node: FileSystemNode, format: DocumentFormat) => {
+    if (!rootNode) return;
+    const label = `导出 ${DOCUMENT_FORMAT_LABELS[format]}`;
+    setBulkProgress({ label, done: 0, total: 1 });
+    try {
+      if (node.kind === FileType.DIRECTORY) await crawlerRef.current?.crawl();
+      const target = await reconcileNode(node);
+      const exported = await buildExportDocument({
+        root: rootNode,
+        target,
+        readText: readFileContent,
+        resolveFile: handleResolveFile,
+        renderMarkdown: renderStaticMarkdown,
+        onProgress: (done, total) => setBulkProgress({ label, done, total }),
+      });
+      if (exported.noteCount === 0) {
+        alert('文件夹中没有笔记');
+        return;
+      }
+      if (format === 'docx') {
+        downloadBlob(await createDocx(exported), `${exported.title}.docx`);
+      } else {
+        const html = await renderStandaloneHtml(exported);
+        if (format === 'html') downloadBlob(new Blob([html], { type: 'text/html' }), `${exported.title}.html`);
+        else await printHtml(html);
+      }
+      if (exported.failures.length > 0) {
+        alert(`${exported.failures.length} 项未能导出:\n${exported.failures.map(f => `${f.path}: ${f.error}`).join('\n')}`);
+      }
+    } catch (e: any) {
+      console.error('导出失败', e);
+      alert('导出失败: ' + (e.message || e));
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  // 选择本地文件 (不上传，只在浏览器中读取)
+  const pickLocalFile = (accept: string) =>
+    new Promise<File | null>(resolve => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = accept;
+      input.onchange = () => resolve(input.files?.[0] || null);
+      input.click();
+    });
+
+  // 导入语雀导出的 .lakebook 或 Markdown ZIP，放在仓库根目录下以文件名命名的新文件夹中
+  const handleImportYuque = async () => {
+    if (!rootNode) return;
+    const file = await pickLocalFile('.lakebook,.zip');
+    if (!file) return;
+    const label = '导入语雀';
+    setBulkProgress({ label, done: 0, total: 1 });
+    try {
+      // 加载全部文件夹，以便检查导入的文件名在仓库中是否唯一
+      await crawlerRef.current?.crawl();
+      const baseName = sanitizeFileName(file.name.replace(/\.(lakebook|zip)$/i, ''));
+      let folderName = baseName;
+      for (let i = 1; rootNode.children?.some(child => child.name === folderName); i++) folderName = `${baseName} ${i}`;
+      const result = await importYuqueArchive(file, folderName, rootNode);
+      const issues: YuqueImportIssue[] = [...result.issues];
+
+      const importRoot = await createNewFolder(rootNode, folderName);
+      const folders = new Map<string, FileSystemNode>([['', importRoot]]);
+      const ensureFolder = async (path: string): Promise<FileSystemNode> => {
+        if (!folders.has(path)) {
+          const slash = path.lastIndexOf('/');
+          const parent = await ensureFolder(slash < 0 ? '' : path.slice(0, slash));
+          folders.set(path, await createNewFolder(parent, path.slice(slash + 1)));
         }
-        
-        // 3. 尝试移除扩展名匹配 (for WikiLinks like [[Specs]])
-        const cleanNodeName = nodeName.replace(/\.md$/, '');
-        const cleanNodePath = nodePath.replace(/\.md$/, '');
-        if (target.includes('/')) {
-           if (cleanNodePath === target) return node;
-        } else {
-           if (cleanNodeName === target) return node;
+        return folders.get(path)!;
+      };
+
+      let written = 0;
+      setBulkProgress({ label, done: 0, total: result.files.length });
+      for (const entry of result.files) {
+        const slash = entry.path.lastIndexOf('/');
+        const name = entry.path.slice(slash + 1);
+        try {
+          const parent = await ensureFolder(slash < 0 ? '' : entry.path.slice(0, slash));
+          if (typeof entry.data === 'string') {
+            const node = await createNewFile(parent, name);
+            await writeFileContent(node, entry.data);
+            indexDocument(contentIndexRef.current, node.path, node.name, entry.data);
+          } else {
+            await createBinaryFile(parent, name, new Blob([entry.data]));
+          }
+        } catch (e: any) {
+          console.error('写入失败', entry.path, e);
+          issues.push({ path: entry.path, message: `写入失败: ${e.message || e}` });
         }
+        setBulkProgress({ label, done: ++written, total: result.files.length });
       }
-      
-      if (node.kind === FileType.DIRECTORY && node.children) {
-        const found = findNodeByName(node.children, targetName, isImage);
+
+      let report: FileSystemNode | null = null;
+      if (issues.length > 0) {
+        let reportName = '导入报告.md';
+        for (let i = 1; importRoot.children?.some(child => child.name === reportName); i++) reportName = `导入报告 ${i}.md`;
+        report = await createNewFile(importRoot, reportName);
+        const reportText = formatImportReport(file.name, { ...result, issues });
+        await writeFileContent(report, reportText);
+        indexDocument(contentIndexRef.current, report.path, report.name, reportText);
+      }
+      touchContentIndex();
+      refreshRoot();
+      alert(
+        `已导入 ${result.documentCount} 篇文档、${result.attachmentCount} 个附件到「${folderName}」` +
+          (issues.length > 0 ? `\n${issues.length} 项未能完整转换，详见导入报告` : '')
+      );
+      if (report) handleSelectFile(report);
+    } catch (e: any) {
+      console.error('导入语雀失败', e);
+      alert('导入语雀失败: ' + (e.message || e));
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  // 按路径查找节点
+  const findNodeByPath = (node: FileSystemNode, path: string): FileSystemNode | null => {
+    if (node.path === path) return node;
+    if (!node.children) return null;
+    for (const child of node.children) {
+      if (child.path === path || path.startsWith(`${child.path}/`)) {
+        const found = findNodeByPath(child, path);
         if (found) return found;
       }
     }
     return null;
   };
 
-  const handleLinkClick = (href: string) => {
+  const handleSearchContent = (query: string) => searchContent(contentIndexRef.current, query);
+
+  const handleOpenPathAt = async (path: string, line?: number) => {
+    if (!rootNode) return;
+    const node = findNodeByPath(rootNode, path);
+    if (!node) {
+      alert(`未找到文档: ${path}`);
+      return;
+    }
+    if (!(await handleSelectFile(node))) return;
+    if (line) setScrollTarget({ line });
+  };
+
+  // Link Index (backlinks), derived from the content index
+  const linkIndex = useMemo(() => {
+    if (!rootNode) return null;
+    return linkIndexerRef.current.sync(rootNode, contentIndexRef.current);
+  }, [rootNode, indexVersion]);
+
+  // 编辑器 [[ 补全候选
+  const linkSuggestions = useMemo(() => (rootNode ? buildLinkSuggestions(rootNode) : []), [rootNode]);
+
+  const backlinks = useMemo(() => {
+    if (!linkIndex || !selectedFile) return [];
+    return getBacklinks(linkIndex, selectedFile.path);
+  }, [linkIndex, selectedFile]);
+
+  const unlinkedMentions = useMemo(() => {
+    if (!selectedFile) return [];
+    return findUnlinkedMentions(contentIndexRef.current, selectedFile.path, selectedFile.name.replace(/\.md$/, ''));
+  }, [selectedFile, indexVersion]);
+
+  // Tag Index, derived from the content index
+  const tagIndex = useMemo(() => tagIndexerRef.current.sync(contentIndexRef.current), [indexVersion]);
+
+  // Graph data is only built while the graph view is open
+  const graphData = useMemo(() => {
+    if (currentView !== 'graph' || !linkIndex) return null;
+    return buildGraphData(contentIndexRef.current, linkIndex, tagIndex);
+  }, [currentView, linkIndex, tagIndex]);
+  const tagTree = useMemo(() => buildTagTree(tagIndex), [tagIndex]);
+
+  const taggedNotes = useMemo<TaggedNote[]>(() => {
+    if (!activeTag) return [];
+    return findNotesWithTag(tagIndex, activeTag).map(path => ({
+      path,
+      name: contentIndexRef.current.docs.get(path)?.name || path.split('/').pop() || path,
+      tags: tagIndex.notes.get(path) || [],
+    }));
+  }, [tagIndex, activeTag]);
+
+  // Query blocks (```query) run against every note's frontmatter; a new callback on index change re-runs them
+  const queryIndex = useMemo(() => queryIndexerRef.current.sync(contentIndexRef.current, tagIndex), [tagIndex]);
+  const handleRunQuery = useCallback((source: string) => runQuery(parseQuery(source), queryIndex), [queryIndex]);
+
+  // Tasks are only collected while the tasks view is open
+  const allTasks = useMemo<TaskItem[]>(() => {
+    if (currentView !== 'tasks') return [];
+    return taskIndexerRef.current.sync(contentIndexRef.current);
+  }, [currentView, indexVersion]);
+
+  // 切换任务复选框：重新读取源文件，按行号改写后保存
+  const handleToggleTask = useCallback(async (path: string, line: number) => {
+    if (!rootNode) return;
+    const node = findNodeByPath(rootNode, path);
+    if (!node) return;
+    try {
+      const content = await readFileContent(node);
+      const updated = toggleTaskInContent(content, line);
+      if (updated === null) {
+        alert('文档内容已发生变化，请刷新后重试');
+        return;
+      }
+      const version = await writeFileContent(node, updated);
+      indexDocument(contentIndexRef.current, node.path, node.name, updated);
+      touchContentIndex();
+      if (selectedFile?.path === node.path) {
+        fileVersionRef.current = version;
+        setFileContent(updated);
+      }
+    } catch (e: any) {
+      console.error('更新任务失败', e);
+      alert('更新任务失败: ' + e.message);
+    }
+  }, [rootNode, selectedFile]);
+
+  const handleSelectTag = (tag: string) => {
+    if (currentView !== 'tag' && !confirmLeave()) return;
+    setActiveTag(tag);
+    setCurrentView('tag');
+  };
+
+  const handleOpenGraphNode = (path: string) => {
+    if (!rootNode) return;
+    const node = findNodeByPath(rootNode, path);
+    if (node) handleSelectFile(node);
+  };
+
+  const handleLinkMention = async (mention: LinkMention) => {
+    if (!rootNode || !selectedFile) return;
+    const sourceNode = findNodeByPath(rootNode, mention.sourcePath);
+    if (!sourceNode) return;
+
+    // 同名笔记存在歧义时使用完整路径作为链接目标
+    const title = selectedFile.name.replace(/\.md$/, '');
+    const resolve = createLinkResolver(rootNode);
+    const linkTarget = resolve(title)?.path === selectedFile.path ? title : selectedFile.path.replace(/\.md$/, '');
+
+    try {
+      const content = await readFileContent(sourceNode);
+      const updated = linkMentionInContent(content, mention, linkTarget);
+      if (updated === null) {
+        alert('文档内容已发生变化，请刷新后重试');
+        return;
+      }
+      await writeFileContent(sourceNode, updated);
+      indexDocument(contentIndexRef.current, sourceNode.path, sourceNode.name, updated);
+      touchContentIndex();
+    } catch (e: any) {
+      console.error(e);
+      alert('创建链接失败: ' + e.message);
+    }
+  };
+
+  const handleLinkClick = async (href: string) => {
     if (!href.startsWith('wikilink:')) return;
     const rawTarget = href.replace('wikilink:', '');
-    const targetName = decodeURIComponent(rawTarget);
-    
+    const { name: targetName, subpath } = splitLinkTarget(decodeURIComponent(rawTarget));
+
+    // [[#Heading]] 指向当前文档
+    if (!targetName) {
+      if (subpath) setScrollTarget({ anchor: subpath });
+      return;
+    }
+
     if (rootNode && rootNode.children) {
       const targetNode = findNodeByName(rootNode.children, targetName);
       if (targetNode) {
-        handleSelectFile(targetNode);
+        if (targetNode.path !== selectedFile?.path && !(await handleSelectFile(targetNode))) return;
+        if (subpath) setScrollTarget({ anchor: subpath });
       } else {
         alert(`未找到文档: ${targetName}`);
       }
     }
   };
 
-  const handleResolveImage = async (imageName: string): Promise<string | null> => {
+  // 嵌入 ![[Note]] 与悬停预览共用；内容经 noteCache 读取，
+  // 依赖 indexVersion，使被引用的笔记保存后嵌入与预览随之刷新
+  const handleResolveNote = useCallback(async (targetName: string): Promise<ResolvedNote | null> => {
+    if (!rootNode || !rootNode.children) return null;
+    const targetNode = targetName ? findNodeByName(rootNode.children, targetName) : selectedFile;
+    if (!targetNode || targetNode.kind !== FileType.FILE) return null;
+
+    const content = await noteCacheRef.current.read(targetNode);
+    return { path: targetNode.path, name: targetNode.name, content };
+  }, [rootNode, selectedFile, indexVersion]);
+
+  // 附件读取为对象 URL；按扩展名补全 MIME 类型，使 SVG、PDF 与音视频正确显示
+  const createFileUrl = async (node: FileSystemNode) => {
+    let blob = await readFileBlob(node);
+    const type = getMimeType(node.name);
+    if (type !== 'application/octet-stream' && blob.type !== type) blob = new Blob([blob], { type });
+    return URL.createObjectURL(blob);
+  };
+
+  const handleResolveFile = async (fileName: string): Promise<string | null> => {
     if (!rootNode || !rootNode.children) return null;
-    const targetName = decodeURIComponent(imageName);
+    const targetName = decodeURIComponent(fileName);
     const targetNode = findNodeByName(rootNode.children, targetName, true);
 
     if (!targetNode) {
-        console.warn(`Image node not found: ${targetName}`);
+        console.warn(`File node not found: ${targetName}`);
         return null;
     }
 
     try {
-      if (targetNode.handle) {
-        const file = await targetNode.handle.getFile();
-        return URL.createObjectURL(file);
-      } else {
-        // Mock Mode Image
-        if (targetNode.content) {
-            // If we supported image uploads in mock mode, it would be base64 here
-        }
-        
-        const cleanPath = targetNode.path.startsWith('/') ? targetNode.path.slice(1) : targetNode.path;
-        const url = `vault/${encodeURI(cleanPath)}`;
-        const response = await fetch(url);
-        if (!response.ok) throw new Error(`Image fetch failed: ${response.status}`);
-        let blob = await response.blob();
-        if (targetName.toLowerCase().endsWith('.svg') && !blob.type.includes('svg')) {
-            blob = new Blob([blob], { type: 'image/svg+xml' });
-        }
-        return URL.createObjectURL(blob);
-      }
+      return await createFileUrl(targetNode);
     } catch (e) {
-      console.error('加载图片失败', e);
+      console.error('加载附件失败', e);
       return null;
     }
   };
 
+  // 仓库在应用外被修改：刷新目录树与索引，未编辑的当前笔记重新加载
+  const handleExternalChanges = async (changes: VaultChanges) => {
+    if (!rootNode) return;
+    const root = rootNode;
+    if (changes.added.length > 0 || changes.removed.length > 0) {
+      // 重新读取已加载且有条目增删的文件夹；新出现的子文件夹交给后台加载
+      const parents = new Set([...changes.added, ...changes.removed].map(path => path.slice(0, Math.max(path.lastIndexOf('/'), 0))));
+      for (const path of parents) {
+        const dir = findNodeByPath(root, path);
+        if (!dir || dir.kind !== FileType.DIRECTORY || dir.isLoaded === false) continue;
+        dir.isLoaded = false;
+        await crawlerRef.current?.load(dir);
+      }
+      if (currentVaultId && crawlerRef.current) crawlVault(currentVaultId, crawlerRef.current);
+      refreshRoot();
+    }
+
+    changes.removed.forEach(path => removeDocuments(contentIndexRef.current, path));
+    for (const path of [...changes.added, ...changes.modified]) {
+      const node = findNodeByPath(root, path);
+      if (!node || node.kind !== FileType.FILE || !isMarkdownFile(node)) continue;
+      try {
+        const content = await readFileContent(node);
+        indexDocument(contentIndexRef.current, node.path, node.name, content);
+      } catch (e) {
+        console.error('更新索引失败', path, e);
+      }
+    }
+    touchContentIndex();
+
+    const current = selectedFileRef.current;
+    if (!current) return;
+    const node = findNodeByPath(root, current.path);
+    if (!node) {
+      if (isDirtyRef.current) {
+        alert(`「${current.name}」已在外部被删除或移动，保存前请先复制未保存的内容`);
+        return;
+      }
+      alert(`「${current.name}」已在外部被删除或移动`);
+      setSelectedFile(null);
+      setFileContent('');
+      fileVersionRef.current = null;
+      return;
+    }
+    if (node !== current) setSelectedFile(node);
+    // 编辑中的笔记保留修改，保存时再进行冲突检测
+    if (changes.modified.includes(current.path) && !isDirtyRef.current) {
+      try {
+        const { content, version } = await readFileWithVersion(node);
+        if (selectedFileRef.current?.path !== node.path || isDirtyRef.current) return;
+        fileVersionRef.current = version;
+        setFileContent(content);
+      } catch (e) {
+        console.error('重新加载笔记失败', e);
+      }
+    }
+  };
+
+  // 监听器只在仓库切换时重建，回调通过 ref 读取最新状态
+  const externalChangeRef = useRef(handleExternalChanges);
+  externalChangeRef.current = handleExternalChanges;
+
+  useEffect(() => {
+    const handle = rootNode?.handle;
+    if (!handle) return;
+    const watcher = createVaultWatcher(
+      handle,
+      () => rootNodeRef.current,
+      () => selectedFileRef.current?.path ?? null,
+      (changes) => externalChangeRef.current(changes)
+    );
+    return () => watcher.stop();
+  }, [rootNode?.handle]);
+
   useEffect(() => {
     const handleResize = () => {
       if (window.innerWidth >= 768) {
@@ -307,6 +1316,7 @@ const App: React.FC = () => {
   }, []);
 
   if (!rootNode) {
+    const recentVaults = getVaultHistory().slice(0, RECENT_VAULT_LIMIT);
     return (
       <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center p-4">
         <div className="max-w-md w-full bg-white rounded-xl shadow-lg p-8 text-center border border-gray-100">
@@ -337,6 +1347,29 @@ const App: React.FC = () => {
             </button>
           </div>
 
+          {recentVaults.length > 0 && (
+            <div className="mt-6 text-left">
+              <div className="text-xs font-medium text-gray-400 mb-2 px-1">最近打开</div>
+              <ul className="border border-gray-100 rounded-lg divide-y divide-gray-100 overflow-hidden">
+                {recentVaults.map(vault => (
+                  <li key={vault.id}>
+                    <button
+                      onClick={() => handleReopenVault(vault)}
+                      disabled={isLoading}
+                      className="w-full flex items-center px-3 py-2.5 hover:bg-gray-50 transition-colors text-left disabled:opacity-50"
+                    >
+                      {vault.type === 'mock'
+                        ? <Box size={16} className="mr-3 text-gray-400 shrink-0" />
+                        : <FolderOpen size={16} className="mr-3 text-gray-400 shrink-0" />}
+                      <span className="flex-1 min-w-0 truncate text-sm text-gray-700">{vault.name}</span>
+                      <span className="ml-3 text-xs text-gray-400 shrink-0">{new Date(vault.lastAccessed).toLocaleDateString()}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {errorMsg && (
             <div className="mt-4 p-3 bg-red-50 text-red-600 text-sm rounded-md text-left">
               {errorMsg}
@@ -372,12 +1405,31 @@ const App: React.FC = () => {
           rootNode={rootNode} 
           selectedFile={selectedFile} 
           onSelectFile={handleSelectFile}
-          onOpenSettings={() => setCurrentView('settings')}
+          onLoadFolder={handleLoadFolder}
+          onOpenSettings={() => openView('settings')}
+          onOpenGraph={() => openView('graph')}
+          onOpenTasks={() => openView('tasks')}
+          onOpenTrash={handleOpenTrash}
           hiddenPaths={settings.attachmentPath ? [settings.attachmentPath] : []}
           onCreateFile={handleCreateFile}
           onCreateFolder={handleCreateFolder}
           onDeleteNode={handleDeleteNode}
           onRenameNode={handleRenameNode}
+          onMoveNode={handleMoveNode}
+          onBulkMove={handleBulkMove}
+          onBulkDelete={handleBulkDelete}
+          onBulkTag={handleBulkTag}
+          onBulkExport={handleBulkExport}
+          onExportDocument={handleExportDocument}
+          onImportYuque={handleImportYuque}
+          onPublishSite={handleOpenSiteExport}
+          onSearchContent={handleSearchContent}
+          onOpenSearchResult={handleOpenPathAt}
+          searchVersion={indexVersion}
+          isIndexing={isIndexing}
+          tagTree={tagTree}
+          activeTag={currentView === 'tag' ? activeTag : null}
+          onSelectTag={handleSelectTag}
         />
       </div>
 
@@ -404,18 +1456,131 @@ const App: React.FC = () => {
             }}
             onBack={() => setCurrentView('reader')}
             currentVaultId={currentVaultId || undefined}
+            onOpenVault={handleReopenVault}
+          />
+        ) : currentView === 'tag' && activeTag ? (
+          <TagNotesView
+            tag={activeTag}
+            notes={taggedNotes}
+            onOpen={handleOpenPathAt}
+            onSelectTag={handleSelectTag}
+            onBack={() => setCurrentView('reader')}
+          />
+        ) : currentView === 'trash' ? (
+          <TrashView
+            entries={trashEntries}
+            onRestore={handleRestoreTrash}
+            onPurge={handlePurgeTrash}
+            onEmpty={handleEmptyTrash}
+            onBack={() => setCurrentView('reader')}
+          />
+        ) : currentView === 'tasks' ? (
+          <TasksView
+            tasks={allTasks}
+            onOpen={handleOpenPathAt}
+            onToggle={handleToggleTask}
+            onBack={() => setCurrentView('reader')}
+          />
+        ) : currentView === 'graph' && graphData ? (
+          <GraphView
+            data={graphData}
+            selectedPath={selectedFile?.path}
+            onOpenNode={handleOpenGraphNode}
+            onBack={() => setCurrentView('reader')}
+          />
+        ) : selectedFile && !isMarkdownFile(selectedFile) ? (
+          <FileView
+            file={selectedFile}
+            content={fileContent}
+            onLoadUrl={createFileUrl}
+            renderMarkdown={(markdown) => (
+              <MarkdownContent
+                markdown={markdown}
+                onLinkClick={handleLinkClick}
+                onTagClick={handleSelectTag}
+                onResolveFile={handleResolveFile}
+                onResolveNote={handleResolveNote}
+                onRunQuery={handleRunQuery}
+                onOpenPath={handleOpenPathAt}
+                currentPath={selectedFile.path}
+              />
+            )}
           />
         ) : (
           <MarkdownViewer 
              content={fileContent} 
              fileName={selectedFile?.name || ''} 
              onLinkClick={handleLinkClick}
-             onResolveImage={handleResolveImage}
+             onTagClick={handleSelectTag}
+             onResolveFile={handleResolveFile}
+             onResolveNote={handleResolveNote}
+             onRunQuery={handleRunQuery}
+             onOpenPath={handleOpenPathAt}
+             onToggleTask={handleToggleTask}
+             linkSuggestions={linkSuggestions}
+             onSaveImage={handleSaveImage}
+             filePath={selectedFile?.path}
              onSave={handleSaveFile}
+             onDirtyChange={(dirty) => { isDirtyRef.current = dirty; }}
+             draftKey={selectedFile && currentVaultId ? draftKeyFor(currentVaultId, selectedFile.path) : undefined}
+             onShowHistory={selectedFile && isMarkdownFile(selectedFile) ? () => setIsHistoryOpen(true) : undefined}
+             onExport={selectedFile && isMarkdownFile(selectedFile) ? (format) => handleExportDocument(selectedFile, format) : undefined}
              isEditable={!!selectedFile && selectedFile.kind === FileType.FILE}
+             scrollTarget={scrollTarget}
+             footer={selectedFile && (
+               <BacklinksPanel
+                 backlinks={backlinks}
+                 mentions={unlinkedMentions}
+                 onOpen={handleOpenPathAt}
+                 onLinkMention={handleLinkMention}
+               />
+             )}
            />
         )}
       </div>
+
+      {isHistoryOpen && selectedFile && (
+        <HistoryDialog
+          path={selectedFile.path}
+          fileName={selectedFile.name}
+          currentContent={fileContent}
+          onRestore={async (content) => (await handleSaveFile(content, 'restore')) !== null}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {conflictPrompt && (
+        <ConflictDialog
+          path={conflictPrompt.path}
+          base={conflictPrompt.base}
+          mine={conflictPrompt.mine}
+          theirs={conflictPrompt.theirs}
+          onDecide={(decision) => {
+            conflictPrompt.resolve(decision);
+            setConflictPrompt(null);
+          }}
+        />
+      )}
+
+      {rewritePrompt && (
+        <LinkRewriteDialog
+          plan={rewritePrompt.plan}
+          onDecide={(decision) => {
+            rewritePrompt.resolve(decision);
+            setRewritePrompt(null);
+          }}
+        />
+      )}
+
+      {isSiteExportOpen && rootNode && (
+        <SiteExportDialog
+          root={rootNode}
+          onExport={handleExportSite}
+          onClose={() => setIsSiteExportOpen(false)}
+        />
+      )}
+
+      {bulkProgress && <BulkProgressToast progress={bulkProgress} />}
     </div>
   );
 };
@@ -0,0 +1,196 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { ZoomIn, ZoomOut, Maximize2, X, Music, File, Download } from 'lucide-react';
+import { getFileKind } from '../services/fileTypes';
+
+/**
+ * 附件查看器：图片 (可缩放)、PDF、音频与视频
+ *
+ * 阅读区 (page) 与笔记嵌入 (embed) 共用；嵌入的图片点击后在全屏浮层中缩放查看。
+ */
+
+const ZOOM_STEPS = [0.1, 0.25, 0.5, 0.75, 1, 1.5, 2, 3, 4, 6, 8];
+
+interface AttachmentViewerProps {
+  name: string;
+  url: string;
+  variant: 'page' | 'embed';
+  alt?: string;
+}
+
+const ZoomableImage = ({ url, name }: { url: string; name: string }) => {
+  const [scale, setScale] = useState<number | null>(null); // null 表示适应窗口
+  const containerRef = useRef<HTMLDivElement>(null);
+  const imgRef = useRef<HTMLImageElement>(null);
+
+  const currentScale = () => {
+    if (scale !== null) return scale;
+    const img = imgRef.current;
+    return img && img.naturalWidth ? img.clientWidth / img.naturalWidth : 1;
+  };
+
+  const zoom = (direction: 1 | -1) => {
+    const current = currentScale();
+    const next = direction > 0
+      ? ZOOM_STEPS.find(step => step > current + 0.01)
+      : [...ZOOM_STEPS].reverse().find(step => step < current - 0.01);
+    setScale(next ?? (direction > 0 ? ZOOM_STEPS[ZOOM_STEPS.length - 1] : ZOOM_STEPS[0]));
+  };
+  const zoomRef = useRef(zoom);
+  zoomRef.current = zoom;
+
+  // Ctrl/Cmd + 滚轮缩放；React 的 wheel 监听是 passive，无法阻止页面缩放
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      zoomRef.current(e.deltaY < 0 ? 1 : -1);
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const naturalWidth = imgRef.current?.naturalWidth || 0;
+
+  return (
+    <div className="relative w-full h-full">
+      <div ref={containerRef} className="w-full h-full overflow-auto flex">
+        <img
+          ref={imgRef}
+          src={url}
+          alt={name}
+          onDoubleClick={() => setScale(scale === null ? 1 : null)}
+          className={scale === null ? 'm-auto max-w-full max-h-full object-contain' : 'm-auto max-w-none'}
+          style={scale === null || !naturalWidth ? undefined : { width: naturalWidth * scale }}
+        />
+      </div>
+      <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-1 bg-white/90 border border-gray-200 rounded-full shadow-sm px-2 py-1 text-xs text-gray-600">
+        <button onClick={() => zoom(-1)} className="p-1.5 hover:bg-gray-100 rounded-full" title="缩小">
+          <ZoomOut size={14} />
+        </button>
+        <span className="w-12 text-center tabular-nums">{scale === null ? '适应' : `${Math.round(scale * 100)}%`}</span>
+        <button onClick={() => zoom(1)} className="p-1.5 hover:bg-gray-100 rounded-full" title="放大">
+          <ZoomIn size={14} />
+        </button>
+        <button onClick={() => setScale(scale === null ? 1 : null)} className="p-1.5 hover:bg-gray-100 rounded-full" title={scale === null ? '原始大小' : '适应窗口'}>
+          <Maximize2 size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// 嵌入的图片：点击在全屏浮层中缩放查看
+const ImageEmbed = ({ url, name, alt }: { url: string; name: string; alt?: string }) => {
+  const [isZoomed, setIsZoomed] = useState(false);
+
+  useEffect(() => {
+    if (!isZoomed) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsZoomed(false);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [isZoomed]);
+
+  return (
+    <>
+      <img
+        src={url}
+        alt={alt || name}
+        onClick={() => setIsZoomed(true)}
+        className="max-w-full h-auto rounded shadow-sm border border-gray-100 mx-auto my-4 cursor-zoom-in"
+      />
+      {isZoomed && createPortal(
+        <div className="fixed inset-0 z-50 bg-black/80 animate-fade-in">
+          <ZoomableImage url={url} name={name} />
+          <button
+            onClick={() => setIsZoomed(false)}
+            className="absolute top-4 right-4 p-2 text-white/80 hover:text-white hover:bg-white/10 rounded-full"
+            title="关闭"
+          >
+            <X size={20} />
+          </button>
+        </div>,
+        document.body
+      )}
+    </>
+  );
+};
+
+const AttachmentViewer: React.FC<AttachmentViewerProps> = ({ name, url, variant, alt }) => {
+  const kind = getFileKind(name);
+  const isPage = variant === 'page';
+
+  if (kind === 'image') {
+    return isPage
+      ? <div className="w-full h-full bg-gray-50"><ZoomableImage url={url} name={name} /></div>
+      : <ImageEmbed url={url} name={name} alt={alt} />;
+  }
+
+  if (kind === 'pdf') {
+    return (
+      <iframe
+        src={url}
+        title={name}
+        className={isPage ? 'w-full h-full border-0' : 'w-full h-[600px] my-4 rounded-lg border border-gray-200'}
+      />
+    );
+  }
+
+  if (kind === 'audio') {
+    const player = <audio controls src={url} className="w-full" />;
+    if (!isPage) return <div className="my-4">{player}</div>;
+    return (
+      <div className="w-full h-full flex items-center justify-center p-8">
+        <div className="w-full max-w-lg bg-white border border-gray-100 rounded-xl shadow-sm p-6">
+          <div className="flex items-center text-sm text-gray-700 mb-4">
+            <Music size={18} className="mr-2 text-[#00b96b] shrink-0" />
+            <span className="truncate font-medium">{name}</span>
+          </div>
+          {player}
+        </div>
+      </div>
+    );
+  }
+
+  if (kind === 'video') {
+    return isPage ? (
+      <div className="w-full h-full flex items-center justify-center bg-black">
+        <video controls src={url} className="max-w-full max-h-full" />
+      </div>
+    ) : (
+      <video controls src={url} className="max-w-full rounded-lg my-4 mx-auto" />
+    );
+  }
+
+  // 无法预览的类型提供下载
+  const download = (
+    <a
+      href={url}
+      download={name}
+      className="inline-flex items-center px-3 py-1.5 text-xs text-gray-600 bg-white border border-gray-200 rounded-md hover:text-[#00b96b] hover:border-[#00b96b] transition-colors"
+    >
+      <Download size={12} className="mr-1.5" /> 下载
+    </a>
+  );
+  if (!isPage) {
+    return (
+      <span className="inline-flex items-center gap-3 my-2 px-3 py-2 bg-gray-50 border border-gray-100 rounded-lg text-sm text-gray-600">
+        <File size={14} className="text-gray-400" /> {name} {download}
+      </span>
+    );
+  }
+  return (
+    <div className="w-full h-full flex flex-col items-center justify-center text-gray-400 gap-3">
+      <File size={40} />
+      <div className="text-sm text-gray-600">{name}</div>
+      <div className="text-xs">无法预览此类型的文件</div>
+      {download}
+    </div>
+  );
+};
+
+export default AttachmentViewer;
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { Link2, ChevronDown, ChevronRight, FileText, Unlink } from 'lucide-react';
+import { LinkReference, LinkMention } from '../types';
+
+interface BacklinksPanelProps {
+  backlinks: LinkReference[];
+  mentions: LinkMention[];
+  onOpen: (path: string, line?: number) => void;
+  onLinkMention: (mention: LinkMention) => Promise<void>;
+}
+
+// 按来源文档分组，保持首次出现的顺序
+const groupBySource = <T extends { sourcePath: string }>(items: T[]): [string, T[]][] => {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    if (!groups.has(item.sourcePath)) groups.set(item.sourcePath, []);
+    groups.get(item.sourcePath)!.push(item);
+  }
+  return Array.from(groups.entries());
+};
+
+const displayName = (path: string) => (path.split('/').pop() || path).replace(/\.md$/, '');
+
+const BacklinksPanel: React.FC<BacklinksPanelProps> = ({ backlinks, mentions, onOpen, onLinkMention }) => {
+  const [isLinkedOpen, setIsLinkedOpen] = useState(true);
+  const [isMentionsOpen, setIsMentionsOpen] = useState(false);
+  const [pendingKey, setPendingKey] = useState<string | null>(null);
+
+  const handleLink = async (mention: LinkMention) => {
+    const key = `${mention.sourcePath}:${mention.line}:${mention.column}`;
+    setPendingKey(key);
+    try {
+      await onLinkMention(mention);
+    } finally {
+      setPendingKey(null);
+    }
+  };
+
+  const SectionHeader = ({ open, onToggle, icon: Icon, label, count }: { open: boolean, onToggle: () => void, icon: any, label: string, count: number }) => (
+    <button
+      onClick={onToggle}
+      className="w-full flex items-center py-2 text-sm font-semibold text-gray-600 hover:text-[#262626] transition-colors"
+    >
+      {open ? <ChevronDown size={14} className="mr-1 text-gray-400" /> : <ChevronRight size={14} className="mr-1 text-gray-400" />}
+      <Icon size={14} className="mr-2 text-[#00b96b]" />
+      {label}
+      <span className="ml-2 text-xs font-normal text-gray-400 bg-gray-100 px-1.5 py-0.5 rounded">{count}</span>
+    </button>
+  );
+
+  return (
+    <div className="mt-16 pt-6 border-t border-gray-100 space-y-4">
+      <div>
+        <SectionHeader open={isLinkedOpen} onToggle={() => setIsLinkedOpen(!isLinkedOpen)} icon={Link2} label="反向链接" count={backlinks.length} />
+        {isLinkedOpen && (
+          backlinks.length === 0 ? (
+            <div className="pl-6 py-2 text-xs text-gray-400">暂无其他文档链接到此处</div>
+          ) : (
+            <div className="space-y-2 mt-1">
+              {groupBySource(backlinks).map(([sourcePath, links]) => (
+                <div key={sourcePath} className="bg-gray-50 rounded-lg border border-gray-100 overflow-hidden">
+                  <div
+                    className="flex items-center px-3 py-2 text-sm font-medium text-[#262626] cursor-pointer hover:text-[#00b96b]"
+                    onClick={() => onOpen(sourcePath)}
+                    title={sourcePath}
+                  >
+                    <FileText size={14} className="mr-2 text-gray-400 shrink-0" />
+                    <span className="truncate">{displayName(sourcePath)}</span>
+                  </div>
+                  {links.map((link) => (
+                    <div
+                      key={`${link.line}:${link.column}`}
+                      className="px-3 py-1.5 pl-9 text-xs text-[#585a5a] leading-5 border-t border-gray-100 cursor-pointer hover:bg-white break-all"
+                      onClick={() => onOpen(sourcePath, link.line)}
+                    >
+                      {link.context}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )
+        )}
+      </div>
+
+      <div>
+        <SectionHeader open={isMentionsOpen} onToggle={() => setIsMentionsOpen(!isMentionsOpen)} icon={Unlink} label="未链接的提及" count={mentions.length} />
+        {isMentionsOpen && (
+          mentions.length === 0 ? (
+            <div className="pl-6 py-2 text-xs text-gray-400">没有找到未链接的提及</div>
+          ) : (
+            <div className="space-y-2 mt-1">
+              {groupBySource(mentions).map(([sourcePath, items]) => (
+                <div key={sourcePath} className="bg-gray-50 rounded-lg border border-gray-100 overflow-hidden">
+                  <div
+                    className="flex items-center px-3 py-2 text-sm font-medium text-[#262626] cursor-pointer hover:text-[#00b96b]"
+                    onClick={() => onOpen(sourcePath)}
+                    title={sourcePath}
+                  >
+                    <FileText size={14} className="mr-2 text-gray-400 shrink-0" />
+                    <span className="truncate">{displayName(sourcePath)}</span>
+                  </div>
+                  {items.map((mention) => {
+                    const key = `${mention.sourcePath}:${mention.line}:${mention.column}`;
+                    return (
+                      <div key={key} className="flex items-start gap-2 px-3 py-1.5 pl-9 border-t border-gray-100 group/mention">
+                        <div
+                          className="flex-1 text-xs text-[#585a5a] leading-5 cursor-pointer hover:text-[#262626] break-all"
+                          onClick={() => onOpen(sourcePath, mention.line)}
+                        >
+                          {mention.context}
+                        </div>
+                        <button
+                          onClick={() => handleLink(mention)}
+                          disabled={pendingKey !== null}
+                          className="shrink-0 text-xs px-2 py-0.5 rounded border border-[#00b96b] text-[#00b96b] bg-white hover:bg-green-50 transition-colors disabled:opacity-50"
+                        >
+                          {pendingKey === key ? '处理中...' : '链接'}
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BacklinksPanel;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+
+export interface BulkProgress {
+  label: string;
+  done: number;
+  total: number;
+}
+
+const BulkProgressToast: React.FC<{ progress: BulkProgress }> = ({ progress }) => {
+  const percent = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 100;
+  return (
+    <div className="fixed bottom-6 right-6 z-50 w-72 bg-white border border-gray-100 rounded-lg shadow-lg p-4 animate-fade-in">
+      <div className="flex items-center text-sm text-gray-700">
+        <Loader2 size={16} className="mr-2 animate-spin text-[#00b96b]" />
+        <span className="font-medium">正在{progress.label}</span>
+        <span className="ml-auto text-xs text-gray-400">{progress.done} / {progress.total}</span>
+      </div>
+      <div className="mt-3 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+        <div className="h-full bg-[#00b96b] transition-all" style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+};
+
+export default BulkProgressToast;
@@ -0,0 +1,274 @@
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
+import { Maximize2, ExternalLink, AlertTriangle } from 'lucide-react';
+import { parseCanvas, canvasBounds, canvasColor, edgeGeometry, CanvasData, CanvasNode } from '../services/canvas';
+
+/**
+ * JSON Canvas 只读渲染
+ *
+ * 拖动平移，Ctrl/Cmd + 滚轮缩放。文本节点与文件节点的内容由 renderMarkdown 渲染，
+ * 文件节点以 ![[文件]] 嵌入，与笔记中的嵌入使用同一套查看器。
+ */
+
+interface CanvasViewProps {
+  content: string;
+  renderMarkdown: (markdown: string) => React.ReactNode;
+  variant?: 'page' | 'embed';
+}
+
+const PADDING = 40;
+const MIN_SCALE = 0.1;
+const MAX_SCALE = 4;
+
+interface Viewport {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+const CanvasNodeCard = ({ node, renderMarkdown }: { node: CanvasNode; renderMarkdown: CanvasViewProps['renderMarkdown'] }) => {
+  const color = canvasColor(node.color);
+  const style: React.CSSProperties = {
+    left: node.x,
+    top: node.y,
+    width: node.width,
+    height: node.height,
+    borderColor: color,
+  };
+
+  if (node.type === 'group') {
+    return (
+      <div
+        className="absolute rounded-xl border-2 border-gray-300"
+        style={{ ...style, backgroundColor: color ? `${color}14` : 'rgba(0,0,0,0.02)' }}
+      >
+        {node.label && (
+          <div className="absolute -top-7 left-0 px-2 py-0.5 text-sm font-medium text-gray-600 bg-gray-100 rounded" style={{ backgroundColor: color ? `${color}33` : undefined }}>
+            {node.label}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  let body: React.ReactNode = null;
+  if (node.type === 'text') {
+    body = <div className="p-4">{renderMarkdown(node.text || '')}</div>;
+  } else if (node.type === 'file' && node.file) {
+    body = <div className="p-4">{renderMarkdown(`![[${node.file}${node.subpath || ''}]]`)}</div>;
+  } else if (node.type === 'link' && node.url) {
+    body = (
+      <a
+        href={node.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex h-full items-center justify-center gap-2 p-4 text-sm text-[#00b96b] hover:underline break-all"
+      >
+        <ExternalLink size={14} className="shrink-0" /> {node.url}
+      </a>
+    );
+  }
+
+  return (
+    // 节点内可选择文本、点击链接与播放媒体，只有空白处与分组可拖动画布
+    <div
+      className="absolute bg-white rounded-lg border-2 border-gray-200 shadow-sm overflow-auto select-text cursor-auto"
+      style={style}
+      onPointerDown={e => e.stopPropagation()}
+      data-canvas-node
+    >
+      {body}
+    </div>
+  );
+};
+
+const CanvasEdges = ({ data }: { data: CanvasData }) => {
+  const markerPrefix = useId();
+  const nodesById = useMemo(() => new Map(data.nodes.map(node => [node.id, node])), [data.nodes]);
+  const bounds = canvasBounds(data.nodes);
+
+  return (
+    <svg
+      className="absolute overflow-visible pointer-events-none"
+      style={{ left: bounds.x, top: bounds.y, width: bounds.width, height: bounds.height }}
+      viewBox={`${bounds.x} ${bounds.y} ${bounds.width || 1} ${bounds.height || 1}`}
+    >
+      {data.edges.map((edge, index) => {
+        const geometry = edgeGeometry(edge, nodesById.get(edge.fromNode)!, nodesById.get(edge.toNode)!);
+        const color = canvasColor(edge.color) || '#9ca3af';
+        // 箭头颜色随连线，每条连线一个 marker
+        const markerId = `${markerPrefix}-arrow-${index}`;
+        return (
+          <g key={edge.id}>
+            <defs>
+              <marker id={markerId} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="12" markerHeight="12" orient="auto-start-reverse" markerUnits="userSpaceOnUse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+              </marker>
+            </defs>
+            <path
+              d={geometry.path}
+              fill="none"
+              stroke={color}
+              strokeWidth={2}
+              markerStart={edge.fromEnd === 'arrow' ? `url(#${markerId})` : undefined}
+              markerEnd={(edge.toEnd || 'arrow') === 'arrow' ? `url(#${markerId})` : undefined}
+            />
+            {edge.label && (
+              <text
+                x={geometry.middle.x}
+                y={geometry.middle.y}
+                textAnchor="middle"
+                dominantBaseline="middle"
+                className="text-sm"
+                fill="#4b5563"
+                stroke="#f9fafb"
+                strokeWidth={4}
+                paintOrder="stroke"
+              >
+                {edge.label}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+const CanvasView: React.FC<CanvasViewProps> = ({ content, renderMarkdown, variant = 'page' }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [viewport, setViewport] = useState<Viewport>({ x: 0, y: 0, scale: 1 });
+
+  const parsed = useMemo(() => {
+    try {
+      return { data: parseCanvas(content), error: null };
+    } catch (e) {
+      console.error('解析画布失败', e);
+      return { data: null, error: '画布文件格式无效' };
+    }
+  }, [content]);
+  const data = parsed.data;
+
+  const fitToView = () => {
+    const container = containerRef.current;
+    if (!container || !data) return;
+    const bounds = canvasBounds(data.nodes);
+    const width = container.clientWidth;
+    const height = container.clientHeight;
+    if (!bounds.width || !bounds.height) {
+      setViewport({ x: width / 2, y: height / 2, scale: 1 });
+      return;
+    }
+    const scale = clampScale(Math.min(1, (width - PADDING * 2) / bounds.width, (height - PADDING * 2) / bounds.height));
+    setViewport({
+      x: (width - bounds.width * scale) / 2 - bounds.x * scale,
+      y: (height - bounds.height * scale) / 2 - bounds.y * scale,
+      scale,
+    });
+  };
+  const fitRef = useRef(fitToView);
+  fitRef.current = fitToView;
+
+  useEffect(() => {
+    fitRef.current();
+  }, [data]);
+
+  // 以指针位置为中心缩放
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) {
+        // 节点内容自身滚动；嵌入时滚轮留给页面
+        if (variant === 'embed' || (e.target as Element).closest('[data-canvas-node]')) return;
+        e.preventDefault();
+        setViewport(prev => ({ ...prev, x: prev.x - e.deltaX, y: prev.y - e.deltaY }));
+        return;
+      }
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      const pointerX = e.clientX - rect.left;
+      const pointerY = e.clientY - rect.top;
+      setViewport(prev => {
+        const scale = clampScale(prev.scale * Math.exp(-e.deltaY * 0.002));
+        const ratio = scale / prev.scale;
+        return { scale, x: pointerX - (pointerX - prev.x) * ratio, y: pointerY - (pointerY - prev.y) * ratio };
+      });
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [variant, !!data]);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const last = dragRef.current;
+    if (!last) return;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    setViewport(prev => ({ ...prev, x: prev.x + e.clientX - last.x, y: prev.y + e.clientY - last.y }));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const frameClass = variant === 'page'
+    ? 'relative w-full h-full overflow-hidden bg-gray-50'
+    : 'relative w-full h-[500px] my-4 overflow-hidden bg-gray-50 rounded-lg border border-gray-200';
+
+  if (!data) {
+    return (
+      <div className={`${frameClass} flex flex-col items-center justify-center gap-2 text-sm text-gray-400`}>
+        <AlertTriangle size={24} />
+        {parsed.error}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className={`${frameClass} cursor-grab active:cursor-grabbing select-none`}
+      style={{
+        backgroundImage: 'radial-gradient(circle, #d1d5db 1px, transparent 1px)',
+        backgroundSize: `${20 * viewport.scale}px ${20 * viewport.scale}px`,
+        backgroundPosition: `${viewport.x}px ${viewport.y}px`,
+      }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <div
+        className="absolute left-0 top-0 origin-top-left"
+        style={{ transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.scale})` }}
+      >
+        {/* 分组在最下层，连线在分组之上、节点之下 */}
+        {data.nodes.filter(node => node.type === 'group').map(node => (
+          <CanvasNodeCard key={node.id} node={node} renderMarkdown={renderMarkdown} />
+        ))}
+        <CanvasEdges data={data} />
+        {data.nodes.filter(node => node.type !== 'group').map(node => (
+          <CanvasNodeCard key={node.id} node={node} renderMarkdown={renderMarkdown} />
+        ))}
+      </div>
+      {data.nodes.length === 0 && (
+        <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-400">空白画布</div>
+      )}
+      <div className="absolute bottom-3 right-3 flex items-center gap-1 bg-white/90 border border-gray-200 rounded-full shadow-sm px-2 py-1 text-xs text-gray-600" onPointerDown={e => e.stopPropagation()}>
+        <span className="w-10 text-center tabular-nums">{Math.round(viewport.scale * 100)}%</span>
+        <button onClick={fitToView} className="p-1.5 hover:bg-gray-100 rounded-full" title="适应窗口">
+          <Maximize2 size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CanvasView;
@@ -0,0 +1,136 @@
+import React, { useMemo, useState } from 'react';
+import { X, AlertTriangle, GitMerge, FileDiff } from 'lucide-react';
+import { splitLines, diffLines, toDiffRows, merge3, mergeResultToText } from '../services/diff';
+
+export type ConflictDecision =
+  | { action: 'save'; content: string }
+  | { action: 'theirs' }
+  | { action: 'cancel' };
+
+interface ConflictDialogProps {
+  path: string;
+  base: string; // 开始编辑时的磁盘内容 (共同祖先)
+  mine: string;
+  theirs: string; // 当前磁盘内容
+  onDecide: (decision: ConflictDecision) => void;
+}
+
+const CONFLICT_MARKER = /^(<<<<<<<|=======|>>>>>>>)( |$)/m;
+
+const ConflictDialog: React.FC<ConflictDialogProps> = ({ path, base, mine, theirs, onDecide }) => {
+  const merged = useMemo(() => merge3(splitLines(base), splitLines(mine), splitLines(theirs)), [base, mine, theirs]);
+  const [mergedText, setMergedText] = useState(() => mergeResultToText(merged));
+  const [tab, setTab] = useState<'merge' | 'diff'>('merge');
+
+  const diffRows = useMemo(() => toDiffRows(diffLines(splitLines(theirs), splitLines(mine))), [mine, theirs]);
+
+  const handleSaveMerged = () => {
+    if (CONFLICT_MARKER.test(mergedText) && !window.confirm('合并结果中仍有冲突标记，确定要保存吗？')) return;
+    onDecide({ action: 'save', content: mergedText });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl mx-4 overflow-hidden border border-gray-100 flex flex-col h-[85vh]">
+        <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between bg-gray-50 shrink-0">
+          <div className="flex items-center space-x-2 text-gray-800">
+            <AlertTriangle className="w-5 h-5 text-amber-500" />
+            <h2 className="text-lg font-bold">文件已在外部被修改</h2>
+          </div>
+          <button
+            onClick={() => onDecide({ action: 'cancel' })}
+            className="text-gray-400 hover:text-gray-600 hover:bg-gray-200 p-1 rounded-full transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-6 py-3 text-sm text-gray-600 border-b border-gray-100 shrink-0 flex items-center gap-4">
+          <span className="font-mono text-xs bg-gray-100 px-1.5 py-0.5 rounded truncate" title={path}>{path}</span>
+          <span className={merged.conflicts > 0 ? 'text-amber-600' : 'text-green-700'}>
+            {merged.conflicts > 0
+              ? `有 ${merged.conflicts} 处冲突，请在合并结果中处理冲突标记`
+              : '双方修改互不重叠，已自动合并'}
+          </span>
+          <div className="ml-auto flex bg-gray-100 rounded-lg p-0.5 shrink-0">
+            <button
+              onClick={() => setTab('merge')}
+              className={`flex items-center gap-1 px-3 py-1 rounded-md text-xs font-medium transition-colors ${tab === 'merge' ? 'bg-white text-[#262626] shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+            >
+              <GitMerge size={14} /> 合并结果
+            </button>
+            <button
+              onClick={() => setTab('diff')}
+              className={`flex items-center gap-1 px-3 py-1 rounded-md text-xs font-medium transition-colors ${tab === 'diff' ? 'bg-white text-[#262626] shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+            >
+              <FileDiff size={14} /> 差异对比
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 flex flex-col">
+          {tab === 'merge' ? (
+            <textarea
+              value={mergedText}
+              onChange={(e) => setMergedText(e.target.value)}
+              spellCheck={false}
+              className="flex-1 w-full resize-none px-6 py-4 font-mono text-sm text-[#262626] leading-relaxed focus:outline-none custom-scrollbar"
+            />
+          ) : (
+            <div className="flex-1 overflow-y-auto custom-scrollbar py-2 font-mono text-xs">
+              <div className="px-6 pb-2 text-gray-400 font-sans">
+                <span className="text-red-500">- 磁盘版本</span>
+                <span className="mx-2">/</span>
+                <span className="text-green-700">+ 我的修改</span>
+              </div>
+              {diffRows.map((row, idx) => (
+                <div
+                  key={idx}
+                  className={`px-6 py-px whitespace-pre-wrap break-all ${
+                    row.type === 'insert' ? 'bg-green-50 text-green-700'
+                    : row.type === 'delete' ? 'bg-red-50 text-red-600'
+                    : row.type === 'skip' ? 'text-gray-400 italic py-1'
+                    : 'text-gray-600'
+                  }`}
+                >
+                  {row.type === 'insert' ? '+ ' : row.type === 'delete' ? '- ' : row.type === 'skip' ? '' : '  '}
+                  {row.text}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 border-t border-gray-100 flex justify-end gap-3 shrink-0">
+          <button
+            onClick={() => onDecide({ action: 'cancel' })}
+            className="px-5 py-2.5 text-gray-600 hover:bg-gray-100 rounded-lg font-medium transition-colors text-sm mr-auto"
+          >
+            取消
+          </button>
+          <button
+            onClick={() => onDecide({ action: 'theirs' })}
+            className="px-5 py-2.5 border border-gray-300 text-gray-700 bg-white hover:bg-gray-100 rounded-lg font-medium transition-colors text-sm"
+          >
+            使用磁盘版本
+          </button>
+          <button
+            onClick={() => onDecide({ action: 'save', content: mine })}
+            className="px-5 py-2.5 border border-[#00b96b] text-[#00b96b] bg-white hover:bg-green-50 rounded-lg font-medium transition-colors text-sm"
+          >
+            使用我的版本
+          </button>
+          <button
+            onClick={handleSaveMerged}
+            className="flex items-center px-5 py-2.5 bg-[#00b96b] hover:bg-[#009456] text-white rounded-lg font-medium shadow-sm transition-colors text-sm"
+          >
+            <GitMerge size={16} className="mr-2" />
+            保存合并结果
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictDialog;
@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { Image, FileText, Music, Video, LayoutDashboard, File, Download, Loader2, AlertCircle } from 'lucide-react';
+import { FileSystemNode } from '../types';
+import { getExtension, getFileKind, FileKind } from '../services/fileTypes';
+import AttachmentViewer from './AttachmentViewer';
+import CanvasView from './CanvasView';
+
+/**
+ * 阅读区中的非 Markdown 文件：图片、PDF、音视频与画布
+ */
+
+interface FileViewProps {
+  file: FileSystemNode;
+  content: string; // 画布文件的文本内容
+  onLoadUrl: (file: FileSystemNode) => Promise<string>;
+  renderMarkdown: (markdown: string) => React.ReactNode; // 画布中的文本与文件节点
+}
+
+const KIND_ICONS: Record<FileKind, React.ElementType> = {
+  markdown: FileText,
+  image: Image,
+  pdf: FileText,
+  audio: Music,
+  video: Video,
+  canvas: LayoutDashboard,
+  other: File,
+};
+
+const FileView: React.FC<FileViewProps> = ({ file, content, onLoadUrl, renderMarkdown }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const kind = getFileKind(file.name);
+  const Icon = KIND_ICONS[kind];
+
+  useEffect(() => {
+    let active = true;
+    let objectUrl: string | null = null;
+    setUrl(null);
+    setError(null);
+    onLoadUrl(file)
+      .then(loaded => {
+        objectUrl = loaded;
+        if (active) setUrl(loaded);
+        else URL.revokeObjectURL(loaded);
+      })
+      .catch(e => {
+        console.error('读取文件失败', e);
+        if (active) setError(e.message || String(e));
+      });
+    return () => {
+      active = false;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [file]);
+
+  let body: React.ReactNode;
+  if (error) {
+    body = (
+      <div className="h-full flex items-center justify-center text-sm text-red-400">
+        <AlertCircle size={16} className="mr-2" /> 读取文件失败: {error}
+      </div>
+    );
+  } else if (kind === 'canvas') {
+    body = <CanvasView content={content} renderMarkdown={renderMarkdown} />;
+  } else if (!url) {
+    body = (
+      <div className="h-full flex items-center justify-center text-gray-400">
+        <Loader2 size={20} className="animate-spin" />
+      </div>
+    );
+  } else {
+    body = <AttachmentViewer name={file.name} url={url} variant="page" />;
+  }
+
+  return (
+    <div className="flex flex-col h-full overflow-hidden relative">
+      {/* Header */}
+      <div className="flex items-center justify-between px-8 py-4 border-b border-gray-100 bg-white shrink-0 z-10">
+        <div className="flex items-center gap-3 overflow-hidden">
+          <div className="p-2 bg-gray-100 rounded-lg text-gray-500">
+            <Icon size={20} />
+          </div>
+          <div className="flex flex-col overflow-hidden">
+            <h1 className="text-xl font-bold text-gray-800 truncate" title={file.name}>
+              {file.name}
+            </h1>
+            <div className="text-xs text-gray-400 truncate">
+              {getExtension(file.name).toUpperCase()} · {file.path}
+            </div>
+          </div>
+        </div>
+        {url && (
+          <a
+            href={url}
+            download={file.name}
+            className="p-2 text-gray-500 hover:bg-gray-100 hover:text-[#00b96b] rounded-lg transition-colors flex items-center gap-2 text-sm font-medium"
+            title="下载"
+          >
+            <Download size={16} />
+            <span className="hidden sm:inline">下载</span>
+          </a>
+        )}
+      </div>
+      <div className="flex-1 min-h-0">{body}</div>
+    </div>
+  );
+};
+
+export default FileView;
@@ -0,0 +1,415 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowLeft, Network, Locate } from 'lucide-react';
+import { GraphData, GraphFilter, OrphanFilter, filterGraph, listGraphFolders, listGraphTags } from '../services/graphData';
+import {
+  Simulation,
+  createSimulation,
+  tickSimulation,
+  isSimulationActive,
+  reheatSimulation,
+  findNodeAt
+} from '../services/graphLayout';
+
+interface GraphViewProps {
+  data: GraphData;
+  selectedPath?: string;
+  onOpenNode: (path: string) => void;
+  onBack: () => void;
+}
+
+interface ViewTransform {
+  x: number;
+  y: number;
+  k: number;
+}
+
+type DragState =
+  | { kind: 'node'; index: number; moved: boolean }
+  | { kind: 'pan'; startX: number; startY: number; originX: number; originY: number; moved: boolean };
+
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 5;
+const LABEL_ZOOM = 1.2; // 缩放超过该值时显示全部标签
+const SMALL_GRAPH = 150; // 节点数较少时始终显示标签
+
+const nodeRadius = (degree: number) => 3 + Math.min(Math.sqrt(degree) * 1.5, 9);
+
+const GraphView: React.FC<GraphViewProps> = ({ data, selectedPath, onOpenNode, onBack }) => {
+  const [filter, setFilter] = useState<GraphFilter>({
+    mode: 'global',
+    depth: 2,
+    folder: '',
+    tag: '',
+    orphans: 'show',
+  });
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const simRef = useRef<Simulation | null>(null);
+  const viewRef = useRef<ViewTransform>({ x: 0, y: 0, k: 1 });
+  const sizeRef = useRef({ width: 0, height: 0 });
+  const hoverRef = useRef<number>(-1);
+  const dragRef = useRef<DragState | null>(null);
+  const frameRef = useRef<number>(0);
+  const drawRef = useRef<() => void>(() => {});
+
+  const folders = useMemo(() => listGraphFolders(data), [data]);
+  const tags = useMemo(() => listGraphTags(data), [data]);
+
+  const filtered = useMemo<GraphData>(() => {
+    if (filter.mode === 'local' && !selectedPath) return { nodes: [], edges: [] };
+    return filterGraph(data, { ...filter, center: selectedPath });
+  }, [data, filter, selectedPath]);
+
+  const degrees = useMemo(() => filtered.nodes.map(node => node.degree), [filtered]);
+  const labels = useMemo(() => filtered.nodes.map(node => node.label), [filtered]);
+
+  // --- Rendering ---
+
+  const draw = () => {
+    const canvas = canvasRef.current;
+    const sim = simRef.current;
+    if (!canvas || !sim) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const { width, height } = sizeRef.current;
+    const view = viewRef.current;
+    const hover = hoverRef.current;
+    const selectedIndex = selectedPath ? sim.indexOf.get(selectedPath) ?? -1 : -1;
+    const n = sim.ids.length;
+
+    // 悬停节点的邻居
+    const neighbors = new Set<number>();
+    if (hover !== -1) {
+      for (let k = 0; k < sim.edges.length; k += 2) {
+        if (sim.edges[k] === hover) neighbors.add(sim.edges[k + 1]);
+        if (sim.edges[k + 1] === hover) neighbors.add(sim.edges[k]);
+      }
+    }
+
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.translate(view.x, view.y);
+    ctx.scale(view.k, view.k);
+
+    // Edges
+    ctx.lineWidth = 1 / view.k;
+    ctx.strokeStyle = hover === -1 ? '#d9d9d9' : '#ececec';
+    ctx.beginPath();
+    for (let k = 0; k < sim.edges.length; k += 2) {
+      const s = sim.edges[k];
+      const t = sim.edges[k + 1];
+      if (hover !== -1 && (s === hover || t === hover)) continue;
+      ctx.moveTo(sim.x[s], sim.y[s]);
+      ctx.lineTo(sim.x[t], sim.y[t]);
+    }
+    ctx.stroke();
+
+    if (hover !== -1) {
+      ctx.strokeStyle = '#00b96b';
+      ctx.lineWidth = 1.5 / view.k;
+      ctx.beginPath();
+      for (let k = 0; k < sim.edges.length; k += 2) {
+        const s = sim.edges[k];
+        const t = sim.edges[k + 1];
+        if (s !== hover && t !== hover) continue;
+        ctx.moveTo(sim.x[s], sim.y[s]);
+        ctx.lineTo(sim.x[t], sim.y[t]);
+      }
+      ctx.stroke();
+    }
+
+    // Nodes
+    for (let i = 0; i < n; i++) {
+      const isActive = i === hover || i === selectedIndex || neighbors.has(i);
+      ctx.fillStyle = isActive ? '#00b96b' : hover === -1 ? '#9ca3af' : '#d1d5db';
+      ctx.beginPath();
+      ctx.arc(sim.x[i], sim.y[i], nodeRadius(degrees[i] || 0), 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    // Labels (仅绘制视口内的节点)
+    const showAll = view.k >= LABEL_ZOOM || n <= SMALL_GRAPH;
+    const left = -view.x / view.k;
+    const top = -view.y / view.k;
+    const right = left + width / view.k;
+    const bottom = top + height / view.k;
+    ctx.font = `${12 / view.k}px -apple-system, BlinkMacSystemFont, "Segoe UI", "PingFang SC", sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    for (let i = 0; i < n; i++) {
+      const isActive = i === hover || i === selectedIndex || neighbors.has(i);
+      if (!showAll && !isActive) continue;
+      if (sim.x[i] < left || sim.x[i] > right || sim.y[i] < top || sim.y[i] > bottom) continue;
+      ctx.fillStyle = isActive ? '#262626' : '#585a5a';
+      ctx.fillText(labels[i] || '', sim.x[i], sim.y[i] + nodeRadius(degrees[i] || 0) + 2 / view.k);
+    }
+  };
+  drawRef.current = draw;
+
+  const requestFrame = () => {
+    if (frameRef.current) return;
+    const loop = () => {
+      frameRef.current = 0;
+      const sim = simRef.current;
+      if (!sim) return;
+      const active = isSimulationActive(sim);
+      if (active) tickSimulation(sim);
+      drawRef.current();
+      if (active) frameRef.current = requestAnimationFrame(loop);
+    };
+    frameRef.current = requestAnimationFrame(loop);
+  };
+
+  // 过滤条件变化时重建模拟，沿用已有节点坐标
+  useEffect(() => {
+    simRef.current = createSimulation(filtered, simRef.current);
+    hoverRef.current = -1;
+    requestFrame();
+  }, [filtered]);
+
+  useEffect(() => {
+    requestFrame();
+  }, [selectedPath]);
+
+  useEffect(() => () => {
+    cancelAnimationFrame(frameRef.current);
+    frameRef.current = 0;
+  }, []);
+
+  // Canvas 尺寸跟随容器
+  useEffect(() => {
+    const container = containerRef.current;
+    const canvas = canvasRef.current;
+    if (!container || !canvas) return;
+
+    const resize = () => {
+      const { width, height } = container.getBoundingClientRect();
+      const dpr = window.devicePixelRatio || 1;
+      const isFirst = sizeRef.current.width === 0;
+      sizeRef.current = { width, height };
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+      canvas.style.width = `${width}px`;
+      canvas.style.height = `${height}px`;
+      if (isFirst) viewRef.current = { x: width / 2, y: height / 2, k: 1 };
+      drawRef.current();
+    };
+
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // --- Interaction ---
+
+  const toGraph = (clientX: number, clientY: number) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const view = viewRef.current;
+    return {
+      x: (clientX - rect.left - view.x) / view.k,
+      y: (clientY - rect.top - view.y) / view.k,
+    };
+  };
+
+  const hitTest = (clientX: number, clientY: number) => {
+    const sim = simRef.current;
+    if (!sim) return -1;
+    const point = toGraph(clientX, clientY);
+    return findNodeAt(sim, point.x, point.y, 4 + 8 / viewRef.current.k);
+  };
+
+  // wheel 需要非 passive 监听才能阻止页面滚动
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const view = viewRef.current;
+      const k = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.k * Math.exp(-e.deltaY * 0.0015)));
+      const px = e.clientX - rect.left;
+      const py = e.clientY - rect.top;
+      // 以鼠标位置为缩放中心
+      viewRef.current = {
+        x: px - (px - view.x) * (k / view.k),
+        y: py - (py - view.y) * (k / view.k),
+        k,
+      };
+      drawRef.current();
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    const hit = hitTest(e.clientX, e.clientY);
+    if (hit !== -1 && simRef.current) {
+      simRef.current.pinned = hit;
+      dragRef.current = { kind: 'node', index: hit, moved: false };
+    } else {
+      const view = viewRef.current;
+      dragRef.current = { kind: 'pan', startX: e.clientX, startY: e.clientY, originX: view.x, originY: view.y, moved: false };
+    }
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const drag = dragRef.current;
+    const sim = simRef.current;
+    if (!sim) return;
+
+    if (drag?.kind === 'node') {
+      const point = toGraph(e.clientX, e.clientY);
+      sim.x[drag.index] = point.x;
+      sim.y[drag.index] = point.y;
+      drag.moved = true;
+      reheatSimulation(sim, 0.3);
+      requestFrame();
+      return;
+    }
+
+    if (drag?.kind === 'pan') {
+      const dx = e.clientX - drag.startX;
+      const dy = e.clientY - drag.startY;
+      if (Math.abs(dx) + Math.abs(dy) > 2) drag.moved = true;
+      viewRef.current = { ...viewRef.current, x: drag.originX + dx, y: drag.originY + dy };
+      draw();
+      return;
+    }
+
+    const hit = hitTest(e.clientX, e.clientY);
+    if (hit !== hoverRef.current) {
+      hoverRef.current = hit;
+      if (canvasRef.current) canvasRef.current.style.cursor = hit === -1 ? 'grab' : 'pointer';
+      draw();
+    }
+  };
+
+  const handleMouseUp = () => {
+    const drag = dragRef.current;
+    const sim = simRef.current;
+    dragRef.current = null;
+    if (!sim) return;
+    if (drag?.kind === 'node') {
+      sim.pinned = -1;
+      if (!drag.moved) onOpenNode(sim.ids[drag.index]);
+    }
+  };
+
+  const handleMouseLeave = () => {
+    handleMouseUp();
+    if (hoverRef.current !== -1) {
+      hoverRef.current = -1;
+      draw();
+    }
+  };
+
+  const handleRecenter = () => {
+    const { width, height } = sizeRef.current;
+    viewRef.current = { x: width / 2, y: height / 2, k: 1 };
+    draw();
+  };
+
+  const updateFilter = (patch: Partial<GraphFilter>) => setFilter(prev => ({ ...prev, ...patch }));
+
+  const selectClass = "h-8 px-2 text-sm bg-white border border-gray-200 rounded-md focus:outline-none focus:border-[#00b96b] text-gray-700 max-w-[180px]";
+
+  return (
+    <div className="flex flex-col h-full bg-white animate-fade-in">
+      {/* 顶部导航 */}
+      <div className="h-14 border-b border-gray-100 flex items-center px-4 bg-white shrink-0">
+        <button
+          onClick={onBack}
+          className="mr-4 p-2 text-gray-500 hover:bg-gray-100 rounded-full transition-colors"
+        >
+          <ArrowLeft size={20} />
+        </button>
+        <Network size={20} className="mr-2 text-[#00b96b]" />
+        <h1 className="text-lg font-bold text-gray-800">关系图谱</h1>
+        <span className="ml-4 text-xs text-gray-400">
+          {filtered.nodes.length} 个笔记 · {filtered.edges.length} 条链接
+        </span>
+      </div>
+
+      {/* 过滤条件 */}
+      <div className="flex flex-wrap items-center gap-3 px-4 py-2 border-b border-gray-100 bg-[#fafafa] shrink-0 text-sm">
+        <div className="flex rounded-md border border-gray-200 overflow-hidden">
+          {(['global', 'local'] as const).map(mode => (
+            <button
+              key={mode}
+              onClick={() => updateFilter({ mode })}
+              className={`px-3 h-8 transition-colors ${filter.mode === mode ? 'bg-[#00b96b] text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+            >
+              {mode === 'global' ? '全局' : '局部'}
+            </button>
+          ))}
+        </div>
+
+        {filter.mode === 'local' && (
+          <label className="flex items-center gap-2 text-gray-500">
+            深度
+            <input
+              type="range"
+              min={1}
+              max={5}
+              value={filter.depth}
+              onChange={(e) => updateFilter({ depth: Number(e.target.value) })}
+              className="accent-[#00b96b]"
+            />
+            <span className="w-4 text-gray-700">{filter.depth}</span>
+          </label>
+        )}
+
+        <select value={filter.folder} onChange={(e) => updateFilter({ folder: e.target.value })} className={selectClass}>
+          <option value="">全部文件夹</option>
+          {folders.map(folder => <option key={folder} value={folder}>{folder}</option>)}
+        </select>
+
+        <select value={filter.tag} onChange={(e) => updateFilter({ tag: e.target.value })} className={selectClass}>
+          <option value="">全部标签</option>
+          {tags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+        </select>
+
+        <select value={filter.orphans} onChange={(e) => updateFilter({ orphans: e.target.value as OrphanFilter })} className={selectClass}>
+          <option value="show">显示孤立笔记</option>
+          <option value="hide">隐藏孤立笔记</option>
+          <option value="only">仅孤立笔记</option>
+        </select>
+
+        <button
+          onClick={handleRecenter}
+          className="ml-auto p-2 text-gray-500 hover:bg-gray-200 rounded-md transition-colors"
+          title="回到中心"
+        >
+          <Locate size={16} />
+        </button>
+      </div>
+
+      <div ref={containerRef} className="flex-1 relative overflow-hidden">
+        <canvas
+          ref={canvasRef}
+          className="absolute inset-0 cursor-grab"
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={handleMouseLeave}
+        />
+        {filter.mode === 'local' && !selectedPath && (
+          <div className="absolute inset-0 flex items-center justify-center text-gray-400 text-sm pointer-events-none">
+            请先打开一篇笔记，以查看它的局部关系图谱
+          </div>
+        )}
+        {filtered.nodes.length === 0 && (filter.mode === 'global' || selectedPath) && (
+          <div className="absolute inset-0 flex items-center justify-center text-gray-400 text-sm pointer-events-none">
+            没有符合条件的笔记
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GraphView;
@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, History, RotateCcw, Loader2 } from 'lucide-react';
+import { NoteSnapshot } from '../types';
+import { listVersions } from '../services/versionHistory';
+import { splitLines, diffLines, diffWords, toDiffRows } from '../services/diff';
+
+interface HistoryDialogProps {
+  path: string;
+  fileName: string;
+  currentContent: string;
+  onRestore: (content: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<NoteSnapshot['source'], string> = {
+  original: '原始内容',
+  save: '保存',
+  restore: '恢复',
+};
+
+const HistoryDialog: React.FC<HistoryDialogProps> = ({ path, fileName, currentContent, onRestore, onClose }) => {
+  const [versions, setVersions] = useState<NoteSnapshot[] | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [diffMode, setDiffMode] = useState<'line' | 'word'>('line');
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    listVersions(path).then(list => {
+      if (cancelled) return;
+      setVersions(list);
+      setSelectedId(list[0]?.id ?? null);
+    });
+    return () => { cancelled = true; };
+  }, [path]);
+
+  const selected = versions?.find(v => v.id === selectedId) || null;
+
+  // 对比方向：历史版本 -> 当前内容
+  const lineRows = useMemo(
+    () => selected && diffMode === 'line' ? toDiffRows(diffLines(splitLines(selected.content), splitLines(currentContent))) : [],
+    [selected, currentContent, diffMode]
+  );
+  const wordOps = useMemo(
+    () => selected && diffMode === 'word' ? diffWords(selected.content, currentContent) : [],
+    [selected, currentContent, diffMode]
+  );
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    if (!window.confirm(`将「${fileName}」恢复到 ${new Date(selected.updatedAt).toLocaleString()} 的版本？当前内容会保留在历史记录中。`)) return;
+    setIsRestoring(true);
+    const ok = await onRestore(selected.content);
+    setIsRestoring(false);
+    if (ok) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl mx-4 overflow-hidden border border-gray-100 flex flex-col h-[85vh]">
+        <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between bg-gray-50 shrink-0">
+          <div className="flex items-center space-x-2 text-gray-800 min-w-0">
+            <History className="w-5 h-5 text-[#00b96b] shrink-0" />
+            <h2 className="text-lg font-bold truncate">版本历史 · {fileName.replace(/\.md$/, '')}</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 hover:bg-gray-200 p-1 rounded-full transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* 版本列表 */}
+          <div className="w-64 border-r border-gray-100 overflow-y-auto custom-scrollbar shrink-0 bg-gray-50/50">
+            {versions === null ? (
+              <div className="flex items-center justify-center py-12 text-gray-400">
+                <Loader2 size={20} className="animate-spin" />
+              </div>
+            ) : versions.length === 0 ? (
+              <div className="p-6 text-center text-sm text-gray-400">暂无历史版本，保存后会自动记录</div>
+            ) : (
+              <ul className="py-2">
+                {versions.map(version => (
+                  <li key={version.id}>
+                    <button
+                      onClick={() => setSelectedId(version.id)}
+                      className={`w-full text-left px-4 py-2.5 transition-colors ${version.id === selectedId ? 'bg-[#e6f7ff] text-[#00b96b]' : 'text-gray-700 hover:bg-gray-100'}`}
+                    >
+                      <div className="text-sm font-medium">{new Date(version.updatedAt).toLocaleString()}</div>
+                      <div className="flex items-center gap-2 mt-0.5 text-xs text-gray-400">
+                        <span>{SOURCE_LABELS[version.source]}</span>
+                        <span>{version.content.length} 字符</span>
+                        {version.content === currentContent && <span className="text-green-600">与当前相同</span>}
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* 差异 */}
+          <div className="flex-1 min-w-0 flex flex-col">
+            <div className="px-6 py-2 border-b border-gray-100 flex items-center text-xs text-gray-400 shrink-0">
+              <span className="text-red-500">- 历史版本</span>
+              <span className="mx-2">/</span>
+              <span className="text-green-700">+ 当前内容</span>
+              <div className="ml-auto flex bg-gray-100 rounded-lg p-0.5">
+                {(['line', 'word'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setDiffMode(mode)}
+                    className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${diffMode === mode ? 'bg-white text-[#262626] shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                  >
+                    {mode === 'line' ? '按行' : '按词'}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar py-2 font-mono text-xs">
+              {!selected ? null : selected.content === currentContent ? (
+                <div className="px-6 py-8 text-center text-gray-400 font-sans text-sm">此版本与当前内容相同</div>
+              ) : diffMode === 'line' ? (
+                lineRows.map((row, idx) => (
+                  <div
+                    key={idx}
+                    className={`px-6 py-px whitespace-pre-wrap break-all ${
+                      row.type === 'insert' ? 'bg-green-50 text-green-700'
+                      : row.type === 'delete' ? 'bg-red-50 text-red-600'
+                      : row.type === 'skip' ? 'text-gray-400 italic py-1'
+                      : 'text-gray-600'
+                    }`}
+                  >
+                    {row.type === 'insert' ? '+ ' : row.type === 'delete' ? '- ' : row.type === 'skip' ? '' : '  '}
+                    {row.text}
+                  </div>
+                ))
+              ) : (
+                <div className="px-6 whitespace-pre-wrap break-all text-gray-600 leading-relaxed">
+                  {wordOps.map((op, idx) => (
+                    <span
+                      key={idx}
+                      className={
+                        op.type === 'insert' ? 'bg-green-100 text-green-800'
+                        : op.type === 'delete' ? 'bg-red-100 text-red-600 line-through decoration-red-300'
+                        : undefined
+                      }
+                    >
+                      {op.lines.join('')}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 border-t border-gray-100 flex justify-end gap-3 shrink-0">
+          <button
+            onClick={onClose}
+            className="px-5 py-2.5 text-gray-600 hover:bg-gray-100 rounded-lg font-medium transition-colors text-sm"
+          >
+            关闭
+          </button>
+          <button
+            onClick={handleRestore}
+            disabled={!selected || selected.content === currentContent || isRestoring}
+            className="flex items-center px-5 py-2.5 bg-[#00b96b] hover:bg-[#009456] text-white rounded-lg font-medium shadow-sm transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isRestoring ? <Loader2 size={16} className="mr-2 animate-spin" /> : <RotateCcw size={16} className="mr-2" />}
+            恢复此版本
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryDialog;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { X, Link2, FileText, ArrowRight } from 'lucide-react';
+import { RenamePlan } from '../types';
+import { countRewrites } from '../services/linkRewriter';
+
+export type LinkRewriteDecision = 'rewrite' | 'skip' | 'cancel';
+
+interface LinkRewriteDialogProps {
+  plan: RenamePlan;
+  onDecide: (decision: LinkRewriteDecision) => void;
+}
+
+const LinkRewriteDialog: React.FC<LinkRewriteDialogProps> = ({ plan, onDecide }) => {
+  const total = countRewrites(plan);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl mx-4 overflow-hidden border border-gray-100 flex flex-col max-h-[80vh]">
+        <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between bg-gray-50 shrink-0">
+          <div className="flex items-center space-x-2 text-gray-800">
+            <Link2 className="w-5 h-5 text-[#00b96b]" />
+            <h2 className="text-lg font-bold">更新双链引用</h2>
+          </div>
+          <button
+            onClick={() => onDecide('cancel')}
+            className="text-gray-400 hover:text-gray-600 hover:bg-gray-200 p-1 rounded-full transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 text-sm text-gray-600 border-b border-gray-100 shrink-0">
+          <div className="flex items-center gap-2 flex-wrap font-mono text-xs">
+            <span className="bg-red-50 text-red-600 px-1.5 py-0.5 rounded">{plan.oldPath}</span>
+            <ArrowRight size={12} className="text-gray-400" />
+            <span className="bg-green-50 text-green-700 px-1.5 py-0.5 rounded">{plan.newPath}</span>
+          </div>
+          <p className="mt-3">
+            共有 <strong className="text-[#262626]">{plan.files.length}</strong> 个文档中的
+            <strong className="text-[#262626]"> {total} </strong>处链接指向此项，重命名后将按如下方式改写：
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar px-6 py-4 space-y-3">
+          {plan.files.map((file) => (
+            <div key={file.path} className="rounded-lg border border-gray-100 overflow-hidden">
+              <div className="flex items-center px-3 py-2 bg-gray-50 text-sm font-medium text-[#262626]">
+                <FileText size={14} className="mr-2 text-gray-400 shrink-0" />
+                <span className="truncate" title={file.path}>{file.path}</span>
+                <span className="ml-auto text-xs text-gray-400 shrink-0">{file.edits.length} 处</span>
+              </div>
+              {file.edits.map((edit) => (
+                <div key={`${edit.line}:${edit.column}`} className="flex items-start gap-3 px-3 py-1.5 border-t border-gray-100 text-xs font-mono">
+                  <span className="text-gray-400 w-10 shrink-0 text-right">L{edit.line}</span>
+                  <div className="flex-1 min-w-0 space-y-0.5 break-all">
+                    <div className="text-red-500 line-through decoration-red-300">{edit.before}</div>
+                    <div className="text-green-700">{edit.after}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 border-t border-gray-100 flex justify-end gap-3 shrink-0">
+          <button
+            onClick={() => onDecide('cancel')}
+            className="px-5 py-2.5 text-gray-600 hover:bg-gray-100 rounded-lg font-medium transition-colors text-sm"
+          >
+            取消
+          </button>
+          <button
+            onClick={() => onDecide('skip')}
+            className="px-5 py-2.5 border border-[#00b96b] text-[#00b96b] bg-white hover:bg-green-50 rounded-lg font-medium transition-colors text-sm"
+          >
+            仅重命名
+          </button>
+          <button
+            onClick={() => onDecide('rewrite')}
+            className="flex items-center px-5 py-2.5 bg-[#00b96b] hover:bg-[#009456] text-white rounded-lg font-medium shadow-sm transition-colors text-sm"
+          >
+            <Link2 size={16} className="mr-2" />
+            重命名并更新链接
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LinkRewriteDialog;
@@ -0,0 +1,623 @@
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import ReactMarkdown, { Components } from 'react-markdown';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { prism } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { ExternalLink, AlertCircle, FileText, Repeat } from 'lucide-react';
+import remarkGfm from 'remark-gfm';
+import { ResolvedNote } from '../types';
+import { parseFrontmatter } from '../services/frontmatter';
+import { generateId, preprocessMarkdown, extractSection, extractFirstSection } from '../services/markdown';
+import { splitLinkTarget } from '../services/linkIndex';
+import { QueryResult } from '../services/query';
+import { getFileKind } from '../services/fileTypes';
+import QueryResultView from './QueryResultView';
+import AttachmentViewer from './AttachmentViewer';
+import CanvasView from './CanvasView';
+
+/**
+ * Markdown 正文渲染
+ *
+ * 阅读视图与笔记嵌入 (![[Note]]) 共用同一套渲染规则；
+ * 回调通过 Context 下发，使 components 映射保持稳定，避免图片等子组件每次渲染都重新挂载。
+ */
+
+const MAX_EMBED_DEPTH = 4;
+const MAX_PREVIEW_DEPTH = 5;
+const PREVIEW_OPEN_DELAY = 350;
+const PREVIEW_CLOSE_DELAY = 250;
+const PREVIEW_WIDTH = 420;
+const PREVIEW_HEIGHT = 320;
+
+interface MarkdownContextValue {
+  onLinkClick: (href: string) => void;
+  onTagClick?: (tag: string) => void;
+  onResolveFile?: (src: string) => Promise<string | null>;
+  staticFileUrl?: (src: string) => string | null; // 静态导出：附件地址同步解析
+  onResolveNote?: (target: string) => Promise<ResolvedNote | null>;
+  onRunQuery?: (source: string) => QueryResult;
+  onOpenPath?: (path: string, line?: number) => void;
+  onToggleTask?: (path: string, line: number) => void;
+  lineOffset: number | null; // null 表示不输出 data-line (嵌入内容)
+  embedChain: string[]; // 当前文档及已嵌入的文档路径，用于防止循环嵌入
+  embedDepth: number; // 嵌入与悬停预览的层数，主文档为 0
+  previewDepth: number; // 悬停预览的嵌套层数
+}
+
+const MarkdownContext = createContext<MarkdownContextValue>({
+  onLinkClick: () => {},
+  lineOffset: null,
+  embedChain: [],
+  embedDepth: 0,
+  previewDepth: 0,
+});
+
+// 当前任务列表项的源文件行号，供复选框定位
+const TaskLineContext = createContext<number | null>(null);
+
+// 渲染节点 -> 源文件行号
+const useLineAttrs = (node: any) => {
+  const { lineOffset } = useContext(MarkdownContext);
+  const line = node?.position?.start?.line;
+  return line && lineOffset !== null ? { 'data-line': line + lineOffset } : {};
+};
+
+const getText = (node: any): string => {
+  if (typeof node === 'string') return node;
+  if (Array.isArray(node)) return node.map(getText).join('');
+  if (node && node.props && node.props.children) return getText(node.props.children);
+  return '';
+};
+
+// --- Components ---
+
+// 普通 Markdown 图片：相对路径按仓库内文件解析
+const WikiImage = ({ src, alt, node, ...props }: any) => {
+  const { onResolveFile, staticFileUrl } = useContext(MarkdownContext);
+  const [imgUrl, setImgUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [hasError, setHasError] = useState(false);
+
+  const isRemote = src.startsWith('http') || src.startsWith('data:');
+
+  useEffect(() => {
+    if (staticFileUrl) return;
+    let active = true;
+    setLoading(true);
+    setHasError(false);
+    const load = async () => {
+      try {
+          if (onResolveFile && !src.startsWith('http') && !src.startsWith('data:')) {
+              const url = await onResolveFile(src);
+              if (active) {
+                  if (url) setImgUrl(url);
+                  else setImgUrl(src);
+                  setLoading(false);
+              }
+          } else {
+            setImgUrl(src);
+            setLoading(false);
+          }
+      } catch (e) {
+          if (active) { setHasError(true); setLoading(false); }
+      }
+    };
+    load();
+    return () => { active = false; };
+  }, [src, onResolveFile, staticFileUrl]);
+
+  if (staticFileUrl) {
+    const url = isRemote ? src : staticFileUrl(src) || src;
+    return <img src={url} alt={alt} className="max-w-full h-auto rounded shadow-sm border border-gray-100 mx-auto my-4" {...props} />;
+  }
+  if (loading) return <div className="bg-gray-50 h-32 rounded-lg flex items-center justify-center text-xs text-gray-400">Loading Image...</div>;
+  if (hasError) return <div className="text-red-400 text-xs flex items-center bg-red-50 p-2 rounded"><AlertCircle size={12} className="mr-1"/> Image Failed</div>;
+
+  return <img src={imgUrl || src} alt={alt} className="max-w-full h-auto rounded shadow-sm border border-gray-100 mx-auto my-4" onError={() => setHasError(true)} {...props} />;
+};
+
+/**
+ * 画布嵌入 ![[Board.canvas]]：文本与文件节点按嵌入内容渲染，计入嵌入层级
+ */
+const CanvasEmbed = ({ name, url }: { name: string; url: string }) => {
+  const context = useContext(MarkdownContext);
+  const [content, setContent] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    fetch(url)
+      .then(res => res.text())
+      .then(text => { if (active) setContent(text); })
+      .catch(e => {
+        console.error('读取画布失败', e);
+        if (active) setContent('');
+      });
+    return () => { active = false; };
+  }, [url]);
+
+  if (content === null) return <div className="text-xs text-gray-400 py-2">Loading...</div>;
+  if (context.embedChain.includes(name) || context.embedDepth >= MAX_EMBED_DEPTH) {
+    return <div className="text-gray-400 text-xs flex items-center py-2"><Repeat size={12} className="mr-1"/> 嵌入层级过深，已停止展开</div>;
+  }
+
+  const embedContext = { ...context, lineOffset: null, embedChain: [...context.embedChain, name], embedDepth: context.embedDepth + 1 };
+  return (
+    <CanvasView
+      content={content}
+      variant="embed"
+      renderMarkdown={(markdown) => (
+        <MarkdownContext.Provider value={embedContext}>
+          <MarkdownBody markdown={markdown} />
+        </MarkdownContext.Provider>
+      )}
+    />
+  );
+};
+
+/**
+ * 附件嵌入 ![[img.png]] / ![[doc.pdf#page=3]] / ![[audio.mp3]] / ![[Board.canvas]]，
+ * 与阅读区使用同一套查看器
+ */
+const FileEmbed = ({ target, alt }: { target: string; alt?: string }) => {
+  const { onResolveFile, staticFileUrl } = useContext(MarkdownContext);
+  const [resolvedUrl, setUrl] = useState<string | null>(null);
+  const [resolvedStatus, setStatus] = useState<'loading' | 'ready' | 'missing'>('loading');
+  const { name, subpath } = splitLinkTarget(target);
+
+  useEffect(() => {
+    if (staticFileUrl) return;
+    let active = true;
+    setStatus('loading');
+    const load = async () => {
+      try {
+        const resolved = onResolveFile ? await onResolveFile(name) : null;
+        if (!active) return;
+        setUrl(resolved);
+        setStatus(resolved ? 'ready' : 'missing');
+      } catch (e) {
+        if (active) setStatus('missing');
+      }
+    };
+    load();
+    return () => { active = false; };
+  }, [name, onResolveFile, staticFileUrl]);
+
+  // 静态导出时同步解析，不经过加载状态
+  const url = staticFileUrl ? staticFileUrl(name) : resolvedUrl;
+  const status = staticFileUrl ? (url ? 'ready' : 'missing') : resolvedStatus;
+
+  if (status === 'loading') return <div className="bg-gray-50 h-32 rounded-lg flex items-center justify-center text-xs text-gray-400">Loading...</div>;
+  if (status === 'missing') return <div className="text-red-400 text-xs flex items-center bg-red-50 p-2 rounded"><AlertCircle size={12} className="mr-1"/> 未找到附件: {target}</div>;
+
+  const kind = getFileKind(name);
+  if (kind === 'canvas' && !staticFileUrl) return <CanvasEmbed name={name} url={url!} />;
+  // PDF 支持 #page=N 等打开参数
+  const src = kind === 'pdf' && subpath ? `${url}#${subpath}` : url!;
+  // 别名不是尺寸时作为替代文本
+  const altText = alt && alt !== target && !/^\d+(x\d+)?$/.test(alt) ? alt : undefined;
+  return <AttachmentViewer name={name} url={src} variant="embed" alt={altText} />;
+};
+
+/**
+ * 笔记嵌入 ![[Note]] / ![[Note#Section]] / ![[Note#^block]]
+ */
+const NoteEmbed = ({ target }: { target: string }) => {
+  const context = useContext(MarkdownContext);
+  const [note, setNote] = useState<ResolvedNote | null>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'missing'>('loading');
+
+  const { name, subpath } = splitLinkTarget(target);
+
+  useEffect(() => {
+    let active = true;
+    setStatus('loading');
+    const load = async () => {
+      try {
+        const resolved = context.onResolveNote ? await context.onResolveNote(name) : null;
+        if (!active) return;
+        setNote(resolved);
+        setStatus(resolved ? 'ready' : 'missing');
+      } catch (e) {
+        if (active) setStatus('missing');
+      }
+    };
+    load();
+    return () => { active = false; };
+  }, [name, context.onResolveNote]);
+
+  const section = useMemo(() => {
+    if (!note) return null;
+    return extractSection(parseFrontmatter(note.content).content, subpath);
+  }, [note, subpath]);
+
+  const title = note ? note.name.replace(/\.md$/, '') + (subpath ? ` > ${subpath}` : '') : target;
+  const isCycle = !!note && context.embedChain.includes(note.path);
+  const isTooDeep = context.embedDepth >= MAX_EMBED_DEPTH;
+
+  let body: React.ReactNode;
+  if (status === 'loading') {
+    body = <div className="text-xs text-gray-400 py-2">Loading...</div>;
+  } else if (status === 'missing' || section === null) {
+    body = <div className="text-red-400 text-xs flex items-center py-2"><AlertCircle size={12} className="mr-1"/> 未找到嵌入内容: {target}</div>;
+  } else if (isCycle || isTooDeep) {
+    body = <div className="text-gray-400 text-xs flex items-center py-2"><Repeat size={12} className="mr-1"/> {isCycle ? '检测到循环嵌入，已停止展开' : '嵌入层级过深，已停止展开'}</div>;
+  } else {
+    body = (
+      <MarkdownContext.Provider value={{ ...context, lineOffset: null, embedChain: [...context.embedChain, note!.path], embedDepth: context.embedDepth + 1 }}>
+        <MarkdownBody markdown={section} />
+      </MarkdownContext.Provider>
+    );
+  }
+
+  return (
+    <div className="my-4 border-l-4 border-gray-200 bg-[#fafafa] rounded-r-lg px-5 py-3 not-italic">
+      <a
+        href={`wikilink:${encodeURIComponent(target)}`}
+        onClick={(e) => { e.preventDefault(); context.onLinkClick(`wikilink:${encodeURIComponent(target)}`); }}
+        className="flex items-center text-xs text-gray-400 hover:text-[#00b96b] mb-2 transition-colors"
+      >
+        <FileText size={12} className="mr-1" />
+        {title}
+      </a>
+      <div className="text-[15px]">{body}</div>
+    </div>
+  );
+};
+
+const HeadingRenderer = ({ level, children, node, ...props }: any) => {
+   const { embedDepth } = useContext(MarkdownContext);
+   const lineAttrs = useLineAttrs(node);
+   const text = getText(children);
+   // 嵌入内容不输出 id，避免与主文档的标题锚点冲突
+   const id = embedDepth === 0 ? generateId(text) : undefined;
+   const Tag = `h${level}` as React.ElementType;
+   const styles = ({
+       1: "text-3xl font-bold mt-10 mb-6 pb-2 border-b border-gray-100",
+       2: "text-2xl font-bold mt-8 mb-4",
+       3: "text-xl font-bold mt-6 mb-3",
+       4: "text-lg font-bold mt-4 mb-2",
+       5: "font-bold mt-3",
+       6: "font-bold mt-3 text-gray-500"
+   } as any)[level] || "";
+   return <Tag id={id} className={`scroll-mt-20 ${styles}`} {...lineAttrs} {...props}>{children}</Tag>;
+};
+
+const Paragraph = ({ node, ...props }: any) => {
+  const lineAttrs = useLineAttrs(node);
+  // 笔记与附件嵌入是块级内容，不能放在 <p> 里 (图片除外)
+  const hasEmbed = node?.children?.some((child: any) => {
+    const src = String(child.properties?.src || '');
+    if (child.tagName !== 'img') return false;
+    if (src.startsWith('wikiembed:')) return true;
+    return src.startsWith('wikiimage:') && getFileKind(splitLinkTarget(decodeURIComponent(src.slice('wikiimage:'.length))).name) !== 'image';
+  });
+  if (hasEmbed) return <div {...lineAttrs} {...props} />;
+  return <p className="mb-4 leading-7 text-justify text-[#262626] break-words" {...lineAttrs} {...props} />;
+};
+
+const ListItem = ({ node, ...props }: any) => {
+  const lineAttrs: { 'data-line'?: number } = useLineAttrs(node);
+  return (
+    <TaskLineContext.Provider value={lineAttrs['data-line'] ?? null}>
+      <li {...lineAttrs} {...props} />
+    </TaskLineContext.Provider>
+  );
+};
+
+/**
+ * 任务复选框：阅读视图中切换源文件对应行；嵌入内容没有行号，保持只读
+ */
+const TaskCheckbox = ({ node, type, checked, disabled, ...props }: any) => {
+  const { onToggleTask, embedChain } = useContext(MarkdownContext);
+  const line = useContext(TaskLineContext);
+  if (type !== 'checkbox') return <input type={type} checked={checked} disabled={disabled} {...props} />;
+
+  const path = embedChain[0];
+  const editable = !!onToggleTask && line !== null && !!path;
+  return (
+    <input
+      {...props}
+      type="checkbox"
+      checked={!!checked}
+      disabled={!editable}
+      onChange={() => editable && onToggleTask!(path, line!)}
+      className={`mr-2 align-middle accent-[#00b96b] ${editable ? 'cursor-pointer' : ''}`}
+    />
+  );
+};
+
+const Blockquote = ({ node, ...props }: any) => (
+  <blockquote className="border-l-4 border-[#00b96b] pl-4 py-2 my-4 bg-green-50/30 text-gray-600 rounded-r text-sm italic" {...useLineAttrs(node)} {...props} />
+);
+
+const TableRow = ({ node, ...props }: any) => <tr {...useLineAttrs(node)} {...props} />;
+
+const Image = (props: any) => {
+  if (String(props.src || '').startsWith('wikiembed:')) {
+    return <NoteEmbed target={decodeURIComponent(props.src.replace('wikiembed:', ''))} />;
+  }
+  if (String(props.src || '').startsWith('wikiimage:')) {
+    return <FileEmbed target={decodeURIComponent(props.src.replace('wikiimage:', ''))} alt={props.alt} />;
+  }
+  return <WikiImage {...props} />;
+};
+
+/**
+ * 悬停预览卡片内容：Frontmatter 标题 + 第一节，或链接指向的标题 / 块
+ */
+const LinkPreview = ({ target }: { target: string }) => {
+  const context = useContext(MarkdownContext);
+  const [note, setNote] = useState<ResolvedNote | null>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'missing'>('loading');
+  const { name, subpath } = splitLinkTarget(target);
+
+  useEffect(() => {
+    let active = true;
+    const load = async () => {
+      try {
+        const resolved = context.onResolveNote ? await context.onResolveNote(name) : null;
+        if (!active) return;
+        setNote(resolved);
+        setStatus(resolved ? 'ready' : 'missing');
+      } catch (e) {
+        if (active) setStatus('missing');
+      }
+    };
+    load();
+    return () => { active = false; };
+  }, [name, context.onResolveNote]);
+
+  const preview = useMemo(() => {
+    if (!note) return null;
+    const { metadata, content } = parseFrontmatter(note.content);
+    return {
+      title: metadata?.title ? String(metadata.title) : note.name.replace(/\.md$/, ''),
+      section: subpath ? extractSection(content, subpath) : extractFirstSection(content),
+    };
+  }, [note, subpath]);
+
+  if (status === 'loading') return <div className="text-xs text-gray-400">Loading...</div>;
+  if (status === 'missing' || !preview) {
+    return <div className="text-red-400 text-xs flex items-center"><AlertCircle size={12} className="mr-1"/> 未找到文档: {name || target}</div>;
+  }
+
+  return (
+    <>
+      <div className="flex items-center text-xs text-gray-400 mb-2">
+        <FileText size={12} className="mr-1 shrink-0" />
+        <span className="truncate">{preview.title}{subpath ? ` > ${subpath}` : ''}</span>
+      </div>
+      {preview.section === null ? (
+        <div className="text-red-400 text-xs flex items-center"><AlertCircle size={12} className="mr-1"/> 未找到: {subpath}</div>
+      ) : preview.section ? (
+        <MarkdownContext.Provider value={{
+          ...context,
+          lineOffset: null,
+          embedChain: [...context.embedChain, note!.path],
+          embedDepth: context.embedDepth + 1,
+          previewDepth: context.previewDepth + 1,
+        }}>
+          <MarkdownBody markdown={preview.section} />
+        </MarkdownContext.Provider>
+      ) : (
+        <div className="text-xs text-gray-400 italic">空文档</div>
+      )}
+    </>
+  );
+};
+
+const TagLink = ({ href, children }: any) => {
+  const { onTagClick } = useContext(MarkdownContext);
+  return (
+    <a
+      href={href}
+      onClick={(e) => { e.preventDefault(); onTagClick?.(decodeURIComponent(href.replace('tag:', ''))); }}
+      className="bg-blue-50 text-blue-600 hover:bg-blue-100 px-1.5 py-0.5 rounded text-[0.85em] not-italic cursor-pointer transition-colors"
+    >
+      {children}
+    </a>
+  );
+};
+
+const Anchor = ({ node, href, children, ...props }: any) => {
+  const { onLinkClick, onResolveNote, previewDepth } = useContext(MarkdownContext);
+  const isWiki = href?.startsWith('wikilink:');
+  const anchorRef = useRef<HTMLAnchorElement>(null);
+  const timerRef = useRef<number>(0);
+  const [position, setPosition] = useState<{ left: number; top: number } | null>(null);
+  const canPreview = isWiki && !!onResolveNote && previewDepth < MAX_PREVIEW_DEPTH;
+
+  useEffect(() => () => window.clearTimeout(timerRef.current), []);
+
+  const schedule = (action: () => void, delay: number) => {
+    window.clearTimeout(timerRef.current);
+    timerRef.current = window.setTimeout(action, delay);
+  };
+
+  const openPreview = () => {
+    const rect = anchorRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    // 下方空间不足时显示在链接上方
+    const below = rect.bottom + 6;
+    const top = below + PREVIEW_HEIGHT > window.innerHeight ? Math.max(8, rect.top - PREVIEW_HEIGHT - 6) : below;
+    const left = Math.max(8, Math.min(rect.left, window.innerWidth - PREVIEW_WIDTH - 8));
+    setPosition({ left, top });
+  };
+
+  const hoverHandlers = canPreview ? {
+    onMouseEnter: () => schedule(openPreview, position ? 0 : PREVIEW_OPEN_DELAY),
+    onMouseLeave: () => schedule(() => setPosition(null), PREVIEW_CLOSE_DELAY),
+  } : {};
+
+  return (
+    <a
+      ref={anchorRef}
+      href={href}
+      onClick={(e) => {
+        if (isWiki) {
+          e.preventDefault();
+          window.clearTimeout(timerRef.current);
+          setPosition(null);
+          onLinkClick(href);
+        }
+      }}
+      className={`cursor-pointer transition-colors ${isWiki ? 'text-[#00b96b] hover:text-[#009456] font-medium' : 'text-[#1677ff] hover:underline'}`}
+      {...hoverHandlers}
+      {...props}
+    >
+      {children}
+      {!isWiki && <ExternalLink size={12} className="inline ml-1 opacity-50" />}
+      {/* 卡片在 React 树中位于链接内部，鼠标移入卡片 (及其嵌套卡片) 不会触发链接的 mouseleave */}
+      {position && createPortal(
+        <div
+          className="fixed z-50 bg-white border border-gray-200 rounded-lg shadow-xl px-5 py-4 overflow-y-auto custom-scrollbar text-[14px] text-[#262626] font-normal not-italic text-left cursor-auto"
+          style={{ left: position.left, top: position.top, width: PREVIEW_WIDTH, maxHeight: PREVIEW_HEIGHT }}
+          onClick={(e) => {
+            // 卡片内的点击不能冒泡到外层链接；点击卡片中的链接后关闭整条预览链
+            e.stopPropagation();
+            if ((e.target as HTMLElement).closest('a')) setPosition(null);
+          }}
+        >
+          <LinkPreview target={decodeURIComponent(href.replace('wikilink:', ''))} />
+        </div>,
+        document.body
+      )}
+    </a>
+  );
+};
+
+const Link = (props: any) => {
+  return String(props.href || '').startsWith('tag:') ? <TagLink {...props} /> : <Anchor {...props} />;
+};
+
+/**
+ * ```query 代码块：执行查询并渲染结果，回调随索引更新而变化，结果随之刷新
+ */
+const QueryBlock = ({ source }: { source: string }) => {
+  const { onRunQuery, onOpenPath, onToggleTask } = useContext(MarkdownContext);
+  const outcome = useMemo(() => {
+    if (!onRunQuery) return null;
+    try {
+      return { result: onRunQuery(source) };
+    } catch (e: any) {
+      return { error: e.message as string };
+    }
+  }, [source, onRunQuery]);
+
+  if (!outcome) return null;
+  if ('error' in outcome) {
+    return (
+      <div className="text-red-500 text-xs flex items-start bg-red-50 p-3 rounded">
+        <AlertCircle size={14} className="mr-1.5 shrink-0" /> 查询错误: {outcome.error}
+      </div>
+    );
+  }
+  return <QueryResultView result={outcome.result!} onOpen={(path, line) => onOpenPath?.(path, line)} onToggleTask={onToggleTask} />;
+};
+
+const CodeBlock = ({ node, className, children, ...props }: any) => {
+  const lineAttrs = useLineAttrs(node);
+  const { onRunQuery } = useContext(MarkdownContext);
+  const match = /language-(\w+)/.exec(className || '');
+  if (match && match[1] === 'query' && onRunQuery) {
+    return <div className="my-4" {...lineAttrs}><QueryBlock source={String(children)} /></div>;
+  }
+  const isInline = !match && !String(children).includes('\n');
+  if (isInline) return <code className="bg-gray-100 text-[#d4380d] px-1.5 py-0.5 rounded text-sm font-mono mx-1" {...props}>{children}</code>;
+  return (
+      <div className="my-4 rounded-lg overflow-hidden border border-gray-200 shadow-sm text-sm" {...lineAttrs}>
+          <div className="bg-gray-50 px-3 py-1.5 border-b border-gray-200 text-xs text-gray-500 font-mono flex items-center">
+              <div className="flex gap-1.5 mr-2"><div className="w-2.5 h-2.5 rounded-full bg-red-400/20"></div><div className="w-2.5 h-2.5 rounded-full bg-yellow-400/20"></div><div className="w-2.5 h-2.5 rounded-full bg-green-400/20"></div></div>
+              {match ? match[1] : 'text'}
+          </div>
+          <SyntaxHighlighter style={prism as any} language={match ? match[1] : 'text'} PreTag="div" customStyle={{ margin: 0, borderRadius: 0, backgroundColor: '#fdfdfd' }} {...props}>{String(children).replace(/\n$/, '')}</SyntaxHighlighter>
+      </div>
+  );
+};
+
+const components: Components = {
+  h1: (props) => <HeadingRenderer level={1} {...props} />,
+  h2: (props) => <HeadingRenderer level={2} {...props} />,
+  h3: (props) => <HeadingRenderer level={3} {...props} />,
+  h4: (props) => <HeadingRenderer level={4} {...props} />,
+  p: Paragraph,
+  ul: ({ node, ...props }) => <ul className="list-disc pl-6 mb-4 space-y-1 text-gray-700" {...props} />,
+  ol: ({ node, ...props }) => <ol className="list-decimal pl-6 mb-4 space-y-1 text-gray-700" {...props} />,
+  li: ListItem,
+  input: TaskCheckbox,
+  blockquote: Blockquote,
+  table: ({ node, ...props }) => <div className="overflow-x-auto my-6 rounded-lg border border-gray-200"><table className="min-w-full divide-y divide-gray-200 text-sm" {...props} /></div>,
+  tr: TableRow,
+  th: ({ node, ...props }) => <th className="bg-gray-50 px-4 py-3 font-semibold text-left text-gray-700" {...props} />,
+  td: ({ node, ...props }) => <td className="px-4 py-3 border-t border-gray-100 text-gray-600" {...props} />,
+  img: Image,
+  a: Link,
+  code: CodeBlock,
+};
+
+/**
+ * 渲染已预处理的正文 (不含 Frontmatter)
+ */
+const MarkdownBody = ({ markdown }: { markdown: string }) => {
+  const processed = useMemo(() => preprocessMarkdown(markdown), [markdown]);
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm]}
+      urlTransform={(url) => url}
+      components={components}
+    >
+      {processed}
+    </ReactMarkdown>
+  );
+};
+
+interface MarkdownContentProps {
+  markdown: string; // 正文 (不含 Frontmatter)
+  lineOffset?: number | null;
+  onLinkClick: (href: string) => void;
+  onTagClick?: (tag: string) => void;
+  onResolveFile?: (src: string) => Promise<string | null>;
+  staticFileUrl?: (src: string) => string | null;
+  onResolveNote?: (target: string) => Promise<ResolvedNote | null>;
+  onRunQuery?: (source: string) => QueryResult;
+  onOpenPath?: (path: string, line?: number) => void;
+  onToggleTask?: (path: string, line: number) => void;
+  currentPath?: string;
+}
+
+const MarkdownContent: React.FC<MarkdownContentProps> = ({
+  markdown,
+  lineOffset = null,
+  onLinkClick,
+  onTagClick,
+  onResolveFile,
+  staticFileUrl,
+  onResolveNote,
+  onRunQuery,
+  onOpenPath,
+  onToggleTask,
+  currentPath
+}) => {
+  const value = useMemo<MarkdownContextValue>(() => ({
+    onLinkClick,
+    onTagClick,
+    onResolveFile,
+    staticFileUrl,
+    onResolveNote,
+    onRunQuery,
+    onOpenPath,
+    onToggleTask,
+    lineOffset,
+    embedChain: currentPath ? [currentPath] : [],
+    embedDepth: 0,
+    previewDepth: 0,
+  }), [onLinkClick, onTagClick, onResolveFile, staticFileUrl, onResolveNote, onRunQuery, onOpenPath, onToggleTask, lineOffset, currentPath]);
+
+  return (
+    <MarkdownContext.Provider value={value}>
+      <MarkdownBody markdown={markdown} />
+    </MarkdownContext.Provider>
+  );
+};
+
+export default MarkdownContent;
@@ -0,0 +1,578 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { FileText } from 'lucide-react';
+import { LinkSuggestion } from '../types';
+import { highlightMarkdown, HighlightLine, HighlightType } from '../services/markdownHighlight';
+import {
+  TextEdit,
+  handleTypedChar,
+  handleBackspace,
+  handleEnter,
+  handleIndent,
+  findWikilinkQuery,
+  completeWikilink
+} from '../services/editorCommands';
+import { splitFrontmatter } from '../services/frontmatter';
+import { splitBlocks } from '../services/markdown';
+
+/**
+ * Markdown 编辑器
+ *
+ * 源码模式为透明 textarea 叠加高亮层，两者字体与折行完全一致；
+ * 分屏模式与实时预览复用阅读视图的渲染器 (renderPreview)。
+ */
+
+export type EditorMode = 'source' | 'split' | 'live';
+
+const MAX_SUGGESTIONS = 8;
+
+const TOKEN_CLASSES: Record<HighlightType, string> = {
+  heading: 'font-bold text-[#262626]',
+  marker: 'text-gray-400',
+  bold: 'font-bold',
+  italic: 'italic',
+  strike: 'line-through text-gray-400',
+  mark: 'bg-yellow-100',
+  code: 'text-[#d4380d] bg-gray-100 rounded-sm',
+  link: 'text-[#00b96b]',
+  url: 'text-[#00b96b] underline',
+  wikilink: 'text-[#00b96b]',
+  tag: 'text-blue-600',
+  blockId: 'text-gray-400',
+  comment: 'text-gray-400',
+  task: 'text-[#00b96b]',
+  taskDone: 'text-[#00b96b]',
+};
+
+const LINE_CLASSES: Record<NonNullable<HighlightLine['kind']>, string> = {
+  heading: '',
+  quote: 'text-gray-600',
+  fence: 'text-gray-400',
+  code: 'text-gray-700 bg-gray-50',
+  frontmatter: 'text-gray-500 bg-gray-50',
+  comment: 'text-gray-400',
+  hr: '',
+};
+
+// 高亮层与 textarea 必须共用的排版样式
+const TEXT_LAYOUT = 'font-mono text-sm leading-6 whitespace-pre-wrap break-words [tab-size:4]';
+
+const filterSuggestions = (suggestions: LinkSuggestion[], query: string) => {
+  const keyword = query.trim().toLowerCase();
+  const matched = suggestions.filter(item => !keyword || item.title.toLowerCase().includes(keyword) || item.path.toLowerCase().includes(keyword));
+  // 名称前缀匹配优先，其次名称越短越靠前
+  const rank = (item: LinkSuggestion) => (item.title.toLowerCase().startsWith(keyword) ? 0 : 1);
+  return matched
+    .sort((a, b) => rank(a) - rank(b) || a.title.length - b.title.length || a.title.localeCompare(b.title))
+    .slice(0, MAX_SUGGESTIONS);
+};
+
+// 高亮层中某行第 column 个字符处的屏幕位置
+const caretRect = (lineEl: HTMLElement, column: number): DOMRect => {
+  const walker = document.createTreeWalker(lineEl, NodeFilter.SHOW_TEXT);
+  let remaining = column;
+  let node: Text | null;
+  while ((node = walker.nextNode() as Text | null)) {
+    if (remaining <= node.length) {
+      const range = document.createRange();
+      range.setStart(node, remaining);
+      range.collapse(true);
+      const rect = range.getClientRects()[0];
+      if (rect) return rect;
+      break;
+    }
+    remaining -= node.length;
+  }
+  return lineEl.getBoundingClientRect();
+};
+
+// 元素相对滚动容器内容顶部的位置
+const offsetIn = (pane: HTMLElement, el: Element) => el.getBoundingClientRect().top - pane.getBoundingClientRect().top + pane.scrollTop;
+
+interface SourceEditorProps {
+  value: string;
+  onChange: (value: string, cursor: number) => void;
+  suggestions: LinkSuggestion[];
+  lineNumbers?: boolean;
+  autoFocus?: boolean;
+  cursor?: number; // 外部指定的光标位置，内容被外部改写后据此恢复
+  onCursorChange?: (cursor: number) => void;
+  onNavigate?: (direction: 'up' | 'down') => void; // 在首行按上 / 末行按下
+  onEscape?: () => void;
+  onSaveImage?: (image: File) => Promise<string | null>;
+}
+
+const imageFiles = (files: FileList) => Array.from(files).filter(file => file.type.startsWith('image/'));
+
+/**
+ * 源码编辑区：透明 textarea + 高亮层，支持括号自动配对、列表延续、缩进与 [[ 双链补全
+ */
+const SourceEditor = ({
+  value,
+  onChange,
+  suggestions,
+  lineNumbers = true,
+  autoFocus = false,
+  cursor,
+  onCursorChange,
+  onNavigate,
+  onEscape,
+  onSaveImage
+}: SourceEditorProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pendingSelectionRef = useRef<[number, number] | null>(null);
+  const dismissedRef = useRef<number | null>(null);
+  const [completion, setCompletion] = useState<{ from: number; query: string; index: number } | null>(null);
+  const [popupPosition, setPopupPosition] = useState<{ top: number; left: number } | null>(null);
+
+  const lines = useMemo(() => highlightMarkdown(value), [value]);
+  const candidates = useMemo(
+    () => (completion ? filterSuggestions(suggestions, completion.query) : []),
+    [completion?.query, suggestions]
+  );
+
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    if (pendingSelectionRef.current) {
+      textarea.setSelectionRange(...pendingSelectionRef.current);
+      pendingSelectionRef.current = null;
+    } else if (cursor !== undefined && textarea.selectionStart === textarea.selectionEnd && textarea.selectionStart !== cursor) {
+      const position = Math.min(cursor, value.length);
+      textarea.setSelectionRange(position, position);
+    }
+  }, [value]);
+
+  useEffect(() => {
+    if (autoFocus) textareaRef.current?.focus({ preventScroll: true });
+  }, []);
+
+  // 补全框定位到 [[ 所在位置下方
+  useLayoutEffect(() => {
+    if (!completion || !overlayRef.current || !containerRef.current) {
+      setPopupPosition(null);
+      return;
+    }
+    const lineIndex = value.slice(0, completion.from).split('\n').length - 1;
+    const lineEl = overlayRef.current.children[lineIndex] as HTMLElement | undefined;
+    if (!lineEl) return;
+    const column = completion.from - (value.lastIndexOf('\n', completion.from - 1) + 1) - 2;
+    const rect = caretRect(lineEl, Math.max(0, column));
+    const container = containerRef.current.getBoundingClientRect();
+    setPopupPosition({ top: rect.bottom - container.top + 4, left: Math.max(0, rect.left - container.left) });
+  }, [completion?.from, value]);
+
+  const updateCompletion = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const { selectionStart, selectionEnd } = textarea;
+    onCursorChange?.(selectionStart);
+    const query = selectionStart === selectionEnd ? findWikilinkQuery(textarea.value, selectionStart) : null;
+    if (!query || dismissedRef.current === query.from) {
+      if (!query) dismissedRef.current = null;
+      setCompletion(null);
+      return;
+    }
+    setCompletion(prev => ({ ...query, index: prev && prev.from === query.from && prev.query === query.query ? prev.index : 0 }));
+  };
+
+  // 通过 execCommand 插入以保留撤销栈；不支持时退回直接改写内容
+  const applyEdit = (edit: TextEdit) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(edit.from, edit.to);
+    let applied = true;
+    if (edit.from !== edit.to || edit.insert) {
+      applied = edit.insert
+        ? document.execCommand('insertText', false, edit.insert)
+        : document.execCommand('delete');
+    }
+    if (applied) {
+      textarea.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+      updateCompletion();
+    } else {
+      pendingSelectionRef.current = [edit.selectionStart, edit.selectionEnd];
+      onChange(value.slice(0, edit.from) + edit.insert + value.slice(edit.to), edit.selectionStart);
+    }
+  };
+
+  const acceptSuggestion = (suggestion: LinkSuggestion) => {
+    if (!completion || !textareaRef.current) return;
+    const edit = completeWikilink(value, completion.from, textareaRef.current.selectionStart, suggestion.target);
+    dismissedRef.current = completion.from;
+    setCompletion(null);
+    applyEdit(edit);
+  };
+
+  // 粘贴或拖入的图片保存为附件，完成后在光标处插入 ![[文件名]]
+  const insertImages = async (images: File[]) => {
+    const names: string[] = [];
+    for (const image of images) {
+      const name = await onSaveImage!(image);
+      if (name) names.push(name);
+    }
+    const textarea = textareaRef.current;
+    if (!textarea || names.length === 0) return;
+    const insert = names.map(name => `![[${name}]]`).join('\n');
+    const { selectionStart, selectionEnd } = textarea;
+    const caret = selectionStart + insert.length;
+    applyEdit({ from: selectionStart, to: selectionEnd, insert, selectionStart: caret, selectionEnd: caret });
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const images = onSaveImage ? imageFiles(e.clipboardData.files) : [];
+    if (images.length === 0) return;
+    e.preventDefault();
+    insertImages(images);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLTextAreaElement>) => {
+    // 阻止浏览器直接打开拖入的文件
+    if (onSaveImage && e.dataTransfer.types.includes('Files')) e.preventDefault();
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLTextAreaElement>) => {
+    if (!onSaveImage || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    const images = imageFiles(e.dataTransfer.files);
+    if (images.length > 0) insertImages(images);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // 输入法组字过程中的按键交给浏览器
+    if (e.nativeEvent.isComposing) return;
+    const textarea = e.currentTarget;
+
+    if (completion && candidates.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setCompletion({ ...completion, index: (completion.index + step + candidates.length) % candidates.length });
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        acceptSuggestion(candidates[completion.index] || candidates[0]);
+        return;
+      }
+    }
+    if (e.key === 'Escape') {
+      if (completion) {
+        dismissedRef.current = completion.from;
+        setCompletion(null);
+      } else {
+        onEscape?.();
+      }
+      return;
+    }
+
+    const selection = { text: value, start: textarea.selectionStart, end: textarea.selectionEnd };
+    const hasModifier = e.ctrlKey || e.metaKey || e.altKey;
+    let edit: TextEdit | null = null;
+
+    if (e.key === 'Enter' && !e.shiftKey && !hasModifier) {
+      edit = handleEnter(selection);
+    } else if (e.key === 'Tab' && !hasModifier) {
+      edit = handleIndent(selection, e.shiftKey);
+    } else if (e.key === 'Backspace' && !hasModifier) {
+      edit = handleBackspace(selection);
+    } else if (e.key.length === 1 && !hasModifier) {
+      edit = handleTypedChar(selection, e.key);
+    } else if (onNavigate && (e.key === 'ArrowUp' || e.key === 'ArrowDown') && !e.shiftKey && selection.start === selection.end) {
+      const atFirstLine = !value.slice(0, selection.start).includes('\n');
+      const atLastLine = !value.slice(selection.start).includes('\n');
+      if ((e.key === 'ArrowUp' && atFirstLine) || (e.key === 'ArrowDown' && atLastLine)) {
+        e.preventDefault();
+        onNavigate(e.key === 'ArrowUp' ? 'up' : 'down');
+        return;
+      }
+    }
+
+    if (edit) {
+      e.preventDefault();
+      applyEdit(edit);
+    }
+  };
+
+  const padding = lineNumbers ? 'pl-12 pr-4' : 'px-0';
+
+  return (
+    <div ref={containerRef} className="relative">
+      {/* 高亮层：决定编辑区高度，textarea 覆盖其上 */}
+      <div ref={overlayRef} className={`${TEXT_LAYOUT} ${padding} py-1 text-[#262626] pointer-events-none`} aria-hidden="true">
+        {lines.map((line, idx) => (
+          <div
+            key={idx}
+            data-editor-line={idx + 1}
+            data-number={idx + 1}
+            className={`relative ${line.kind ? LINE_CLASSES[line.kind] : ''} ${lineNumbers ? 'before:content-[attr(data-number)] before:absolute before:right-full before:mr-4 before:text-xs before:leading-6 before:text-gray-300 before:select-none' : ''}`}
+          >
+            {line.tokens.length === 0 ? <br /> : line.tokens.map((token, i) => (
+              <span key={i} className={token.type ? TOKEN_CLASSES[token.type] : undefined}>{token.text}</span>
+            ))}
+          </div>
+        ))}
+      </div>
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value, e.target.selectionStart)}
+        onSelect={updateCompletion}
+        onKeyDown={handleKeyDown}
+        onPaste={handlePaste}
+        onDragOver={handleDragOver}
+        onDrop={handleDrop}
+        onBlur={() => setCompletion(null)}
+        spellCheck={false}
+        placeholder="开始写作..."
+        className={`${TEXT_LAYOUT} ${padding} py-1 absolute inset-0 w-full h-full resize-none overflow-hidden bg-transparent text-transparent caret-[#262626] outline-none selection:bg-[#00b96b]/20 placeholder:text-gray-300`}
+      />
+
+      {completion && popupPosition && (
+        <div
+          className="absolute z-20 w-72 bg-white border border-gray-200 rounded-lg shadow-lg py-1 text-sm"
+          style={{ top: popupPosition.top, left: popupPosition.left }}
+        >
+          {candidates.length === 0 ? (
+            <div className="px-3 py-2 text-xs text-gray-400">没有匹配的笔记</div>
+          ) : candidates.map((item, idx) => (
+            <button
+              key={item.path}
+              onMouseDown={(e) => { e.preventDefault(); acceptSuggestion(item); }}
+              className={`w-full text-left px-3 py-1.5 flex items-center ${idx === completion.index ? 'bg-green-50 text-[#00b96b]' : 'text-gray-700 hover:bg-gray-50'}`}
+            >
+              <FileText size={14} className="mr-2 shrink-0 text-gray-400" />
+              <span className="truncate">{item.title}</span>
+              {item.path.includes('/') && (
+                <span className="ml-auto pl-2 text-xs text-gray-400 truncate max-w-[50%]">{item.path.slice(0, item.path.lastIndexOf('/'))}</span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  mode: EditorMode;
+  suggestions?: LinkSuggestion[];
+  renderPreview: (markdown: string, lineOffset: number) => React.ReactNode;
+  onSaveImage?: (image: File) => Promise<string | null>; // 保存粘贴 / 拖入的图片，返回文件名
+}
+
+// 编辑区顶部可见位置对应的源文件行号 (1-based，含行内比例)
+const editorLineAt = (pane: HTMLElement) => {
+  const lines = pane.querySelectorAll<HTMLElement>('[data-editor-line]');
+  let low = 0;
+  let high = lines.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsetIn(pane, lines[mid]) <= pane.scrollTop) low = mid;
+    else high = mid - 1;
+  }
+  const el = lines[low];
+  if (!el) return 1;
+  const fraction = (pane.scrollTop - offsetIn(pane, el)) / (el.offsetHeight || 1);
+  return low + 1 + Math.min(Math.max(fraction, 0), 1);
+};
+
+// 预览中带 data-line 的元素，按行号与位置同时单调排列
+const previewAnchors = (pane: HTMLElement) => {
+  const anchors: { line: number; top: number }[] = [];
+  for (const el of Array.from(pane.querySelectorAll<HTMLElement>('[data-line]'))) {
+    const line = Number(el.dataset.line);
+    const top = offsetIn(pane, el);
+    const last = anchors[anchors.length - 1];
+    if (last && (line <= last.line || top <= last.top)) continue;
+    anchors.push({ line, top });
+  }
+  return anchors;
+};
+
+// 在锚点之间线性插值：from 为已知量，返回对应的 to
+const interpolate = (anchors: { line: number; top: number }[], value: number, from: 'line' | 'top', to: 'line' | 'top') => {
+  if (anchors.length === 0) return 0;
+  let index = anchors.findIndex(anchor => anchor[from] > value);
+  if (index === -1) index = anchors.length;
+  const prev = anchors[index - 1] || { line: 1, top: 0 };
+  const next = anchors[index];
+  if (!next) return prev[to];
+  const ratio = (value - prev[from]) / ((next[from] - prev[from]) || 1);
+  return prev[to] + (next[to] - prev[to]) * ratio;
+};
+
+const SplitEditor = ({ value, onChange, suggestions, renderPreview, onSaveImage }: Omit<MarkdownEditorProps, 'mode'> & { suggestions: LinkSuggestion[] }) => {
+  const editorPaneRef = useRef<HTMLDivElement>(null);
+  const previewPaneRef = useRef<HTMLDivElement>(null);
+  // 由同步触发的滚动不再反向同步，避免两侧互相拉扯
+  const syncingRef = useRef<HTMLElement | null>(null);
+  const { body, bodyLineOffset } = useMemo(() => splitFrontmatter(value), [value]);
+
+  const syncScroll = (source: HTMLElement, target: HTMLElement) => {
+    if (syncingRef.current === source) {
+      syncingRef.current = null;
+      return;
+    }
+    let top: number;
+    if (source.scrollTop + source.clientHeight >= source.scrollHeight - 1) {
+      top = target.scrollHeight;
+    } else if (source === editorPaneRef.current) {
+      top = interpolate(previewAnchors(target), editorLineAt(source), 'line', 'top');
+    } else {
+      const line = interpolate(previewAnchors(source), source.scrollTop, 'top', 'line');
+      const lines = target.querySelectorAll<HTMLElement>('[data-editor-line]');
+      const el = lines[Math.min(Math.max(Math.floor(line) - 1, 0), lines.length - 1)];
+      top = el ? offsetIn(target, el) + (line - Math.floor(line)) * el.offsetHeight : 0;
+    }
+    if (Math.abs(target.scrollTop - top) < 1) return;
+    syncingRef.current = target;
+    target.scrollTop = top;
+  };
+
+  return (
+    <div className="flex flex-1 overflow-hidden">
+      <div
+        ref={editorPaneRef}
+        onScroll={() => editorPaneRef.current && previewPaneRef.current && syncScroll(editorPaneRef.current, previewPaneRef.current)}
+        className="w-1/2 overflow-y-auto custom-scrollbar border-r border-gray-100 bg-white"
+      >
+        <div className="px-4 py-8 pb-32">
+          <SourceEditor value={value} onChange={onChange} suggestions={suggestions} autoFocus onSaveImage={onSaveImage} />
+        </div>
+      </div>
+      <div
+        ref={previewPaneRef}
+        onScroll={() => editorPaneRef.current && previewPaneRef.current && syncScroll(previewPaneRef.current, editorPaneRef.current)}
+        className="w-1/2 overflow-y-auto custom-scrollbar bg-white"
+      >
+        <div className="px-8 py-8 pb-32 text-[#262626] leading-relaxed text-[16px]">
+          {renderPreview(body, bodyLineOffset)}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * 实时预览：光标所在的块显示为源码，其余块渲染为预览；点击预览块即进入编辑
+ */
+const LivePreviewEditor = ({ value, onChange, suggestions, renderPreview, onSaveImage }: Omit<MarkdownEditorProps, 'mode'> & { suggestions: LinkSuggestion[] }) => {
+  const [cursor, setCursor] = useState<number | null>(null);
+  const lines = useMemo(() => value.split('\n'), [value]);
+  const blocks = useMemo(() => splitBlocks(lines), [lines]);
+  const lineStarts = useMemo(() => {
+    const starts: number[] = [];
+    let offset = 0;
+    for (const line of lines) {
+      starts.push(offset);
+      offset += line.length + 1;
+    }
+    return starts;
+  }, [lines]);
+
+  // 光标所在块；光标位于空行时单独编辑该行
+  const active = useMemo(() => {
+    if (cursor === null) return null;
+    let line = lineStarts.length - 1;
+    while (line > 0 && lineStarts[line] > cursor) line--;
+    return blocks.find(block => block.start <= line && block.end >= line) || { start: line, end: line, kind: 'text' as const };
+  }, [cursor, blocks, lineStarts]);
+
+  const activeStart = active ? lineStarts[active.start] : 0;
+  const activeText = active ? lines.slice(active.start, active.end + 1).join('\n') : '';
+
+  const handleBlockChange = (text: string, caret: number) => {
+    if (!active) return;
+    onChange([...lines.slice(0, active.start), text, ...lines.slice(active.end + 1)].join('\n'));
+    setCursor(activeStart + caret);
+  };
+
+  const handleNavigate = (direction: 'up' | 'down') => {
+    if (!active) return;
+    if (direction === 'up' && active.start > 0) setCursor(lineStarts[active.start] - 1);
+    if (direction === 'down' && active.end < lines.length - 1) setCursor(lineStarts[active.end + 1]);
+  };
+
+  const activateAt = (e: React.MouseEvent, offset: number) => {
+    // 链接、按钮与复选框保持原有行为
+    if ((e.target as HTMLElement).closest('a, button, input')) return;
+    setCursor(offset);
+  };
+
+  const items: React.ReactNode[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (active && i === active.start) {
+      items.push(
+        <div key={`edit-${active.start}`} className="my-2 -mx-3 px-3 py-1 rounded bg-gray-50 ring-1 ring-gray-100">
+          <SourceEditor
+            value={activeText}
+            onChange={handleBlockChange}
+            suggestions={suggestions}
+            lineNumbers={false}
+            autoFocus
+            cursor={cursor! - activeStart}
+            onCursorChange={(caret) => setCursor(activeStart + caret)}
+            onNavigate={handleNavigate}
+            onEscape={() => setCursor(null)}
+            onSaveImage={onSaveImage}
+          />
+        </div>
+      );
+      i = active.end + 1;
+      continue;
+    }
+    const block = blocks.find(b => b.start === i);
+    if (!block) {
+      i++;
+      continue;
+    }
+    const text = lines.slice(block.start, block.end + 1).join('\n');
+    const blockEnd = lineStarts[block.end] + lines[block.end].length;
+    items.push(
+      <div key={`block-${block.start}`} onClick={(e) => activateAt(e, blockEnd)} className="cursor-text rounded hover:bg-gray-50/60">
+        {block.kind === 'frontmatter' ? (
+          <pre className={`${TEXT_LAYOUT} text-gray-500 bg-gray-50 rounded px-3 py-2 mb-4`}>{text}</pre>
+        ) : (
+          renderPreview(text, block.start)
+        )}
+      </div>
+    );
+    i = block.end + 1;
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto custom-scrollbar bg-white">
+      <div className="max-w-[850px] mx-auto px-8 py-12 text-[#262626] leading-relaxed text-[16px]">
+        {items}
+        {/* 点击末尾空白处在文末继续编辑 */}
+        <div className="min-h-[30vh] cursor-text" onClick={(e) => activateAt(e, value.length)}>
+          {value.trim() === '' && !active && <span className="text-gray-300 text-sm">点击开始写作...</span>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const MarkdownEditor: React.FC<MarkdownEditorProps> = ({ value, onChange, mode, suggestions = [], renderPreview, onSaveImage }) => {
+  if (mode === 'split') {
+    return <SplitEditor value={value} onChange={onChange} suggestions={suggestions} renderPreview={renderPreview} onSaveImage={onSaveImage} />;
+  }
+  if (mode === 'live') {
+    return <LivePreviewEditor value={value} onChange={onChange} suggestions={suggestions} renderPreview={renderPreview} onSaveImage={onSaveImage} />;
+  }
+  return (
+    <div className="flex-1 overflow-y-auto custom-scrollbar bg-white">
+      <div className="max-w-[850px] mx-auto px-8 py-12 pb-32">
+        <SourceEditor value={value} onChange={onChange} suggestions={suggestions} autoFocus onSaveImage={onSaveImage} />
+      </div>
+    </div>
+  );
+};
+
+export default MarkdownEditor;
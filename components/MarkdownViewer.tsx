@@ -1,103 +1,48 @@
-import React, { useMemo, useState, useEffect } from 'react';
-import ReactMarkdown from 'react-markdown';
-import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
-import { prism } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import { FileText, ExternalLink, Clock, Edit2, Save, X, Tag, Calendar, User, AlignLeft, ChevronDown, ChevronUp, AlertCircle } from 'lucide-react';
-import remarkGfm from 'remark-gfm';
+import React, { useMemo, useState, useEffect, useRef } from 'react';
+import { FileText, Clock, Edit2, Save, X, Tag, History, Loader2, Calendar, User, AlignLeft, ChevronDown, ChevronUp, SlidersHorizontal, Plus, Code2, Columns2, Eye, Download, AlertCircle } from 'lucide-react';
+import { ResolvedNote, ScrollTarget, LinkSuggestion } from '../types';
+import { splitFrontmatter, updateFrontmatter } from '../services/frontmatter';
+import { headingAnchorId, findBlockLine, extractOutline, OutlineItem } from '../services/markdown';
+import { normalizeTag } from '../services/tagIndex';
+import { QueryResult } from '../services/query';
+import MarkdownContent from './MarkdownContent';
+import PropertyEditor from './PropertyEditor';
+import MarkdownEditor, { EditorMode } from './MarkdownEditor';
+import { NoteDraft, getDraft, saveDraft, clearDraft } from '../services/draftStore';
+import { DocumentFormat, DOCUMENT_FORMAT_LABELS } from '../services/documentExport';
+import { splitLines, merge3, mergeResultToText } from '../services/diff';
 
 interface MarkdownViewerProps {
   content: string;
   fileName: string;
+  filePath?: string;
   lastModified?: number;
   onLinkClick: (href: string) => void;
-  onResolveImage?: (src: string) => Promise<string | null>;
-  onSave?: (content: string) => void;
+  onTagClick?: (tag: string) => void;
+  onResolveFile?: (src: string) => Promise<string | null>;
+  onResolveNote?: (target: string) => Promise<ResolvedNote | null>;
+  onRunQuery?: (source: string) => QueryResult;
+  onOpenPath?: (path: string, line?: number) => void;
+  onToggleTask?: (path: string, line: number) => void;
+  linkSuggestions?: LinkSuggestion[];
+  onSaveImage?: (image: File) => Promise<string | null>;
+  onSave?: (content: string) => Promise<string | null>; // 返回实际写入的内容 (冲突合并后可能不同)，失败或取消时为 null
+  onDirtyChange?: (dirty: boolean) => void;
+  draftKey?: string; // 崩溃恢复草稿的存储键，未提供时不缓冲
+  onShowHistory?: () => void;
+  onExport?: (format: DocumentFormat) => void;
   isEditable?: boolean;
+  scrollTarget?: ScrollTarget | null;
+  footer?: React.ReactNode;
 }
 
-interface OutlineItem {
-  id: string;
-  text: string;
-  level: number;
-}
-
-// --- Utils ---
-
-const generateId = (text: string) => {
-  return text
-    .toLowerCase()
-    .replace(/[^\w\u4e00-\u9fa5]+/g, '-')
-    .replace(/^-+|-+$/g, '')
-    || 'heading';
-};
-
-const stripMarkdown = (text: string) => {
-  return text
-    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
-    .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
-    .replace(/(\*\*|__)(.*?)\1/g, '$2')
-    .replace(/(\*|_)(.*?)\1/g, '$2')
-    .replace(/`([^`]+)`/g, '$1')
-    .replace(/<!--[\s\S]*?-->/g, '')
-    .trim();
-};
-
-const parseYamlValue = (val: string) => {
-  val = val.trim();
-  if (val === 'true') return true;
-  if (val === 'false') return false;
-  if (val === 'null') return null;
-  if ((val.startsWith('"') && val.endsWith('"')) || (val.startsWith("'") && val.endsWith("'"))) {
-     return val.slice(1, -1);
-  }
-  if (val.startsWith('[') && val.endsWith(']')) {
-      const content = val.slice(1, -1).trim();
-      if (!content) return [];
-      return content.split(',').map(v => parseYamlValue(v));
-  }
-  return val;
-};
+const AUTOSAVE_DELAY = 1500;
 
-const parseFrontmatter = (text: string) => {
-  const pattern = /^---\n([\s\S]*?)\n---/;
-  const match = text.match(pattern);
-  
-  if (!match) {
-    return { metadata: null, content: text };
-  }
-
-  const yamlLines = match[1].split('\n');
-  const metadata: Record<string, any> = {};
-  let currentObj: any = null;
-  let currentKey: string = '';
-
-  for (const line of yamlLines) {
-    if (!line.trim() || line.trim().startsWith('#')) continue;
-    const indentLevel = line.search(/\S|$/);
-    const trimmed = line.trim();
-    const separatorIndex = trimmed.indexOf(':');
-    
-    if (separatorIndex === -1) continue;
-    const key = trimmed.slice(0, separatorIndex).trim();
-    const valueStr = trimmed.slice(separatorIndex + 1).trim();
-
-    if (indentLevel === 0) {
-      if (valueStr === '') {
-        currentKey = key;
-        currentObj = {};
-        metadata[key] = currentObj;
-      } else {
-        currentKey = '';
-        currentObj = null;
-        metadata[key] = parseYamlValue(valueStr);
-      }
-    } else if (indentLevel > 0 && currentObj) {
-      currentObj[key] = parseYamlValue(valueStr);
-    }
-  }
-  const content = text.replace(pattern, '').trim();
-  return { metadata, content };
-};
+const EDITOR_MODES: { mode: EditorMode; label: string; icon: React.ElementType }[] = [
+  { mode: 'source', label: '源码', icon: Code2 },
+  { mode: 'live', label: '实时预览', icon: Eye },
+  { mode: 'split', label: '分屏', icon: Columns2 },
+];
 
 // --- Components ---
 
@@ -111,7 +56,7 @@ const MetadataRenderer = ({ data, level = 0 }: { data: any, level?: number }) =>
       <div className="flex gap-1 flex-wrap">
         {data.map((item, idx) => (
           <span key={idx} className="bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded text-xs">
-            {String(item)}
+            {typeof item === 'object' && item !== null ? JSON.stringify(item) : String(item)}
           </span>
         ))}
       </div>
@@ -134,67 +79,251 @@ const MetadataRenderer = ({ data, level = 0 }: { data: any, level?: number }) =>
 const MarkdownViewer: React.FC<MarkdownViewerProps> = ({ 
   content, 
   fileName, 
+  filePath,
   lastModified, 
   onLinkClick,
-  onResolveImage,
+  onTagClick,
+  onResolveFile,
+  onResolveNote,
+  onRunQuery,
+  onOpenPath,
+  onToggleTask,
+  linkSuggestions,
+  onSaveImage,
   onSave,
-  isEditable = false
+  onDirtyChange,
+  draftKey,
+  onShowHistory,
+  onExport,
+  isEditable = false,
+  scrollTarget,
+  footer
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editContent, setEditContent] = useState(content);
+  const [editorMode, setEditorMode] = useState<EditorMode>('source');
   const [outline, setOutline] = useState<OutlineItem[]>([]);
   const [activeId, setActiveId] = useState<string>('');
   const [isMetaExpanded, setIsMetaExpanded] = useState(false);
+  const [isEditingProps, setIsEditingProps] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'error'>('idle');
+  const [recoveredDraft, setRecoveredDraft] = useState<NoteDraft | null>(null);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  const failedContentRef = useRef<string | null>(null);
+  // 正在保存及最近一次保存写入的内容，用于区分自身保存与外部更新
+  const isSavingRef = useRef(false);
+  const ownSaveRef = useRef<string | null>(null);
+
+  // 切换笔记时在渲染阶段重置编辑状态，避免草稿与自动保存的 effect 看到新笔记与旧编辑内容的组合
+  const noteKey = filePath ?? fileName;
+  const [editingNote, setEditingNote] = useState(noteKey);
+  if (editingNote !== noteKey) {
+    setEditingNote(noteKey);
+    setEditContent(content);
+    setIsEditing(false);
+    setIsEditingProps(false);
+    setSaveStatus('idle');
+  }
+
+  const isDirty = isEditing && editContent !== content;
+
+  // 文件内容在外部更新 (链接改写、批量标签、任务切换等)；编辑中有未保存修改时三方合并到编辑内容，
+  // 否则下次自动保存会覆盖这些更新。自身保存引起的更新保留编辑内容即可
+  const prevContentRef = useRef(content);
+  useEffect(() => {
+    const previous = prevContentRef.current;
+    prevContentRef.current = content;
+    if (!isEditing || editContent === previous) {
+      setEditContent(content);
+      return;
+    }
+    if (isSavingRef.current || content === ownSaveRef.current || editContent === content) return;
+    const merged = merge3(splitLines(previous), splitLines(editContent), splitLines(content));
+    setEditContent(mergeResultToText(merged, 'mine'));
+    if (merged.conflicts > 0) {
+      alert(`文件在编辑期间被修改，其中 ${merged.conflicts} 处与未保存的编辑重叠，这些位置保留了编辑内容`);
+    }
+  }, [content]);
+
+  // 点击其他位置时关闭导出菜单
+  useEffect(() => {
+    if (!isExportMenuOpen) return;
+    const closeMenu = () => setIsExportMenuOpen(false);
+    window.addEventListener('click', closeMenu);
+    return () => window.removeEventListener('click', closeMenu);
+  }, [isExportMenuOpen]);
+
+  // 打开笔记时检查是否有上次未保存的草稿
+  useEffect(() => {
+    if (!draftKey || isEditing) return;
+    const draft = getDraft(draftKey);
+    if (draft && draft.content === content) {
+      clearDraft(draftKey);
+      setRecoveredDraft(null);
+    } else {
+      setRecoveredDraft(draft);
+    }
+  }, [draftKey, content]);
+
+  // 编辑内容实时写入草稿，与文件一致时清除
+  useEffect(() => {
+    if (!draftKey || !isEditing) return;
+    if (editContent === content) {
+      clearDraft(draftKey);
+    } else {
+      saveDraft(draftKey, { content: editContent, baseContent: content, savedAt: Date.now() });
+    }
+  }, [draftKey, isEditing, editContent, content]);
+
+  const saveContent = async (text: string) => {
+    if (!onSave) return false;
+    setSaveStatus('saving');
+    isSavingRef.current = true;
+    ownSaveRef.current = text;
+    const saved = await onSave(text).finally(() => { isSavingRef.current = false; });
+    if (saved !== null) ownSaveRef.current = saved;
+    failedContentRef.current = saved === null ? text : null;
+    setSaveStatus(saved === null ? 'error' : 'idle');
+    // 保存期间未继续输入时，编辑器同步为合并后实际写入的内容
+    if (saved !== null && saved !== text) setEditContent(current => current === text ? saved : current);
+    return saved !== null;
+  };
+
+  // 停止输入一段时间后自动保存；保存失败后等内容再次变化才重试
+  useEffect(() => {
+    if (!isDirty || saveStatus === 'saving' || editContent === failedContentRef.current) return;
+    const timer = setTimeout(() => saveContent(editContent), AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [isDirty, editContent, saveStatus]);
 
   useEffect(() => {
+    onDirtyChange?.(isDirty);
+  }, [isDirty]);
+
+  // 有未保存修改时关闭或刷新页面需确认
+  useEffect(() => {
+    if (!isDirty) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isDirty]);
+
+  const handleSaveProperties = async (properties: Record<string, any>) => {
+    if (!onSave) return;
+    let updated: string;
+    try {
+      updated = updateFrontmatter(content, properties);
+    } catch (e: any) {
+      console.error(e);
+      alert(e.message);
+      return;
+    }
+    if (await saveContent(updated)) {
+      setIsEditingProps(false);
+    } else {
+      alert('保存文件失败');
+    }
+  };
+
+  const handleSave = async (exitEditing: boolean) => {
+    if (!onSave) return;
+    if (editContent !== content && !(await saveContent(editContent))) {
+      alert('保存文件失败');
+      return;
+    }
+    if (exitEditing) setIsEditing(false);
+  };
+
+  const handleCancelEdit = () => {
+    if (isDirty && !window.confirm('放弃尚未保存的修改？')) return;
+    if (draftKey) clearDraft(draftKey);
     setEditContent(content);
     setIsEditing(false);
-  }, [content, fileName]);
+  };
 
-  const handleSave = () => {
-    if (onSave) {
-      onSave(editContent);
-      setIsEditing(false);
-    }
+  const handleRestoreDraft = () => {
+    if (!recoveredDraft) return;
+    setEditContent(recoveredDraft.content);
+    setIsEditing(true);
+    setRecoveredDraft(null);
   };
 
-  const { metadata, processedContent } = useMemo(() => {
-    if (!content) return { metadata: null, processedContent: '' };
-    const { metadata, content: rawBody } = parseFrontmatter(content);
-    let cleanedContent = rawBody.replace(/<!--[\s\S]*?-->/g, '');
-    
-    // Process WikiLinks
-    const processed = cleanedContent.replace(/(!?)\[\[(.*?)(?:\|(.*?))?\]\]/g, (match, isEmbed, link, alias) => {
-      const target = link.trim();
-      const text = alias ? alias.trim() : target;
-      if (isEmbed) {
-        return `![${text}](wikiimage:${target})`;
-      } else {
-        return `[${text}](wikilink:${target})`;
-      }
-    });
+  const handleDiscardDraft = () => {
+    if (draftKey) clearDraft(draftKey);
+    setRecoveredDraft(null);
+  };
+
+  // 编辑器预览与阅读视图共用渲染器；预览中不切换任务，避免绕过编辑内容直接写文件
+  const renderPreview = (markdown: string, lineOffset: number) => (
+    <MarkdownContent
+      markdown={markdown}
+      lineOffset={lineOffset}
+      onLinkClick={onLinkClick}
+      onTagClick={onTagClick}
+      onResolveFile={onResolveFile}
+      onResolveNote={onResolveNote}
+      onRunQuery={onRunQuery}
+      onOpenPath={onOpenPath}
+      currentPath={filePath}
+    />
+  );
 
-    return { metadata, processedContent: processed };
+  const { metadata, body, bodyLineOffset, error: metadataError } = useMemo(() => {
+    if (!content) return { metadata: null, body: '', bodyLineOffset: 0, error: undefined };
+    return splitFrontmatter(content);
   }, [content]);
 
+  // Scroll to source line (search results) or anchor ([[Note#Heading]] / [[Note#^block]])
+  useEffect(() => {
+    if (!scrollTarget) return;
+    const frame = requestAnimationFrame(() => {
+      const container = contentRef.current;
+      if (!container) return;
+
+      let line = scrollTarget.line;
+      let target: HTMLElement | null = null;
+      if (scrollTarget.anchor) {
+        if (scrollTarget.anchor.startsWith('^')) {
+          const index = findBlockLine(content.split('\n'), scrollTarget.anchor.slice(1));
+          if (index !== -1) line = index + 1;
+        } else {
+          target = container.querySelector<HTMLElement>(`[id="${CSS.escape(headingAnchorId(scrollTarget.anchor))}"]`);
+        }
+      }
+
+      if (!target && line !== undefined) {
+        let targetLine = -1;
+        for (const el of Array.from(container.querySelectorAll<HTMLElement>('[data-line]'))) {
+          const elLine = Number(el.dataset.line);
+          // 文档顺序遍历，>= 使同一行时优先选中最内层元素
+          if (elLine <= line && elLine >= targetLine) {
+            target = el;
+            targetLine = elLine;
+          }
+        }
+      }
+      if (!target) return;
+      const el = target;
+      el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      el.classList.add('bg-yellow-50', 'transition-colors');
+      setTimeout(() => el.classList.remove('bg-yellow-50'), 2000);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [scrollTarget]);
+
   // Extract Outline
   useEffect(() => {
-    if (!processedContent) {
+    if (!body) {
       setOutline([]);
       return;
     }
-    const headingRegex = /^(#{1,4})\s+(.+)$/gm;
-    const items: OutlineItem[] = [];
-    let match;
-    while ((match = headingRegex.exec(processedContent)) !== null) {
-      const level = match[1].length;
-      const rawText = match[2].trim();
-      const text = stripMarkdown(rawText);
-      const id = generateId(text);
-      items.push({ id, text, level });
-    }
-    setOutline(items);
-  }, [processedContent]);
+    setOutline(extractOutline(body));
+  }, [body]);
 
   // Scroll Spy
   useEffect(() => {
@@ -215,72 +344,6 @@ const MarkdownViewer: React.FC<MarkdownViewerProps> = ({
     return () => observer.disconnect();
   }, [outline]);
 
-  const WikiImage = ({ src, alt, ...props }: any) => {
-    const [imgUrl, setImgUrl] = useState<string | null>(null);
-    const [loading, setLoading] = useState(true);
-    const [hasError, setHasError] = useState(false);
-
-    useEffect(() => {
-      let active = true;
-      setLoading(true);
-      setHasError(false);
-      const load = async () => {
-        try {
-            if (src && src.startsWith('wikiimage:')) {
-              const rawName = src.replace('wikiimage:', '');
-              const imageName = decodeURIComponent(rawName);
-              const url = onResolveImage ? await onResolveImage(imageName) : null;
-              if (active) {
-                if (url) setImgUrl(url);
-                else setHasError(true);
-                setLoading(false);
-              }
-            } else if (onResolveImage && !src.startsWith('http') && !src.startsWith('data:')) {
-                const url = await onResolveImage(src);
-                if (active) {
-                    if (url) setImgUrl(url);
-                    else setImgUrl(src); 
-                    setLoading(false);
-                }
-            } else {
-              setImgUrl(src);
-              setLoading(false);
-            }
-        } catch (e) {
-            if (active) { setHasError(true); setLoading(false); }
-        }
-      };
-      load();
-      return () => { active = false; };
-    }, [src, onResolveImage]);
-
-    if (loading) return <div className="bg-gray-50 h-32 rounded-lg flex items-center justify-center text-xs text-gray-400">Loading Image...</div>;
-    if (hasError) return <div className="text-red-400 text-xs flex items-center bg-red-50 p-2 rounded"><AlertCircle size={12} className="mr-1"/> Image Failed</div>;
-
-    return <img src={imgUrl || src} alt={alt} className="max-w-full h-auto rounded shadow-sm border border-gray-100 mx-auto my-4" onError={() => setHasError(true)} {...props} />;
-  };
-
-  const HeadingRenderer = ({ level, children, ...props }: any) => {
-     const getText = (node: any): string => {
-        if (typeof node === 'string') return node;
-        if (Array.isArray(node)) return node.map(getText).join('');
-        if (node.props && node.props.children) return getText(node.props.children);
-        return '';
-     };
-     const text = getText(children);
-     const id = generateId(text);
-     const Tag = `h${level}` as React.ElementType;
-     const styles = ({
-         1: "text-3xl font-bold mt-10 mb-6 pb-2 border-b border-gray-100",
-         2: "text-2xl font-bold mt-8 mb-4",
-         3: "text-xl font-bold mt-6 mb-3",
-         4: "text-lg font-bold mt-4 mb-2",
-         5: "font-bold mt-3",
-         6: "font-bold mt-3 text-gray-500"
-     } as any)[level] || "";
-     return <Tag id={id} className={`scroll-mt-20 ${styles}`} {...props}>{children}</Tag>;
-  };
-
   // --- Render ---
 
   if (!content && !isEditing) {
@@ -305,6 +368,19 @@ const MarkdownViewer: React.FC<MarkdownViewerProps> = ({
                 {fileName.replace('.md', '')}
              </h1>
              <div className="flex items-center text-xs text-gray-400 gap-3">
+                 {isEditing && (
+                     <span className={`flex items-center gap-1 ${saveStatus === 'error' ? 'text-red-500' : isDirty ? 'text-amber-500' : ''}`}>
+                         {saveStatus === 'saving' ? (
+                             <><Loader2 size={10} className="animate-spin" /> 保存中...</>
+                         ) : saveStatus === 'error' ? (
+                             '保存失败'
+                         ) : isDirty ? (
+                             <><span className="w-1.5 h-1.5 rounded-full bg-amber-500" /> 未保存</>
+                         ) : (
+                             '已保存'
+                         )}
+                     </span>
+                 )}
                  {lastModified && (
                      <span className="flex items-center gap-1">
                          <Clock size={10} />
@@ -314,7 +390,7 @@ const MarkdownViewer: React.FC<MarkdownViewerProps> = ({
                  {metadata?.author && (
                      <span className="flex items-center gap-1">
                          <User size={10} />
-                         {metadata.author}
+                         {String(metadata.author)}
                      </span>
                  )}
              </div>
@@ -322,6 +398,39 @@ const MarkdownViewer: React.FC<MarkdownViewerProps> = ({
         </div>
 
         <div className="flex items-center gap-2">
+            {onExport && !isEditing && (
+                <div className="relative">
+                    <button
+                        onClick={(e) => { e.stopPropagation(); setIsExportMenuOpen(!isExportMenuOpen); }}
+                        className="p-2 text-gray-500 hover:bg-gray-100 hover:text-[#00b96b] rounded-lg transition-colors"
+                        title="导出"
+                    >
+                        <Download size={18} />
+                    </button>
+                    {isExportMenuOpen && (
+                        <div className="absolute right-0 top-10 w-36 bg-white shadow-lg rounded-lg border border-gray-100 py-1 z-50 text-xs text-gray-700 animate-fade-in">
+                            {(Object.keys(DOCUMENT_FORMAT_LABELS) as DocumentFormat[]).map(format => (
+                                <button
+                                    key={format}
+                                    className="w-full text-left px-3 py-2 hover:bg-gray-50"
+                                    onClick={() => { setIsExportMenuOpen(false); onExport(format); }}
+                                >
+                                    导出为 {DOCUMENT_FORMAT_LABELS[format]}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+            {onShowHistory && !isEditing && (
+                <button
+                    onClick={onShowHistory}
+                    className="p-2 text-gray-500 hover:bg-gray-100 hover:text-[#00b96b] rounded-lg transition-colors"
+                    title="版本历史"
+                >
+                    <History size={18} />
+                </button>
+            )}
             {isEditable && !isEditing && (
                 <button 
                     onClick={() => setIsEditing(true)}
@@ -333,15 +442,28 @@ const MarkdownViewer: React.FC<MarkdownViewerProps> = ({
             )}
              {isEditing && (
                 <>
+                    <div className="hidden sm:flex items-center bg-gray-100 rounded-lg p-0.5 mr-2">
+                        {EDITOR_MODES.map(({ mode, label, icon: Icon }) => (
+                            <button
+                                key={mode}
+                                onClick={() => setEditorMode(mode)}
+                                className={`flex items-center gap-1 px-2.5 py-1 rounded-md text-xs transition-colors ${editorMode === mode ? 'bg-white text-[#00b96b] shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                                title={label}
+                            >
+                                <Icon size={14} />
+                                <span className="hidden md:inline">{label}</span>
+                            </button>
+                        ))}
+                    </div>
                     <button 
-                        onClick={() => { setIsEditing(false); setEditContent(content); }}
+                        onClick={handleCancelEdit}
                         className="p-2 text-gray-500 hover:bg-red-50 hover:text-red-500 rounded-lg transition-colors"
-                        title="取消"
+                        title="退出编辑"
                     >
                         <X size={20} />
                     </button>
                     <button 
-                        onClick={handleSave}
+                        onClick={() => handleSave(true)}
                         className="py-2 px-4 bg-[#00b96b] hover:bg-[#009456] text-white rounded-lg transition-colors flex items-center gap-2 text-sm font-medium shadow-sm"
                     >
                         <Save size={16} />
@@ -353,109 +475,135 @@ const MarkdownViewer: React.FC<MarkdownViewerProps> = ({
       </div>
 
       <div className="flex flex-1 overflow-hidden">
-        {/* Main Content */}
-        <div className="flex-1 overflow-y-auto bg-white custom-scrollbar">
-            <div className="max-w-[850px] mx-auto px-8 py-12 pb-32">
-                {isEditing ? (
-                    <textarea 
-                        className="w-full h-[calc(100vh-200px)] p-4 font-mono text-sm bg-gray-50 border border-gray-200 rounded-lg focus:ring-2 focus:ring-[#00b96b] focus:border-transparent outline-none resize-none"
-                        value={editContent}
-                        onChange={(e) => setEditContent(e.target.value)}
-                        placeholder="Start writing..."
-                    />
-                ) : (
-                    <>
-                        {/* Title & Metadata Block */}
-                        <div className="mb-6 border-b border-gray-100 pb-6">
-                            <h1 className="text-4xl font-bold text-[#262626] mb-4 leading-tight">{metadata?.title || fileName.replace('.md', '')}</h1>
-                            
-                            {(metadata || lastModified) && (
-                                <div className="bg-gray-50 rounded-lg border border-gray-100 overflow-hidden transition-all duration-300">
-                                    <div className="flex flex-wrap items-center gap-y-2 gap-x-6 px-4 py-3 text-sm text-gray-500">
-                                        {metadata?.date && <div className="flex items-center"><Calendar size={14} className="mr-1.5 opacity-70"/><span>{metadata.date}</span></div>}
-                                        {metadata?.tags && (
-                                            <div className="flex items-center">
-                                                <Tag size={14} className="mr-1.5 opacity-70"/>
-                                                <div className="flex gap-1 flex-wrap">
-                                                    {(Array.isArray(metadata.tags) ? metadata.tags : [metadata.tags]).map((tag: string, idx: number) => (
-                                                        <span key={idx} className="bg-blue-50 text-blue-600 px-1.5 py-0.5 rounded text-xs">#{tag}</span>
-                                                    ))}
-                                                </div>
+        {isEditing ? (
+            <div
+                className="flex flex-1 overflow-hidden"
+                onKeyDown={(e) => {
+                    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 's') {
+                        e.preventDefault();
+                        handleSave(false);
+                    }
+                }}
+            >
+                <MarkdownEditor
+                    value={editContent}
+                    onChange={setEditContent}
+                    mode={editorMode}
+                    suggestions={linkSuggestions}
+                    renderPreview={renderPreview}
+                    onSaveImage={onSaveImage}
+                />
+            </div>
+        ) : (
+            /* Main Content */
+            <div ref={contentRef} className="flex-1 overflow-y-auto bg-white custom-scrollbar">
+                <div className="max-w-[850px] mx-auto px-8 py-12 pb-32">
+                    {recoveredDraft && isEditable && (
+                        <div className="mb-6 flex items-center gap-3 px-4 py-3 rounded-lg border border-amber-200 bg-amber-50 text-sm text-amber-700">
+                            <History size={16} className="shrink-0" />
+                            <span className="flex-1">
+                                发现 {new Date(recoveredDraft.savedAt).toLocaleString()} 未保存的修改
+                                {recoveredDraft.baseContent !== content && '，文件此后已被修改，恢复将覆盖这些变更'}
+                            </span>
+                            <button onClick={handleDiscardDraft} className="px-2 py-1 text-xs text-amber-700 hover:bg-amber-100 rounded transition-colors">丢弃</button>
+                            <button onClick={handleRestoreDraft} className="px-3 py-1 text-xs bg-amber-500 hover:bg-amber-600 text-white rounded transition-colors">恢复</button>
+                        </div>
+                    )}
+
+                    {/* Title & Metadata Block */}
+                    <div className="mb-6 border-b border-gray-100 pb-6">
+                        <h1 className="text-4xl font-bold text-[#262626] mb-4 leading-tight">{metadata?.title || fileName.replace('.md', '')}</h1>
+                        
+                        {(metadata || lastModified || isEditingProps) && (
+                            <div className="bg-gray-50 rounded-lg border border-gray-100 overflow-hidden transition-all duration-300">
+                                <div className="flex flex-wrap items-center gap-y-2 gap-x-6 px-4 py-3 text-sm text-gray-500">
+                                    {metadata?.date && <div className="flex items-center"><Calendar size={14} className="mr-1.5 opacity-70"/><span>{String(metadata.date)}</span></div>}
+                                    {metadata?.tags && (
+                                        <div className="flex items-center">
+                                            <Tag size={14} className="mr-1.5 opacity-70"/>
+                                            <div className="flex gap-1 flex-wrap">
+                                                {(Array.isArray(metadata.tags) ? metadata.tags : [metadata.tags]).map((tag: string, idx: number) => (
+                                                    <button
+                                                        key={idx}
+                                                        onClick={() => onTagClick?.(normalizeTag(String(tag)))}
+                                                        className="bg-blue-50 text-blue-600 hover:bg-blue-100 px-1.5 py-0.5 rounded text-xs transition-colors"
+                                                    >
+                                                        #{tag}
+                                                    </button>
+                                                ))}
                                             </div>
+                                        </div>
+                                    )}
+                                    <div className="ml-auto flex items-center gap-1">
+                                        {isEditable && onSave && !isEditingProps && !metadataError && (
+                                            <button
+                                                onClick={() => setIsEditingProps(true)}
+                                                className="p-1 hover:bg-gray-200 rounded-full text-gray-400 transition-colors"
+                                                title="编辑属性"
+                                            >
+                                                <SlidersHorizontal size={16} />
+                                            </button>
                                         )}
-                                        {metadata && (
+                                        {metadata && !isEditingProps && (
                                             <button 
                                                 onClick={() => setIsMetaExpanded(!isMetaExpanded)}
-                                                className="ml-auto p-1 hover:bg-gray-200 rounded-full text-gray-400 transition-colors"
+                                                className="p-1 hover:bg-gray-200 rounded-full text-gray-400 transition-colors"
                                             >
                                                 {isMetaExpanded ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
                                             </button>
                                         )}
                                     </div>
-                                    {metadata && isMetaExpanded && (
-                                        <div className="px-4 pb-4 pt-1 border-t border-gray-100 bg-gray-50/50">
-                                            <MetadataRenderer data={metadata} />
-                                        </div>
-                                    )}
                                 </div>
-                            )}
-                        </div>
-
-                        {/* Rendering */}
-                        <div className="text-[#262626] leading-relaxed text-[16px]">
-                            <ReactMarkdown
-                                remarkPlugins={[remarkGfm]}
-                                urlTransform={(url) => url}
-                                components={{
-                                    h1: (props) => <HeadingRenderer level={1} {...props} />,
-                                    h2: (props) => <HeadingRenderer level={2} {...props} />,
-                                    h3: (props) => <HeadingRenderer level={3} {...props} />,
-                                    h4: (props) => <HeadingRenderer level={4} {...props} />,
-                                    p: (props) => <p className="mb-4 leading-7 text-justify text-[#262626] break-words" {...props} />,
-                                    ul: (props) => <ul className="list-disc pl-6 mb-4 space-y-1 text-gray-700" {...props} />,
-                                    ol: (props) => <ol className="list-decimal pl-6 mb-4 space-y-1 text-gray-700" {...props} />,
-                                    blockquote: (props) => <blockquote className="border-l-4 border-[#00b96b] pl-4 py-2 my-4 bg-green-50/30 text-gray-600 rounded-r text-sm italic" {...props} />,
-                                    table: (props) => <div className="overflow-x-auto my-6 rounded-lg border border-gray-200"><table className="min-w-full divide-y divide-gray-200 text-sm" {...props} /></div>,
-                                    th: (props) => <th className="bg-gray-50 px-4 py-3 font-semibold text-left text-gray-700" {...props} />,
-                                    td: (props) => <td className="px-4 py-3 border-t border-gray-100 text-gray-600" {...props} />,
-                                    img: WikiImage,
-                                    a: ({ node, href, children, ...props }) => {
-                                        const isWiki = href?.startsWith('wikilink:');
-                                        return (
-                                            <a 
-                                                href={href}
-                                                onClick={(e) => { if (isWiki) { e.preventDefault(); onLinkClick(href); }}}
-                                                className={`cursor-pointer transition-colors ${isWiki ? 'text-[#00b96b] hover:text-[#009456] font-medium' : 'text-[#1677ff] hover:underline'}`}
-                                                {...props}
-                                            >
-                                                {children}
-                                                {!isWiki && <ExternalLink size={12} className="inline ml-1 opacity-50" />}
-                                            </a>
-                                        );
-                                    },
-                                    code: ({ node, className, children, ...props }: any) => {
-                                        const match = /language-(\w+)/.exec(className || '');
-                                        const isInline = !match && !String(children).includes('\n');
-                                        if (isInline) return <code className="bg-gray-100 text-[#d4380d] px-1.5 py-0.5 rounded text-sm font-mono mx-1" {...props}>{children}</code>;
-                                        return (
-                                            <div className="my-4 rounded-lg overflow-hidden border border-gray-200 shadow-sm text-sm">
-                                                <div className="bg-gray-50 px-3 py-1.5 border-b border-gray-200 text-xs text-gray-500 font-mono flex items-center">
-                                                    <div className="flex gap-1.5 mr-2"><div className="w-2.5 h-2.5 rounded-full bg-red-400/20"></div><div className="w-2.5 h-2.5 rounded-full bg-yellow-400/20"></div><div className="w-2.5 h-2.5 rounded-full bg-green-400/20"></div></div>
-                                                    {match ? match[1] : 'text'}
-                                                </div>
-                                                <SyntaxHighlighter style={prism as any} language={match ? match[1] : 'text'} PreTag="div" customStyle={{ margin: 0, borderRadius: 0, backgroundColor: '#fdfdfd' }} {...props}>{String(children).replace(/\n$/, '')}</SyntaxHighlighter>
-                                            </div>
-                                        );
-                                    }
-                                }}
+                                {metadataError && (
+                                    <div className="px-4 py-2 border-t border-gray-100 text-xs text-red-400 flex items-center">
+                                        <AlertCircle size={12} className="mr-1 shrink-0"/> Frontmatter 无法解析，属性为只读: {metadataError}
+                                    </div>
+                                )}
+                                {isEditingProps && !metadataError ? (
+                                    <div className="px-4 pb-4 pt-3 border-t border-gray-100 bg-gray-50/50">
+                                        <PropertyEditor
+                                            metadata={metadata}
+                                            onSave={handleSaveProperties}
+                                            onCancel={() => setIsEditingProps(false)}
+                                        />
+                                    </div>
+                                ) : metadata && isMetaExpanded && (
+                                    <div className="px-4 pb-4 pt-1 border-t border-gray-100 bg-gray-50/50">
+                                        <MetadataRenderer data={metadata} />
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                        {!metadata && !lastModified && !isEditingProps && isEditable && onSave && (
+                            <button
+                                onClick={() => setIsEditingProps(true)}
+                                className="flex items-center text-xs text-gray-400 hover:text-[#00b96b] transition-colors"
                             >
-                                {processedContent}
-                            </ReactMarkdown>
-                        </div>
-                    </>
-                )}
+                                <Plus size={14} className="mr-1" /> 添加属性
+                            </button>
+                        )}
+                    </div>
+
+                    {/* Rendering */}
+                    <div className="text-[#262626] leading-relaxed text-[16px]">
+                        <MarkdownContent
+                            markdown={body}
+                            lineOffset={bodyLineOffset}
+                            onLinkClick={onLinkClick}
+                            onTagClick={onTagClick}
+                            onResolveFile={onResolveFile}
+                            onResolveNote={onResolveNote}
+                            onRunQuery={onRunQuery}
+                            onOpenPath={onOpenPath}
+                            onToggleTask={onToggleTask}
+                            currentPath={filePath}
+                        />
+                    </div>
+
+                    {footer}
+                </div>
             </div>
-        </div>
+        )}
 
         {/* Right Sidebar (TOC) - Desktop Only */}
         {!isEditing && outline.length > 0 && (
@@ -0,0 +1,256 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, X, Save, Braces } from 'lucide-react';
+import { PropertyType, inferPropertyType } from '../services/frontmatter';
+
+interface PropertyEditorProps {
+  metadata: Record<string, any> | null;
+  onSave: (properties: Record<string, any>) => void;
+  onCancel: () => void;
+}
+
+interface PropertyRow {
+  id: number;
+  key: string;
+  type: PropertyType;
+  value: any; // text / number / date: string, list: string[], checkbox: boolean, object: 原值
+  originalKey?: string;
+  originalValue?: any;
+  dirty: boolean;
+}
+
+const TYPE_OPTIONS: { type: PropertyType; label: string }[] = [
+  { type: 'text', label: '文本' },
+  { type: 'list', label: '列表' },
+  { type: 'number', label: '数字' },
+  { type: 'date', label: '日期' },
+  { type: 'checkbox', label: '复选框' },
+];
+
+const toText = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(toText).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// 把当前值转换为目标类型的编辑值
+const toEditorValue = (value: any, type: PropertyType): any => {
+  switch (type) {
+    case 'list':
+      if (Array.isArray(value)) return value.map(toText);
+      return toText(value).split(',').map(item => item.trim()).filter(Boolean);
+    case 'checkbox':
+      return value === true || toText(value).toLowerCase() === 'true';
+    case 'number': {
+      const text = toText(value).trim();
+      return text && !Number.isNaN(Number(text)) ? text : '';
+    }
+    case 'date': {
+      const match = toText(value).match(/^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2})?/);
+      return match ? match[0].replace(' ', 'T') : '';
+    }
+    case 'object':
+      return value;
+    default:
+      return toText(value);
+  }
+};
+
+const fromEditorValue = (row: PropertyRow): any => {
+  switch (row.type) {
+    case 'number':
+      return row.value.trim() === '' ? null : Number(row.value);
+    case 'text':
+    case 'date':
+      return row.value === '' ? null : row.value;
+    default:
+      return row.value;
+  }
+};
+
+let nextRowId = 0;
+
+const createRows = (metadata: Record<string, any> | null): PropertyRow[] => {
+  return Object.entries(metadata || {}).map(([key, value]) => {
+    const type = inferPropertyType(value);
+    return { id: nextRowId++, key, type, value: toEditorValue(value, type), originalKey: key, originalValue: value, dirty: false };
+  });
+};
+
+// 列表值：回车或逗号添加，退格删除最后一项
+const ListInput = ({ items, onChange }: { items: string[], onChange: (items: string[]) => void }) => {
+  const [draft, setDraft] = useState('');
+
+  const commit = () => {
+    const value = draft.trim();
+    if (value && !items.includes(value)) onChange([...items, value]);
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 min-h-[30px] px-2 py-1 bg-white border border-gray-200 rounded focus-within:border-[#00b96b]">
+      {items.map((item, idx) => (
+        <span key={idx} className="flex items-center bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded text-xs">
+          {item}
+          <button onClick={() => onChange(items.filter((_, i) => i !== idx))} className="ml-1 text-gray-400 hover:text-red-500">
+            <X size={10} />
+          </button>
+        </span>
+      ))}
+      <input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            commit();
+          } else if (e.key === 'Backspace' && !draft && items.length > 0) {
+            onChange(items.slice(0, -1));
+          }
+        }}
+        onBlur={commit}
+        placeholder={items.length === 0 ? '添加项目...' : ''}
+        className="flex-1 min-w-[80px] text-sm outline-none bg-transparent"
+      />
+    </div>
+  );
+};
+
+const PropertyEditor: React.FC<PropertyEditorProps> = ({ metadata, onSave, onCancel }) => {
+  const [rows, setRows] = useState<PropertyRow[]>(() => createRows(metadata));
+  const [error, setError] = useState<string | null>(null);
+
+  const updateRow = (id: number, changes: Partial<PropertyRow>) => {
+    setRows(rows.map(row => row.id === id ? { ...row, ...changes, dirty: true } : row));
+    setError(null);
+  };
+
+  const changeType = (row: PropertyRow, type: PropertyType) => {
+    updateRow(row.id, { type, value: toEditorValue(fromEditorValue(row), type) });
+  };
+
+  const addRow = () => {
+    setRows([...rows, { id: nextRowId++, key: '', type: 'text', value: '', dirty: true }]);
+  };
+
+  const handleSave = () => {
+    const properties: Record<string, any> = {};
+    for (const row of rows) {
+      const key = row.key.trim();
+      if (!key) {
+        setError('属性名不能为空');
+        return;
+      }
+      if (key in properties) {
+        setError(`属性名重复: ${key}`);
+        return;
+      }
+      if (row.type === 'number' && row.value.trim() !== '' && Number.isNaN(Number(row.value))) {
+        setError(`${key} 不是有效的数字`);
+        return;
+      }
+      // 未改动的属性保留原值，避免类型转换导致无意义的改写
+      properties[key] = !row.dirty && key === row.originalKey ? row.originalValue : fromEditorValue(row);
+    }
+    onSave(properties);
+  };
+
+  const renderValueInput = (row: PropertyRow) => {
+    const inputClass = "w-full h-[30px] px-2 text-sm bg-white border border-gray-200 rounded outline-none focus:border-[#00b96b]";
+    switch (row.type) {
+      case 'list':
+        return <ListInput items={row.value} onChange={(items) => updateRow(row.id, { value: items })} />;
+      case 'checkbox':
+        return (
+          <input
+            type="checkbox"
+            checked={row.value}
+            onChange={(e) => updateRow(row.id, { value: e.target.checked })}
+            className="w-4 h-4 mt-1.5 accent-[#00b96b]"
+          />
+        );
+      case 'number':
+        return <input type="number" value={row.value} onChange={(e) => updateRow(row.id, { value: e.target.value })} className={inputClass} />;
+      case 'date':
+        return (
+          <input
+            type={row.value.includes('T') ? 'datetime-local' : 'date'}
+            value={row.value}
+            onChange={(e) => updateRow(row.id, { value: e.target.value })}
+            className={inputClass}
+          />
+        );
+      case 'object':
+        return (
+          <div className="px-2 py-1 text-xs text-gray-400 font-mono bg-gray-100 rounded break-all" title="嵌套对象暂不支持编辑，将原样保留">
+            {JSON.stringify(row.value)}
+          </div>
+        );
+      default:
+        return <input value={row.value} onChange={(e) => updateRow(row.id, { value: e.target.value })} className={inputClass} />;
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {rows.length === 0 && <div className="text-sm text-gray-400 py-1">暂无属性</div>}
+      {rows.map(row => (
+        <div key={row.id} className="flex items-start gap-2 group/prop">
+          <input
+            value={row.key}
+            onChange={(e) => updateRow(row.id, { key: e.target.value })}
+            placeholder="属性名"
+            className="w-28 shrink-0 h-[30px] px-2 text-sm font-medium text-gray-600 bg-white border border-gray-200 rounded outline-none focus:border-[#00b96b]"
+          />
+          {row.type === 'object' ? (
+            <span className="w-20 shrink-0 h-[30px] flex items-center px-2 text-xs text-gray-400">
+              <Braces size={12} className="mr-1" /> 对象
+            </span>
+          ) : (
+            <select
+              value={row.type}
+              onChange={(e) => changeType(row, e.target.value as PropertyType)}
+              className="w-20 shrink-0 h-[30px] px-1 text-xs text-gray-600 bg-white border border-gray-200 rounded outline-none focus:border-[#00b96b]"
+            >
+              {TYPE_OPTIONS.map(option => <option key={option.type} value={option.type}>{option.label}</option>)}
+            </select>
+          )}
+          <div className="flex-1 min-w-0">{renderValueInput(row)}</div>
+          <button
+            onClick={() => setRows(rows.filter(r => r.id !== row.id))}
+            className="p-1.5 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+            title="删除属性"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ))}
+
+      {error && <div className="text-xs text-red-500">{error}</div>}
+
+      <div className="flex items-center gap-2 pt-1">
+        <button
+          onClick={addRow}
+          className="flex items-center text-xs text-gray-500 hover:text-[#00b96b] px-2 py-1.5 rounded hover:bg-gray-100 transition-colors"
+        >
+          <Plus size={14} className="mr-1" /> 添加属性
+        </button>
+        <div className="flex-1" />
+        <button
+          onClick={onCancel}
+          className="px-3 py-1.5 text-xs text-gray-500 hover:bg-gray-100 rounded transition-colors"
+        >
+          取消
+        </button>
+        <button
+          onClick={handleSave}
+          className="flex items-center px-3 py-1.5 text-xs bg-[#00b96b] hover:bg-[#009456] text-white rounded transition-colors shadow-sm"
+        >
+          <Save size={12} className="mr-1" /> 保存
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PropertyEditor;
@@ -0,0 +1,120 @@
+import React from 'react';
+import { CheckSquare, Square } from 'lucide-react';
+import { QueryResult } from '../services/query';
+
+interface QueryResultViewProps {
+  result: QueryResult;
+  onOpen: (path: string, line?: number) => void;
+  onToggleTask?: (path: string, line: number) => void;
+}
+
+// 查询结果中的值：列表渲染为标签，布尔值渲染为勾选符号
+const QueryValue = ({ value }: { value: any }) => {
+  if (value === null || value === undefined || value === '') return <span className="text-gray-300">—</span>;
+  if (Array.isArray(value)) {
+    return (
+      <span className="inline-flex gap-1 flex-wrap">
+        {value.map((item, idx) => (
+          <span key={idx} className="bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded text-xs">
+            {typeof item === 'object' && item !== null ? JSON.stringify(item) : String(item)}
+          </span>
+        ))}
+      </span>
+    );
+  }
+  if (typeof value === 'boolean') return <span className={value ? 'text-[#00b96b]' : 'text-gray-400'}>{value ? '✓' : '✗'}</span>;
+  if (typeof value === 'object') return <span className="font-mono text-xs">{JSON.stringify(value)}</span>;
+  return <>{String(value)}</>;
+};
+
+const NoteLink = ({ path, name, onOpen }: { path: string, name: string, onOpen: (path: string) => void }) => (
+  <a
+    href={`#${path}`}
+    onClick={(e) => { e.preventDefault(); onOpen(path); }}
+    className="text-[#00b96b] hover:text-[#009456] font-medium cursor-pointer transition-colors"
+    title={path}
+  >
+    {name.replace(/\.md$/, '')}
+  </a>
+);
+
+const QueryResultView: React.FC<QueryResultViewProps> = ({ result, onOpen, onToggleTask }) => {
+  if (result.type === 'LIST') {
+    if (result.items.length === 0) return <div className="text-sm text-gray-400">没有匹配的笔记</div>;
+    return (
+      <ul className="list-disc pl-6 space-y-1 text-gray-700">
+        {result.items.map(item => (
+          <li key={item.path}>
+            <NoteLink path={item.path} name={item.name} onOpen={onOpen} />
+            {'value' in item && item.value !== undefined && (
+              <span className="ml-2 text-gray-500">: <QueryValue value={item.value} /></span>
+            )}
+          </li>
+        ))}
+      </ul>
+    );
+  }
+
+  if (result.type === 'TABLE') {
+    if (result.rows.length === 0) return <div className="text-sm text-gray-400">没有匹配的笔记</div>;
+    return (
+      <div className="overflow-x-auto rounded-lg border border-gray-200">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead>
+            <tr>
+              <th className="bg-gray-50 px-4 py-3 font-semibold text-left text-gray-700">笔记 <span className="font-normal text-gray-400">({result.rows.length})</span></th>
+              {result.headers.map((header, idx) => (
+                <th key={idx} className="bg-gray-50 px-4 py-3 font-semibold text-left text-gray-700">{header}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {result.rows.map(row => (
+              <tr key={row.path}>
+                <td className="px-4 py-3 border-t border-gray-100"><NoteLink path={row.path} name={row.name} onOpen={onOpen} /></td>
+                {row.cells.map((cell, idx) => (
+                  <td key={idx} className="px-4 py-3 border-t border-gray-100 text-gray-600"><QueryValue value={cell} /></td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  }
+
+  if (result.groups.length === 0) return <div className="text-sm text-gray-400">没有匹配的任务</div>;
+  return (
+    <div className="space-y-3">
+      {result.groups.map(group => (
+        <div key={group.path}>
+          <NoteLink path={group.path} name={group.name} onOpen={onOpen} />
+          <ul className="mt-1 space-y-1">
+            {group.tasks.map(task => (
+              <li
+                key={task.line}
+                className="flex items-start text-gray-700 cursor-pointer hover:text-[#262626]"
+                onClick={() => onOpen(task.path, task.line)}
+                title="跳转到任务所在位置"
+              >
+                <button
+                  onClick={(e) => { e.stopPropagation(); onToggleTask?.(task.path, task.line); }}
+                  disabled={!onToggleTask}
+                  className="mr-2 mt-0.5 shrink-0"
+                  title={task.completed ? '标记为未完成' : '标记为完成'}
+                >
+                  {task.completed
+                    ? <CheckSquare size={16} className="text-[#00b96b]" />
+                    : <Square size={16} className="text-gray-400" />}
+                </button>
+                <span className={task.completed ? 'line-through text-gray-400' : ''}>{task.text}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default QueryResultView;
@@ -1,26 +1,32 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Save, Shield, HardDrive, Layout, Trash2, Archive, FileJson } from 'lucide-react';
+import { ArrowLeft, Save, Shield, HardDrive, Layout, Trash2, Archive, FileJson, History, FolderOpen } from 'lucide-react';
 import { AppSettings, VaultRecord } from '../types';
 import { getVaultHistory, removeVaultFromHistory, getVaultManifest } from '../services/vaultRegistry';
+import { parseExtensionList, DEFAULT_FILE_EXTENSIONS } from '../services/fileTypes';
 
 interface SettingsPageProps {
   settings: AppSettings;
   onSave: (newSettings: AppSettings) => void;
   onBack: () => void;
   currentVaultId?: string;
+  onOpenVault?: (vault: VaultRecord) => void;
 }
 
-const SettingsPage: React.FC<SettingsPageProps> = ({ settings, onSave, onBack, currentVaultId }) => {
+const SettingsPage: React.FC<SettingsPageProps> = ({ settings, onSave, onBack, currentVaultId, onOpenVault }) => {
   const [formData, setFormData] = useState<AppSettings>(settings);
   const [activeTab, setActiveTab] = useState<'general' | 'appearance' | 'vaults'>('general');
   const [vaults, setVaults] = useState<VaultRecord[]>([]);
+  const [extensionText, setExtensionText] = useState(settings.fileExtensions.join(', '));
 
   useEffect(() => {
     setVaults(getVaultHistory());
   }, []);
 
   const handleSave = () => {
-    onSave(formData);
+    // 列表未变化时保留原数组，避免重新读取目录
+    const extensions = parseExtensionList(extensionText);
+    const changed = extensions.join(',') !== formData.fileExtensions.join(',');
+    onSave({ ...formData, fileExtensions: changed ? extensions : formData.fileExtensions });
   };
 
   const handleDeleteVault = (id: string) => {
@@ -89,6 +95,68 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ settings, onSave, onBack, c
                       className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#00b96b] focus:border-transparent outline-none transition-all text-sm"
                     />
                   </div>
+
+                  <label className="block text-sm font-semibold text-gray-700 mt-6 mb-2">
+                    显示的文件类型
+                  </label>
+                  <p className="text-xs text-gray-500 mb-4 leading-relaxed">
+                    除 Markdown 笔记外，目录树中显示的文件扩展名，以逗号或空格分隔。图片、PDF、音视频与 Canvas 画布可直接在阅读区查看，其他类型提供下载。
+                  </p>
+                  <div className="flex gap-4">
+                    <input
+                      type="text"
+                      value={extensionText}
+                      onChange={(e) => setExtensionText(e.target.value)}
+                      placeholder="例如: png, pdf, mp4, canvas"
+                      className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#00b96b] focus:border-transparent outline-none transition-all text-sm"
+                    />
+                    <button
+                      onClick={() => setExtensionText(DEFAULT_FILE_EXTENSIONS.join(', '))}
+                      className="px-4 py-2 text-sm text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                      恢复默认
+                    </button>
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <h2 className="text-xl font-bold text-gray-800 mb-4 flex items-center">
+                  <History size={24} className="mr-2 text-[#00b96b]" />
+                  版本历史
+                </h2>
+                <div className="bg-white p-6 border border-gray-200 rounded-xl shadow-sm">
+                  <p className="text-xs text-gray-500 mb-4 leading-relaxed">
+                    每次保存笔记都会在浏览器中记录一个历史版本，短时间内的连续保存合并为一个版本。超出数量或保留天数的旧版本会被自动清理，但每篇笔记始终保留最新的一个版本。
+                  </p>
+                  <div className="grid grid-cols-2 gap-4">
+                    <label className="block">
+                      <span className="block text-sm font-semibold text-gray-700 mb-2">每篇笔记最多保留</span>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="number"
+                          min={1}
+                          value={formData.historyMaxVersions}
+                          onChange={(e) => setFormData({ ...formData, historyMaxVersions: Math.max(1, Number(e.target.value) || 1) })}
+                          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#00b96b] focus:border-transparent outline-none transition-all text-sm"
+                        />
+                        <span className="text-sm text-gray-500 shrink-0">个版本</span>
+                      </div>
+                    </label>
+                    <label className="block">
+                      <span className="block text-sm font-semibold text-gray-700 mb-2">保留时长</span>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="number"
+                          min={1}
+                          value={formData.historyRetentionDays}
+                          onChange={(e) => setFormData({ ...formData, historyRetentionDays: Math.max(1, Number(e.target.value) || 1) })}
+                          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#00b96b] focus:border-transparent outline-none transition-all text-sm"
+                        />
+                        <span className="text-sm text-gray-500 shrink-0">天</span>
+                      </div>
+                    </label>
+                  </div>
                 </div>
               </div>
             </div>
@@ -134,18 +202,29 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ settings, onSave, onBack, c
                                </div>
                              </div>
                              
-                             <button 
-                               onClick={() => handleDeleteVault(vault.id)}
-                               disabled={isCurrent}
-                               className={`p-2 rounded-full transition-colors flex items-center gap-1
-                                 ${isCurrent 
-                                   ? 'text-gray-300 cursor-not-allowed' 
-                                   : 'text-gray-400 hover:text-red-500 hover:bg-red-50'
-                                 }`}
-                               title={isCurrent ? "无法删除当前正在使用的仓库" : "删除记录与 Manifest"}
-                             >
-                               <Trash2 size={16} />
-                             </button>
+                             <div className="flex items-center gap-1">
+                               {onOpenVault && !isCurrent && (
+                                 <button
+                                   onClick={() => onOpenVault(vault)}
+                                   className="p-2 rounded-full transition-colors text-gray-400 hover:text-[#00b96b] hover:bg-green-50"
+                                   title="打开此仓库"
+                                 >
+                                   <FolderOpen size={16} />
+                                 </button>
+                               )}
+                               <button 
+                                 onClick={() => handleDeleteVault(vault.id)}
+                                 disabled={isCurrent}
+                                 className={`p-2 rounded-full transition-colors flex items-center gap-1
+                                   ${isCurrent 
+                                     ? 'text-gray-300 cursor-not-allowed' 
+                                     : 'text-gray-400 hover:text-red-500 hover:bg-red-50'
+                                   }`}
+                                 title={isCurrent ? "无法删除当前正在使用的仓库" : "删除记录与 Manifest"}
+                               >
+                                 <Trash2 size={16} />
+                               </button>
+                             </div>
                            </li>
                          );})}
                        </ul>
@@ -1,34 +1,132 @@
-import React, { useState, useEffect } from 'react';
-import { ChevronRight, ChevronDown, File, Folder, Search, Book, Settings, Plus, FilePlus, FolderPlus, Trash2, MoreVertical, Edit3 } from 'lucide-react';
-import { FileSystemNode, FileType } from '../types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ChevronRight, ChevronDown, File, Folder, Search, Book, Settings, Plus, FilePlus, FolderPlus, Trash2, MoreVertical, Edit3, FileText, Loader2, Network, Hash, ListChecks, X, Tag, Download, Globe, Upload } from 'lucide-react';
+import { FileSystemNode, FileType, SearchResult, SearchMatch, TreeItem } from '../types';
+import { TagTreeNode } from '../services/tagIndex';
+import { DocumentFormat, DOCUMENT_FORMAT_LABELS } from '../services/documentExport';
 
 interface SidebarProps {
   rootNode: FileSystemNode | null;
   selectedFile: FileSystemNode | null;
   onSelectFile: (node: FileSystemNode) => void;
+  onLoadFolder?: (node: FileSystemNode) => void;
   onOpenSettings: () => void;
+  onOpenGraph?: () => void;
+  onOpenTasks?: () => void;
+  onOpenTrash?: () => void;
   hiddenPaths: string[];
   onCreateFile: (parent: FileSystemNode, name: string) => Promise<void>;
   onCreateFolder: (parent: FileSystemNode, name: string) => Promise<void>;
   onDeleteNode: (parent: FileSystemNode, node: FileSystemNode) => Promise<void>;
   onRenameNode: (parent: FileSystemNode, node: FileSystemNode, newName: string) => Promise<void>;
+  onMoveNode?: (sourceParent: FileSystemNode, node: FileSystemNode, targetParent: FileSystemNode) => Promise<void>;
+  onSearchContent?: (query: string) => SearchResult[];
+  onOpenSearchResult?: (path: string, line?: number) => void;
+  searchVersion?: number;
+  isIndexing?: boolean;
+  tagTree?: TagTreeNode[];
+  activeTag?: string | null;
+  onSelectTag?: (tag: string) => void;
+  onBulkMove?: (items: TreeItem[], target: FileSystemNode) => Promise<void>;
+  onBulkDelete?: (items: TreeItem[]) => Promise<void>;
+  onBulkTag?: (items: TreeItem[], tag: string, mode: 'add' | 'remove') => Promise<void>;
+  onBulkExport?: (items: TreeItem[]) => Promise<void>;
+  onPublishSite?: () => void;
+  onExportDocument?: (node: FileSystemNode, format: DocumentFormat) => void;
+  onImportYuque?: () => void;
 }
 
+// 拖动时悬停在折叠的文件夹上多久后自动展开
+const AUTO_EXPAND_DELAY = 600;
+
+// 渲染带高亮的搜索片段
+const HighlightedSnippet = ({ match }: { match: SearchMatch }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  match.ranges.forEach(([start, end], idx) => {
+    if (start > cursor) parts.push(match.text.slice(cursor, start));
+    parts.push(<mark key={idx} className="bg-yellow-100 text-[#262626] rounded-sm px-0.5">{match.text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  if (cursor < match.text.length) parts.push(match.text.slice(cursor));
+  return <>{parts}</>;
+};
+
 const Sidebar: React.FC<SidebarProps> = ({ 
   rootNode, 
   selectedFile, 
   onSelectFile, 
+  onLoadFolder,
   onOpenSettings, 
+  onOpenGraph,
+  onOpenTasks,
+  onOpenTrash,
   hiddenPaths,
   onCreateFile,
   onCreateFolder,
   onDeleteNode,
-  onRenameNode
+  onRenameNode,
+  onMoveNode,
+  onSearchContent,
+  onOpenSearchResult,
+  searchVersion,
+  isIndexing = false,
+  tagTree,
+  activeTag,
+  onSelectTag,
+  onBulkMove,
+  onBulkDelete,
+  onBulkTag,
+  onBulkExport,
+  onPublishSite,
+  onExportDocument,
+  onImportYuque
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
+  const [activeTab, setActiveTab] = useState<'files' | 'tags'>('files');
+  const [expandedTags, setExpandedTags] = useState<Set<string>>(new Set());
   const [expandedPaths, setExpandedPaths] = useState<Set<string>>(new Set());
   const [activeMenuPath, setActiveMenuPath] = useState<string | null>(null);
 
+  // 拖放移动：被拖动的节点及其所在文件夹，当前的目标文件夹路径
+  const dragSourceRef = useRef<{ parent: FileSystemNode; node: FileSystemNode } | null>(null);
+  const [dropTargetPath, setDropTargetPath] = useState<string | null>(null);
+  const expandTimerRef = useRef<{ path: string; timer: ReturnType<typeof setTimeout> } | null>(null);
+
+  // 多选：Ctrl/Cmd 点击切换，Shift 点击按可见顺序选择范围
+  const [selectedPaths, setSelectedPaths] = useState<Set<string>>(new Set());
+  const [anchorPath, setAnchorPath] = useState<string | null>(null);
+  const [moveTargetPath, setMoveTargetPath] = useState('');
+  const [isBulkRunning, setIsBulkRunning] = useState(false);
+  const isBulkEnabled = !!(onBulkMove || onBulkDelete || onBulkTag || onBulkExport);
+
+  // 按路径索引目录树中的真实节点；过滤后的显示节点是副本，操作需作用于原节点
+  const treeItems = useMemo(() => {
+    const items = new Map<string, TreeItem>();
+    const walk = (parent: FileSystemNode) => parent.children?.forEach(node => {
+      items.set(node.path, { parent, node });
+      walk(node);
+    });
+    if (rootNode) walk(rootNode);
+    return items;
+  }, [rootNode]);
+
+  // 展开尚未从磁盘读取的文件夹时加载其内容
+  useEffect(() => {
+    if (!onLoadFolder) return;
+    expandedPaths.forEach(path => {
+      const node = treeItems.get(path)?.node;
+      if (node?.kind === FileType.DIRECTORY && node.isLoaded === false) onLoadFolder(node);
+    });
+  }, [expandedPaths, treeItems]);
+
+  const folderOptions = useMemo(
+    () => Array.from(treeItems.values())
+      .filter(({ node }) => node.kind === FileType.DIRECTORY && !hiddenPaths.some(hidden => node.name === hidden || node.path === hidden))
+      .map(({ node }) => node.path)
+      .sort((a, b) => a.localeCompare(b)),
+    [treeItems, hiddenPaths]
+  );
+
   const toggleFolder = (path: string, e: React.MouseEvent) => {
     e.stopPropagation();
     const newExpanded = new Set(expandedPaths);
@@ -66,7 +164,7 @@ const Sidebar: React.FC<SidebarProps> = ({
   const handleDelete = async (e: React.MouseEvent, parent: FileSystemNode, node: FileSystemNode) => {
       e.stopPropagation();
       setActiveMenuPath(null);
-      if (confirm(`确定要删除 ${node.name} 吗? 此操作不可恢复。`)) {
+      if (confirm(`确定要将 ${node.name} 移到回收站吗?`)) {
           try {
             await onDeleteNode(parent, node);
           } catch(err: any) {
@@ -75,6 +173,171 @@ const Sidebar: React.FC<SidebarProps> = ({
       }
   };
 
+  const canDropInto = (target: FileSystemNode) => {
+    const source = dragSourceRef.current;
+    if (!source) return false;
+    const { parent, node } = source;
+    return target.path !== parent.path && target.path !== node.path && !target.path.startsWith(`${node.path}/`);
+  };
+
+  const clearAutoExpand = () => {
+    if (expandTimerRef.current) clearTimeout(expandTimerRef.current.timer);
+    expandTimerRef.current = null;
+  };
+
+  const handleDragStart = (e: React.DragEvent, parent: FileSystemNode, node: FileSystemNode) => {
+    e.stopPropagation();
+    dragSourceRef.current = { parent, node };
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', node.path);
+  };
+
+  const handleDragEnd = () => {
+    dragSourceRef.current = null;
+    setDropTargetPath(null);
+    clearAutoExpand();
+  };
+
+  const handleDragOver = (e: React.DragEvent, target: FileSystemNode) => {
+    if (!dragSourceRef.current) return;
+    e.stopPropagation();
+    if (!canDropInto(target)) {
+      setDropTargetPath(null);
+      return;
+    }
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setDropTargetPath(target.path);
+
+    // 悬停在折叠的文件夹上时自动展开
+    if (target.path && !expandedPaths.has(target.path) && expandTimerRef.current?.path !== target.path) {
+      clearAutoExpand();
+      const path = target.path;
+      expandTimerRef.current = {
+        path,
+        timer: setTimeout(() => setExpandedPaths(prev => new Set(prev).add(path)), AUTO_EXPAND_DELAY),
+      };
+    }
+  };
+
+  const handleDrop = async (e: React.DragEvent, target: FileSystemNode) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const source = dragSourceRef.current;
+    handleDragEnd();
+    if (!source || !onMoveNode || !canDropInto(target)) return;
+
+    const oldPath = source.node.path;
+    const newPath = target.path ? `${target.path}/${source.node.name}` : source.node.name;
+    try {
+      await onMoveNode(source.parent, source.node, target);
+      // 展开状态随文件夹一起迁移，并展开目标文件夹
+      setExpandedPaths(prev => {
+        const next = new Set<string>();
+        prev.forEach(path => {
+          if (path === oldPath || path.startsWith(`${oldPath}/`)) next.add(newPath + path.slice(oldPath.length));
+          else next.add(path);
+        });
+        if (target.path) next.add(target.path);
+        return next;
+      });
+    } catch (err: any) {
+      alert(err.message || '移动失败');
+    }
+  };
+
+  // 行的拖放属性：文件夹自身为目标，文件以所在文件夹为目标
+  const dragProps = (parent: FileSystemNode, node: FileSystemNode) => {
+    if (!onMoveNode || searchTerm) return {};
+    const target = node.kind === FileType.DIRECTORY ? node : parent;
+    return {
+      draggable: true,
+      onDragStart: (e: React.DragEvent) => handleDragStart(e, parent, node),
+      onDragEnd: handleDragEnd,
+      onDragOver: (e: React.DragEvent) => handleDragOver(e, target),
+      onDrop: (e: React.DragEvent) => handleDrop(e, target),
+    };
+  };
+
+  // 展开状态下可见的条目路径，按显示顺序
+  const visiblePaths = (nodes: FileSystemNode[]): string[] => nodes.flatMap(node => [
+    node.path,
+    ...(node.kind === FileType.DIRECTORY && node.children && (expandedPaths.has(node.path) || searchTerm) ? visiblePaths(node.children) : []),
+  ]);
+
+  // 带修饰键的点击用于多选，普通点击清除多选并执行原有操作
+  const handleRowClick = (e: React.MouseEvent, node: FileSystemNode, action: () => void) => {
+    if (isBulkEnabled && (e.ctrlKey || e.metaKey)) {
+      e.stopPropagation();
+      setSelectedPaths(prev => {
+        const next = new Set(prev);
+        if (next.has(node.path)) next.delete(node.path);
+        else next.add(node.path);
+        return next;
+      });
+      setAnchorPath(node.path);
+      return;
+    }
+    if (isBulkEnabled && e.shiftKey) {
+      e.stopPropagation();
+      const order = visiblePaths(displayNodes);
+      const end = order.indexOf(node.path);
+      const anchor = order.indexOf(anchorPath ?? selectedFile?.path ?? node.path);
+      const start = anchor === -1 ? end : anchor;
+      setSelectedPaths(new Set(order.slice(Math.min(start, end), Math.max(start, end) + 1)));
+      return;
+    }
+    if (selectedPaths.size > 0) setSelectedPaths(new Set());
+    setAnchorPath(node.path);
+    action();
+  };
+
+  // 选中文件夹时其下的条目随文件夹一起处理，不再单独计入
+  const getSelectedItems = () => {
+    const items = Array.from(selectedPaths)
+      .map(path => treeItems.get(path))
+      .filter((item): item is TreeItem => !!item);
+    return items.filter(item => !items.some(other => item.node.path.startsWith(`${other.node.path}/`)));
+  };
+
+  const runBulkAction = async (action: (items: TreeItem[]) => Promise<void>) => {
+    const items = getSelectedItems();
+    if (items.length === 0) return;
+    setIsBulkRunning(true);
+    try {
+      await action(items);
+      setSelectedPaths(new Set());
+    } catch (err: any) {
+      alert(err.message || '操作失败');
+    } finally {
+      setIsBulkRunning(false);
+    }
+  };
+
+  const handleBulkMove = () => {
+    const target = moveTargetPath ? treeItems.get(moveTargetPath)?.node : rootNode;
+    if (!onBulkMove || !target) return;
+    const count = getSelectedItems().length;
+    if (!confirm(`将 ${count} 项移动到「${target.path || '根目录'}」？指向它们的双链会同步更新。`)) return;
+    runBulkAction(async items => {
+      await onBulkMove(items, target);
+      if (target.path) setExpandedPaths(prev => new Set(prev).add(target.path));
+    });
+  };
+
+  const handleBulkDelete = () => {
+    if (!onBulkDelete) return;
+    if (!confirm(`确定要将选中的 ${getSelectedItems().length} 项移到回收站吗?`)) return;
+    runBulkAction(onBulkDelete);
+  };
+
+  const handleBulkTag = (mode: 'add' | 'remove') => {
+    if (!onBulkTag) return;
+    const tag = prompt(mode === 'add' ? '为选中的笔记添加标签:' : '从选中的笔记移除标签:');
+    if (!tag?.trim()) return;
+    runBulkAction(items => onBulkTag(items, tag.trim(), mode));
+  };
+
   const handleRename = async (e: React.MouseEvent, parent: FileSystemNode, node: FileSystemNode) => {
       e.stopPropagation();
       setActiveMenuPath(null);
@@ -127,7 +390,7 @@ const Sidebar: React.FC<SidebarProps> = ({
     if (activeMenuPath !== node.path) return null;
 
     return (
-        <div className="absolute right-0 top-6 w-32 bg-white shadow-lg rounded-lg border border-gray-100 py-1 z-50 text-xs text-gray-700 animate-fade-in">
+        <div className="absolute right-0 top-6 w-40 bg-white shadow-lg rounded-lg border border-gray-100 py-1 z-50 text-xs text-gray-700 animate-fade-in">
             {node.kind === FileType.DIRECTORY && (
                 <>
                     <button 
@@ -143,6 +406,20 @@ const Sidebar: React.FC<SidebarProps> = ({
                         <FolderPlus size={12} className="mr-2 text-blue-500"/> 新建文件夹
                     </button>
                     <div className="h-px bg-gray-100 my-1"></div>
+                    {onExportDocument && (
+                        <>
+                            {(Object.keys(DOCUMENT_FORMAT_LABELS) as DocumentFormat[]).map(format => (
+                                <button
+                                    key={format}
+                                    className="w-full text-left px-3 py-2 hover:bg-gray-50 flex items-center"
+                                    onClick={(e) => { e.stopPropagation(); setActiveMenuPath(null); onExportDocument(node, format); }}
+                                >
+                                    <Download size={12} className="mr-2 text-gray-500"/> 导出 {DOCUMENT_FORMAT_LABELS[format]}
+                                </button>
+                            ))}
+                            <div className="h-px bg-gray-100 my-1"></div>
+                        </>
+                    )}
                 </>
             )}
             {parent && (
@@ -165,19 +442,25 @@ const Sidebar: React.FC<SidebarProps> = ({
     );
   };
 
-  const renderTree = (nodes: FileSystemNode[], parent: FileSystemNode | null = null, depth: number = 0) => {
-    return nodes.map((node) => {
+  const renderTree = (nodes: FileSystemNode[], depth: number = 0) => {
+    return nodes.map((displayNode) => {
+      const { parent, node } = treeItems.get(displayNode.path) || { parent: rootNode!, node: displayNode };
       const isExpanded = expandedPaths.has(node.path) || searchTerm.length > 0;
       const isSelected = selectedFile?.path === node.path;
+      const isMultiSelected = selectedPaths.has(node.path);
       const paddingLeft = `${depth * 16 + 12}px`;
 
       if (node.kind === FileType.DIRECTORY) {
+        const isDropTarget = dropTargetPath === node.path;
         return (
           <div key={node.path} className="relative group/row">
             <div
-              className={`flex items-center py-2 pr-2 cursor-pointer select-none text-sm text-[#585a5a] hover:bg-[#efefef] transition-colors rounded-r-full mr-2`}
+              className={`flex items-center py-2 pr-2 cursor-pointer select-none text-sm text-[#585a5a] transition-colors rounded-r-full mr-2
+              ${isDropTarget ? 'bg-[#e6f7ff] ring-1 ring-inset ring-[#00b96b]' : isMultiSelected ? 'bg-[#e6f7ff]' : 'hover:bg-[#efefef]'}
+              `}
               style={{ paddingLeft }}
-              onClick={(e) => toggleFolder(node.path, e)}
+              onClick={(e) => handleRowClick(e, node, () => toggleFolder(node.path, e))}
+              {...dragProps(parent, node)}
             >
               <span className="mr-1 text-gray-400 shrink-0">
                 {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
@@ -194,8 +477,13 @@ const Sidebar: React.FC<SidebarProps> = ({
             </div>
             {renderContextMenu(parent, node)}
 
-            {isExpanded && node.children && (
-              <div>{renderTree(node.children, node, depth + 1)}</div>
+            {isExpanded && displayNode.children && (
+              <div>{renderTree(displayNode.children, depth + 1)}</div>
+            )}
+            {isExpanded && node.isLoaded === false && !displayNode.children?.length && (
+              <div className="flex items-center py-1.5 text-xs text-gray-400" style={{ paddingLeft: `${(depth + 1) * 16 + 28}px` }}>
+                <Loader2 size={12} className="mr-2 animate-spin" /> 加载中...
+              </div>
             )}
           </div>
         );
@@ -204,10 +492,11 @@ const Sidebar: React.FC<SidebarProps> = ({
           <div key={node.path} className="relative group/row">
              <div
                 className={`flex items-center py-2 pr-2 cursor-pointer select-none text-sm transition-colors rounded-r-full mr-2 mb-0.5
-                ${isSelected ? 'bg-[#e6f7ff] text-[#00b96b] font-medium' : 'text-[#585a5a] hover:bg-[#efefef]'}
+                ${isSelected ? 'bg-[#e6f7ff] text-[#00b96b] font-medium' : isMultiSelected ? 'bg-[#e6f7ff] text-[#585a5a]' : 'text-[#585a5a] hover:bg-[#efefef]'}
                 `}
                 style={{ paddingLeft: `${depth * 16 + 28}px` }}
-                onClick={() => onSelectFile(node)}
+                onClick={(e) => handleRowClick(e, node, () => onSelectFile(node))}
+                {...dragProps(parent, node)}
             >
                 <span className="truncate flex-1">{node.name.replace('.md', '')}</span>
                 <button 
@@ -249,9 +538,118 @@ const Sidebar: React.FC<SidebarProps> = ({
     }
   }, [selectedFile]);
 
+  // Auto expand parents of the active tag
+  useEffect(() => {
+    if (!activeTag) return;
+    const segments = activeTag.toLowerCase().split('/');
+    if (segments.length < 2) return;
+    setExpandedTags(prev => {
+      const next = new Set(prev);
+      for (let i = 1; i < segments.length; i++) next.add(segments.slice(0, i).join('/'));
+      return next;
+    });
+  }, [activeTag]);
+
+  const toggleTag = (tag: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const key = tag.toLowerCase();
+    const next = new Set(expandedTags);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    setExpandedTags(next);
+  };
+
+  // 搜索时保留名称匹配的标签及其上级
+  const filterTags = (nodes: TagTreeNode[]): TagTreeNode[] => {
+    if (!searchTerm) return nodes;
+    const term = searchTerm.toLowerCase().replace(/^#/, '');
+    return nodes.reduce((acc, node) => {
+      const children = filterTags(node.children);
+      if (node.tag.toLowerCase().includes(term) || children.length > 0) {
+        acc.push({ ...node, children });
+      }
+      return acc;
+    }, [] as TagTreeNode[]);
+  };
+
+  const renderTagTree = (nodes: TagTreeNode[], depth: number = 0) => {
+    return nodes.map((node) => {
+      const hasChildren = node.children.length > 0;
+      const isExpanded = expandedTags.has(node.tag.toLowerCase()) || searchTerm.length > 0;
+      const isActive = activeTag?.toLowerCase() === node.tag.toLowerCase();
+      return (
+        <div key={node.tag}>
+          <div
+            className={`flex items-center py-2 pr-3 cursor-pointer select-none text-sm transition-colors rounded-r-full mr-2 mb-0.5
+            ${isActive ? 'bg-[#e6f7ff] text-[#00b96b] font-medium' : 'text-[#585a5a] hover:bg-[#efefef]'}
+            `}
+            style={{ paddingLeft: `${depth * 16 + 12}px` }}
+            onClick={() => onSelectTag?.(node.tag)}
+            title={`#${node.tag}`}
+          >
+            <span className="mr-1 text-gray-400 shrink-0 w-[14px]" onClick={(e) => hasChildren && toggleTag(node.tag, e)}>
+              {hasChildren && (isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />)}
+            </span>
+            <Hash size={14} className="mr-2 text-gray-400 shrink-0" />
+            <span className="truncate flex-1">{node.name}</span>
+            <span className="text-xs text-gray-400 ml-2">{node.count}</span>
+          </div>
+          {hasChildren && isExpanded && renderTagTree(node.children, depth + 1)}
+        </div>
+      );
+    });
+  };
+
+  const contentResults = useMemo(() => {
+    if (!searchTerm.trim() || !onSearchContent || activeTab !== 'files') return [];
+    return onSearchContent(searchTerm);
+  }, [searchTerm, searchVersion, activeTab]);
+
+  const renderContentResults = () => {
+    if (!searchTerm.trim() || !onSearchContent) return null;
+
+    return (
+      <div className="mt-2 border-t border-[#f0f0f0] pt-2">
+        <div className="flex items-center px-4 py-1.5 text-xs font-semibold text-gray-400 uppercase tracking-wider">
+          <span className="flex-1">全文匹配</span>
+          {isIndexing && <Loader2 size={12} className="animate-spin mr-1" />}
+          <span>{isIndexing ? '索引中...' : contentResults.length}</span>
+        </div>
+        {contentResults.length === 0 && !isIndexing && (
+          <div className="px-4 py-2 text-xs text-gray-400">没有正文匹配</div>
+        )}
+        {contentResults.map((result) => (
+          <div key={result.path} className="mx-2 mb-1 rounded-md hover:bg-[#efefef] transition-colors">
+            <div
+              className={`flex items-center px-2 pt-2 pb-1 cursor-pointer text-sm ${selectedFile?.path === result.path ? 'text-[#00b96b] font-medium' : 'text-[#262626]'}`}
+              onClick={() => onOpenSearchResult?.(result.path, result.matches[0]?.line)}
+              title={result.path}
+            >
+              <FileText size={14} className="mr-2 text-gray-400 shrink-0" />
+              <span className="truncate">{result.name.replace('.md', '')}</span>
+            </div>
+            <div className="pb-1">
+              {result.matches.map((match) => (
+                <div
+                  key={match.line}
+                  className="pl-8 pr-2 py-1 text-xs text-[#585a5a] leading-5 cursor-pointer hover:text-[#262626] break-all"
+                  onClick={() => onOpenSearchResult?.(result.path, match.line)}
+                >
+                  <HighlightedSnippet match={match} />
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   if (!rootNode) return null;
 
   const displayNodes = filterNodes(rootNode.children || []);
+  const displayTags = activeTab === 'tags' && tagTree ? filterTags(tagTree) : [];
+  const selectedCount = getSelectedItems().length;
 
   return (
     <div className="h-full flex flex-col bg-[#fafafa] border-r border-[#e9e9e9]">
@@ -284,6 +682,14 @@ const Sidebar: React.FC<SidebarProps> = ({
                     >
                         <FolderPlus size={12} className="mr-2 text-blue-500"/> 新建文件夹
                     </button>
+                    {onImportYuque && (
+                        <button 
+                            className="w-full text-left px-3 py-2 hover:bg-gray-50 flex items-center"
+                            onClick={(e) => { e.stopPropagation(); setActiveMenuPath(null); onImportYuque(); }}
+                        >
+                            <Upload size={12} className="mr-2 text-gray-500"/> 导入语雀
+                        </button>
+                    )}
                  </div>
              )}
         </div>
@@ -294,7 +700,7 @@ const Sidebar: React.FC<SidebarProps> = ({
         <div className="relative group">
           <input
             type="text"
-            placeholder="搜索文档..."
+            placeholder={activeTab === 'tags' ? '搜索标签...' : '搜索文档...'}
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="w-full h-9 pl-9 pr-3 text-sm bg-white border border-gray-200 rounded-md focus:outline-none focus:border-[#00b96b] focus:ring-1 focus:ring-[#00b96b] transition-all placeholder-gray-400 text-gray-700"
@@ -303,27 +709,155 @@ const Sidebar: React.FC<SidebarProps> = ({
         </div>
       </div>
 
-      {/* 文件树列表 */}
-      <div className="flex-1 overflow-y-auto custom-scrollbar py-2">
-        {displayNodes.length > 0 ? (
-          renderTree(displayNodes, rootNode)
-        ) : (
-           <div className="text-center text-gray-400 text-sm mt-8">
-             没有找到相关文档
-           </div>
-        )}
-      </div>
+      {/* 文件 / 标签 切换 */}
+      {tagTree && (
+        <div className="flex px-3 pb-2 gap-1 shrink-0 text-xs">
+          {([['files', '文件'], ['tags', '标签']] as const).map(([tab, label]) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`flex-1 py-1.5 rounded-md transition-colors ${activeTab === tab ? 'bg-white border border-gray-200 text-[#262626] font-medium shadow-sm' : 'text-gray-500 hover:bg-[#efefef]'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* 批量操作 */}
+      {activeTab === 'files' && selectedCount > 0 && (
+        <div className="mx-3 mb-2 p-2 bg-white border border-gray-200 rounded-md shadow-sm shrink-0 text-xs text-gray-600 space-y-2">
+          <div className="flex items-center justify-between">
+            <span>已选择 <span className="font-medium text-[#00b96b]">{selectedCount}</span> 项</span>
+            <button
+              onClick={() => setSelectedPaths(new Set())}
+              className="p-1 text-gray-400 hover:bg-gray-100 rounded"
+              title="取消选择"
+            >
+              <X size={14} />
+            </button>
+          </div>
+          {onBulkMove && (
+            <div className="flex items-center gap-1">
+              <select
+                value={moveTargetPath}
+                onChange={(e) => setMoveTargetPath(e.target.value)}
+                className="flex-1 min-w-0 h-7 px-1 bg-white border border-gray-200 rounded focus:outline-none focus:border-[#00b96b]"
+              >
+                <option value="">根目录</option>
+                {folderOptions.map(path => <option key={path} value={path}>{path}</option>)}
+              </select>
+              <button
+                onClick={handleBulkMove}
+                disabled={isBulkRunning}
+                className="h-7 px-2 bg-[#00b96b] hover:bg-[#009456] text-white rounded transition-colors disabled:opacity-50"
+              >
+                移动
+              </button>
+            </div>
+          )}
+          <div className="flex flex-wrap gap-1">
+            {onBulkTag && (
+              <>
+                <button onClick={() => handleBulkTag('add')} disabled={isBulkRunning} className="flex items-center px-2 py-1 hover:bg-gray-100 rounded disabled:opacity-50">
+                  <Tag size={12} className="mr-1" /> 添加标签
+                </button>
+                <button onClick={() => handleBulkTag('remove')} disabled={isBulkRunning} className="flex items-center px-2 py-1 hover:bg-gray-100 rounded disabled:opacity-50">
+                  <Tag size={12} className="mr-1" /> 移除标签
+                </button>
+              </>
+            )}
+            {onBulkExport && (
+              <button onClick={() => runBulkAction(onBulkExport)} disabled={isBulkRunning} className="flex items-center px-2 py-1 hover:bg-gray-100 rounded disabled:opacity-50">
+                <Download size={12} className="mr-1" /> 导出
+              </button>
+            )}
+            {onBulkDelete && (
+              <button onClick={handleBulkDelete} disabled={isBulkRunning} className="flex items-center px-2 py-1 text-red-500 hover:bg-red-50 rounded disabled:opacity-50">
+                <Trash2 size={12} className="mr-1" /> 删除
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {activeTab === 'tags' && tagTree ? (
+        /* 标签列表 */
+        <div className="flex-1 overflow-y-auto custom-scrollbar py-2">
+          {displayTags.length > 0 ? (
+            renderTagTree(displayTags)
+          ) : (
+            <div className="text-center text-gray-400 text-sm mt-8">
+              {isIndexing ? '索引中...' : '没有找到标签'}
+            </div>
+          )}
+        </div>
+      ) : (
+        /* 文件树列表 */
+        <div
+          className={`flex-1 overflow-y-auto custom-scrollbar py-2 transition-colors ${dropTargetPath === '' ? 'bg-[#e6f7ff]/60' : ''}`}
+          onDragOver={(e) => handleDragOver(e, rootNode)}
+          onDrop={(e) => handleDrop(e, rootNode)}
+        >
+          {displayNodes.length > 0 ? (
+            renderTree(displayNodes)
+          ) : contentResults.length === 0 && (
+             <div className="text-center text-gray-400 text-sm mt-8">
+               没有找到相关文档
+             </div>
+          )}
+          {renderContentResults()}
+        </div>
+      )}
       
       {/* 底部信息与设置 */}
       <div className="p-3 border-t border-[#f0f0f0] shrink-0 flex items-center justify-between">
          <span className="text-xs text-gray-400 px-2">共 {displayNodes.length} 项</span>
-         <button 
-           onClick={onOpenSettings}
-           className="p-2 text-gray-500 hover:bg-gray-200 rounded-md transition-colors"
-           title="管理员控制台"
-         >
-           <Settings size={16} />
-         </button>
+         <div className="flex items-center gap-1">
+           {onOpenTasks && (
+             <button
+               onClick={onOpenTasks}
+               className="p-2 text-gray-500 hover:bg-gray-200 rounded-md transition-colors"
+               title="任务"
+             >
+               <ListChecks size={16} />
+             </button>
+           )}
+           {onOpenTrash && (
+             <button
+               onClick={onOpenTrash}
+               className="p-2 text-gray-500 hover:bg-gray-200 rounded-md transition-colors"
+               title="回收站"
+             >
+               <Trash2 size={16} />
+             </button>
+           )}
+           {onPublishSite && (
+             <button
+               onClick={onPublishSite}
+               className="p-2 text-gray-500 hover:bg-gray-200 rounded-md transition-colors"
+               title="发布站点"
+             >
+               <Globe size={16} />
+             </button>
+           )}
+           {onOpenGraph && (
+             <button 
+               onClick={onOpenGraph}
+               className="p-2 text-gray-500 hover:bg-gray-200 rounded-md transition-colors"
+               title="关系图谱"
+             >
+               <Network size={16} />
+             </button>
+           )}
+           <button 
+             onClick={onOpenSettings}
+             className="p-2 text-gray-500 hover:bg-gray-200 rounded-md transition-colors"
+             title="管理员控制台"
+           >
+             <Settings size={16} />
+           </button>
+         </div>
       </div>
     </div>
   );
@@ -0,0 +1,166 @@
+import React, { useMemo, useState } from 'react';
+import { X, Globe, ChevronRight, ChevronDown, FileText, Folder, Loader2 } from 'lucide-react';
+import { FileSystemNode, FileType } from '../types';
+import { collectMarkdownFiles, isMarkdownFile } from '../services/contentIndex';
+
+export type SiteExportTarget = 'zip' | 'directory';
+
+export interface SiteExportRequest {
+  title: string;
+  paths: string[]; // 选中的笔记路径
+  target: SiteExportTarget;
+}
+
+interface SiteExportDialogProps {
+  root: FileSystemNode;
+  onExport: (request: SiteExportRequest) => Promise<void>;
+  onClose: () => void;
+}
+
+// 只列出包含笔记的文件夹
+const hasNotes = (node: FileSystemNode): boolean =>
+  node.kind === FileType.DIRECTORY ? (node.children || []).some(hasNotes) : isMarkdownFile(node);
+
+const SiteExportDialog: React.FC<SiteExportDialogProps> = ({ root, onExport, onClose }) => {
+  const allNotes = useMemo(() => collectMarkdownFiles(root).map(note => note.path), [root]);
+  const [title, setTitle] = useState(root.name);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(allNotes));
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [target, setTarget] = useState<SiteExportTarget>('zip');
+  const [isExporting, setIsExporting] = useState(false);
+  const canPickDirectory = 'showDirectoryPicker' in window;
+
+  const notesUnder = (node: FileSystemNode) => collectMarkdownFiles(node).map(note => note.path);
+
+  const toggle = (paths: string[], checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      paths.forEach(path => (checked ? next.add(path) : next.delete(path)));
+      return next;
+    });
+  };
+
+  const toggleExpanded = (path: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await onExport({ title: title.trim() || root.name, paths: allNotes.filter(path => selected.has(path)), target });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderTree = (nodes: FileSystemNode[], depth: number): React.ReactNode =>
+    nodes.filter(hasNotes).map(node => {
+      const paths = node.kind === FileType.DIRECTORY ? notesUnder(node) : [node.path];
+      const count = paths.filter(path => selected.has(path)).length;
+      const isOpen = expanded.has(node.path);
+      return (
+        <div key={node.path}>
+          <div className="flex items-center py-1 pr-2 rounded hover:bg-gray-50 text-sm" style={{ paddingLeft: depth * 16 + 8 }}>
+            {node.kind === FileType.DIRECTORY ? (
+              <button onClick={() => toggleExpanded(node.path)} className="p-0.5 mr-1 text-gray-400 hover:text-gray-600">
+                {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+              </button>
+            ) : (
+              <span className="w-5 mr-1" />
+            )}
+            <input
+              type="checkbox"
+              checked={count === paths.length}
+              ref={el => { if (el) el.indeterminate = count > 0 && count < paths.length; }}
+              onChange={e => toggle(paths, e.target.checked)}
+              className="mr-2 accent-[#00b96b]"
+            />
+            {node.kind === FileType.DIRECTORY
+              ? <Folder size={14} className="mr-1.5 text-gray-400 shrink-0" />
+              : <FileText size={14} className="mr-1.5 text-gray-400 shrink-0" />}
+            <span className="truncate text-[#262626]">{node.kind === FileType.DIRECTORY ? node.name : node.name.replace(/\.md$/, '')}</span>
+            {node.kind === FileType.DIRECTORY && (
+              <span className="ml-auto pl-2 text-xs text-gray-400 shrink-0">{count}/{paths.length}</span>
+            )}
+          </div>
+          {node.kind === FileType.DIRECTORY && isOpen && renderTree(node.children || [], depth + 1)}
+        </div>
+      );
+    });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-xl mx-4 overflow-hidden border border-gray-100 flex flex-col max-h-[80vh]">
+        <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between bg-gray-50 shrink-0">
+          <div className="flex items-center space-x-2 text-gray-800">
+            <Globe className="w-5 h-5 text-[#00b96b]" />
+            <h2 className="text-lg font-bold">发布为静态站点</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 hover:bg-gray-200 p-1 rounded-full transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4 text-sm border-b border-gray-100 shrink-0">
+          <div>
+            <label className="block text-xs font-semibold text-gray-600 mb-1.5">站点标题</label>
+            <input
+              type="text"
+              value={title}
+              onChange={e => setTitle(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#00b96b] focus:border-transparent outline-none text-sm"
+            />
+          </div>
+          <div className="flex items-center gap-4 text-gray-600">
+            <span className="text-xs font-semibold">输出到</span>
+            <label className="flex items-center gap-1.5 cursor-pointer">
+              <input type="radio" checked={target === 'zip'} onChange={() => setTarget('zip')} className="accent-[#00b96b]" />
+              ZIP 压缩包
+            </label>
+            <label className={`flex items-center gap-1.5 ${canPickDirectory ? 'cursor-pointer' : 'opacity-50'}`}>
+              <input type="radio" checked={target === 'directory'} disabled={!canPickDirectory} onChange={() => setTarget('directory')} className="accent-[#00b96b]" />
+              本地文件夹
+            </label>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar px-4 py-3">
+          <div className="flex items-center justify-between px-2 pb-2 text-xs text-gray-500">
+            <span>选择要发布的笔记 (已选 {selected.size} / {allNotes.length})，Frontmatter 中 publish: false 的笔记不会发布</span>
+            <button onClick={() => toggle(allNotes, selected.size !== allNotes.length)} className="text-[#00b96b] hover:underline shrink-0 ml-2">
+              {selected.size === allNotes.length ? '全不选' : '全选'}
+            </button>
+          </div>
+          {renderTree(root.children || [], 0)}
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 border-t border-gray-100 flex justify-end gap-3 shrink-0">
+          <button
+            onClick={onClose}
+            className="px-5 py-2.5 text-gray-600 hover:bg-gray-100 rounded-lg font-medium transition-colors text-sm"
+          >
+            取消
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting || selected.size === 0}
+            className="flex items-center px-5 py-2.5 bg-[#00b96b] hover:bg-[#009456] text-white rounded-lg font-medium shadow-sm transition-colors text-sm disabled:opacity-50"
+          >
+            {isExporting && <Loader2 size={14} className="mr-2 animate-spin" />}
+            发布
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SiteExportDialog;
@@ -0,0 +1,13 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import MarkdownContent from './MarkdownContent';
+
+/**
+ * 导出用的静态渲染：按阅读视图的规则把 Markdown 渲染为 HTML 字符串
+ *
+ * 双链保留为 wikilink: 地址、标签为 tag: 地址，由调用方改写；附件地址通过 fileUrl 同步解析。
+ */
+export const renderStaticMarkdown = (markdown: string, fileUrl: (target: string) => string | null) =>
+  renderToStaticMarkup(
+    <MarkdownContent markdown={markdown} onLinkClick={() => {}} staticFileUrl={fileUrl} />
+  );
@@ -0,0 +1,94 @@
+import React from 'react';
+import { ArrowLeft, Hash, FileText } from 'lucide-react';
+
+export interface TaggedNote {
+  path: string;
+  name: string;
+  tags: string[];
+}
+
+interface TagNotesViewProps {
+  tag: string;
+  notes: TaggedNote[];
+  onOpen: (path: string) => void;
+  onSelectTag: (tag: string) => void;
+  onBack: () => void;
+}
+
+const folderOf = (path: string) => {
+  const slash = path.lastIndexOf('/');
+  return slash === -1 ? '' : path.slice(0, slash);
+};
+
+const TagNotesView: React.FC<TagNotesViewProps> = ({ tag, notes, onOpen, onSelectTag, onBack }) => {
+  // 上级标签，便于从 #project/alpha 返回 #project
+  const segments = tag.split('/');
+
+  return (
+    <div className="flex flex-col h-full bg-white">
+      {/* 顶部导航 */}
+      <div className="h-14 border-b border-gray-100 flex items-center px-4 bg-white shrink-0">
+        <button
+          onClick={onBack}
+          className="mr-4 p-2 text-gray-500 hover:bg-gray-100 rounded-full transition-colors"
+        >
+          <ArrowLeft size={20} />
+        </button>
+        <Hash size={20} className="mr-2 text-[#00b96b]" />
+        <h1 className="text-lg font-bold text-gray-800 flex items-center">
+          {segments.map((segment, i) => (
+            <React.Fragment key={i}>
+              {i > 0 && <span className="mx-1 text-gray-300">/</span>}
+              <button
+                onClick={() => onSelectTag(segments.slice(0, i + 1).join('/'))}
+                className={i === segments.length - 1 ? '' : 'text-gray-500 hover:text-[#00b96b] transition-colors'}
+              >
+                {segment}
+              </button>
+            </React.Fragment>
+          ))}
+        </h1>
+        <span className="ml-4 text-xs text-gray-400">{notes.length} 篇笔记</span>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar">
+        <div className="max-w-[850px] mx-auto px-8 py-6">
+          {notes.length === 0 ? (
+            <div className="text-center text-gray-400 text-sm mt-8">没有带此标签的笔记</div>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {notes.map(note => (
+                <li key={note.path} className="py-3">
+                  <button
+                    onClick={() => onOpen(note.path)}
+                    className="flex items-center text-[15px] font-medium text-[#262626] hover:text-[#00b96b] transition-colors"
+                    title={note.path}
+                  >
+                    <FileText size={16} className="mr-2 text-gray-400 shrink-0" />
+                    {note.name.replace(/\.md$/, '')}
+                  </button>
+                  <div className="flex flex-wrap items-center gap-1 mt-1.5 pl-6">
+                    {folderOf(note.path) && (
+                      <span className="text-xs text-gray-400 mr-2">{folderOf(note.path)}</span>
+                    )}
+                    {note.tags.map(t => (
+                      <button
+                        key={t}
+                        onClick={() => onSelectTag(t)}
+                        className={`px-1.5 py-0.5 rounded text-xs transition-colors ${t.toLowerCase() === tag.toLowerCase() ? 'bg-[#00b96b] text-white' : 'bg-blue-50 text-blue-600 hover:bg-blue-100'}`}
+                      >
+                        #{t}
+                      </button>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TagNotesView;
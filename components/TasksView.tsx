@@ -0,0 +1,207 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowLeft, ListChecks, CheckSquare, Square, Search, CalendarDays, FileText, Folder } from 'lucide-react';
+import { TaskItem } from '../types';
+
+type GroupMode = 'note' | 'folder' | 'due';
+type StatusFilter = 'open' | 'done' | 'all';
+type DueFilter = 'all' | 'overdue' | 'today' | 'week' | 'none';
+
+interface TasksViewProps {
+  tasks: TaskItem[];
+  onOpen: (path: string, line?: number) => void;
+  onToggle: (path: string, line: number) => void;
+  onBack: () => void;
+}
+
+interface TaskGroup {
+  key: string;
+  label: string;
+  path?: string; // 按笔记分组时可点击打开
+  tasks: TaskItem[];
+}
+
+const folderOf = (path: string) => {
+  const slash = path.lastIndexOf('/');
+  return slash === -1 ? '' : path.slice(0, slash);
+};
+
+const noteName = (path: string) => (path.split('/').pop() || path).replace(/\.md$/, '');
+
+// 本地日期 YYYY-MM-DD，与任务中的日期写法一致，可直接按字符串比较
+const localDate = (offsetDays = 0) => {
+  const date = new Date();
+  date.setDate(date.getDate() + offsetDays);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const matchesDue = (task: TaskItem, filter: DueFilter, today: string, weekEnd: string) => {
+  switch (filter) {
+    case 'overdue': return !!task.due && task.due < today;
+    case 'today': return task.due === today;
+    case 'week': return !!task.due && task.due >= today && task.due <= weekEnd;
+    case 'none': return !task.due;
+    default: return true;
+  }
+};
+
+const groupTasks = (tasks: TaskItem[], mode: GroupMode): TaskGroup[] => {
+  const groups = new Map<string, TaskGroup>();
+  for (const task of tasks) {
+    let key: string;
+    let label: string;
+    if (mode === 'note') {
+      key = task.path;
+      label = noteName(task.path);
+    } else if (mode === 'folder') {
+      key = folderOf(task.path);
+      label = key || '根目录';
+    } else {
+      key = task.due || '';
+      label = key || '无截止日期';
+    }
+    if (!groups.has(key)) groups.set(key, { key, label, path: mode === 'note' ? task.path : undefined, tasks: [] });
+    groups.get(key)!.tasks.push(task);
+  }
+
+  // 日期升序且无日期排最后，其余按名称排序
+  return Array.from(groups.values()).sort((a, b) => {
+    if (mode === 'due') {
+      if (!a.key) return 1;
+      if (!b.key) return -1;
+      return a.key.localeCompare(b.key);
+    }
+    return a.label.localeCompare(b.label);
+  });
+};
+
+const TasksView: React.FC<TasksViewProps> = ({ tasks, onOpen, onToggle, onBack }) => {
+  const [groupMode, setGroupMode] = useState<GroupMode>('note');
+  const [status, setStatus] = useState<StatusFilter>('open');
+  const [dueFilter, setDueFilter] = useState<DueFilter>('all');
+  const [query, setQuery] = useState('');
+
+  const today = localDate();
+
+  const groups = useMemo(() => {
+    const keyword = query.trim().toLowerCase();
+    const weekEnd = localDate(7);
+    const filtered = tasks.filter(task =>
+      (status === 'all' || task.completed === (status === 'done')) &&
+      matchesDue(task, dueFilter, today, weekEnd) &&
+      (!keyword || task.text.toLowerCase().includes(keyword) || task.path.toLowerCase().includes(keyword))
+    );
+    return groupTasks(filtered, groupMode);
+  }, [tasks, groupMode, status, dueFilter, query, today]);
+
+  const openCount = tasks.filter(task => !task.completed).length;
+  const shownCount = groups.reduce((sum, group) => sum + group.tasks.length, 0);
+  const selectClass = "h-8 px-2 text-xs text-gray-600 bg-white border border-gray-200 rounded outline-none focus:border-[#00b96b]";
+
+  return (
+    <div className="flex flex-col h-full bg-white">
+      {/* 顶部导航 */}
+      <div className="h-14 border-b border-gray-100 flex items-center px-4 bg-white shrink-0">
+        <button
+          onClick={onBack}
+          className="mr-4 p-2 text-gray-500 hover:bg-gray-100 rounded-full transition-colors"
+        >
+          <ArrowLeft size={20} />
+        </button>
+        <ListChecks size={20} className="mr-2 text-[#00b96b]" />
+        <h1 className="text-lg font-bold text-gray-800">任务</h1>
+        <span className="ml-4 text-xs text-gray-400">{openCount} 项未完成 / 共 {tasks.length} 项</span>
+      </div>
+
+      {/* 分组与筛选 */}
+      <div className="border-b border-gray-100 px-4 py-2 flex flex-wrap items-center gap-2 shrink-0">
+        <div className="relative flex-1 min-w-[160px]">
+          <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="筛选任务..."
+            className="w-full h-8 pl-8 pr-2 text-sm bg-gray-50 border border-gray-200 rounded outline-none focus:border-[#00b96b] focus:bg-white"
+          />
+        </div>
+        <select value={status} onChange={(e) => setStatus(e.target.value as StatusFilter)} className={selectClass}>
+          <option value="open">未完成</option>
+          <option value="done">已完成</option>
+          <option value="all">全部状态</option>
+        </select>
+        <select value={dueFilter} onChange={(e) => setDueFilter(e.target.value as DueFilter)} className={selectClass}>
+          <option value="all">全部日期</option>
+          <option value="overdue">已逾期</option>
+          <option value="today">今天到期</option>
+          <option value="week">7 天内到期</option>
+          <option value="none">无截止日期</option>
+        </select>
+        <select value={groupMode} onChange={(e) => setGroupMode(e.target.value as GroupMode)} className={selectClass}>
+          <option value="note">按笔记分组</option>
+          <option value="folder">按文件夹分组</option>
+          <option value="due">按截止日期分组</option>
+        </select>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar">
+        <div className="max-w-[850px] mx-auto px-8 py-6">
+          {shownCount === 0 ? (
+            <div className="text-center text-gray-400 text-sm mt-8">没有匹配的任务</div>
+          ) : (
+            <div className="space-y-6">
+              {groups.map(group => (
+                <div key={group.key}>
+                  <div className="flex items-center text-sm font-semibold text-gray-700 mb-2">
+                    {groupMode === 'note' ? <FileText size={14} className="mr-1.5 text-gray-400" />
+                      : groupMode === 'folder' ? <Folder size={14} className="mr-1.5 text-gray-400" />
+                      : <CalendarDays size={14} className={`mr-1.5 ${group.key && group.key < today ? 'text-red-400' : 'text-gray-400'}`} />}
+                    {group.path ? (
+                      <button onClick={() => onOpen(group.path!)} className="hover:text-[#00b96b] transition-colors" title={group.path}>
+                        {group.label}
+                      </button>
+                    ) : (
+                      <span>{group.label}</span>
+                    )}
+                    <span className="ml-2 text-xs font-normal text-gray-400">{group.tasks.length}</span>
+                  </div>
+                  <ul className="space-y-1 pl-1">
+                    {group.tasks.map(task => (
+                      <li key={`${task.path}:${task.line}`} className="flex items-start text-[15px] text-gray-700">
+                        <button
+                          onClick={() => onToggle(task.path, task.line)}
+                          className="mr-2 mt-1 shrink-0"
+                          title={task.completed ? '标记为未完成' : '标记为完成'}
+                        >
+                          {task.completed
+                            ? <CheckSquare size={16} className="text-[#00b96b]" />
+                            : <Square size={16} className="text-gray-400 hover:text-[#00b96b]" />}
+                        </button>
+                        <button
+                          onClick={() => onOpen(task.path, task.line)}
+                          className="flex-1 min-w-0 text-left hover:text-[#262626]"
+                          title="跳转到任务所在位置"
+                        >
+                          <span className={task.completed ? 'line-through text-gray-400' : ''}>{task.text}</span>
+                          {groupMode !== 'note' && (
+                            <span className="ml-2 text-xs text-gray-400">{noteName(task.path)}:{task.line}</span>
+                          )}
+                        </button>
+                        {task.due && groupMode !== 'due' && (
+                          <span className={`ml-2 mt-0.5 shrink-0 text-xs px-1.5 py-0.5 rounded ${!task.completed && task.due < today ? 'bg-red-50 text-red-500' : 'bg-gray-100 text-gray-500'}`}>
+                            {task.due}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TasksView;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { ArrowLeft, Trash2, RotateCcw, FileText, Folder, File, Loader2 } from 'lucide-react';
+import { FileType, TrashEntry } from '../types';
+
+interface TrashViewProps {
+  entries: TrashEntry[] | null; // null 表示加载中
+  onRestore: (entry: TrashEntry) => void;
+  onPurge: (entry: TrashEntry) => void;
+  onEmpty: () => void;
+  onBack: () => void;
+}
+
+const TrashView: React.FC<TrashViewProps> = ({ entries, onRestore, onPurge, onEmpty, onBack }) => {
+  return (
+    <div className="flex flex-col h-full bg-white">
+      {/* 顶部导航 */}
+      <div className="h-14 border-b border-gray-100 flex items-center px-4 bg-white shrink-0">
+        <button
+          onClick={onBack}
+          className="mr-4 p-2 text-gray-500 hover:bg-gray-100 rounded-full transition-colors"
+        >
+          <ArrowLeft size={20} />
+        </button>
+        <Trash2 size={20} className="mr-2 text-[#00b96b]" />
+        <h1 className="text-lg font-bold text-gray-800">回收站</h1>
+        {entries && <span className="ml-4 text-xs text-gray-400">共 {entries.length} 项</span>}
+        <button
+          onClick={onEmpty}
+          disabled={!entries || entries.length === 0}
+          className="ml-auto flex items-center gap-1.5 px-3 py-1.5 text-sm text-red-500 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+        >
+          <Trash2 size={14} />
+          清空回收站
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar">
+        <div className="max-w-[850px] mx-auto px-8 py-6">
+          {entries === null ? (
+            <div className="flex justify-center mt-8 text-gray-400">
+              <Loader2 size={20} className="animate-spin" />
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-center text-gray-400 text-sm mt-8">回收站是空的</div>
+          ) : (
+            <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+              {entries.map(entry => {
+                const Icon = entry.kind === FileType.DIRECTORY ? Folder : entry.name.endsWith('.md') ? FileText : File;
+                return (
+                  <li key={entry.id} className="flex items-center px-4 py-3 hover:bg-gray-50 transition-colors">
+                    <Icon size={16} className="mr-3 text-gray-400 shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium text-[#262626] truncate">{entry.name}</div>
+                      <div className="flex items-center gap-3 mt-0.5 text-xs text-gray-400">
+                        <span className="truncate" title={entry.originalPath}>
+                          {entry.originalPath ? `原位置: ${entry.originalPath}` : '原位置未知，将恢复到根目录'}
+                        </span>
+                        {entry.deletedAt > 0 && (
+                          <span className="shrink-0">删除于 {new Date(entry.deletedAt).toLocaleString()}</span>
+                        )}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => onRestore(entry)}
+                      className="ml-3 flex items-center gap-1 px-2.5 py-1.5 text-xs text-gray-600 hover:bg-green-50 hover:text-[#00b96b] rounded-md transition-colors shrink-0"
+                      title="恢复到原位置"
+                    >
+                      <RotateCcw size={14} />
+                      恢复
+                    </button>
+                    <button
+                      onClick={() => onPurge(entry)}
+                      className="ml-1 flex items-center gap-1 px-2.5 py-1.5 text-xs text-gray-600 hover:bg-red-50 hover:text-red-500 rounded-md transition-colors shrink-0"
+                      title="彻底删除"
+                    >
+                      <Trash2 size={14} />
+                      彻底删除
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrashView;
@@ -0,0 +1,22 @@
+/**
+ * 粘贴与拖入的附件
+ *
+ * 图片以时间戳命名 (Pasted image 20240102030405.png)，同名时追加序号；扩展名优先取自原文件名，其次取自 MIME 类型。
+ */
+
+import { getExtension, getExtensionForMimeType } from './fileTypes';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatTimestamp = (date: Date) =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+
+export const pastedImageName = (image: File, isTaken: (name: string) => boolean, date = new Date()) => {
+  const ext = getExtension(image.name) || getExtensionForMimeType(image.type) || 'png';
+  const base = `Pasted image ${formatTimestamp(date)}`;
+  let name = `${base}.${ext}`;
+  for (let i = 1; isTaken(name); i++) {
+    name = `${base} ${i}.${ext}`;
+  }
+  return name;
+};
@@ -0,0 +1,95 @@
+/**
+ * Mock 仓库中的二进制附件 (IndexedDB)
+ *
+ * Mock 模式的笔记内容保存在 localStorage，只能存字符串；粘贴的图片以 Blob 按路径保存在这里，
+ * 读取附件时优先于静态文件。
+ */
+
+const DB_NAME = 'obsidian_reader_blobs';
+const DB_VERSION = 1;
+const STORE = 'blobs';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// 写入失败时抛出，由调用方提示
+export const saveMockBlob = async (path: string, blob: Blob) => {
+  const db = await openDatabase();
+  await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).put(blob, path));
+};
+
+export const getMockBlob = async (path: string): Promise<Blob | null> => {
+  try {
+    const db = await openDatabase();
+    return (await promisify(db.transaction(STORE, 'readonly').objectStore(STORE).get(path))) ?? null;
+  } catch (e) {
+    console.error('读取附件失败', e);
+    return null;
+  }
+};
+
+/**
+ * 重命名或移动后，把 oldPath 本身及其下的附件迁移到 newPath 下
+ */
+export const moveMockBlobs = async (oldPath: string, newPath: string) => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const keys = (await promisify(store.getAllKeys())).map(String);
+    for (const key of keys) {
+      if (key !== oldPath && !key.startsWith(`${oldPath}/`)) continue;
+      const blob = await promisify(store.get(key));
+      store.put(blob, newPath + key.slice(oldPath.length));
+      store.delete(key);
+    }
+    await transactionDone(tx);
+  } catch (e) {
+    console.error('迁移附件失败', e);
+  }
+};
+
+/**
+ * 删除 paths 中每个路径本身及其下的附件
+ */
+export const deleteMockBlobs = async (paths: string[]) => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const keys = (await promisify(store.getAllKeys())).map(String);
+    for (const key of keys) {
+      if (paths.some(path => key === path || key.startsWith(`${path}/`))) store.delete(key);
+    }
+    await transactionDone(tx);
+  } catch (e) {
+    console.error('删除附件失败', e);
+  }
+};
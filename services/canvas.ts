@@ -0,0 +1,133 @@
+/**
+ * JSON Canvas (Obsidian .canvas 文件)
+ *
+ * 解析节点与连线，计算画布范围与连线路径，供只读渲染使用。
+ * 规范：https://jsoncanvas.org/spec/1.0/
+ */
+
+export type CanvasSide = 'top' | 'right' | 'bottom' | 'left';
+
+export interface CanvasNode {
+  id: string;
+  type: 'text' | 'file' | 'link' | 'group';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color?: string;
+  text?: string; // text
+  file?: string; // file：仓库内路径
+  subpath?: string; // file：#标题 或 #^块
+  url?: string; // link
+  label?: string; // group
+}
+
+export interface CanvasEdge {
+  id: string;
+  fromNode: string;
+  toNode: string;
+  fromSide?: CanvasSide;
+  toSide?: CanvasSide;
+  fromEnd?: 'none' | 'arrow';
+  toEnd?: 'none' | 'arrow';
+  color?: string;
+  label?: string;
+}
+
+export interface CanvasData {
+  nodes: CanvasNode[];
+  edges: CanvasEdge[];
+}
+
+export interface CanvasBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 预设颜色 1-6：红、橙、黄、绿、青、紫
+const PRESET_COLORS: Record<string, string> = {
+  '1': '#fb464c',
+  '2': '#e9973f',
+  '3': '#e0de71',
+  '4': '#44cf6e',
+  '5': '#53dfdd',
+  '6': '#a882ff',
+};
+
+export const canvasColor = (color?: string) => (color ? PRESET_COLORS[color] || color : undefined);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * 解析 .canvas 文件内容，忽略缺少位置或尺寸的节点及端点不存在的连线
+ */
+export const parseCanvas = (text: string): CanvasData => {
+  const raw = text.trim() ? JSON.parse(text) : {};
+  const nodes: CanvasNode[] = (Array.isArray(raw.nodes) ? raw.nodes : []).filter((node: any) =>
+    node && typeof node.id === 'string' && isNumber(node.x) && isNumber(node.y) && isNumber(node.width) && isNumber(node.height)
+  );
+  const ids = new Set(nodes.map(node => node.id));
+  const edges: CanvasEdge[] = (Array.isArray(raw.edges) ? raw.edges : []).filter((edge: any) =>
+    edge && ids.has(edge.fromNode) && ids.has(edge.toNode)
+  );
+  return { nodes, edges };
+};
+
+export const canvasBounds = (nodes: CanvasNode[]): CanvasBounds => {
+  if (nodes.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+  const minX = Math.min(...nodes.map(node => node.x));
+  const minY = Math.min(...nodes.map(node => node.y));
+  const maxX = Math.max(...nodes.map(node => node.x + node.width));
+  const maxY = Math.max(...nodes.map(node => node.y + node.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+const anchor = (node: CanvasNode, side: CanvasSide) => {
+  switch (side) {
+    case 'top': return { x: node.x + node.width / 2, y: node.y };
+    case 'bottom': return { x: node.x + node.width / 2, y: node.y + node.height };
+    case 'left': return { x: node.x, y: node.y + node.height / 2 };
+    case 'right': return { x: node.x + node.width, y: node.y + node.height / 2 };
+  }
+};
+
+// 未指定连接边时选择朝向另一节点的一侧
+const facingSide = (from: CanvasNode, to: CanvasNode): CanvasSide => {
+  const dx = (to.x + to.width / 2) - (from.x + from.width / 2);
+  const dy = (to.y + to.height / 2) - (from.y + from.height / 2);
+  if (Math.abs(dx) > Math.abs(dy)) return dx > 0 ? 'right' : 'left';
+  return dy > 0 ? 'bottom' : 'top';
+};
+
+const SIDE_NORMALS: Record<CanvasSide, { x: number; y: number }> = {
+  top: { x: 0, y: -1 },
+  right: { x: 1, y: 0 },
+  bottom: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+};
+
+/**
+ * 连线的三次贝塞尔路径 (SVG path)、两个端点与标签位置
+ */
+export const edgeGeometry = (edge: CanvasEdge, from: CanvasNode, to: CanvasNode) => {
+  const fromSide = edge.fromSide || facingSide(from, to);
+  const toSide = edge.toSide || facingSide(to, from);
+  const start = anchor(from, fromSide);
+  const end = anchor(to, toSide);
+  const distance = Math.hypot(end.x - start.x, end.y - start.y);
+  const offset = Math.min(Math.max(distance / 2, 40), 200);
+  const c1 = { x: start.x + SIDE_NORMALS[fromSide].x * offset, y: start.y + SIDE_NORMALS[fromSide].y * offset };
+  const c2 = { x: end.x + SIDE_NORMALS[toSide].x * offset, y: end.y + SIDE_NORMALS[toSide].y * offset };
+  return {
+    path: `M ${start.x} ${start.y} C ${c1.x} ${c1.y}, ${c2.x} ${c2.y}, ${end.x} ${end.y}`,
+    start,
+    end,
+    // 贝塞尔曲线 t = 0.5 处
+    middle: {
+      x: (start.x + 3 * c1.x + 3 * c2.x + end.x) / 8,
+      y: (start.y + 3 * c1.y + 3 * c2.y + end.y) / 8,
+    },
+  };
+};
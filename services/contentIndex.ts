@@ -0,0 +1,363 @@
+import { FileType, FileSystemNode, SearchMatch, SearchResult } from '../types';
+import { readFileContent } from './fileSystem';
+
+/**
+ * 全文内容索引 (Content Index)
+ *
+ * 打开仓库时通过 readFileContent 读取全部 Markdown 内容并建立倒排索引，
+ * 之后由 App 在写入、新建、重命名、删除时增量更新。每次更新记入变更日志，
+ * 双链、标签、查询、任务等派生索引据此只处理有变化的文档。
+ * 中文等 CJK 文本按单字 + 二元组 (bigram) 切分，拉丁文本按单词切分。
+ */
+
+export interface IndexedDocument {
+  path: string;
+  name: string;
+  content: string;
+  lines: string[];
+  length: number; // token 总数，用于 BM25 长度归一化
+  terms: Map<string, number>;
+}
+
+export interface ContentIndex {
+  docs: Map<string, IndexedDocument>;
+  postings: Map<string, Map<string, number>>; // term -> (path -> term frequency)
+  totalLength: number;
+  changes: string[]; // 变更日志：依次记录新增、更新或删除的文档路径
+}
+
+// 派生索引在变更日志中的同步位置
+export interface IndexCursor {
+  index: ContentIndex | null;
+  position: number;
+}
+
+const CJK_CHAR = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}';
+const TOKEN_PATTERN = new RegExp(`[${CJK_CHAR}]+|(?:(?![${CJK_CHAR}])[\\p{L}\\p{N}_])+`, 'gu');
+const CJK_RUN = new RegExp(`^[${CJK_CHAR}]`, 'u');
+
+const READ_CONCURRENCY = 8;
+const SNIPPET_RADIUS = 40;
+const MAX_MATCHES_PER_DOC = 3;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export const isMarkdownFile = (node: FileSystemNode) =>
+  node.kind === FileType.FILE && node.name.toLowerCase().endsWith('.md');
+
+/**
+ * 递归收集目录树下的所有 Markdown 文件
+ */
+export const collectMarkdownFiles = (node: FileSystemNode, result: FileSystemNode[] = []): FileSystemNode[] => {
+  if (isMarkdownFile(node)) {
+    result.push(node);
+  }
+  if (node.children) {
+    for (const child of node.children) {
+      collectMarkdownFiles(child, result);
+    }
+  }
+  return result;
+};
+
+// --- Tokenizer ---
+
+/**
+ * 切分查询/文档为片段：拉丁单词 或 连续的 CJK 字符串
+ */
+const splitSegments = (text: string): string[] => {
+  return text.toLowerCase().match(TOKEN_PATTERN) || [];
+};
+
+const isCjkSegment = (segment: string) => CJK_RUN.test(segment);
+
+/**
+ * CJK 片段展开为 term：单字 + 相邻二元组
+ */
+const cjkTerms = (segment: string, includeUnigrams: boolean): string[] => {
+  const chars = Array.from(segment);
+  if (chars.length === 1) return chars;
+  const terms: string[] = includeUnigrams ? [...chars] : [];
+  for (let i = 0; i < chars.length - 1; i++) {
+    terms.push(chars[i] + chars[i + 1]);
+  }
+  return terms;
+};
+
+export const tokenize = (text: string): string[] => {
+  const terms: string[] = [];
+  for (const segment of splitSegments(text)) {
+    if (isCjkSegment(segment)) {
+      terms.push(...cjkTerms(segment, true));
+    } else {
+      terms.push(segment);
+    }
+  }
+  return terms;
+};
+
+// --- Index Maintenance ---
+
+export const createContentIndex = (): ContentIndex => ({
+  docs: new Map(),
+  postings: new Map(),
+  totalLength: 0,
+  changes: [],
+});
+
+export const createIndexCursor = (): IndexCursor => ({ index: null, position: 0 });
+
+/**
+ * 取出上次同步以来有变化的文档路径 (去重)；内容索引整体替换 (如重建) 后返回 null，需全量重建
+ */
+export const takeIndexChanges = (cursor: IndexCursor, index: ContentIndex): string[] | null => {
+  const changes = cursor.index === index ? Array.from(new Set(index.changes.slice(cursor.position))) : null;
+  cursor.index = index;
+  cursor.position = index.changes.length;
+  return changes;
+};
+
+const unindexPath = (index: ContentIndex, path: string) => {
+  const doc = index.docs.get(path);
+  if (!doc) return;
+  for (const term of doc.terms.keys()) {
+    const posting = index.postings.get(term);
+    if (!posting) continue;
+    posting.delete(path);
+    if (posting.size === 0) index.postings.delete(term);
+  }
+  index.totalLength -= doc.length;
+  index.docs.delete(path);
+  index.changes.push(path);
+};
+
+/**
+ * 写入或更新单个文档
+ */
+export const indexDocument = (index: ContentIndex, path: string, name: string, content: string) => {
+  unindexPath(index, path);
+
+  const terms = new Map<string, number>();
+  const tokens = tokenize(`${name.replace(/\.md$/i, '')}\n${content}`);
+  for (const term of tokens) {
+    terms.set(term, (terms.get(term) || 0) + 1);
+  }
+
+  for (const [term, freq] of terms) {
+    let posting = index.postings.get(term);
+    if (!posting) {
+      posting = new Map();
+      index.postings.set(term, posting);
+    }
+    posting.set(path, freq);
+  }
+
+  index.docs.set(path, {
+    path,
+    name,
+    content,
+    lines: content.split(/\r?\n/),
+    length: tokens.length,
+    terms,
+  });
+  index.totalLength += tokens.length;
+  index.changes.push(path);
+};
+
+/**
+ * 删除文档；传入文件夹路径时删除其下所有文档
+ */
+export const removeDocuments = (index: ContentIndex, path: string) => {
+  for (const docPath of Array.from(index.docs.keys())) {
+    if (docPath === path || docPath.startsWith(`${path}/`)) {
+      unindexPath(index, docPath);
+    }
+  }
+};
+
+/**
+ * 重命名/移动后迁移文档路径；文件夹会迁移其下所有文档
+ */
+export const renameDocuments = (index: ContentIndex, oldPath: string, newPath: string) => {
+  for (const doc of Array.from(index.docs.values())) {
+    if (doc.path !== oldPath && !doc.path.startsWith(`${oldPath}/`)) continue;
+    const path = newPath + doc.path.slice(oldPath.length);
+    const name = path.split('/').pop() || doc.name;
+    unindexPath(index, doc.path);
+    if (name.toLowerCase().endsWith('.md')) {
+      indexDocument(index, path, name, doc.content);
+    }
+  }
+};
+
+/**
+ * 读取文件并加入索引 (按批并发读取)
+ */
+export const indexFiles = async (
+  index: ContentIndex,
+  files: FileSystemNode[],
+  onProgress?: (done: number, total: number) => void
+) => {
+  for (let i = 0; i < files.length; i += READ_CONCURRENCY) {
+    const batch = files.slice(i, i + READ_CONCURRENCY);
+    await Promise.all(batch.map(async (node) => {
+      try {
+        const content = await readFileContent(node);
+        indexDocument(index, node.path, node.name, content);
+      } catch (e) {
+        console.warn(`[ContentIndex] Failed to index ${node.path}`, e);
+      }
+    }));
+    onProgress?.(Math.min(i + READ_CONCURRENCY, files.length), files.length);
+  }
+};
+
+/**
+ * 读取整个仓库并建立索引
+ */
+export const buildContentIndex = async (
+  root: FileSystemNode,
+  onProgress?: (done: number, total: number) => void
+): Promise<ContentIndex> => {
+  const index = createContentIndex();
+  await indexFiles(index, collectMarkdownFiles(root), onProgress);
+  return index;
+};
+
+// --- Search ---
+
+/**
+ * 查询词 -> 需要全部命中的 term 组；拉丁单词支持前缀匹配
+ */
+const expandQueryTerm = (index: ContentIndex, segment: string): { terms: string[]; exact: boolean }[] => {
+  if (isCjkSegment(segment)) {
+    return cjkTerms(segment, false).map(term => ({ terms: [term], exact: true }));
+  }
+  if (index.postings.has(segment) || segment.length < 2) {
+    return [{ terms: [segment], exact: true }];
+  }
+  const prefixed: string[] = [];
+  for (const term of index.postings.keys()) {
+    if (term.startsWith(segment)) prefixed.push(term);
+  }
+  return [{ terms: prefixed, exact: false }];
+};
+
+const findRanges = (lowerLine: string, needles: string[]): [number, number][] => {
+  const ranges: [number, number][] = [];
+  for (const needle of needles) {
+    let from = 0;
+    while (from <= lowerLine.length) {
+      const idx = lowerLine.indexOf(needle, from);
+      if (idx === -1) break;
+      ranges.push([idx, idx + needle.length]);
+      from = idx + needle.length;
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  // 合并重叠区间
+  const merged: [number, number][] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+};
+
+/**
+ * 截取命中行附近的上下文，并同步偏移高亮区间
+ */
+const buildSnippet = (line: string, lineNumber: number, ranges: [number, number][]): SearchMatch => {
+  const firstHit = ranges[0][0];
+  const start = Math.max(0, firstHit - SNIPPET_RADIUS);
+  const end = Math.min(line.length, Math.max(ranges[ranges.length - 1][1], firstHit) + SNIPPET_RADIUS);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < line.length ? '…' : '';
+  const shift = prefix.length - start;
+
+  return {
+    line: lineNumber,
+    text: `${prefix}${line.slice(start, end)}${suffix}`,
+    ranges: ranges
+      .filter(([s, e]) => s >= start && e <= end)
+      .map(([s, e]) => [s + shift, e + shift] as [number, number]),
+  };
+};
+
+const collectMatches = (doc: IndexedDocument, needles: string[]): SearchMatch[] => {
+  const hits: { lineIndex: number; ranges: [number, number][]; distinct: number }[] = [];
+
+  doc.lines.forEach((line, lineIndex) => {
+    const lower = line.toLowerCase();
+    const ranges = findRanges(lower, needles);
+    if (ranges.length === 0) return;
+    const distinct = needles.filter(n => lower.includes(n)).length;
+    hits.push({ lineIndex, ranges, distinct });
+  });
+
+  return hits
+    .sort((a, b) => b.distinct - a.distinct || a.lineIndex - b.lineIndex)
+    .slice(0, MAX_MATCHES_PER_DOC)
+    .sort((a, b) => a.lineIndex - b.lineIndex)
+    .map(hit => buildSnippet(doc.lines[hit.lineIndex], hit.lineIndex + 1, hit.ranges));
+};
+
+/**
+ * 全文搜索：BM25 排序，所有查询词都必须命中 (AND)，标题命中额外加权
+ */
+export const searchContent = (index: ContentIndex, query: string, limit: number = 50): SearchResult[] => {
+  const segments = Array.from(new Set(splitSegments(query)));
+  if (segments.length === 0 || index.docs.size === 0) return [];
+
+  const groups = segments.flatMap(segment => expandQueryTerm(index, segment));
+  const docCount = index.docs.size;
+  const avgLength = index.totalLength / docCount || 1;
+  const scores = new Map<string, number>();
+  let candidates: Set<string> | null = null;
+
+  for (const group of groups) {
+    const groupDocs = new Set<string>();
+    for (const term of group.terms) {
+      const posting = index.postings.get(term);
+      if (!posting) continue;
+      const idf = Math.log(1 + (docCount - posting.size + 0.5) / (posting.size + 0.5));
+      const weight = group.exact ? 1 : 0.5;
+
+      for (const [path, freq] of posting) {
+        if (candidates && !candidates.has(path)) continue;
+        const doc = index.docs.get(path)!;
+        const norm = freq + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / avgLength);
+        const score = weight * idf * (freq * (BM25_K1 + 1)) / norm;
+        scores.set(path, (scores.get(path) || 0) + score);
+        groupDocs.add(path);
+      }
+    }
+    candidates = groupDocs;
+    if (candidates.size === 0) return [];
+  }
+
+  const lowerQuery = query.trim().toLowerCase();
+  const results: SearchResult[] = [];
+
+  for (const path of candidates || []) {
+    const doc = index.docs.get(path)!;
+    let score = scores.get(path) || 0;
+    const title = doc.name.replace(/\.md$/i, '').toLowerCase();
+    if (title === lowerQuery) score *= 3;
+    else if (title.includes(lowerQuery)) score *= 2;
+
+    results.push({
+      path,
+      name: doc.name,
+      score,
+      matches: collectMatches(doc, segments),
+    });
+  }
+
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+};
@@ -0,0 +1,268 @@
+/**
+ * 文本差异与三方合并
+ *
+ * 按行比较 (Myers 算法)；三方合并以共同祖先为基准，合并双方互不重叠的修改，
+ * 重叠且不相同的修改作为冲突块返回。
+ */
+
+export interface DiffOp {
+  type: 'equal' | 'insert' | 'delete';
+  lines: string[];
+}
+
+export interface DiffRow {
+  type: DiffOp['type'] | 'skip';
+  text: string; // skip 行为折叠的行数说明
+}
+
+export type MergeChunk =
+  | { type: 'ok'; lines: string[] }
+  | { type: 'conflict'; base: string[]; mine: string[]; theirs: string[] };
+
+export interface MergeResult {
+  chunks: MergeChunk[];
+  conflicts: number;
+}
+
+// 基准中 [start, end) 行被替换为 lines
+interface Hunk {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+// 回溯表的最大单元数，超过后退化为整段替换，避免大文件差异占用过多内存
+const MAX_TRACE_CELLS = 2e7;
+
+export const splitLines = (text: string) => text.split(/\r?\n/);
+
+const pushOp = (ops: DiffOp[], type: DiffOp['type'], line: string) => {
+  const last = ops[ops.length - 1];
+  if (last && last.type === type) last.lines.push(line);
+  else ops.push({ type, lines: [line] });
+};
+
+/**
+ * 行级差异：a -> b 的编辑脚本
+ */
+export const diffLines = (a: string[], b: string[]): DiffOp[] => {
+  // 先剥离公共前后缀，缩小搜索范围
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const ops: DiffOp[] = [];
+  for (let i = 0; i < prefix; i++) pushOp(ops, 'equal', a[i]);
+
+  const aMid = a.slice(prefix, a.length - suffix);
+  const bMid = b.slice(prefix, b.length - suffix);
+  const n = aMid.length;
+  const m = bMid.length;
+
+  if (n === 0 || m === 0) {
+    aMid.forEach(line => pushOp(ops, 'delete', line));
+    bMid.forEach(line => pushOp(ops, 'insert', line));
+  } else {
+    // Myers：记录每一步的 V 数组用于回溯
+    const max = n + m;
+    const offset = max;
+    const v = new Int32Array(2 * max + 2);
+    const trace: Int32Array[] = [];
+    let found = false;
+    for (let d = 0; d <= max && !found; d++) {
+      if ((d + 1) * v.length > MAX_TRACE_CELLS) break;
+      trace.push(v.slice());
+      for (let k = -d; k <= d; k += 2) {
+        let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+        let y = x - k;
+        while (x < n && y < m && aMid[x] === bMid[y]) {
+          x++;
+          y++;
+        }
+        v[offset + k] = x;
+        if (x >= n && y >= m) {
+          found = true;
+          break;
+        }
+      }
+    }
+
+    if (!found) {
+      aMid.forEach(line => pushOp(ops, 'delete', line));
+      bMid.forEach(line => pushOp(ops, 'insert', line));
+      for (let i = a.length - suffix; i < a.length; i++) pushOp(ops, 'equal', a[i]);
+      return ops;
+    }
+
+    // 回溯得到逆序的编辑
+    const edits: { type: DiffOp['type']; line: string }[] = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d > 0; d--) {
+      const prev = trace[d];
+      const k = x - y;
+      const prevK = k === -d || (k !== d && prev[offset + k - 1] < prev[offset + k + 1]) ? k + 1 : k - 1;
+      const prevX = prev[offset + prevK];
+      const prevY = prevX - prevK;
+      while (x > prevX && y > prevY) {
+        edits.push({ type: 'equal', line: aMid[--x] });
+        y--;
+      }
+      if (x === prevX) edits.push({ type: 'insert', line: bMid[--y] });
+      else edits.push({ type: 'delete', line: aMid[--x] });
+    }
+    while (x > 0 && y > 0) {
+      edits.push({ type: 'equal', line: aMid[--x] });
+      y--;
+    }
+    for (let i = edits.length - 1; i >= 0; i--) pushOp(ops, edits[i].type, edits[i].line);
+  }
+
+  for (let i = a.length - suffix; i < a.length; i++) pushOp(ops, 'equal', a[i]);
+  return ops;
+};
+
+// 英文单词、数字与空白各为一个单元，其余字符 (含中文) 逐字比较
+const WORD_PATTERN = /(?:(?!\p{Script=Han})[\p{L}\p{N}_])+|\s+|[\s\S]/gu;
+
+/**
+ * 词级差异，用于行内对比
+ */
+export const diffWords = (a: string, b: string): DiffOp[] =>
+  diffLines(a.match(WORD_PATTERN) || [], b.match(WORD_PATTERN) || []);
+
+/**
+ * 差异转为逐行展示的行，折叠大段未改动的内容，仅在修改处上下保留 context 行
+ */
+export const toDiffRows = (ops: DiffOp[], context = 3): DiffRow[] => {
+  const rows: DiffRow[] = [];
+  ops.forEach((op, idx) => {
+    if (op.type !== 'equal') {
+      op.lines.forEach(text => rows.push({ type: op.type, text }));
+      return;
+    }
+    const head = idx === 0 ? 0 : context;
+    const tail = idx === ops.length - 1 ? 0 : context;
+    if (op.lines.length <= head + tail + 1) {
+      op.lines.forEach(text => rows.push({ type: 'equal', text }));
+      return;
+    }
+    op.lines.slice(0, head).forEach(text => rows.push({ type: 'equal', text }));
+    rows.push({ type: 'skip', text: `… ${op.lines.length - head - tail} 行未改动` });
+    op.lines.slice(op.lines.length - tail).forEach(text => rows.push({ type: 'equal', text }));
+  });
+  return rows;
+};
+
+// 差异 -> 相对基准的替换块
+const toHunks = (ops: DiffOp[]): Hunk[] => {
+  const hunks: Hunk[] = [];
+  let position = 0;
+  let current: Hunk | null = null;
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      if (current) hunks.push(current);
+      current = null;
+      position += op.lines.length;
+      continue;
+    }
+    if (!current) current = { start: position, end: position, lines: [] };
+    if (op.type === 'delete') {
+      position += op.lines.length;
+      current.end = position;
+    } else {
+      current.lines.push(...op.lines);
+    }
+  }
+  if (current) hunks.push(current);
+  return hunks;
+};
+
+// 把一方在 [start, end) 内的修改应用到基准上
+const applyHunks = (base: string[], hunks: Hunk[], start: number, end: number) => {
+  const result: string[] = [];
+  let position = start;
+  for (const hunk of hunks) {
+    result.push(...base.slice(position, hunk.start), ...hunk.lines);
+    position = hunk.end;
+  }
+  result.push(...base.slice(position, end));
+  return result;
+};
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, i) => line === b[i]);
+
+/**
+ * 三方合并：base 为共同祖先，mine 为本地修改，theirs 为磁盘上的新版本
+ */
+export const merge3 = (base: string[], mine: string[], theirs: string[]): MergeResult => {
+  const tagged = [
+    ...toHunks(diffLines(base, mine)).map(hunk => ({ ...hunk, side: 'mine' as const })),
+    ...toHunks(diffLines(base, theirs)).map(hunk => ({ ...hunk, side: 'theirs' as const })),
+  ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const chunks: MergeChunk[] = [];
+  const pushLines = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = chunks[chunks.length - 1];
+    if (last && last.type === 'ok') last.lines.push(...lines);
+    else chunks.push({ type: 'ok', lines: [...lines] });
+  };
+
+  let conflicts = 0;
+  let position = 0;
+  let i = 0;
+  while (i < tagged.length) {
+    // 相交或相接的修改归为一组
+    const group = [tagged[i]];
+    const start = tagged[i].start;
+    let end = tagged[i].end;
+    i++;
+    while (i < tagged.length && tagged[i].start <= end) {
+      end = Math.max(end, tagged[i].end);
+      group.push(tagged[i]);
+      i++;
+    }
+
+    pushLines(base.slice(position, start));
+    const mineHunks = group.filter(h => h.side === 'mine');
+    const theirHunks = group.filter(h => h.side === 'theirs');
+    const mineLines = applyHunks(base, mineHunks, start, end);
+    const theirLines = applyHunks(base, theirHunks, start, end);
+
+    if (theirHunks.length === 0) {
+      pushLines(mineLines);
+    } else if (mineHunks.length === 0 || sameLines(mineLines, theirLines)) {
+      pushLines(theirLines);
+    } else {
+      chunks.push({ type: 'conflict', base: base.slice(start, end), mine: mineLines, theirs: theirLines });
+      conflicts++;
+    }
+    position = end;
+  }
+  pushLines(base.slice(position));
+
+  return { chunks, conflicts };
+};
+
+/**
+ * 合并结果转为文本；冲突块按 Git 的冲突标记输出，或统一取某一方
+ */
+export const mergeResultToText = (result: MergeResult, resolve: 'markers' | 'mine' | 'theirs' = 'markers') => {
+  const lines: string[] = [];
+  for (const chunk of result.chunks) {
+    if (chunk.type === 'ok') {
+      lines.push(...chunk.lines);
+    } else if (resolve === 'mine') {
+      lines.push(...chunk.mine);
+    } else if (resolve === 'theirs') {
+      lines.push(...chunk.theirs);
+    } else {
+      lines.push('<<<<<<< 我的修改', ...chunk.mine, '=======', ...chunk.theirs, '>>>>>>> 磁盘版本');
+    }
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,421 @@
+/**
+ * 笔记导出为 PDF / HTML / Word
+ *
+ * 笔记按阅读视图的规则渲染后整理为一份与样式无关的文档：标题与 Frontmatter 属性置于正文前，
+ * 笔记嵌入预先展开，附件与图片通过阅读器的附件解析读取。导出文件夹时按目录树顺序合并其中的笔记并生成目录。
+ * HTML 内联图片与样式，可脱离阅读器单独打开；PDF 由浏览器打印同一份 HTML 生成；Word 见 docx.ts。
+ */
+
+import { FileSystemNode, FileType } from '../types';
+import { parseFrontmatter } from './frontmatter';
+import { extractSection, headingAnchorId, isNoteTarget } from './markdown';
+import { createLinkResolver, splitLinkTarget } from './linkIndex';
+import { collectMarkdownFiles } from './contentIndex';
+
+export type DocumentFormat = 'pdf' | 'html' | 'docx';
+
+export const DOCUMENT_FORMAT_LABELS: Record<DocumentFormat, string> = {
+  pdf: 'PDF',
+  html: 'HTML',
+  docx: 'Word (DOCX)',
+};
+
+const MAX_EMBED_DEPTH = 4;
+// 渲染时附件地址的占位前缀，渲染后再按占位读取
+const FILE_PREFIX = 'export-file:';
+
+export interface DocumentExportOptions {
+  root: FileSystemNode;
+  target: FileSystemNode; // 导出的笔记或文件夹
+  readText: (node: FileSystemNode) => Promise<string>;
+  resolveFile: (target: string) => Promise<string | null>; // 附件的对象 URL
+  // 按阅读视图渲染正文；fileUrl 把附件引用转换为地址
+  renderMarkdown: (markdown: string, fileUrl: (target: string) => string | null) => string;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface ExportDocument {
+  title: string;
+  author?: string;
+  body: HTMLElement; // 整理后的正文，属于一个不加载资源的独立文档
+  images: Map<string, Blob>; // 按 img 的 src 索引
+  noteCount: number;
+  failures: { path: string; error: string }[];
+}
+
+const noteTitle = (node: FileSystemNode, metadata: Record<string, any> | null) =>
+  metadata?.title ? String(metadata.title) : node.name.replace(/\.md$/i, '');
+
+const formatValue = (value: any): string => {
+  if (Array.isArray(value)) return value.map(formatValue).join(', ');
+  if (value && typeof value === 'object') return JSON.stringify(value);
+  return String(value ?? '');
+};
+
+/**
+ * 整理渲染结果：去掉交互用的元素与样式类，双链改为文档内锚点或纯文字
+ */
+const normalizeContent = (container: HTMLElement, linkHref: (target: string) => string | null) => {
+  const doc = container.ownerDocument;
+  container.querySelectorAll('link, script, svg').forEach(el => el.remove());
+
+  // 代码块只保留带高亮样式的 code
+  container.querySelectorAll('pre').forEach(pre => {
+    const code = pre.querySelector('code');
+    if (!code) return;
+    const language = /language-(\w+)/.exec(code.className)?.[1];
+    code.removeAttribute('style');
+    pre.replaceChildren(code);
+    if (language) pre.setAttribute('data-language', language);
+  });
+
+  container.querySelectorAll('input[type="checkbox"]').forEach(input => {
+    input.closest('li')?.setAttribute('data-task', '');
+    input.replaceWith(doc.createTextNode((input as HTMLInputElement).hasAttribute('checked') ? '☑' : '☐'));
+  });
+
+  container.querySelectorAll('iframe, audio, video').forEach(el => {
+    const src = el.getAttribute('src') || '';
+    const name = el.getAttribute('title') || decodeURIComponent(src.replace(FILE_PREFIX, '').split('#')[0]);
+    const note = doc.createElement('p');
+    note.setAttribute('data-attachment', '');
+    note.textContent = `附件: ${name}`;
+    el.replaceWith(note);
+  });
+
+  container.querySelectorAll('a[href]').forEach(anchor => {
+    const href = anchor.getAttribute('href')!;
+    let replacement: string | null = href;
+    let kind = '';
+    if (href.startsWith('wikilink:')) {
+      replacement = linkHref(decodeURIComponent(href.slice('wikilink:'.length)));
+      kind = 'wikilink';
+    } else if (href.startsWith('tag:')) {
+      replacement = null;
+      kind = 'tag';
+    } else if (href.startsWith(FILE_PREFIX)) {
+      replacement = null;
+    }
+    if (replacement) {
+      anchor.setAttribute('href', replacement);
+      if (kind) anchor.setAttribute('data-kind', kind);
+      return;
+    }
+    const span = doc.createElement('span');
+    if (kind) span.setAttribute('data-kind', kind);
+    span.append(...Array.from(anchor.childNodes));
+    anchor.replaceWith(span);
+  });
+
+  container.querySelectorAll('[class]').forEach(el => el.removeAttribute('class'));
+};
+
+// 附件占位读取为 Blob；外部图片尽量下载，以便内联
+const loadImage = async (src: string, resolveFile: DocumentExportOptions['resolveFile']) => {
+  if (!src.startsWith(FILE_PREFIX)) {
+    const response = await fetch(src);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return response.blob();
+  }
+  const url = await resolveFile(decodeURIComponent(src.slice(FILE_PREFIX.length)));
+  if (!url) throw new Error('未找到附件');
+  try {
+    return await (await fetch(url)).blob();
+  } finally {
+    if (url.startsWith('blob:')) URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * 读取并渲染要导出的笔记，合并为一份文档
+ */
+export const buildExportDocument = async (options: DocumentExportOptions): Promise<ExportDocument> => {
+  const { root, target, readText, resolveFile, renderMarkdown, onProgress } = options;
+  const isFolder = target.kind === FileType.DIRECTORY;
+  const notes = isFolder ? collectMarkdownFiles(target) : [target];
+  const resolve = createLinkResolver(root);
+  const failures: ExportDocument['failures'] = [];
+  const texts = new Map<string, string>();
+  const total = notes.length + 1;
+  let done = 0;
+
+  const read = async (node: FileSystemNode) => {
+    if (!texts.has(node.path)) texts.set(node.path, await readText(node));
+    return texts.get(node.path)!;
+  };
+
+  // 每篇笔记一个锚点；标题锚点加上笔记前缀，合并后不会重复
+  const sectionIds = new Map(notes.map((note, index) => [note.path, `note-${index + 1}`]));
+  const linkHref = (current: FileSystemNode) => (link: string) => {
+    const { name, subpath } = splitLinkTarget(link);
+    const node = name ? resolve(name) : current;
+    const sectionId = node && sectionIds.get(node.path);
+    if (!sectionId) return null;
+    return subpath && !subpath.startsWith('^') ? `#${sectionId}-${headingAnchorId(subpath)}` : `#${sectionId}`;
+  };
+
+  // 笔记嵌入展开为被嵌入的内容；找不到、循环或层级过深时退化为双链
+  const expandEmbeds = async (markdown: string, current: FileSystemNode, chain: string[]): Promise<string> => {
+    let result = '';
+    let last = 0;
+    for (const match of markdown.matchAll(/!\[\[(.*?)(?:\|(.*?))?\]\]/g)) {
+      const [text, link, alias] = match;
+      result += markdown.slice(last, match.index);
+      last = match.index! + text.length;
+      const { name, subpath } = splitLinkTarget(link);
+      if (!isNoteTarget(name)) {
+        result += text;
+        continue;
+      }
+      const node = name ? resolve(name) : current;
+      let section: string | null = null;
+      if (node && node.kind === FileType.FILE && !chain.includes(node.path) && chain.length < MAX_EMBED_DEPTH) {
+        try {
+          section = extractSection(parseFrontmatter(await read(node)).content, subpath);
+        } catch (e) {
+          console.warn('读取嵌入笔记失败', node.path, e);
+        }
+      }
+      result += section === null
+        ? `[[${link}${alias ? `|${alias}` : ''}]]`
+        : `\n\n${await expandEmbeds(section, node!, [...chain, node!.path])}\n\n`;
+    }
+    return result + markdown.slice(last);
+  };
+
+  const doc = document.implementation.createHTMLDocument('');
+  const body = doc.createElement('article');
+  let title = target.name;
+  let author: string | undefined;
+
+  if (isFolder) {
+    const header = doc.createElement('header');
+    const heading = doc.createElement('h1');
+    heading.setAttribute('data-role', 'document-title');
+    heading.textContent = title;
+    header.append(heading);
+    body.append(header);
+  }
+
+  const toc: { depth: number; text: string; href?: string }[] = [];
+  let lastFolder = '';
+
+  for (const note of notes) {
+    try {
+      const { metadata, content } = parseFrontmatter(await read(note));
+      const sectionId = sectionIds.get(note.path)!;
+      const heading = noteTitle(note, metadata);
+      if (!isFolder) {
+        title = heading;
+        author = metadata?.author ? String(metadata.author) : undefined;
+      }
+
+      // 目录：笔记按所在的子文件夹分组
+      if (isFolder) {
+        const folder = note.path.slice(target.path ? target.path.length + 1 : 0).split('/').slice(0, -1);
+        const folderPath = folder.join('/');
+        if (folderPath && folderPath !== lastFolder) {
+          const previous = lastFolder.split('/');
+          let common = 0;
+          while (common < folder.length && previous[common] === folder[common]) common++;
+          folder.slice(common).forEach((name, i) => toc.push({ depth: common + i, text: name }));
+        }
+        lastFolder = folderPath;
+        toc.push({ depth: folder.length, text: heading, href: `#${sectionId}` });
+      }
+
+      const section = doc.createElement('section');
+      section.id = sectionId;
+      section.setAttribute('data-role', 'note');
+      const titleEl = doc.createElement('h1');
+      titleEl.setAttribute('data-role', 'note-title');
+      titleEl.textContent = heading;
+      section.append(titleEl);
+
+      const properties = Object.entries(metadata || {}).filter(([key]) => key !== 'title');
+      if (properties.length > 0) {
+        const table = doc.createElement('table');
+        table.setAttribute('data-role', 'properties');
+        for (const [key, value] of properties) {
+          const row = table.insertRow();
+          const name = doc.createElement('th');
+          name.textContent = key;
+          const cell = doc.createElement('td');
+          cell.textContent = formatValue(value);
+          row.append(name, cell);
+        }
+        section.append(table);
+      }
+
+      const markdown = await expandEmbeds(content, note, [note.path]);
+      const rendered = doc.createElement('div');
+      rendered.innerHTML = renderMarkdown(markdown, file => `${FILE_PREFIX}${encodeURIComponent(file)}`);
+      rendered.querySelectorAll('[id]').forEach(el => { el.id = `${sectionId}-${el.id}`; });
+      normalizeContent(rendered, linkHref(note));
+      section.append(...Array.from(rendered.childNodes));
+      body.append(section);
+    } catch (e: any) {
+      failures.push({ path: note.path, error: e.message || String(e) });
+    }
+    onProgress?.(++done, total);
+  }
+
+  if (isFolder) {
+    const nav = doc.createElement('nav');
+    nav.setAttribute('data-role', 'toc');
+    const heading = doc.createElement('h2');
+    heading.textContent = '目录';
+    nav.append(heading);
+    for (const item of toc) {
+      const line = doc.createElement('p');
+      line.setAttribute('data-depth', String(item.depth));
+      line.style.marginLeft = `${item.depth * 1.5}em`;
+      if (item.href) {
+        const link = doc.createElement('a');
+        link.href = item.href;
+        link.textContent = item.text;
+        line.append(link);
+      } else {
+        line.setAttribute('data-role', 'folder');
+        line.textContent = item.text;
+      }
+      nav.append(line);
+    }
+    body.querySelector('header')!.append(nav);
+  }
+
+  // 读取图片；找不到的附件改为替代文本，外部图片下载失败时保留原地址
+  const images = new Map<string, Blob>();
+  const sources = new Set(Array.from(body.querySelectorAll('img')).map(img => img.getAttribute('src') || ''));
+  for (const src of sources) {
+    if (!src) continue;
+    try {
+      images.set(src, await loadImage(src, resolveFile));
+    } catch (e: any) {
+      if (!src.startsWith(FILE_PREFIX)) continue;
+      const name = decodeURIComponent(src.slice(FILE_PREFIX.length));
+      failures.push({ path: name, error: e.message || String(e) });
+      body.querySelectorAll(`img[src="${CSS.escape(src)}"]`).forEach(img => {
+        img.replaceWith(doc.createTextNode(`[图片: ${img.getAttribute('alt') || name}]`));
+      });
+    }
+  }
+  onProgress?.(++done, total);
+
+  return { title, author, body, images, noteCount: notes.length, failures };
+};
+
+const EXPORT_STYLE = `
+@page { size: A4; margin: 18mm 16mm; }
+body {
+  margin: 0;
+  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, "PingFang SC", "Hiragino Sans GB", "Microsoft YaHei", sans-serif;
+  font-size: 16px;
+  line-height: 1.75;
+  color: #262626;
+  -webkit-font-smoothing: antialiased;
+}
+article { max-width: 850px; margin: 0 auto; padding: 48px 32px; }
+h1, h2, h3, h4, h5, h6 { font-weight: 700; line-height: 1.4; margin: 1.6em 0 0.6em; break-after: avoid; }
+h1 { font-size: 1.875em; padding-bottom: 0.3em; border-bottom: 1px solid #f0f0f0; }
+h2 { font-size: 1.5em; }
+h3 { font-size: 1.25em; }
+h4 { font-size: 1.125em; }
+h1[data-role="document-title"], h1[data-role="note-title"] { font-size: 2.25em; border: none; margin-top: 0; }
+p { margin: 0 0 1em; text-align: justify; word-break: break-word; }
+a { color: #00b96b; text-decoration: none; }
+a[href^="http"] { color: #1677ff; }
+span[data-kind="wikilink"] { color: #00b96b; font-weight: 500; }
+span[data-kind="tag"] { background: #eff6ff; color: #2563eb; padding: 0.1em 0.4em; border-radius: 4px; font-size: 0.85em; }
+ul, ol { padding-left: 1.5em; margin: 0 0 1em; }
+li[data-task] { list-style: none; margin-left: -1.2em; }
+blockquote { margin: 1em 0; padding: 0.5em 1em; border-left: 4px solid #00b96b; background: #f6fdf9; color: #595959; border-radius: 0 4px 4px 0; }
+blockquote p:last-child { margin-bottom: 0; }
+code { font-family: Consolas, Monaco, "Andale Mono", "Ubuntu Mono", monospace; font-size: 0.875em; }
+:not(pre) > code { background: #f3f4f6; color: #d4380d; padding: 0.15em 0.4em; border-radius: 4px; }
+pre { position: relative; margin: 1em 0; padding: 1em; background: #fdfdfd; border: 1px solid #e5e7eb; border-radius: 8px; overflow-x: auto; line-height: 1.5; break-inside: avoid; }
+pre[data-language]::before { content: attr(data-language); position: absolute; top: 4px; right: 10px; font-size: 12px; color: #9ca3af; }
+pre code { white-space: pre; }
+table { width: 100%; border-collapse: collapse; margin: 1.5em 0; font-size: 0.875em; break-inside: avoid; }
+th, td { border: 1px solid #e5e7eb; padding: 8px 12px; text-align: left; vertical-align: top; }
+th { background: #f9fafb; font-weight: 600; }
+table[data-role="properties"] { width: auto; margin: 0 0 2em; color: #595959; }
+table[data-role="properties"] th { background: none; color: #8c8c8c; font-weight: 500; }
+img { display: block; max-width: 100%; height: auto; margin: 1em auto; break-inside: avoid; }
+hr { border: none; border-top: 1px solid #f0f0f0; margin: 2em 0; }
+mark { background: #fef3c7; }
+p[data-attachment] { color: #8c8c8c; font-size: 0.875em; }
+nav[data-role="toc"] { margin: 2em 0 3em; }
+nav[data-role="toc"] h2 { font-size: 1.25em; }
+nav[data-role="toc"] p { margin: 0.25em 0; }
+nav[data-role="toc"] p[data-role="folder"] { color: #8c8c8c; font-weight: 600; }
+section[data-role="note"] + section[data-role="note"] { margin-top: 4em; }
+@media print {
+  article { max-width: none; padding: 0; }
+  header + section[data-role="note"], section[data-role="note"] + section[data-role="note"] { break-before: page; margin-top: 0; }
+  a { color: inherit; }
+  pre { overflow: visible; }
+  pre code { white-space: pre-wrap; }
+}
+`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+const readAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * 独立的 HTML 文件：图片转为 data URL，样式内联
+ */
+export const renderStandaloneHtml = async (exported: ExportDocument) => {
+  const body = exported.body.cloneNode(true) as HTMLElement;
+  const dataUrls = new Map<string, string>();
+  for (const [src, blob] of exported.images) dataUrls.set(src, await readAsDataUrl(blob));
+  body.querySelectorAll('img').forEach(img => {
+    const dataUrl = dataUrls.get(img.getAttribute('src') || '');
+    if (dataUrl) img.setAttribute('src', dataUrl);
+  });
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+${exported.author ? `<meta name="author" content="${escapeHtml(exported.author)}" />\n` : ''}<title>${escapeHtml(exported.title)}</title>
+<style>${EXPORT_STYLE}</style>
+</head>
+<body>
+${body.outerHTML}
+</body>
+</html>
+`;
+};
+
+/**
+ * 在隐藏的 iframe 中打印，由浏览器的打印对话框另存为 PDF
+ */
+export const printHtml = (html: string) =>
+  new Promise<void>((resolve, reject) => {
+    const frame = document.createElement('iframe');
+    frame.style.cssText = 'position: fixed; right: 0; bottom: 0; width: 0; height: 0; border: 0;';
+    frame.onload = () => {
+      const win = frame.contentWindow;
+      if (!win) {
+        frame.remove();
+        reject(new Error('无法创建打印页面'));
+        return;
+      }
+      // 对话框关闭后移除；部分浏览器的 print() 不阻塞，以 afterprint 为准
+      win.addEventListener('afterprint', () => setTimeout(() => frame.remove(), 0));
+      win.focus();
+      win.print();
+      resolve();
+    };
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+  });
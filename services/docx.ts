@@ -0,0 +1,492 @@
+/**
+ * Word (DOCX) 导出
+ *
+ * 把 documentExport 整理后的正文逐个元素转换为 WordprocessingML：标题、段落、列表、引用、表格、
+ * 代码块 (保留高亮颜色)、图片与超链接；文档内锚点转换为书签，合并导出时每篇笔记另起一页。
+ * 只生成用到的最小部件集合，并使用 zip.ts 打包。
+ */
+
+import { ExportDocument } from './documentExport';
+import { createZip, ZipEntry } from './zip';
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// 正文宽度 (A4 减去左右页边距)，单位 twip 与 EMU
+const CONTENT_WIDTH_TWIPS = 9638;
+const CONTENT_WIDTH_EMU = CONTENT_WIDTH_TWIPS * 635;
+const EMU_PER_PIXEL = 9525;
+const LIST_INDENT = 420;
+
+const BLOCK_TAGS = new Set([
+  'P', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'UL', 'OL', 'LI', 'BLOCKQUOTE', 'PRE', 'TABLE', 'HR',
+  'DIV', 'SECTION', 'ARTICLE', 'HEADER', 'NAV', 'FIGURE', 'DETAILS', 'SUMMARY',
+]);
+
+// Prism 主题中使用的颜色名
+const NAMED_COLORS: Record<string, string> = { black: '000000', white: 'FFFFFF', slategray: '708090', gray: '808080', red: 'FF0000' };
+
+interface RunProps {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  mark?: boolean;
+  color?: string;
+  style?: string;
+  vertAlign?: 'superscript' | 'subscript';
+}
+
+interface ListState {
+  numId: number;
+  level: number;
+  used: boolean; // 列表项的第一个段落带编号，其余段落只缩进
+}
+
+interface BlockContext {
+  style?: string;
+  run: RunProps;
+  list?: ListState;
+  indent?: number;
+}
+
+type RunItem =
+  | { kind: 'text'; text: string; props: RunProps }
+  | { kind: 'raw'; xml: string }
+  | { kind: 'link'; open: string; items: RunItem[] };
+
+interface PreparedImage {
+  data: Blob;
+  extension: string;
+  width: number;
+  height: number;
+}
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/[&<>"]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[char]!));
+
+const parseColor = (value: string | undefined) => {
+  if (!value) return undefined;
+  const color = value.trim().toLowerCase();
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/.exec(color)?.[1];
+  if (hex) return (hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex).toUpperCase();
+  return NAMED_COLORS[color];
+};
+
+const loadImageElement = (blob: Blob) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('无法解码图片'));
+    };
+    image.src = url;
+  });
+
+/**
+ * 读取图片尺寸；Word 不支持的格式 (SVG、WebP 等) 转为 PNG
+ */
+const prepareImage = async (blob: Blob): Promise<PreparedImage> => {
+  const image = await loadImageElement(blob);
+  const width = image.naturalWidth || 400;
+  const height = image.naturalHeight || 300;
+  const extension = ({ 'image/png': 'png', 'image/jpeg': 'jpeg', 'image/gif': 'gif', 'image/bmp': 'bmp' } as Record<string, string>)[blob.type];
+  if (extension) return { data: blob, extension, width, height };
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')!.drawImage(image, 0, 0, width, height);
+  const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!png) throw new Error('无法转换图片');
+  return { data: png, extension: 'png', width, height };
+};
+
+const runXml = (text: string, props: RunProps) => {
+  const rPr = [
+    props.style && `<w:rStyle w:val="${props.style}"/>`,
+    props.code && '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/>',
+    props.bold && '<w:b/>',
+    props.italic && '<w:i/>',
+    props.strike && '<w:strike/>',
+    props.color && `<w:color w:val="${props.color}"/>`,
+    props.code && '<w:sz w:val="19"/>',
+    props.mark && '<w:highlight w:val="yellow"/>',
+    props.code && !props.style && '<w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/>',
+    props.vertAlign && `<w:vertAlign w:val="${props.vertAlign}"/>`,
+  ].filter(Boolean).join('');
+  // 换行在代码块中转为 <w:br/>
+  const content = text.split('\n').map(line => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`).join('<w:br/>');
+  return `<w:r>${rPr ? `<w:rPr>${rPr}</w:rPr>` : ''}${content}</w:r>`;
+};
+
+/**
+ * 把整理后的正文转换为 document.xml 的 body 内容，同时收集关系与媒体文件
+ */
+const createConverter = (images: Map<string, PreparedImage>) => {
+  const relationships: string[] = [];
+  const media: ZipEntry[] = [];
+  const mediaIds = new Map<string, string>();
+  const bookmarkNames = new Map<string, string>();
+  const orderedNums: { numId: number; level: number; start: number }[] = [];
+  let pendingBookmarks: string[] = [];
+  let pendingPageBreak = false;
+  let bookmarkCounter = 0;
+  let drawingCounter = 0;
+
+  const addRelationship = (type: string, target: string, external = false) => {
+    const id = `rId${relationships.length + 10}`;
+    relationships.push(
+      `<Relationship Id="${id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/${type}" Target="${escapeXml(target)}"${external ? ' TargetMode="External"' : ''}/>`
+    );
+    return id;
+  };
+
+  // 书签名需以字母开头且不超过 40 个字符，按锚点 id 统一编号
+  const bookmarkName = (id: string) => {
+    if (!bookmarkNames.has(id)) bookmarkNames.set(id, `bm${bookmarkNames.size + 1}`);
+    return bookmarkNames.get(id)!;
+  };
+
+  const imageXml = (src: string, alt: string) => {
+    const image = images.get(src);
+    if (!image) return null;
+    let relId = mediaIds.get(src);
+    if (!relId) {
+      const fileName = `image${media.length + 1}.${image.extension}`;
+      media.push({ path: `word/media/${fileName}`, data: image.data });
+      relId = addRelationship('image', `media/${fileName}`);
+      mediaIds.set(src, relId);
+    }
+    const scale = Math.min(1, CONTENT_WIDTH_EMU / (image.width * EMU_PER_PIXEL));
+    const cx = Math.round(image.width * EMU_PER_PIXEL * scale);
+    const cy = Math.round(image.height * EMU_PER_PIXEL * scale);
+    const id = ++drawingCounter;
+    const name = escapeXml(alt || `图片 ${id}`);
+    return `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${id}" name="${name}" descr="${name}"/><a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic><pic:nvPicPr><pic:cNvPr id="${id}" name="${name}"/><pic:cNvPicPr/></pic:nvPicPr><pic:blipFill><a:blip r:embed="${relId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill><pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+  };
+
+  // 行内内容收集为 run 列表，连续空白合并为一个空格
+  const collectRuns = (nodes: Node[], props: RunProps, items: RunItem[], state: { space: boolean }) => {
+    for (const node of nodes) {
+      if (node.nodeType === Node.TEXT_NODE) {
+        let text = (node.textContent || '').replace(/\s+/g, ' ');
+        if (state.space) text = text.replace(/^ /, '');
+        if (!text) continue;
+        state.space = text.endsWith(' ');
+        items.push({ kind: 'text', text, props });
+        continue;
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) continue;
+      const el = node as HTMLElement;
+      const children = Array.from(el.childNodes);
+      switch (el.tagName) {
+        case 'BR':
+          items.push({ kind: 'raw', xml: '<w:r><w:br/></w:r>' });
+          state.space = true;
+          break;
+        case 'STRONG':
+        case 'B':
+          collectRuns(children, { ...props, bold: true }, items, state);
+          break;
+        case 'EM':
+        case 'I':
+          collectRuns(children, { ...props, italic: true }, items, state);
+          break;
+        case 'DEL':
+        case 'S':
+          collectRuns(children, { ...props, strike: true }, items, state);
+          break;
+        case 'MARK':
+          collectRuns(children, { ...props, mark: true }, items, state);
+          break;
+        case 'SUP':
+        case 'SUB':
+          collectRuns(children, { ...props, vertAlign: el.tagName === 'SUP' ? 'superscript' : 'subscript' }, items, state);
+          break;
+        case 'CODE':
+          items.push({ kind: 'text', text: el.textContent || '', props: { ...props, code: true } });
+          state.space = false;
+          break;
+        case 'IMG': {
+          const xml = imageXml(el.getAttribute('src') || '', el.getAttribute('alt') || '');
+          if (xml) items.push({ kind: 'raw', xml });
+          else items.push({ kind: 'text', text: `[图片: ${el.getAttribute('alt') || ''}]`, props });
+          state.space = false;
+          break;
+        }
+        case 'A': {
+          const href = el.getAttribute('href') || '';
+          const linked: RunItem[] = [];
+          collectRuns(children, { ...props, style: 'Hyperlink' }, linked, state);
+          if (href.startsWith('#')) {
+            items.push({ kind: 'link', open: `<w:hyperlink w:anchor="${bookmarkName(decodeURIComponent(href.slice(1)))}">`, items: linked });
+          } else if (/^(https?|mailto):/i.test(href)) {
+            items.push({ kind: 'link', open: `<w:hyperlink r:id="${addRelationship('hyperlink', href, true)}">`, items: linked });
+          } else {
+            items.push(...linked);
+          }
+          break;
+        }
+        case 'SPAN': {
+          const kind = el.getAttribute('data-kind');
+          const color = kind === 'tag' ? '2563EB' : kind === 'wikilink' ? '00B96B' : parseColor(el.style.color);
+          collectRuns(children, color ? { ...props, color } : props, items, state);
+          break;
+        }
+        default:
+          collectRuns(children, props, items, state);
+      }
+    }
+    return items;
+  };
+
+  const serializeRuns = (items: RunItem[]): string =>
+    items.map(item => {
+      if (item.kind === 'text') return runXml(item.text, item.props);
+      if (item.kind === 'raw') return item.xml;
+      return `${item.open}${serializeRuns(item.items)}</w:hyperlink>`;
+    }).join('');
+
+  // 去掉段落首尾的空格
+  const trimRuns = (items: RunItem[]) => {
+    const first = items[0];
+    if (first?.kind === 'text') first.text = first.text.replace(/^ /, '');
+    const last = items[items.length - 1];
+    if (last?.kind === 'text') last.text = last.text.replace(/ $/, '');
+    return items.filter(item => item.kind !== 'text' || item.text);
+  };
+
+  const paragraph = (ctx: BlockContext, runs: string, extra: { pBdr?: string; keepNext?: boolean } = {}) => {
+    const numPr = ctx.list && !ctx.list.used ? `<w:numPr><w:ilvl w:val="${ctx.list.level}"/><w:numId w:val="${ctx.list.numId}"/></w:numPr>` : '';
+    const indent = ctx.list && !numPr ? LIST_INDENT * (ctx.list.level + 1) : ctx.indent;
+    if (ctx.list) ctx.list.used = true;
+    const pPr = [
+      ctx.style && `<w:pStyle w:val="${ctx.style}"/>`,
+      extra.keepNext && '<w:keepNext/>',
+      pendingPageBreak && '<w:pageBreakBefore/>',
+      numPr,
+      extra.pBdr,
+      indent && `<w:ind w:left="${indent}"/>`,
+    ].filter(Boolean).join('');
+    pendingPageBreak = false;
+    const bookmarks = pendingBookmarks.map(() => ++bookmarkCounter);
+    const starts = pendingBookmarks.map((id, i) => `<w:bookmarkStart w:id="${bookmarks[i]}" w:name="${bookmarkName(id)}"/>`).join('');
+    const ends = bookmarks.map(n => `<w:bookmarkEnd w:id="${n}"/>`).join('');
+    pendingBookmarks = [];
+    return `<w:p>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ''}${starts}${runs}${ends}</w:p>`;
+  };
+
+  const inlineParagraph = (nodes: Node[], ctx: BlockContext) => {
+    const items = trimRuns(collectRuns(nodes, ctx.run, [], { space: true }));
+    return items.length > 0 ? paragraph(ctx, serializeRuns(items)) : '';
+  };
+
+  const isBlock = (node: Node) => node.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((node as Element).tagName);
+
+  // 行内节点合并为段落，块级元素分别转换
+  const convertChildren = (parent: Element, ctx: BlockContext): string => {
+    let xml = '';
+    let inline: Node[] = [];
+    const flush = () => {
+      if (inline.length > 0) xml += inlineParagraph(inline, ctx);
+      inline = [];
+    };
+    for (const child of Array.from(parent.childNodes)) {
+      if (isBlock(child)) {
+        flush();
+        xml += convertBlock(child as HTMLElement, ctx);
+      } else {
+        inline.push(child);
+      }
+    }
+    flush();
+    return xml;
+  };
+
+  const convertList = (list: HTMLElement, ctx: BlockContext) => {
+    const level = Math.min(ctx.list ? ctx.list.level + 1 : 0, 8);
+    let numId = 1;
+    if (list.tagName === 'OL') {
+      numId = orderedNums.length + 2;
+      orderedNums.push({ numId, level, start: Number(list.getAttribute('start')) || 1 });
+    }
+    return Array.from(list.children).map(item => {
+      // 任务项以复选框符号开头，不再加项目符号，只缩进
+      const itemCtx: BlockContext = { ...ctx, list: { numId, level, used: item.hasAttribute('data-task') } };
+      if (item.id) pendingBookmarks.push(item.id);
+      return convertChildren(item, itemCtx);
+    }).join('');
+  };
+
+  const convertTable = (table: HTMLTableElement, ctx: BlockContext) => {
+    const rows = Array.from(table.rows);
+    const columns = Math.max(1, ...rows.map(row => row.cells.length));
+    const isProperties = table.getAttribute('data-role') === 'properties';
+    const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="${isProperties ? 'F0F0F0' : 'D9D9D9'}"/>`;
+    const grid = Array.from({ length: columns }, () => `<w:gridCol w:w="${Math.floor(CONTENT_WIDTH_TWIPS / columns)}"/>`).join('');
+    const body = rows.map(row => {
+      const isHeader = row.parentElement?.tagName === 'THEAD';
+      const cells = Array.from(row.cells).map(cell => {
+        const shaded = cell.tagName === 'TH' && !isProperties;
+        const cellCtx: BlockContext = { run: { ...ctx.run, ...(cell.tagName === 'TH' ? { bold: true } : {}), ...(isProperties && cell.tagName === 'TH' ? { color: '8C8C8C' } : {}) } };
+        let content = convertChildren(cell, cellCtx);
+        // 单元格必须以段落结尾
+        if (!content.endsWith('</w:p>')) content += '<w:p/>';
+        return `<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/>${shaded ? '<w:shd w:val="clear" w:color="auto" w:fill="F9FAFB"/>' : ''}</w:tcPr>${content}</w:tc>`;
+      }).join('');
+      return `<w:tr>${isHeader ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${cells}</w:tr>`;
+    }).join('');
+    const width = isProperties ? '<w:tblW w:w="0" w:type="auto"/>' : '<w:tblW w:w="5000" w:type="pct"/>';
+    const borders = ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('');
+    return `<w:tbl><w:tblPr>${width}<w:tblBorders>${borders}</w:tblBorders><w:tblLayout w:type="autofit"/><w:tblCellMar><w:top w:w="60" w:type="dxa"/><w:left w:w="120" w:type="dxa"/><w:bottom w:w="60" w:type="dxa"/><w:right w:w="120" w:type="dxa"/></w:tblCellMar></w:tblPr><w:tblGrid>${grid}</w:tblGrid>${body}</w:tbl><w:p/>`;
+  };
+
+  // 代码块：保留高亮 span 的颜色与原有换行
+  const convertCode = (pre: HTMLElement, ctx: BlockContext) => {
+    const items: RunItem[] = [];
+    const walk = (node: Node, color?: string) => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        if (node.textContent) items.push({ kind: 'text', text: node.textContent, props: { style: 'CodeChar', color } });
+        return;
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) return;
+      const own = parseColor((node as HTMLElement).style?.color);
+      node.childNodes.forEach(child => walk(child, own || color));
+    };
+    walk(pre);
+    return paragraph({ ...ctx, style: 'Code' }, serializeRuns(items));
+  };
+
+  const convertBlock = (el: HTMLElement, ctx: BlockContext): string => {
+    if (el.id) pendingBookmarks.push(el.id);
+    const heading = /^H([1-6])$/.exec(el.tagName);
+    if (heading) {
+      const role = el.getAttribute('data-role');
+      const style = role === 'document-title' || role === 'note-title' ? 'Title' : `Heading${heading[1]}`;
+      return inlineParagraph(Array.from(el.childNodes), { ...ctx, style, list: undefined });
+    }
+    switch (el.tagName) {
+      case 'P': {
+        const depth = Number(el.getAttribute('data-depth'));
+        const pCtx = depth ? { ...ctx, indent: LIST_INDENT * depth } : ctx;
+        if (el.getAttribute('data-role') === 'folder') return inlineParagraph(Array.from(el.childNodes), { ...pCtx, run: { ...ctx.run, bold: true, color: '8C8C8C' } });
+        return inlineParagraph(Array.from(el.childNodes), pCtx);
+      }
+      case 'UL':
+      case 'OL':
+        return convertList(el, ctx);
+      case 'BLOCKQUOTE':
+        return convertChildren(el, { ...ctx, style: 'Quote' });
+      case 'PRE':
+        return convertCode(el, ctx);
+      case 'TABLE':
+        return convertTable(el as HTMLTableElement, ctx);
+      case 'HR':
+        return paragraph({ run: {} }, '', { pBdr: '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="E5E7EB"/></w:pBdr>' });
+      case 'SECTION':
+        // 合并导出时每篇笔记另起一页
+        if (el.getAttribute('data-role') === 'note' && el.previousElementSibling) pendingPageBreak = true;
+        return convertChildren(el, ctx);
+      default:
+        return convertChildren(el, ctx);
+    }
+  };
+
+  return {
+    convert: (body: HTMLElement) => convertChildren(body, { run: {} }),
+    relationships,
+    media,
+    orderedNums,
+  };
+};
+
+const NAMESPACES = [
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"',
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"',
+  'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"',
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+  'xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"',
+].join(' ');
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const headingStyle = (level: number, size: number) =>
+  `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:keepLines/><w:spacing w:before="${level <= 2 ? 360 : 240}" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr><w:rPr><w:b/><w:color w:val="262626"/><w:sz w:val="${size}"/></w:rPr></w:style>`;
+
+const STYLES = `${XML_HEADER}<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Microsoft YaHei" w:cs="Calibri"/><w:color w:val="262626"/><w:sz w:val="22"/><w:lang w:val="en-US" w:eastAsia="zh-CN"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="312" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:after="240"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="44"/></w:rPr></w:style>
+${[[1, 36], [2, 30], [3, 26], [4, 24], [5, 22], [6, 22]].map(([level, size]) => headingStyle(level, size)).join('\n')}
+<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:pBdr><w:left w:val="single" w:sz="24" w:space="8" w:color="00B96B"/></w:pBdr><w:shd w:val="clear" w:color="auto" w:fill="F6FDF9"/><w:ind w:left="240" w:right="240"/></w:pPr><w:rPr><w:i/><w:color w:val="595959"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:pBdr><w:top w:val="single" w:sz="4" w:space="4" w:color="E5E7EB"/><w:left w:val="single" w:sz="4" w:space="4" w:color="E5E7EB"/><w:bottom w:val="single" w:sz="4" w:space="4" w:color="E5E7EB"/><w:right w:val="single" w:sz="4" w:space="4" w:color="E5E7EB"/></w:pBdr><w:shd w:val="clear" w:color="auto" w:fill="FDFDFD"/><w:spacing w:before="120" w:after="240" w:line="264" w:lineRule="auto"/><w:ind w:left="120" w:right="120"/></w:pPr></w:style>
+<w:style w:type="character" w:styleId="CodeChar"><w:name w:val="Code Char"/><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="19"/></w:rPr></w:style>
+<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="00B96B"/></w:rPr></w:style>
+</w:styles>`;
+
+const numberingXml = (orderedNums: { numId: number; level: number; start: number }[]) => {
+  const levels = (format: 'bullet' | 'decimal') =>
+    Array.from({ length: 9 }, (_, level) => {
+      const text = format === 'bullet' ? ['•', '◦', '▪'][level % 3] : `%${level + 1}.`;
+      return `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${LIST_INDENT * (level + 1)}" w:hanging="${LIST_INDENT}"/></w:pPr></w:lvl>`;
+    }).join('');
+  // 每个有序列表使用单独的编号实例，从各自的起始值重新计数
+  const nums = orderedNums.map(({ numId, level, start }) =>
+    `<w:num w:numId="${numId}"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="${level}"><w:startOverride w:val="${start}"/></w:lvlOverride></w:num>`
+  ).join('');
+  return `${XML_HEADER}<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels('bullet')}</w:abstractNum><w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels('decimal')}</w:abstractNum><w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>${nums}</w:numbering>`;
+};
+
+/**
+ * 生成 DOCX 文件
+ */
+export const createDocx = async (exported: ExportDocument): Promise<Blob> => {
+  const images = new Map<string, PreparedImage>();
+  for (const [src, blob] of exported.images) {
+    try {
+      images.set(src, await prepareImage(blob));
+    } catch (e) {
+      console.warn('图片无法写入文档', src, e);
+    }
+  }
+
+  const converter = createConverter(images);
+  const body = converter.convert(exported.body);
+  const sectPr = '<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1134" w:bottom="1440" w:left="1134" w:header="851" w:footer="992" w:gutter="0"/></w:sectPr>';
+  const now = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+
+  const entries: ZipEntry[] = [
+    {
+      path: '[Content_Types].xml',
+      data: `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Default Extension="png" ContentType="image/png"/><Default Extension="jpeg" ContentType="image/jpeg"/><Default Extension="gif" ContentType="image/gif"/><Default Extension="bmp" ContentType="image/bmp"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>`,
+    },
+    {
+      path: '_rels/.rels',
+      data: `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>`,
+    },
+    {
+      path: 'docProps/core.xml',
+      data: `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${escapeXml(exported.title)}</dc:title>${exported.author ? `<dc:creator>${escapeXml(exported.author)}</dc:creator>` : ''}<dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created></cp:coreProperties>`,
+    },
+    {
+      path: 'word/document.xml',
+      data: `${XML_HEADER}<w:document ${NAMESPACES}><w:body>${body}${sectPr}</w:body></w:document>`,
+    },
+    { path: 'word/styles.xml', data: STYLES },
+    { path: 'word/numbering.xml', data: numberingXml(converter.orderedNums) },
+    {
+      path: 'word/_rels/document.xml.rels',
+      data: `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>${converter.relationships.join('')}</Relationships>`,
+    },
+    ...converter.media,
+  ];
+
+  return new Blob([await createZip(entries)], { type: DOCX_MIME });
+};
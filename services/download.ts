@@ -0,0 +1,33 @@
+import { ZipEntry } from './zip';
+
+/**
+ * 触发浏览器下载
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // 等下载开始后再释放
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * 写入用户选择的文件夹，按路径逐级创建子文件夹
+ */
+export const writeToDirectory = async (dirHandle: any, entries: ZipEntry[]) => {
+  for (const entry of entries) {
+    const parts = entry.path.split('/').filter(Boolean);
+    let dir = dirHandle;
+    for (const part of parts.slice(0, -1)) {
+      dir = await dir.getDirectoryHandle(part, { create: true });
+    }
+    const fileHandle = await dir.getFileHandle(parts[parts.length - 1], { create: true });
+    const writable = await fileHandle.createWritable();
+    await writable.write(entry.data);
+    await writable.close();
+  }
+};
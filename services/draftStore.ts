@@ -0,0 +1,52 @@
+/**
+ * 编辑草稿 (崩溃恢复缓冲区)
+ *
+ * 编辑中的未保存内容实时写入 localStorage，页面崩溃或关闭后重新打开笔记时可恢复；
+ * 保存成功或放弃修改后清除。
+ */
+
+const DRAFT_PREFIX = 'obsidian_reader_draft_';
+
+export interface NoteDraft {
+  content: string;
+  baseContent: string; // 开始编辑时的文件内容，用于判断文件此后是否被修改
+  savedAt: number;
+}
+
+export const draftKeyFor = (vaultId: string, path: string) => `${vaultId}:${path}`;
+
+export const getDraft = (key: string): NoteDraft | null => {
+  try {
+    const raw = localStorage.getItem(DRAFT_PREFIX + key);
+    return raw ? JSON.parse(raw) : null;
+  } catch (e) {
+    console.error('读取草稿失败', e);
+    return null;
+  }
+};
+
+export const saveDraft = (key: string, draft: NoteDraft) => {
+  try {
+    localStorage.setItem(DRAFT_PREFIX + key, JSON.stringify(draft));
+  } catch (e) {
+    // 超出存储配额时放弃缓冲，不影响正常编辑
+    console.error('写入草稿失败', e);
+  }
+};
+
+export const clearDraft = (key: string) => {
+  localStorage.removeItem(DRAFT_PREFIX + key);
+};
+
+/**
+ * 移除某个仓库的全部草稿
+ */
+export const clearVaultDrafts = (vaultId: string) => {
+  const prefix = DRAFT_PREFIX + draftKeyFor(vaultId, '');
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && key.startsWith(prefix)) keys.push(key);
+  }
+  keys.forEach(key => localStorage.removeItem(key));
+};
@@ -0,0 +1,167 @@
+/**
+ * 编辑器按键命令
+ *
+ * 纯函数：根据当前文本与选区计算一次替换 (from..to -> insert) 及替换后的选区，
+ * 由编辑器统一应用，便于保留浏览器原生的撤销栈。返回 null 表示交给浏览器默认处理。
+ */
+
+export interface EditorSelection {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface TextEdit {
+  from: number;
+  to: number;
+  insert: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+export const BRACKET_PAIRS: Record<string, string> = { '(': ')', '[': ']', '{': '}', '`': '`' };
+// 仅在有选中文本时包裹的强调符号
+const WRAP_CHARS = new Set(['*', '_', '~', '=']);
+const CLOSING_CHARS = new Set(Object.values(BRACKET_PAIRS));
+const INDENT = '\t';
+
+const LIST_ITEM_PATTERN = /^(\s*)(?:([-*+])|(\d+)([.)]))(\s+)(\[.\]\s+)?/;
+const QUOTE_PATTERN = /^(\s*(?:>\s?)+)/;
+
+const lineStartOf = (text: string, pos: number) => text.lastIndexOf('\n', pos - 1) + 1;
+const lineEndOf = (text: string, pos: number) => {
+  const end = text.indexOf('\n', pos);
+  return end === -1 ? text.length : end;
+};
+
+/**
+ * 输入开括号或强调符号：有选区时包裹，否则在合适位置自动补全闭合符号
+ */
+export const handleTypedChar = ({ text, start, end }: EditorSelection, char: string): TextEdit | null => {
+  const close = BRACKET_PAIRS[char];
+
+  if (start !== end) {
+    if (!close && !WRAP_CHARS.has(char)) return null;
+    const selected = text.slice(start, end);
+    const pair = close || char;
+    return { from: start, to: end, insert: char + selected + pair, selectionStart: start + 1, selectionEnd: end + 1 };
+  }
+
+  const next = text[start] || '';
+  // 光标后已是相同的闭合符号时跳过
+  if (CLOSING_CHARS.has(char) && next === char) {
+    return { from: start, to: start, insert: '', selectionStart: start + 1, selectionEnd: start + 1 };
+  }
+  if (!close) return null;
+
+  // 仅在光标后为空白、行尾或闭合符号时补全，避免在单词前插入多余括号
+  if (next && !/\s/.test(next) && !CLOSING_CHARS.has(next)) return null;
+  // 反引号在单词后通常是闭合而非开启
+  if (char === '`' && /\w/.test(text[start - 1] || '')) return null;
+  return { from: start, to: start, insert: char + close, selectionStart: start + 1, selectionEnd: start + 1 };
+};
+
+/**
+ * 退格：光标位于一对空括号中间时同时删除两侧
+ */
+export const handleBackspace = ({ text, start, end }: EditorSelection): TextEdit | null => {
+  if (start !== end || start === 0) return null;
+  const prev = text[start - 1];
+  if (BRACKET_PAIRS[prev] && text[start] === BRACKET_PAIRS[prev]) {
+    return { from: start - 1, to: start + 1, insert: '', selectionStart: start - 1, selectionEnd: start - 1 };
+  }
+  return null;
+};
+
+/**
+ * 回车：延续列表、任务与引用；空列表项回车则结束列表
+ */
+export const handleEnter = ({ text, start, end }: EditorSelection): TextEdit | null => {
+  if (start !== end) return null;
+  const lineStart = lineStartOf(text, start);
+  const line = text.slice(lineStart, lineEndOf(text, start));
+  const beforeCursor = text.slice(lineStart, start);
+
+  const list = beforeCursor.match(LIST_ITEM_PATTERN);
+  if (list) {
+    const [marker, indent, bullet, number, delimiter, space, task] = list;
+    if (line.trim() === marker.trim()) {
+      return { from: lineStart, to: lineStart + line.length, insert: '', selectionStart: lineStart, selectionEnd: lineStart };
+    }
+    const nextBullet = bullet || `${Number(number) + 1}${delimiter}`;
+    const insert = `\n${indent}${nextBullet}${space}${task ? '[ ] ' : ''}`;
+    return { from: start, to: start, insert, selectionStart: start + insert.length, selectionEnd: start + insert.length };
+  }
+
+  const quote = beforeCursor.match(QUOTE_PATTERN);
+  if (quote) {
+    if (line.trim() === quote[1].trim()) {
+      return { from: lineStart, to: lineStart + line.length, insert: '', selectionStart: lineStart, selectionEnd: lineStart };
+    }
+    const insert = `\n${quote[1]}`;
+    return { from: start, to: start, insert, selectionStart: start + insert.length, selectionEnd: start + insert.length };
+  }
+
+  return null;
+};
+
+/**
+ * Tab / Shift+Tab：缩进或取消缩进选中的所有行；无选区且不在列表项中时插入制表符
+ */
+export const handleIndent = ({ text, start, end }: EditorSelection, outdent: boolean): TextEdit | null => {
+  const from = lineStartOf(text, start);
+  const to = lineEndOf(text, end > start && text[end - 1] === '\n' ? end - 1 : end);
+  const lines = text.slice(from, to).split('\n');
+
+  if (!outdent && start === end && !LIST_ITEM_PATTERN.test(lines[0])) {
+    return { from: start, to: start, insert: INDENT, selectionStart: start + 1, selectionEnd: start + 1 };
+  }
+
+  let startShift = 0;
+  let totalShift = 0;
+  const updated = lines.map((line, idx) => {
+    let result: string;
+    if (outdent) {
+      const removed = line.match(/^(\t| {1,4})/)?.[0].length || 0;
+      result = line.slice(removed);
+    } else {
+      result = INDENT + line;
+    }
+    const shift = result.length - line.length;
+    if (idx === 0) startShift = shift;
+    totalShift += shift;
+    return result;
+  });
+
+  return {
+    from,
+    to,
+    insert: updated.join('\n'),
+    selectionStart: Math.max(from, start + startShift),
+    selectionEnd: Math.max(from, end + totalShift),
+  };
+};
+
+/**
+ * 光标前未闭合的 `[[` ：返回查询文本的起点与内容，用于双链补全
+ */
+export const findWikilinkQuery = (text: string, cursor: number): { from: number; query: string } | null => {
+  const lineStart = lineStartOf(text, cursor);
+  const before = text.slice(lineStart, cursor);
+  const open = before.lastIndexOf('[[');
+  if (open === -1) return null;
+  const query = before.slice(open + 2);
+  // 已闭合，或已进入标题 / 别名部分
+  if (/[\]|#^]/.test(query)) return null;
+  return { from: lineStart + open + 2, query };
+};
+
+/**
+ * 用选中的目标替换 `[[` 之后的查询文本，并补全 `]]`
+ */
+export const completeWikilink = (text: string, from: number, cursor: number, target: string): TextEdit => {
+  const closed = text.slice(cursor).startsWith(']]');
+  const insert = closed ? target : `${target}]]`;
+  const position = from + target.length + 2;
+  return { from, to: cursor, insert, selectionStart: position, selectionEnd: position };
+};
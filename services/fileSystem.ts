@@ -1,31 +1,71 @@
-import { FileType, FileSystemNode } from '../types';
+import { FileType, FileSystemNode, FileVersion, SnapshotSource } from '../types';
+import { recordBaseline, recordSnapshot } from './versionHistory';
+import { DEFAULT_FILE_EXTENSIONS, getExtension } from './fileTypes';
+import { saveMockBlob, getMockBlob, moveMockBlobs, deleteMockBlobs } from './blobStore';
 
 // 忽略的文件和文件夹列表
 const IGNORED_NAMES = new Set(['.obsidian', '.git', '.trash', '.DS_Store', 'node_modules']);
 const MOCK_CONTENT_PREFIX = 'obsidian_mock_content_';
 
 /**
- * 打开目录选择器并开始解析 (Local Mode)
+ * 保存时发现文件已在外部被修改
+ */
+export class FileConflictError extends Error {
+  constructor(public currentContent: string, public currentVersion: FileVersion) {
+    super('文件已在外部被修改');
+    this.name = 'FileConflictError';
+  }
+}
+
+// 参与扫描的条目：跳过隐藏与忽略的目录
+const isIgnoredEntry = (name: string) => IGNORED_NAMES.has(name) || name.startsWith('.');
+
+// 目录树保留的附件扩展名 (Markdown 始终保留)，由应用按设置更新
+let vaultExtensions = new Set(DEFAULT_FILE_EXTENSIONS);
+
+export const configureVaultFiles = (extensions: string[]) => {
+  vaultExtensions = new Set(extensions.map(ext => ext.toLowerCase()));
+};
+
+const isVaultFile = (name: string) => {
+  const ext = getExtension(name);
+  return ext === 'md' || vaultExtensions.has(ext);
+};
+
+/**
+ * 打开目录选择器 (Local Mode)。只返回根节点，子条目由 loadDirectory 按需读取
  */
 export const openDirectory = async (): Promise<FileSystemNode> => {
   try {
     // @ts-ignore - File System Access API 类型可能不完整
     const dirHandle = await window.showDirectoryPicker();
-    // 检查权限
-    const options = { mode: 'readwrite' };
-    if ((await dirHandle.queryPermission(options)) !== 'granted') {
-      if ((await dirHandle.requestPermission(options)) !== 'granted') {
-         throw new Error('Permission denied');
-      }
-    }
-    const rootNode = await scanDirectory(dirHandle, '');
-    return rootNode;
+    return await openDirectoryHandle(dirHandle);
   } catch (error) {
     console.error('无法打开目录:', error);
     throw error;
   }
 };
 
+/**
+ * 用已有的目录句柄 (如从 IndexedDB 恢复) 打开仓库，必要时请求读写权限
+ */
+export const openDirectoryHandle = async (dirHandle: any): Promise<FileSystemNode> => {
+  const options = { mode: 'readwrite' };
+  if ((await dirHandle.queryPermission(options)) !== 'granted') {
+    if ((await dirHandle.requestPermission(options)) !== 'granted') {
+       throw new Error('Permission denied');
+    }
+  }
+  return {
+    name: dirHandle.name,
+    kind: FileType.DIRECTORY,
+    path: '',
+    handle: dirHandle,
+    children: [],
+    isLoaded: false,
+  };
+};
+
 /**
  * 加载 Mock 仓库 (Mock Mode)
  */
@@ -46,11 +86,11 @@ export const openMockDirectory = async (): Promise<FileSystemNode> => {
 /**
  * 递归扫描目录
  */
-const scanDirectory = async (dirHandle: any, currentPath: string): Promise<FileSystemNode> => {
+export const scanDirectory = async (dirHandle: any, currentPath: string): Promise<FileSystemNode> => {
   const children: FileSystemNode[] = [];
 
   for await (const entry of dirHandle.values()) {
-    if (IGNORED_NAMES.has(entry.name) || entry.name.startsWith('.')) {
+    if (isIgnoredEntry(entry.name)) {
       continue;
     }
 
@@ -60,8 +100,7 @@ const scanDirectory = async (dirHandle: any, currentPath: string): Promise<FileS
       const childDir = await scanDirectory(entry, path);
       children.push(childDir);
     } else if (entry.kind === 'file') {
-      // 只显示 Markdown 文件 和 图片
-      if (entry.name.endsWith('.md') || entry.name.match(/\.(png|jpg|jpeg|svg|gif)$/i)) {
+      if (isVaultFile(entry.name)) {
         children.push({
           name: entry.name,
           kind: FileType.FILE,
@@ -85,7 +124,105 @@ const scanDirectory = async (dirHandle: any, currentPath: string): Promise<FileS
   };
 };
 
-const sortChildren = (children: FileSystemNode[]) => {
+// 读取文件夹的直接子条目，子文件夹标记为未加载
+const readDirectoryEntries = async (dirHandle: any, currentPath: string): Promise<FileSystemNode[]> => {
+  const children: FileSystemNode[] = [];
+  for await (const entry of dirHandle.values()) {
+    if (isIgnoredEntry(entry.name)) continue;
+    const path = currentPath ? `${currentPath}/${entry.name}` : entry.name;
+    if (entry.kind === 'directory') {
+      children.push({ name: entry.name, kind: FileType.DIRECTORY, path, handle: entry, children: [], isOpen: false, isLoaded: false });
+    } else if (isVaultFile(entry.name)) {
+      children.push({ name: entry.name, kind: FileType.FILE, path, handle: entry });
+    }
+  }
+  sortChildren(children);
+  return children;
+};
+
+/**
+ * 读取尚未加载的文件夹，与已有的子条目 (缓存或上次读取的结果) 核对：
+ * 仍存在的条目保留原节点并更新句柄，新条目加入，返回磁盘上已不存在的条目。
+ * 子数组原地替换，目录树的浅拷贝之间保持一致
+ */
+export const loadDirectory = async (dir: FileSystemNode): Promise<FileSystemNode[]> => {
+  if (dir.isLoaded !== false || !dir.handle) return [];
+  const entries = await readDirectoryEntries(dir.handle, dir.path);
+  const existing = new Map((dir.children || []).map(child => [`${child.kind}:${child.name}`, child]));
+  const merged = entries.map(entry => {
+    const key = `${entry.kind}:${entry.name}`;
+    const previous = existing.get(key);
+    if (!previous) return entry;
+    existing.delete(key);
+    previous.handle = entry.handle;
+    previous.path = entry.path;
+    return previous;
+  });
+  if (!dir.children) dir.children = [];
+  dir.children.splice(0, dir.children.length, ...merged);
+  dir.isLoaded = true;
+  return Array.from(existing.values());
+};
+
+/**
+ * 用缓存的目录树填充刚打开的根节点，立即显示；所有文件夹标记为未加载，读取时再与磁盘核对
+ */
+export const seedFromManifest = (root: FileSystemNode, cached: FileSystemNode) => {
+  const markUnloaded = (node: FileSystemNode) => {
+    if (node.kind !== FileType.DIRECTORY) return;
+    node.isLoaded = false;
+    node.children?.forEach(markUnloaded);
+  };
+  root.children = cached.children || [];
+  root.children.forEach(markUnloaded);
+  root.isLoaded = false;
+  return root;
+};
+
+export interface VaultSnapshot {
+  entries: Map<string, number | null>; // 路径 -> 修改时间；文件夹为 -1，未读取修改时间的文件为 null
+  folders: Set<string>; // 列出了内容的文件夹
+}
+
+/**
+ * 本地仓库快照，用于检测外部修改。只列出已加载的文件夹，不触发惰性加载；
+ * 读取文件修改时间 (getFile) 开销较大，只对 statPaths 中的文件读取
+ */
+export const snapshotLoadedFolders = async (root: FileSystemNode, statPaths: Set<string>): Promise<VaultSnapshot> => {
+  const snapshot: VaultSnapshot = { entries: new Map(), folders: new Set() };
+  const visit = async (dir: FileSystemNode) => {
+    if (dir.isLoaded === false || !dir.handle) return;
+    snapshot.folders.add(dir.path);
+    for await (const entry of dir.handle.values()) {
+      if (isIgnoredEntry(entry.name)) continue;
+      const path = dir.path ? `${dir.path}/${entry.name}` : entry.name;
+      if (entry.kind === 'directory') {
+        snapshot.entries.set(path, -1);
+      } else if (isVaultFile(entry.name)) {
+        snapshot.entries.set(path, statPaths.has(path) ? (await entry.getFile()).lastModified : null);
+      }
+    }
+    for (const child of dir.children || []) {
+      if (child.kind === FileType.DIRECTORY) await visit(child);
+    }
+  };
+  await visit(root);
+  return snapshot;
+};
+
+/**
+ * 内容哈希 (FNV-1a)，用于判断文件内容是否真的发生变化
+ */
+export const hashContent = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const sortChildren = (children: FileSystemNode[]) => {
   children.sort((a, b) => {
     if (a.kind === b.kind) {
       return a.name.localeCompare(b.name);
@@ -118,7 +255,7 @@ export const readFileContent = async (node: FileSystemNode): Promise<string> =>
   }
 
   // 2.3 Fetch from Static Server (Original content)
-  const url = `vault/${encodeURI(node.path)}`;
+  const url = `vault/${encodeURI(node.sourcePath || node.path)}`;
   try {
     const response = await fetch(url);
     if (!response.ok) {
@@ -132,20 +269,80 @@ export const readFileContent = async (node: FileSystemNode): Promise<string> =>
   }
 };
 
+/**
+ * 读取文件的原始数据 (图片等二进制文件)
+ */
+export const readFileBlob = async (node: FileSystemNode): Promise<Blob> => {
+  if (node.handle) {
+    return await node.handle.getFile();
+  }
+  const storedBlob = await getMockBlob(node.path);
+  if (storedBlob) return storedBlob;
+  const storedContent = localStorage.getItem(`${MOCK_CONTENT_PREFIX}${node.path}`);
+  if (storedContent !== null) return new Blob([storedContent], { type: 'text/plain' });
+  if (node.content !== undefined) return new Blob([node.content], { type: 'text/plain' });
+
+  const url = `vault/${encodeURI(node.sourcePath || node.path)}`;
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`读取文件失败: ${response.status}`);
+  return await response.blob();
+};
+
+/**
+ * 读取文件内容及其版本，供保存时检测冲突
+ */
+export const readFileWithVersion = async (node: FileSystemNode): Promise<{ content: string; version: FileVersion }> => {
+  if (node.handle) {
+    const file = await node.handle.getFile();
+    const content = await file.text();
+    return { content, version: { lastModified: file.lastModified, hash: hashContent(content) } };
+  }
+  const content = await readFileContent(node);
+  return { content, version: { hash: hashContent(content) } };
+};
+
 /**
  * 写入文件内容 (Save)
+ *
+ * 提供 expected 时先核对磁盘上的版本：修改时间与内容哈希都变化才视为冲突，
+ * 抛出 FileConflictError 并附带磁盘上的当前内容。写入同时记录版本历史，返回写入后的版本。
  */
-export const writeFileContent = async (node: FileSystemNode, content: string): Promise<void> => {
+export const writeFileContent = async (
+  node: FileSystemNode,
+  content: string,
+  expected?: FileVersion,
+  source: SnapshotSource = 'save'
+): Promise<FileVersion> => {
+  await recordBaseline(node.path, () => readFileContent(node));
+  const version = await writeToStorage(node, content, expected);
+  await recordSnapshot(node.path, content, source);
+  return version;
+};
+
+const writeToStorage = async (node: FileSystemNode, content: string, expected?: FileVersion): Promise<FileVersion> => {
   if (node.handle) {
     // Local Mode: Write to Disk
+    if (expected) {
+      const file = await node.handle.getFile();
+      if (file.lastModified !== expected.lastModified) {
+        const current = await file.text();
+        const currentHash = hashContent(current);
+        if (currentHash !== expected.hash && current !== content) {
+          throw new FileConflictError(current, { lastModified: file.lastModified, hash: currentHash });
+        }
+      }
+    }
     const writable = await node.handle.createWritable();
     await writable.write(content);
     await writable.close();
+    const written = await node.handle.getFile();
+    return { lastModified: written.lastModified, hash: hashContent(content) };
   } else {
     // Mock Mode: Persist to LocalStorage
     localStorage.setItem(`${MOCK_CONTENT_PREFIX}${node.path}`, content);
     node.content = content; // Update memory reference
     console.log('Mock Mode: File saved to storage', node.path);
+    return { hash: hashContent(content) };
   }
 };
 
@@ -188,6 +385,33 @@ export const createNewFile = async (parentDir: FileSystemNode, fileName: string)
   }
 };
 
+/**
+ * 创建二进制文件 (粘贴的图片等)；Mock 模式保存为 Blob
+ */
+export const createBinaryFile = async (parentDir: FileSystemNode, fileName: string, blob: Blob): Promise<FileSystemNode> => {
+  if (parentDir.children?.some(c => c.name === fileName)) {
+    throw new Error('文件已存在');
+  }
+
+  const path = parentDir.path ? `${parentDir.path}/${fileName}` : fileName;
+  const newNode: FileSystemNode = { name: fileName, kind: FileType.FILE, path };
+
+  if (parentDir.handle) {
+    const fileHandle = await parentDir.handle.getFileHandle(fileName, { create: true });
+    const writable = await fileHandle.createWritable();
+    await writable.write(blob);
+    await writable.close();
+    newNode.handle = fileHandle;
+  } else {
+    await saveMockBlob(path, blob);
+  }
+
+  if (!parentDir.children) parentDir.children = [];
+  parentDir.children.push(newNode);
+  sortChildren(parentDir.children);
+  return newNode;
+};
+
 /**
  * 创建文件夹 (Create Directory)
  */
@@ -235,14 +459,9 @@ export const deleteFileSystemNode = async (parentDir: FileSystemNode, targetNode
     // Local Mode
     await parentDir.handle.removeEntry(targetNode.name, { recursive: targetNode.kind === FileType.DIRECTORY });
   } else {
-    // Mock Mode: Clean up LocalStorage
-    if (targetNode.kind === FileType.FILE) {
-        localStorage.removeItem(`${MOCK_CONTENT_PREFIX}${targetNode.path}`);
-    } else {
-        // Recursive cleanup for folder content in Mock mode would be ideal, 
-        // but for simplicity we assume direct file cleanup or simple structure here.
-        // A full implementation would traverse children.
-    }
+    // Mock Mode: Clean up LocalStorage and stored blobs (folder deletes remove every file under it)
+    mockContentKeys(targetNode.path).forEach(key => localStorage.removeItem(key));
+    await deleteMockBlobs([targetNode.path]);
   }
   
   if (parentDir.children) {
@@ -250,8 +469,65 @@ export const deleteFileSystemNode = async (parentDir: FileSystemNode, targetNode
   }
 };
 
+/**
+ * 移动本地条目到目标文件夹；浏览器不支持 move 时递归复制后删除原条目。返回移动后的句柄
+ */
+export const moveEntry = async (handle: any, sourceDir: any, targetDir: any, newName: string): Promise<any> => {
+  if (handle.move) {
+    try {
+      await handle.move(targetDir, newName);
+      return handle;
+    } catch (e: any) {
+      // 部分浏览器只支持移动文件，文件夹走复制
+      if (e?.name !== 'NotSupportedError' && !(e instanceof TypeError)) throw e;
+    }
+  }
+  const copied = await copyEntry(handle, targetDir, newName);
+  await sourceDir.removeEntry(handle.name, { recursive: handle.kind === 'directory' });
+  return copied;
+};
+
+const copyEntry = async (handle: any, targetDir: any, name: string): Promise<any> => {
+  if (handle.kind === 'file') {
+    const file = await handle.getFile();
+    const target = await targetDir.getFileHandle(name, { create: true });
+    const writable = await target.createWritable();
+    await writable.write(file);
+    await writable.close();
+    return target;
+  }
+  const dir = await targetDir.getDirectoryHandle(name, { create: true });
+  for await (const entry of handle.values()) {
+    await copyEntry(entry, dir, entry.name);
+  }
+  return dir;
+};
+
+// Mock 模式下 path 本身及其下所有文件的内容键
+const mockContentKeys = (path: string) => {
+  const exact = `${MOCK_CONTENT_PREFIX}${path}`;
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && (key === exact || key.startsWith(`${exact}/`))) keys.push(key);
+  }
+  return keys;
+};
+
+/**
+ * Mock 模式：把 fromPath 下保存的内容迁移或恢复到 toPath 下
+ */
+export const putMockContents = (contents: Record<string, string>, fromPath: string, toPath: string) => {
+  Object.entries(contents).forEach(([path, content]) => {
+    const target = path === fromPath ? toPath : `${toPath}${path.slice(fromPath.length)}`;
+    localStorage.setItem(`${MOCK_CONTENT_PREFIX}${target}`, content);
+  });
+};
+
 /**
  * 重命名节点
+ *
+ * 本地文件夹改名后同样重新扫描子树，使子条目的句柄指向新位置。
  */
 export const renameFileSystemNode = async (parent: FileSystemNode, node: FileSystemNode, newName: string): Promise<void> => {
   if (parent.children?.some(c => c.name === newName)) {
@@ -284,21 +560,16 @@ export const renameFileSystemNode = async (parent: FileSystemNode, node: FileSys
     }
   } else {
       // Mock Mode: Move content in LocalStorage
-      if (node.kind === FileType.FILE) {
-          const content = localStorage.getItem(`${MOCK_CONTENT_PREFIX}${oldPath}`);
-          if (content !== null) {
-              localStorage.setItem(`${MOCK_CONTENT_PREFIX}${newPath}`, content);
-              localStorage.removeItem(`${MOCK_CONTENT_PREFIX}${oldPath}`);
-          }
-      }
+      moveMockContents(oldPath, newPath);
+      await moveMockBlobs(oldPath, newPath);
   }
   
   // Update Memory State (Common for both Local and Mock)
   node.name = newName;
-  node.path = newPath;
-  
-  if (node.kind === FileType.DIRECTORY && node.children) {
-      updateChildrenPaths(node, oldPath, newPath);
+  if (node.handle && node.kind === FileType.DIRECTORY) {
+    await rescanSubtree(node, oldPath, newPath);
+  } else {
+    updateSubtreePaths(node, oldPath, newPath);
   }
   
   // Re-sort parent children
@@ -307,23 +578,77 @@ export const renameFileSystemNode = async (parent: FileSystemNode, node: FileSys
   }
 };
 
-const updateChildrenPaths = (node: FileSystemNode, parentOldPath: string, parentNewPath: string) => {
-    if (!node.children) return;
-    for (const child of node.children) {
-        // Replace the prefix of the path
-        if (child.path.startsWith(parentOldPath)) {
-             child.path = child.path.replace(parentOldPath, parentNewPath);
-             
-             // If it's a file in Mock mode, we technically should migrate its content key too
-             // This is a simplified recursive update
-             if (!child.handle && child.kind === FileType.FILE) {
-                 const oldKey = `${MOCK_CONTENT_PREFIX}${parentOldPath}/${child.name}`; // Approximation
-                 // Accurate migration requires recursive traversal matching old paths
-             }
-        }
-        
-        if (child.kind === FileType.DIRECTORY) {
-            updateChildrenPaths(child, parentOldPath, parentNewPath);
-        }
+/**
+ * 移动节点到另一个文件夹 (拖放)
+ *
+ * 本地文件夹移动后子条目的句柄仍指向原位置，因此重新扫描子树；Mock 模式同时迁移内容键。
+ */
+export const moveFileSystemNode = async (sourceParent: FileSystemNode, node: FileSystemNode, targetParent: FileSystemNode): Promise<void> => {
+  if (targetParent.path === node.path || targetParent.path.startsWith(`${node.path}/`)) {
+    throw new Error('不能移动到自身或其子文件夹中');
+  }
+  if (targetParent.children?.some(c => c.name === node.name)) {
+    throw new Error('目标文件夹中已存在同名项');
+  }
+
+  const oldPath = node.path;
+  const newPath = targetParent.path ? `${targetParent.path}/${node.name}` : node.name;
+
+  if (node.handle) {
+    node.handle = await moveEntry(node.handle, sourceParent.handle, targetParent.handle, node.name);
+    if (node.kind === FileType.DIRECTORY) {
+      await rescanSubtree(node, oldPath, newPath);
+    } else {
+      node.path = newPath;
     }
+  } else {
+    moveMockContents(oldPath, newPath);
+    await moveMockBlobs(oldPath, newPath);
+    updateSubtreePaths(node, oldPath, newPath);
+  }
+
+  sourceParent.children = sourceParent.children?.filter(child => child !== node);
+  if (!targetParent.children) targetParent.children = [];
+  targetParent.children.push(node);
+  sortChildren(targetParent.children);
+};
+
+const remapSubtreePath = (path: string, oldPath: string, newPath: string) =>
+  path === oldPath ? newPath : `${newPath}${path.slice(oldPath.length)}`;
+
+// 本地文件夹移动或改名后按新句柄重新扫描子树，保留文件夹的展开状态
+const rescanSubtree = async (node: FileSystemNode, oldPath: string, newPath: string) => {
+  const openPaths = new Set<string>();
+  const collectOpen = (n: FileSystemNode) => {
+    if (n.isOpen) openPaths.add(remapSubtreePath(n.path, oldPath, newPath));
+    n.children?.forEach(collectOpen);
+  };
+  collectOpen(node);
+  const scanned = await scanDirectory(node.handle, newPath);
+  const restoreOpen = (n: FileSystemNode) => {
+    if (n.kind === FileType.DIRECTORY) n.isOpen = openPaths.has(n.path);
+    n.children?.forEach(restoreOpen);
+  };
+  scanned.children?.forEach(restoreOpen);
+  node.children = scanned.children;
+  node.path = newPath;
+};
+
+// 更新子树中的所有路径；Mock 模式下的静态文件记录原始路径
+const updateSubtreePaths = (node: FileSystemNode, oldPath: string, newPath: string) => {
+  if (!node.handle && node.kind === FileType.FILE && !node.sourcePath) {
+    node.sourcePath = node.path;
+  }
+  node.path = remapSubtreePath(node.path, oldPath, newPath);
+  node.children?.forEach(child => updateSubtreePaths(child, oldPath, newPath));
+};
+
+// Mock 模式：oldPath 及其下所有文件的内容键迁移到 newPath 下
+const moveMockContents = (oldPath: string, newPath: string) => {
+  const contents: Record<string, string> = {};
+  mockContentKeys(oldPath).forEach(key => {
+    contents[key.slice(MOCK_CONTENT_PREFIX.length)] = localStorage.getItem(key) ?? '';
+    localStorage.removeItem(key);
+  });
+  putMockContents(contents, oldPath, newPath);
 };
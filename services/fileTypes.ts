@@ -0,0 +1,52 @@
+/**
+ * 仓库中的文件类型
+ *
+ * 目录树保留 Markdown 以及设置中列出的扩展名；阅读区与笔记嵌入按类型选择查看器。
+ */
+
+export type FileKind = 'markdown' | 'image' | 'pdf' | 'audio' | 'video' | 'canvas' | 'other';
+
+export const DEFAULT_FILE_EXTENSIONS = [
+  'png', 'jpg', 'jpeg', 'gif', 'svg', 'webp', 'bmp', 'avif',
+  'pdf',
+  'mp3', 'wav', 'm4a', 'ogg', 'flac',
+  'mp4', 'webm', 'mov', 'ogv',
+  'canvas',
+];
+
+const KIND_BY_EXTENSION: Record<string, FileKind> = {
+  md: 'markdown',
+  png: 'image', jpg: 'image', jpeg: 'image', gif: 'image', svg: 'image', webp: 'image', bmp: 'image', avif: 'image',
+  pdf: 'pdf',
+  mp3: 'audio', wav: 'audio', m4a: 'audio', ogg: 'audio', flac: 'audio',
+  mp4: 'video', webm: 'video', mov: 'video', ogv: 'video',
+  canvas: 'canvas',
+};
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', svg: 'image/svg+xml',
+  webp: 'image/webp', bmp: 'image/bmp', avif: 'image/avif',
+  pdf: 'application/pdf',
+  mp3: 'audio/mpeg', wav: 'audio/wav', m4a: 'audio/mp4', ogg: 'audio/ogg', flac: 'audio/flac',
+  mp4: 'video/mp4', webm: 'video/webm', mov: 'video/quicktime', ogv: 'video/ogg',
+  md: 'text/markdown', canvas: 'application/json',
+};
+
+export const getExtension = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+};
+
+export const getFileKind = (name: string): FileKind => KIND_BY_EXTENSION[getExtension(name)] || 'other';
+
+export const getMimeType = (name: string) => MIME_TYPES[getExtension(name)] || 'application/octet-stream';
+
+// MIME 类型对应的扩展名 (取表中第一个，如 image/jpeg -> jpg)
+export const getExtensionForMimeType = (type: string) =>
+  Object.keys(MIME_TYPES).find(ext => MIME_TYPES[ext] === type) || '';
+
+/**
+ * 解析设置中的扩展名列表："png, .PDF mp4" -> ['png', 'pdf', 'mp4']
+ */
+export const parseExtensionList = (text: string) =>
+  Array.from(new Set(text.split(/[\s,，]+/).map(ext => ext.trim().replace(/^\./, '').toLowerCase()).filter(Boolean)));
@@ -0,0 +1,145 @@
+/**
+ * 本地仓库外部修改检测
+ *
+ * 对比前后两次快照得出新增、删除与修改的条目。快照只列出已加载的文件夹，不打断惰性加载；
+ * 读取修改时间开销较大，只对当前打开的笔记与 FileSystemObserver 报告变更的文件读取。
+ * 浏览器支持 FileSystemObserver 时由变更通知触发对比，否则定时轮询；页面隐藏时暂停轮询，
+ * 重新可见时立即检查一次。
+ */
+
+import { FileSystemNode, VaultChanges } from '../types';
+import { snapshotLoadedFolders, VaultSnapshot } from './fileSystem';
+
+const POLL_INTERVAL = 5000;
+// 合并短时间内的连续变更通知
+const OBSERVER_DEBOUNCE = 300;
+
+export interface VaultWatcher {
+  check: () => Promise<void>;
+  stop: () => void;
+}
+
+const parentOf = (path: string) => path.slice(0, Math.max(path.lastIndexOf('/'), 0));
+
+// 只比较两次都列出了内容的文件夹，其间才加载的文件夹中的条目不算新增
+const diffSnapshots = (prev: VaultSnapshot, next: VaultSnapshot, touched: Set<string>): VaultChanges => {
+  const changes: VaultChanges = { added: [], removed: [], modified: [] };
+  const compared = (path: string) => prev.folders.has(parentOf(path)) && next.folders.has(parentOf(path));
+  next.entries.forEach((modified, path) => {
+    if (!compared(path)) return;
+    const before = prev.entries.get(path);
+    if (before === undefined) changes.added.push(path);
+    else if (modified !== -1 && (touched.has(path) || (before !== null && modified !== null && before !== modified))) {
+      changes.modified.push(path);
+    }
+  });
+  prev.entries.forEach((_, path) => {
+    if (compared(path) && !next.entries.has(path)) changes.removed.push(path);
+  });
+  return changes;
+};
+
+export const createVaultWatcher = (
+  dirHandle: any,
+  getRoot: () => FileSystemNode | null,
+  getOpenPath: () => string | null,
+  onChange: (changes: VaultChanges) => void,
+  interval = POLL_INTERVAL
+): VaultWatcher => {
+  let snapshot: VaultSnapshot | null = null;
+  let touched = new Set<string>(); // FileSystemObserver 报告变更、尚未检查的路径
+  let running = false;
+  let rerun = false;
+  let stopped = false;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  let observer: any = null;
+
+  const check = async () => {
+    const root = getRoot();
+    if (stopped || !root) return;
+    if (running) {
+      rerun = true;
+      return;
+    }
+    running = true;
+    const changed = touched;
+    touched = new Set();
+    try {
+      const statPaths = new Set(changed);
+      const openPath = getOpenPath();
+      if (openPath) statPaths.add(openPath);
+      const next = await snapshotLoadedFolders(root, statPaths);
+      if (stopped) return;
+      if (snapshot) {
+        const changes = diffSnapshots(snapshot, next, changed);
+        if (changes.added.length || changes.removed.length || changes.modified.length) {
+          onChange(changes);
+        }
+      }
+      snapshot = next;
+    } catch (e) {
+      console.error('检查外部修改失败', e);
+    } finally {
+      running = false;
+      if (rerun) {
+        rerun = false;
+        check();
+      }
+    }
+  };
+
+  const startPolling = () => {
+    if (stopped || pollTimer) return;
+    pollTimer = setInterval(() => {
+      if (document.visibilityState === 'visible') check();
+    }, interval);
+  };
+
+  const scheduleCheck = () => {
+    if (debounceTimer) clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(check, OBSERVER_DEBOUNCE);
+  };
+
+  const handleVisibility = () => {
+    if (document.visibilityState === 'visible') check();
+  };
+
+  const Observer = (window as any).FileSystemObserver;
+  if (Observer) {
+    try {
+      observer = new Observer((records: any[]) => {
+        for (const record of records) {
+          if (record.relativePathComponents) touched.add(record.relativePathComponents.join('/'));
+          if (record.relativePathMovedFrom) touched.add(record.relativePathMovedFrom.join('/'));
+        }
+        scheduleCheck();
+      });
+      Promise.resolve(observer.observe(dirHandle, { recursive: true })).catch((e: unknown) => {
+        console.warn('FileSystemObserver 不可用，改为轮询', e);
+        observer = null;
+        startPolling();
+      });
+    } catch (e) {
+      observer = null;
+      startPolling();
+    }
+  } else {
+    startPolling();
+  }
+  document.addEventListener('visibilitychange', handleVisibility);
+
+  // 建立基准快照
+  check();
+
+  return {
+    check,
+    stop: () => {
+      stopped = true;
+      if (pollTimer) clearInterval(pollTimer);
+      if (debounceTimer) clearTimeout(debounceTimer);
+      observer?.disconnect?.();
+      document.removeEventListener('visibilitychange', handleVisibility);
+    },
+  };
+};
@@ -0,0 +1,195 @@
+/**
+ * Frontmatter 解析
+ *
+ * 解析文档开头 `---` 包裹的 YAML 元数据，供阅读视图与各类索引共用。
+ * 解析交给 yaml 库 (YAML 1.2 core schema)，锚点 / 别名、标签、块标量等按规范处理，兼容 CRLF。
+ * 写回 (updateFrontmatter) 时只改写发生变化的顶层属性，其余行 (含注释、锚点) 原样保留；
+ * YAML 有错误时拒绝写回，避免丢失无法解析的原有内容。
+ */
+
+import { Document, Node, parseDocument, isAlias, isMap, isNode, isScalar, visit } from 'yaml';
+
+const FRONTMATTER_PATTERN = /^\uFEFF?---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?=\r?\n|$)/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2})?)?$/;
+
+// 重复的键不视为错误，与多数笔记软件一致取最后一个
+const PARSE_OPTIONS = { uniqueKeys: false } as const;
+const STRINGIFY_OPTIONS = { lineWidth: 0, nullStr: '' } as const;
+
+const isPlainObject = (value: any) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseYamlDocument = (source: string) => {
+  const doc = parseDocument(source, PARSE_OPTIONS);
+  if (doc.errors.length > 0) throw doc.errors[0];
+  return doc;
+};
+
+// Frontmatter 的顶层必须是键值对 (空白视为没有属性)
+const parseFrontmatterDocument = (source: string) => {
+  const doc = parseYamlDocument(source);
+  if (doc.contents !== null && !isMap(doc.contents)) throw new Error('Frontmatter 的顶层不是键值对');
+  return doc;
+};
+
+// yaml 库的错误信息附带源码片段，只取第一行
+const errorSummary = (e: any) => String(e?.message || e).split('\n')[0];
+
+/**
+ * 解析 YAML 文本
+ */
+export const parseYaml = (source: string): any => parseYamlDocument(source).toJS();
+
+/**
+ * 解析 Frontmatter；YAML 有错误时 metadata 为空对象，error 为错误信息
+ */
+export const parseFrontmatter = (text: string): { metadata: Record<string, any> | null; content: string; error?: string } => {
+  const match = text.match(FRONTMATTER_PATTERN);
+
+  if (!match) {
+    return { metadata: null, content: text };
+  }
+
+  const content = text.slice(match[0].length).trim();
+  try {
+    return { metadata: parseFrontmatterDocument(match[1] || '').toJS() || {}, content };
+  } catch (e: any) {
+    console.warn('Frontmatter 解析失败', e);
+    return { metadata: {}, content, error: errorSummary(e) };
+  }
+};
+
+/**
+ * 拆分 Frontmatter 与正文，并给出正文在源文件中的起始行偏移，用于把渲染节点映射回源文件行号
+ */
+export const splitFrontmatter = (text: string) => {
+  const { metadata, content: body, error } = parseFrontmatter(text);
+  const match = text.match(FRONTMATTER_PATTERN);
+  let bodyLineOffset = 0;
+  if (match && body) {
+    // 正文前跳过的空白也计入偏移
+    const rest = text.slice(match[0].length);
+    const bodyStart = match[0].length + rest.length - rest.trimStart().length;
+    bodyLineOffset = text.slice(0, bodyStart).split('\n').length - 1;
+  }
+  return { metadata, body, bodyLineOffset, error };
+};
+
+// --- Serialization ---
+
+interface PropertySpan {
+  key: string;
+  start: number; // YAML 行号 (含)
+  end: number; // YAML 行号 (不含)
+  anchors: string[]; // 该属性内定义的锚点
+  aliases: string[]; // 该属性内引用的锚点
+}
+
+const isBlank = (line: string) => line.trim() === '';
+const isCommentLine = (line: string) => line.trim().startsWith('#');
+
+const serializeEntry = (key: string, value: any): string[] => {
+  const doc = new Document(undefined, { aliasDuplicateObjects: false });
+  doc.set(key, value);
+  return doc.toString(STRINGIFY_OPTIONS).replace(/\n$/, '').split('\n').map(line => line.trimEnd());
+};
+
+// 顶层属性在源文本中占据的行，以及其中的锚点与别名
+const collectSpans = (doc: Document, source: string): PropertySpan[] => {
+  if (!isMap(doc.contents)) return [];
+  const lineOf = (offset: number) => source.slice(0, offset).split('\n').length - 1;
+  return doc.contents.items.map(pair => {
+    const keyNode = pair.key as Node | null;
+    const valueNode = pair.value as Node | null;
+    const start = keyNode?.range?.[0] ?? valueNode?.range?.[0] ?? 0;
+    let end = valueNode?.range?.[1] ?? keyNode?.range?.[1] ?? start;
+    while (end > start && /\s/.test(source[end - 1])) end--;
+    const anchors: string[] = [];
+    const aliases: string[] = [];
+    for (const node of [keyNode, valueNode]) {
+      if (!isNode(node)) continue;
+      visit(node, (_key, item) => {
+        if (isAlias(item)) aliases.push(item.source);
+        else if (isNode(item) && item.anchor) anchors.push(item.anchor);
+      });
+    }
+    return {
+      key: String(isScalar(keyNode) ? keyNode.value : keyNode),
+      start: lineOf(start),
+      end: lineOf(Math.max(end - 1, start)) + 1,
+      anchors,
+      aliases,
+    };
+  });
+};
+
+/**
+ * 把 Frontmatter 更新为 properties (顶层属性的完整集合)，返回新的文档文本。
+ * 值未变的属性保留原始写法，删除的属性连同其续行一起移除，新增属性追加在末尾；
+ * 引用了已改写或删除属性中锚点的别名，按解析后的值展开重写。正文与换行风格 (LF / CRLF) 保持不变。
+ * 原有 YAML 无法解析时抛出错误，不做任何改写。
+ */
+export const updateFrontmatter = (text: string, properties: Record<string, any>): string => {
+  const eol = text.includes('\r\n') ? '\r\n' : '\n';
+  const keys = Object.keys(properties);
+  const match = text.match(FRONTMATTER_PATTERN);
+
+  if (!match) {
+    if (keys.length === 0) return text;
+    return ['---', ...keys.flatMap(key => serializeEntry(key, properties[key])), '---', ''].join(eol) + text;
+  }
+
+  const source = match[1] ?? '';
+  const yamlLines = match[1] !== undefined ? source.split(/\r?\n/) : [];
+  let doc: Document;
+  try {
+    doc = parseFrontmatterDocument(source);
+  } catch (e: any) {
+    throw new Error(`Frontmatter 解析失败，未写入: ${errorSummary(e)}`);
+  }
+  const original = doc.toJS() || {};
+  const spans = collectSpans(doc, source);
+
+  const output: string[] = [];
+  const written = new Set<string>();
+  const anchors = new Set<string>();
+  let cursor = 0;
+  for (const span of spans) {
+    output.push(...yamlLines.slice(cursor, span.start));
+    cursor = span.end;
+    if (!(span.key in properties) || written.has(span.key)) continue;
+    written.add(span.key);
+    const unchanged = JSON.stringify(original[span.key]) === JSON.stringify(properties[span.key])
+      && span.aliases.every(anchor => anchors.has(anchor));
+    if (unchanged) {
+      span.anchors.forEach(anchor => anchors.add(anchor));
+      output.push(...yamlLines.slice(span.start, span.end));
+    } else {
+      output.push(...serializeEntry(span.key, properties[span.key]));
+    }
+  }
+  output.push(...yamlLines.slice(cursor));
+  for (const key of keys) {
+    if (!written.has(key)) output.push(...serializeEntry(key, properties[key]));
+  }
+
+  const rest = text.slice(match[0].length);
+  // 属性全部删除且只剩空行 / 注释时，移除整个 Frontmatter
+  if (keys.length === 0 && output.every(line => isBlank(line) || isCommentLine(line))) {
+    return rest.replace(/^\r?\n/, '');
+  }
+  while (output.length > 0 && isBlank(output[output.length - 1])) output.pop();
+  return ['---', ...output, '---'].join(eol) + rest;
+};
+
+// --- Property types ---
+
+export type PropertyType = 'text' | 'list' | 'number' | 'checkbox' | 'date' | 'object';
+
+export const inferPropertyType = (value: any): PropertyType => {
+  if (Array.isArray(value)) return 'list';
+  if (typeof value === 'boolean') return 'checkbox';
+  if (typeof value === 'number') return 'number';
+  if (isPlainObject(value)) return 'object';
+  if (typeof value === 'string' && DATE_PATTERN.test(value)) return 'date';
+  return 'text';
+};
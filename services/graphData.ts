@@ -0,0 +1,147 @@
+import { ContentIndex } from './contentIndex';
+import { LinkIndex } from './linkIndex';
+import { TagIndex } from './tagIndex';
+
+/**
+ * 关系图谱数据
+ *
+ * 笔记为节点，已解析的 [[wikilink]] 为边；支持全局 / 局部 (N 跳) 两种模式，
+ * 以及按文件夹、标签、孤立节点过滤。
+ */
+
+export interface GraphNode {
+  id: string; // 笔记路径
+  label: string;
+  folder: string;
+  tags: string[];
+  degree: number; // 在完整图谱中的连接数
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+}
+
+export interface GraphData {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export type OrphanFilter = 'show' | 'hide' | 'only';
+
+export interface GraphFilter {
+  mode: 'global' | 'local';
+  center?: string;
+  depth: number;
+  folder: string; // 空字符串表示不过滤
+  tag: string;
+  orphans: OrphanFilter;
+}
+
+export const buildGraphData = (contentIndex: ContentIndex, linkIndex: LinkIndex, tagIndex: TagIndex): GraphData => {
+  const nodes = new Map<string, GraphNode>();
+  for (const doc of contentIndex.docs.values()) {
+    const slash = doc.path.lastIndexOf('/');
+    nodes.set(doc.path, {
+      id: doc.path,
+      label: doc.name.replace(/\.md$/i, ''),
+      folder: slash === -1 ? '' : doc.path.slice(0, slash),
+      tags: tagIndex.notes.get(doc.path) || [],
+      degree: 0,
+    });
+  }
+
+  // 同一对笔记之间只保留一条边
+  const seen = new Set<string>();
+  const edges: GraphEdge[] = [];
+  for (const [source, links] of linkIndex.outgoing) {
+    for (const link of links) {
+      const target = link.targetPath;
+      if (!target || target === source || !nodes.has(source) || !nodes.has(target)) continue;
+      const key = source < target ? `${source}\n${target}` : `${target}\n${source}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      edges.push({ source, target });
+      nodes.get(source)!.degree++;
+      nodes.get(target)!.degree++;
+    }
+  }
+
+  return { nodes: Array.from(nodes.values()), edges };
+};
+
+const matchesTag = (node: GraphNode, tag: string) => {
+  const wanted = tag.toLowerCase();
+  return node.tags.some(t => {
+    const lower = t.toLowerCase();
+    return lower === wanted || lower.startsWith(`${wanted}/`);
+  });
+};
+
+export const filterGraph = (data: GraphData, filter: GraphFilter): GraphData => {
+  let kept = data.nodes.filter(node => {
+    if (filter.folder && node.folder !== filter.folder && !node.folder.startsWith(`${filter.folder}/`)) return false;
+    if (filter.tag && !matchesTag(node, filter.tag)) return false;
+    if (filter.orphans === 'hide' && node.degree === 0) return false;
+    if (filter.orphans === 'only' && node.degree > 0) return false;
+    return true;
+  });
+
+  let keptIds = new Set(kept.map(node => node.id));
+  let edges = data.edges.filter(edge => keptIds.has(edge.source) && keptIds.has(edge.target));
+
+  if (filter.mode === 'local' && filter.center) {
+    const adjacency = new Map<string, string[]>();
+    for (const edge of data.edges) {
+      if (!adjacency.has(edge.source)) adjacency.set(edge.source, []);
+      if (!adjacency.has(edge.target)) adjacency.set(edge.target, []);
+      adjacency.get(edge.source)!.push(edge.target);
+      adjacency.get(edge.target)!.push(edge.source);
+    }
+
+    // 从当前笔记出发做 BFS，过滤条件不影响中心节点本身
+    const reached = new Set<string>([filter.center]);
+    let frontier = [filter.center];
+    for (let hop = 0; hop < filter.depth && frontier.length > 0; hop++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        for (const neighbor of adjacency.get(id) || []) {
+          if (reached.has(neighbor) || !keptIds.has(neighbor)) continue;
+          reached.add(neighbor);
+          next.push(neighbor);
+        }
+      }
+      frontier = next;
+    }
+
+    kept = data.nodes.filter(node => reached.has(node.id));
+    keptIds = reached;
+    edges = data.edges.filter(edge => keptIds.has(edge.source) && keptIds.has(edge.target));
+  }
+
+  return { nodes: kept, edges };
+};
+
+/**
+ * 所有出现过的文件夹 (含上级目录)，用于过滤下拉框
+ */
+export const listGraphFolders = (data: GraphData): string[] => {
+  const folders = new Set<string>();
+  for (const node of data.nodes) {
+    const parts = node.folder ? node.folder.split('/') : [];
+    for (let i = 1; i <= parts.length; i++) {
+      folders.add(parts.slice(0, i).join('/'));
+    }
+  }
+  return Array.from(folders).sort((a, b) => a.localeCompare(b));
+};
+
+export const listGraphTags = (data: GraphData): string[] => {
+  const tags = new Map<string, string>();
+  for (const node of data.nodes) {
+    for (const tag of node.tags) {
+      if (!tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+    }
+  }
+  return Array.from(tags.values()).sort((a, b) => a.localeCompare(b));
+};
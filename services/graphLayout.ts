@@ -0,0 +1,182 @@
+import { GraphData } from './graphData';
+
+/**
+ * 力导向布局 (Force Layout)
+ *
+ * 斥力只在网格相邻单元内计算 (近似 O(n))，配合弹簧与向心力，
+ * 保证几千个节点时每帧仍能在几毫秒内完成一次迭代。
+ */
+
+export interface Simulation {
+  ids: string[];
+  indexOf: Map<string, number>;
+  x: Float32Array;
+  y: Float32Array;
+  vx: Float32Array;
+  vy: Float32Array;
+  edges: Uint32Array; // [source0, target0, source1, target1, ...]
+  alpha: number;
+  pinned: number; // 被拖拽的节点，-1 表示无
+}
+
+const CELL_SIZE = 120;
+const REPULSION = 1800;
+const LINK_DISTANCE = 60;
+const LINK_STRENGTH = 0.08;
+const GRAVITY = 0.012;
+const VELOCITY_DECAY = 0.6;
+const ALPHA_DECAY = 0.985;
+const ALPHA_MIN = 0.005;
+const MAX_STEP = 40;
+
+/**
+ * 创建模拟；previous 中已有坐标的节点沿用原位置，避免切换过滤条件时整张图跳动
+ */
+export const createSimulation = (data: GraphData, previous?: Simulation | null): Simulation => {
+  const n = data.nodes.length;
+  const ids = data.nodes.map(node => node.id);
+  const indexOf = new Map(ids.map((id, i) => [id, i]));
+  const x = new Float32Array(n);
+  const y = new Float32Array(n);
+
+  let reused = 0;
+  ids.forEach((id, i) => {
+    const prev = previous?.indexOf.get(id);
+    if (previous && prev !== undefined) {
+      x[i] = previous.x[prev];
+      y[i] = previous.y[prev];
+      reused++;
+    } else {
+      // 叶序螺旋初始化，分布均匀且结果稳定
+      const radius = 30 * Math.sqrt(i + 0.5);
+      const angle = i * Math.PI * (3 - Math.sqrt(5));
+      x[i] = radius * Math.cos(angle);
+      y[i] = radius * Math.sin(angle);
+    }
+  });
+
+  const edges = new Uint32Array(data.edges.length * 2);
+  let e = 0;
+  for (const edge of data.edges) {
+    const s = indexOf.get(edge.source);
+    const t = indexOf.get(edge.target);
+    if (s === undefined || t === undefined) continue;
+    edges[e++] = s;
+    edges[e++] = t;
+  }
+
+  return {
+    ids,
+    indexOf,
+    x,
+    y,
+    vx: new Float32Array(n),
+    vy: new Float32Array(n),
+    edges: edges.subarray(0, e),
+    alpha: reused === n && n > 0 ? 0.3 : 1,
+    pinned: -1,
+  };
+};
+
+export const isSimulationActive = (sim: Simulation) => sim.alpha > ALPHA_MIN || sim.pinned !== -1;
+
+export const reheatSimulation = (sim: Simulation, alpha: number = 0.5) => {
+  sim.alpha = Math.max(sim.alpha, alpha);
+};
+
+/**
+ * 执行一次迭代
+ */
+export const tickSimulation = (sim: Simulation) => {
+  const { x, y, vx, vy, edges, alpha } = sim;
+  const n = x.length;
+  if (n === 0) return;
+
+  // 1. 网格分桶，只计算相邻单元内的斥力
+  const grid = new Map<number, number[]>();
+  const cellKey = (cx: number, cy: number) => (cx + 32768) * 65536 + (cy + 32768);
+  for (let i = 0; i < n; i++) {
+    const key = cellKey(Math.floor(x[i] / CELL_SIZE), Math.floor(y[i] / CELL_SIZE));
+    const bucket = grid.get(key);
+    if (bucket) bucket.push(i);
+    else grid.set(key, [i]);
+  }
+
+  for (let i = 0; i < n; i++) {
+    const cx = Math.floor(x[i] / CELL_SIZE);
+    const cy = Math.floor(y[i] / CELL_SIZE);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const bucket = grid.get(cellKey(cx + dx, cy + dy));
+        if (!bucket) continue;
+        for (const j of bucket) {
+          if (j <= i) continue;
+          let ddx = x[i] - x[j];
+          let ddy = y[i] - y[j];
+          let dist2 = ddx * ddx + ddy * ddy;
+          if (dist2 > CELL_SIZE * CELL_SIZE) continue;
+          if (dist2 < 1) {
+            // 重合节点给一个确定性的微小偏移
+            ddx = ((i * 31 + j) % 7) - 3 || 1;
+            ddy = ((i * 17 + j) % 5) - 2 || 1;
+            dist2 = ddx * ddx + ddy * ddy;
+          }
+          const force = (REPULSION * alpha) / dist2;
+          const fx = ddx * force / Math.sqrt(dist2);
+          const fy = ddy * force / Math.sqrt(dist2);
+          vx[i] += fx;
+          vy[i] += fy;
+          vx[j] -= fx;
+          vy[j] -= fy;
+        }
+      }
+    }
+  }
+
+  // 2. 弹簧
+  for (let k = 0; k < edges.length; k += 2) {
+    const s = edges[k];
+    const t = edges[k + 1];
+    const ddx = x[t] - x[s];
+    const ddy = y[t] - y[s];
+    const dist = Math.sqrt(ddx * ddx + ddy * ddy) || 1;
+    const force = (dist - LINK_DISTANCE) / dist * LINK_STRENGTH * alpha;
+    vx[s] += ddx * force;
+    vy[s] += ddy * force;
+    vx[t] -= ddx * force;
+    vy[t] -= ddy * force;
+  }
+
+  // 3. 向心力 + 速度衰减
+  for (let i = 0; i < n; i++) {
+    if (i === sim.pinned) {
+      vx[i] = 0;
+      vy[i] = 0;
+      continue;
+    }
+    vx[i] = (vx[i] - x[i] * GRAVITY * alpha) * VELOCITY_DECAY;
+    vy[i] = (vy[i] - y[i] * GRAVITY * alpha) * VELOCITY_DECAY;
+    x[i] += Math.max(-MAX_STEP, Math.min(MAX_STEP, vx[i]));
+    y[i] += Math.max(-MAX_STEP, Math.min(MAX_STEP, vy[i]));
+  }
+
+  sim.alpha *= ALPHA_DECAY;
+};
+
+/**
+ * 查找坐标附近的节点 (图坐标系)
+ */
+export const findNodeAt = (sim: Simulation, px: number, py: number, radius: number): number => {
+  let best = -1;
+  let bestDist = radius * radius;
+  for (let i = 0; i < sim.x.length; i++) {
+    const ddx = sim.x[i] - px;
+    const ddy = sim.y[i] - py;
+    const dist2 = ddx * ddx + ddy * ddy;
+    if (dist2 <= bestDist) {
+      best = i;
+      bestDist = dist2;
+    }
+  }
+  return best;
+};
@@ -0,0 +1,74 @@
+/**
+ * 本地仓库目录句柄的持久化 (IndexedDB)
+ *
+ * FileSystemDirectoryHandle 无法写入 localStorage，但可以结构化克隆存入 IndexedDB。
+ * 重新打开时句柄仍有效，只需再次确认读写权限。
+ */
+
+const DB_NAME = 'obsidian_reader_handles';
+const DB_VERSION = 1;
+const STORE = 'handles';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const saveVaultHandle = async (vaultId: string, handle: any) => {
+  try {
+    const db = await openDatabase();
+    await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).put(handle, vaultId));
+  } catch (e) {
+    console.error('保存仓库句柄失败', e);
+  }
+};
+
+export const getVaultHandle = async (vaultId: string): Promise<any | null> => {
+  try {
+    const db = await openDatabase();
+    return (await promisify(db.transaction(STORE, 'readonly').objectStore(STORE).get(vaultId))) ?? null;
+  } catch (e) {
+    console.error('读取仓库句柄失败', e);
+    return null;
+  }
+};
+
+// 全部已保存的句柄，用于按 isSameEntry 识别仓库
+export const listVaultHandles = async (): Promise<{ id: string; handle: any }[]> => {
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+    const [keys, handles] = await Promise.all([promisify(store.getAllKeys()), promisify(store.getAll())]);
+    return keys.map((key, i) => ({ id: String(key), handle: handles[i] }));
+  } catch (e) {
+    console.error('读取仓库句柄失败', e);
+    return [];
+  }
+};
+
+export const deleteVaultHandle = async (vaultId: string) => {
+  try {
+    const db = await openDatabase();
+    await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).delete(vaultId));
+  } catch (e) {
+    console.error('删除仓库句柄失败', e);
+  }
+};
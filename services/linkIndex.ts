@@ -0,0 +1,343 @@
+import { FileType, FileSystemNode, LinkReference, LinkMention, LinkSuggestion } from '../types';
+import { ContentIndex, isMarkdownFile, createIndexCursor, takeIndexChanges } from './contentIndex';
+
+/**
+ * 双链索引 (Link Index)
+ *
+ * 基于全文索引中的笔记内容，记录每个 [[wikilink]] 的来源、目标与上下文行，
+ * 用于反向链接、未链接提及等功能。目标解析规则与 findNodeByName 完全一致。
+ */
+
+export interface LinkIndex {
+  outgoing: Map<string, LinkReference[]>; // source path -> links
+  incoming: Map<string, LinkReference[]>; // resolved target path -> links
+  unresolved: Map<string, LinkReference[]>; // normalized target -> links
+  byTarget: Map<string, Set<LinkReference>>; // normalized target -> links，目录树变化时按目标重新解析
+}
+
+export const WIKILINK_PATTERN = /(!?)\[\[(.*?)(?:\|(.*?))?\]\]/g;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const MAX_CONTEXT_LENGTH = 200;
+
+const normalize = (str: string) => str.toLowerCase().replace(/\\/g, '/');
+
+/**
+ * 递归查找文件节点
+ */
+export const findNodeByName = (nodes: FileSystemNode[], targetName: string, isImage: boolean = false): FileSystemNode | null => {
+  const target = normalize(targetName);
+
+  for (const node of nodes) {
+    if (node.kind === FileType.FILE) {
+      const nodeName = normalize(node.name);
+      const nodePath = normalize(node.path);
+
+      // 1. 尝试完全匹配路径
+      if (nodePath === target) return node;
+
+      // 2. 如果是图片或双链引用，尝试匹配文件名
+      if (isImage || !target.includes('/')) {
+         if (nodeName === target) return node;
+      }
+
+      // 3. 尝试移除扩展名匹配 (for WikiLinks like [[Specs]])
+      const cleanNodeName = nodeName.replace(/\.md$/, '');
+      const cleanNodePath = nodePath.replace(/\.md$/, '');
+      if (target.includes('/')) {
+         if (cleanNodePath === target) return node;
+      } else {
+         if (cleanNodeName === target) return node;
+      }
+    }
+
+    if (node.kind === FileType.DIRECTORY && node.children) {
+      const found = findNodeByName(node.children, targetName, isImage);
+      if (found) return found;
+    }
+  }
+  return null;
+};
+
+/**
+ * 预计算版的 findNodeByName：一次遍历建立查找表，先序遍历中先出现的节点优先，
+ * 因此对任意目标返回的结果与 findNodeByName 相同，但单次查询为 O(1)。
+ */
+export const createLinkResolver = (root: FileSystemNode) => {
+  const table = new Map<string, FileSystemNode>();
+  const claim = (key: string, node: FileSystemNode) => {
+    if (!table.has(key)) table.set(key, node);
+  };
+
+  const walk = (nodes: FileSystemNode[]) => {
+    for (const node of nodes) {
+      if (node.kind === FileType.FILE) {
+        const nodeName = normalize(node.name);
+        const nodePath = normalize(node.path);
+        const cleanNodePath = nodePath.replace(/\.md$/, '');
+        claim(nodePath, node);
+        claim(nodeName, node);
+        if (cleanNodePath.includes('/')) claim(cleanNodePath, node);
+        claim(nodeName.replace(/\.md$/, ''), node);
+      }
+      if (node.kind === FileType.DIRECTORY && node.children) {
+        walk(node.children);
+      }
+    }
+  };
+  walk(root.children || []);
+
+  return (targetName: string): FileSystemNode | null => table.get(normalize(targetName)) || null;
+};
+
+/**
+ * 编辑器 [[ 补全候选：所有笔记，名称可唯一解析到自身时用名称，否则用完整路径
+ */
+export const buildLinkSuggestions = (root: FileSystemNode): LinkSuggestion[] => {
+  const resolve = createLinkResolver(root);
+  const suggestions: LinkSuggestion[] = [];
+  const walk = (nodes: FileSystemNode[]) => {
+    for (const node of nodes) {
+      if (isMarkdownFile(node)) {
+        const title = node.name.replace(/\.md$/i, '');
+        const target = resolve(title)?.path === node.path ? title : node.path.replace(/\.md$/i, '');
+        suggestions.push({ title, path: node.path, target });
+      }
+      if (node.kind === FileType.DIRECTORY && node.children) walk(node.children);
+    }
+  };
+  walk(root.children || []);
+  return suggestions;
+};
+
+/**
+ * 拆分链接目标：`Note#Heading` -> { name: 'Note', subpath: 'Heading' }
+ */
+export const splitLinkTarget = (rawTarget: string) => {
+  const hashIndex = rawTarget.indexOf('#');
+  if (hashIndex === -1) return { name: rawTarget.trim(), subpath: '' };
+  return {
+    name: rawTarget.slice(0, hashIndex).trim(),
+    subpath: rawTarget.slice(hashIndex + 1).trim(),
+  };
+};
+
+const truncateContext = (line: string) => {
+  const trimmed = line.trim();
+  return trimmed.length > MAX_CONTEXT_LENGTH ? `${trimmed.slice(0, MAX_CONTEXT_LENGTH)}…` : trimmed;
+};
+
+/**
+ * 逐行扫描内容中的双链，跳过代码块
+ */
+export const extractLinks = (sourcePath: string, content: string): LinkReference[] => {
+  const links: LinkReference[] = [];
+  let inFence = false;
+
+  content.split(/\r?\n/).forEach((line, idx) => {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence) return;
+
+    for (const match of line.matchAll(WIKILINK_PATTERN)) {
+      const { name, subpath } = splitLinkTarget(match[2]);
+      links.push({
+        sourcePath,
+        target: name,
+        subpath,
+        alias: match[3]?.trim(),
+        isEmbed: match[1] === '!',
+        line: idx + 1,
+        column: match.index || 0,
+        raw: match[0],
+        context: truncateContext(line),
+      });
+    }
+  });
+
+  return links;
+};
+
+const createLinkIndex = (): LinkIndex => ({
+  outgoing: new Map(),
+  incoming: new Map(),
+  unresolved: new Map(),
+  byTarget: new Map(),
+});
+
+// 按解析结果放入 incoming 或 unresolved
+const bucketOf = (index: LinkIndex, link: LinkReference): [Map<string, LinkReference[]>, string] =>
+  link.targetPath !== undefined ? [index.incoming, link.targetPath] : [index.unresolved, normalize(link.target)];
+
+const placeLink = (index: LinkIndex, link: LinkReference) => {
+  const [bucket, key] = bucketOf(index, link);
+  if (!bucket.has(key)) bucket.set(key, []);
+  bucket.get(key)!.push(link);
+};
+
+const unplaceLink = (index: LinkIndex, link: LinkReference) => {
+  const [bucket, key] = bucketOf(index, link);
+  const links = bucket.get(key)?.filter(item => item !== link);
+  if (links && links.length > 0) bucket.set(key, links);
+  else bucket.delete(key);
+};
+
+// 重新提取这些文档的链接；已不在内容索引中的文档移除其链接
+const updateDocuments = (
+  index: LinkIndex,
+  contentIndex: ContentIndex,
+  resolve: (target: string) => FileSystemNode | null,
+  paths: Iterable<string>
+) => {
+  for (const path of paths) {
+    for (const link of index.outgoing.get(path) || []) {
+      unplaceLink(index, link);
+      if (link.target) index.byTarget.get(normalize(link.target))?.delete(link);
+    }
+    index.outgoing.delete(path);
+
+    const doc = contentIndex.docs.get(path);
+    if (!doc) continue;
+    const links = extractLinks(doc.path, doc.content);
+    index.outgoing.set(doc.path, links);
+    for (const link of links) {
+      // [[#Heading]] 指向当前文档
+      link.targetPath = link.target ? resolve(link.target)?.path : doc.path;
+      placeLink(index, link);
+      if (!link.target) continue;
+      const key = normalize(link.target);
+      if (!index.byTarget.has(key)) index.byTarget.set(key, new Set());
+      index.byTarget.get(key)!.add(link);
+    }
+  }
+};
+
+// 目录树变化后按链接目标重新解析，每个目标只解析一次
+const reresolveLinks = (index: LinkIndex, resolve: (target: string) => FileSystemNode | null) => {
+  for (const [key, links] of index.byTarget) {
+    if (links.size === 0) {
+      index.byTarget.delete(key);
+      continue;
+    }
+    const targetPath = resolve(key)?.path;
+    for (const link of links) {
+      if (link.targetPath === targetPath) continue;
+      unplaceLink(index, link);
+      link.targetPath = targetPath;
+      placeLink(index, link);
+    }
+  }
+};
+
+/**
+ * 基于内容索引建立整个仓库的双链索引
+ */
+export const buildLinkIndex = (root: FileSystemNode, contentIndex: ContentIndex): LinkIndex => {
+  const index = createLinkIndex();
+  updateDocuments(index, contentIndex, createLinkResolver(root), contentIndex.docs.keys());
+  return index;
+};
+
+/**
+ * 增量维护的双链索引：同步时只重新提取内容索引中有变化的文档，
+ * 目录树 (根节点) 更换时按链接目标重新解析。每次同步返回新的对象，便于作为渲染依赖
+ */
+export const createLinkIndexer = () => {
+  const cursor = createIndexCursor();
+  let index = createLinkIndex();
+  let root: FileSystemNode | null = null;
+  let resolve: (target: string) => FileSystemNode | null = () => null;
+
+  const sync = (tree: FileSystemNode, contentIndex: ContentIndex): LinkIndex => {
+    const treeChanged = tree !== root;
+    if (treeChanged) {
+      root = tree;
+      resolve = createLinkResolver(tree);
+    }
+    const changes = takeIndexChanges(cursor, contentIndex);
+    if (changes === null) {
+      index = createLinkIndex();
+      updateDocuments(index, contentIndex, resolve, contentIndex.docs.keys());
+    } else {
+      if (treeChanged) reresolveLinks(index, resolve);
+      updateDocuments(index, contentIndex, resolve, changes);
+    }
+    return { ...index };
+  };
+
+  return { sync };
+};
+
+/**
+ * 指向某个文档的反向链接 (不含自身引用)
+ */
+export const getBacklinks = (index: LinkIndex, path: string): LinkReference[] => {
+  return (index.incoming.get(path) || []).filter(link => link.sourcePath !== path);
+};
+
+const escapeRegExp = (str: string) => str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * 查找正文中提及了标题、但没有写成双链的位置
+ */
+export const findUnlinkedMentions = (contentIndex: ContentIndex, path: string, title: string): LinkMention[] => {
+  const needle = title.trim();
+  if (!needle) return [];
+
+  // 拉丁字符标题需要单词边界，中文标题直接子串匹配
+  const isWordLike = /^[\w]/.test(needle) && /[\w]$/.test(needle);
+  const pattern = new RegExp(isWordLike ? `(?<![\\w])${escapeRegExp(needle)}(?![\\w])` : escapeRegExp(needle), 'gi');
+  const mentions: LinkMention[] = [];
+
+  for (const doc of contentIndex.docs.values()) {
+    if (doc.path === path) continue;
+    if (!doc.content.toLowerCase().includes(needle.toLowerCase())) continue;
+
+    // 跳过 Frontmatter
+    const frontmatterEnd = doc.lines[0]?.trim() === '---' ? doc.lines.findIndex((l, i) => i > 0 && l.trim() === '---') : -1;
+    let inFence = false;
+    doc.lines.forEach((line, idx) => {
+      if (idx <= frontmatterEnd) return;
+      if (FENCE_PATTERN.test(line)) {
+        inFence = !inFence;
+        return;
+      }
+      if (inFence) return;
+
+      // 已有的双链、Markdown 链接和行内代码不算提及
+      const masked: [number, number][] = [];
+      for (const m of line.matchAll(/!?\[\[.*?\]\]|\[[^\]]*\]\([^)]*\)|`[^`]*`/g)) {
+        masked.push([m.index || 0, (m.index || 0) + m[0].length]);
+      }
+
+      for (const match of line.matchAll(pattern)) {
+        const column = match.index || 0;
+        if (masked.some(([start, end]) => column >= start && column < end)) continue;
+        mentions.push({
+          sourcePath: doc.path,
+          line: idx + 1,
+          column,
+          text: match[0],
+          context: truncateContext(line),
+        });
+      }
+    });
+  }
+
+  return mentions;
+};
+
+/**
+ * 把一处提及替换为双链；若原文与链接目标不同，保留原文作为别名
+ */
+export const linkMentionInContent = (content: string, mention: LinkMention, linkTarget: string): string | null => {
+  const lines = content.split('\n');
+  const line = lines[mention.line - 1];
+  if (line === undefined) return null;
+  if (line.slice(mention.column, mention.column + mention.text.length) !== mention.text) return null;
+
+  const link = mention.text === linkTarget ? `[[${linkTarget}]]` : `[[${linkTarget}|${mention.text}]]`;
+  lines[mention.line - 1] = line.slice(0, mention.column) + link + line.slice(mention.column + mention.text.length);
+  return lines.join('\n');
+};
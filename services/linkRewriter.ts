@@ -0,0 +1,126 @@
+import { FileSystemNode, LinkReference, LinkRewrite, RenamePlan } from '../types';
+import { sortChildren } from './fileSystem';
+import { LinkIndex, createLinkResolver } from './linkIndex';
+
+/**
+ * 重命名/移动时的双链改写
+ *
+ * 在真正执行重命名前，根据双链索引找出所有指向被重命名文件 (或文件夹内文件) 的链接，
+ * 计算改写后的链接文本，生成可预览的改写计划；确认后再逐个文件应用。
+ */
+
+const isUnder = (path: string, prefix: string) => path === prefix || path.startsWith(`${prefix}/`);
+
+export const remapPath = (path: string, oldPath: string, newPath: string) =>
+  isUnder(path, oldPath) ? newPath + path.slice(oldPath.length) : path;
+
+/**
+ * 复制一份重命名后的目录树，仅用于判断新链接能否被正确解析
+ */
+const simulateRename = (node: FileSystemNode, oldPath: string, newPath: string): FileSystemNode => {
+  const path = remapPath(node.path, oldPath, newPath);
+  const copy: FileSystemNode = {
+    name: path ? path.split('/').pop()! : node.name,
+    kind: node.kind,
+    path,
+  };
+  if (node.children) {
+    copy.children = node.children.map(child => simulateRename(child, oldPath, newPath));
+    sortChildren(copy.children);
+  }
+  return copy;
+};
+
+/**
+ * 为一条链接选择新的目标文本：尽量保持原有写法 (文件名 / 路径、是否带扩展名)，
+ * 文件名形式出现歧义时退回完整路径
+ */
+const chooseTarget = (link: LinkReference, newTargetPath: string, resolve: (name: string) => FileSystemNode | null) => {
+  const keepExtension = !/\.md$/i.test(newTargetPath) || /\.md$/i.test(link.target);
+  const fullPath = keepExtension ? newTargetPath : newTargetPath.replace(/\.md$/i, '');
+  const baseName = fullPath.split('/').pop()!;
+  const usesPath = link.target.replace(/\\/g, '/').includes('/');
+
+  const candidate = usesPath ? fullPath : baseName;
+  return resolve(candidate)?.path === newTargetPath ? candidate : fullPath;
+};
+
+const buildReplacement = (link: LinkReference, newTarget: string) => {
+  const start = link.raw.indexOf('[[') + 2;
+  const targetIndex = link.raw.indexOf(link.target, start);
+  if (targetIndex === -1) return link.raw;
+  return link.raw.slice(0, targetIndex) + newTarget + link.raw.slice(targetIndex + link.target.length);
+};
+
+/**
+ * 生成改写计划；sourcePath 为改写前的路径
+ */
+export const planLinkRewrites = (
+  root: FileSystemNode,
+  linkIndex: LinkIndex,
+  oldPath: string,
+  newPath: string
+): RenamePlan => {
+  const resolve = createLinkResolver(simulateRename(root, oldPath, newPath));
+  const files = new Map<string, LinkRewrite[]>();
+
+  for (const [targetPath, links] of linkIndex.incoming) {
+    if (!isUnder(targetPath, oldPath)) continue;
+    const newTargetPath = remapPath(targetPath, oldPath, newPath);
+
+    for (const link of links) {
+      // [[#Heading]] 这类文内链接不含目标名，无需改写
+      if (!link.target) continue;
+      const newTarget = chooseTarget(link, newTargetPath, resolve);
+      if (newTarget === link.target) continue;
+
+      if (!files.has(link.sourcePath)) files.set(link.sourcePath, []);
+      files.get(link.sourcePath)!.push({
+        sourcePath: link.sourcePath,
+        line: link.line,
+        column: link.column,
+        before: link.raw,
+        after: buildReplacement(link, newTarget),
+      });
+    }
+  }
+
+  return {
+    oldPath,
+    newPath,
+    files: Array.from(files.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([path, edits]) => ({ path, edits: edits.sort((a, b) => a.line - b.line || a.column - b.column) })),
+  };
+};
+
+export const countRewrites = (plan: RenamePlan) =>
+  plan.files.reduce((total, file) => total + file.edits.length, 0);
+
+/**
+ * 把改写应用到文件内容上；返回新内容和未能应用的改写 (内容已变化)
+ */
+export const applyLinkRewrites = (content: string, edits: LinkRewrite[]) => {
+  const lines = content.split('\n');
+  const failed: LinkRewrite[] = [];
+
+  // 同一行从后往前替换，避免列偏移
+  const ordered = [...edits].sort((a, b) => b.line - a.line || b.column - a.column);
+  for (const edit of ordered) {
+    const line = lines[edit.line - 1];
+    if (line === undefined) {
+      failed.push(edit);
+      continue;
+    }
+    const column = line.slice(edit.column, edit.column + edit.before.length) === edit.before
+      ? edit.column
+      : line.indexOf(edit.before);
+    if (column === -1) {
+      failed.push(edit);
+      continue;
+    }
+    lines[edit.line - 1] = line.slice(0, column) + edit.after + line.slice(column + edit.before.length);
+  }
+
+  return { content: lines.join('\n'), failed };
+};
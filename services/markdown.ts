@@ -0,0 +1,259 @@
+import { INLINE_TAG_PATTERN, normalizeTag } from './tagIndex';
+
+/**
+ * Markdown 预处理工具
+ *
+ * 阅读视图、嵌入预览等渲染入口共用的规则：标题锚点 (generateId)、
+ * [[wikilink]] 转换、^block-id 标记，以及按标题 / 块截取文档片段。
+ */
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const BLOCK_MARKER_PATTERN = /(?:^|[ \t]+)\^([A-Za-z0-9-]+)[ \t]*$/;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s/;
+const FILE_EXTENSION_PATTERN = /\.([A-Za-z0-9]{1,5})$/;
+
+export const generateId = (text: string) => {
+  return text
+    .toLowerCase()
+    .replace(/[^\w\u4e00-\u9fa5]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    || 'heading';
+};
+
+export const stripMarkdown = (text: string) => {
+  return text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
+    .replace(/(\*\*|__)(.*?)\1/g, '$2')
+    .replace(/(\*|_)(.*?)\1/g, '$2')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .trim();
+};
+
+/**
+ * 标题锚点：`Note#A#B` 这类多级标题路径取最后一级
+ */
+export const headingAnchorId = (subpath: string) => {
+  const segments = subpath.split('#').filter(Boolean);
+  return generateId(stripMarkdown(segments[segments.length - 1] || subpath));
+};
+
+export interface OutlineItem {
+  id: string;
+  text: string;
+  level: number;
+}
+
+/**
+ * 大纲：一至四级标题及其锚点，与阅读视图中的标题 id 一致
+ */
+export const extractOutline = (body: string): OutlineItem[] => {
+  const processedContent = preprocessMarkdown(body);
+  const headingRegex = /^(#{1,4})\s+(.+)$/gm;
+  const items: OutlineItem[] = [];
+  let match;
+  while ((match = headingRegex.exec(processedContent)) !== null) {
+    const text = stripMarkdown(match[2].trim());
+    items.push({ id: generateId(text), text, level: match[1].length });
+  }
+  return items;
+};
+
+/**
+ * 嵌入目标是否为笔记 (无扩展名或 .md)，否则按附件处理
+ */
+export const isNoteTarget = (name: string) => {
+  const ext = name.match(FILE_EXTENSION_PATTERN);
+  return !ext || ext[1].toLowerCase() === 'md';
+};
+
+/**
+ * 行内 #tag -> [#tag](tag:...)，跳过行内代码、[[双链]] 与 Markdown 链接地址 (如 [x](#anchor))
+ */
+const linkInlineTags = (line: string) => {
+  return line.split(/(`[^`]*`|\[\[[^\]]*\]\])/).map((segment, i) => {
+    if (i % 2 === 1) return segment;
+    return segment.replace(INLINE_TAG_PATTERN, (match, rawTag, offset) => {
+      const tag = normalizeTag(rawTag);
+      if (!tag || /^\d+$/.test(tag)) return match;
+      if (match.startsWith('(') && segment[offset - 1] === ']') return match;
+      const prefix = match.slice(0, match.indexOf('#'));
+      return `${prefix}[#${tag}](tag:${encodeURIComponent(tag)})${rawTag.slice(tag.length)}`;
+    });
+  }).join('');
+};
+
+/**
+ * 渲染前预处理：
+ * - 注释替换为等量换行，保持行号不变
+ * - 去掉 ^block-id 标记、行内 #tag 转为标签链接 (代码块内除外)
+ * - [[Note#Heading|alias]] -> [alias](wikilink:...)，![[Note]] -> ![](wikiembed:...)，![[img.png]] -> ![](wikiimage:...)
+ */
+export const preprocessMarkdown = (body: string) => {
+  const withoutComments = body.replace(/<!--[\s\S]*?-->/g, (comment) => comment.replace(/[^\n]/g, ''));
+
+  let inFence = false;
+  const lines = withoutComments.split('\n').map(line => {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+      return line;
+    }
+    return inFence ? line : linkInlineTags(line.replace(BLOCK_MARKER_PATTERN, ''));
+  });
+
+  return lines.join('\n').replace(/(!?)\[\[(.*?)(?:\|(.*?))?\]\]/g, (match, isEmbed, link, alias) => {
+    const target = link.trim();
+    const hashIndex = target.indexOf('#');
+    const name = hashIndex === -1 ? target : target.slice(0, hashIndex).trim();
+    const subpath = hashIndex === -1 ? '' : target.slice(hashIndex + 1).trim();
+    const defaultText = !subpath ? target : name ? `${name} > ${subpath.replace(/#/g, ' > ')}` : subpath;
+    const text = alias ? alias.trim() : defaultText;
+    const href = encodeURIComponent(target);
+
+    if (isEmbed) {
+      return isNoteTarget(name) ? `![${text}](wikiembed:${href})` : `![${text}](wikiimage:${href})`;
+    }
+    return `[${text}](wikilink:${href})`;
+  });
+};
+
+/**
+ * 查找 ^block-id 标记所在行 (0-based)，找不到返回 -1
+ */
+export const findBlockLine = (lines: string[], blockId: string) => {
+  let inFence = false;
+  for (let i = 0; i < lines.length; i++) {
+    if (FENCE_PATTERN.test(lines[i])) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+    const match = lines[i].match(BLOCK_MARKER_PATTERN);
+    if (match && match[1].toLowerCase() === blockId.toLowerCase()) return i;
+  }
+  return -1;
+};
+
+/**
+ * 查找标题所在行 (0-based)，找不到返回 -1
+ */
+export const findHeadingLine = (lines: string[], subpath: string) => {
+  const wanted = headingAnchorId(subpath);
+  let inFence = false;
+  for (let i = 0; i < lines.length; i++) {
+    if (FENCE_PATTERN.test(lines[i])) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+    const match = lines[i].match(HEADING_PATTERN);
+    if (match && generateId(stripMarkdown(match[2])) === wanted) return i;
+  }
+  return -1;
+};
+
+/**
+ * 按 `#Heading` 或 `#^block-id` 截取文档片段；subpath 为空时返回全文，找不到返回 null
+ */
+export const extractSection = (body: string, subpath: string): string | null => {
+  if (!subpath) return body;
+  const lines = body.split(/\r?\n/);
+
+  if (subpath.startsWith('^')) {
+    const index = findBlockLine(lines, subpath.slice(1));
+    if (index === -1) return null;
+
+    // 单独一行的标记指向上一个块
+    const isStandalone = lines[index].trim().startsWith('^');
+    let end = isStandalone ? index - 1 : index;
+    while (end >= 0 && isStandalone && !lines[end].trim()) end--;
+    if (end < 0) return null;
+    if (LIST_ITEM_PATTERN.test(lines[end]) && !isStandalone) return lines[end];
+
+    // 段落以空行或标题为界
+    const isBoundary = (line: string) => !line.trim() || HEADING_PATTERN.test(line);
+    let start = end;
+    while (start > 0 && !HEADING_PATTERN.test(lines[start]) && !isBoundary(lines[start - 1])) start--;
+    let stop = end;
+    while (!isStandalone && stop < lines.length - 1 && !isBoundary(lines[stop + 1])) stop++;
+    return lines.slice(start, stop + 1).join('\n');
+  }
+
+  const index = findHeadingLine(lines, subpath);
+  if (index === -1) return null;
+  const level = lines[index].match(HEADING_PATTERN)![1].length;
+
+  let inFence = false;
+  let end = lines.length;
+  for (let i = index + 1; i < lines.length; i++) {
+    if (FENCE_PATTERN.test(lines[i])) inFence = !inFence;
+    if (inFence) continue;
+    const match = lines[i].match(HEADING_PATTERN);
+    if (match && match[1].length <= level) {
+      end = i;
+      break;
+    }
+  }
+  return lines.slice(index, end).join('\n').trim();
+};
+
+/**
+ * 文档的第一节：开头的标题及其正文；若标题前已有正文，则截止到第一个标题
+ */
+export const extractFirstSection = (body: string) => {
+  const lines = body.split(/\r?\n/);
+  let inFence = false;
+  let seenContent = false;
+  for (let i = 0; i < lines.length; i++) {
+    if (FENCE_PATTERN.test(lines[i])) inFence = !inFence;
+    if (!inFence && seenContent && HEADING_PATTERN.test(lines[i])) {
+      return lines.slice(0, i).join('\n').trim();
+    }
+    if (lines[i].trim()) seenContent = true;
+  }
+  return body.trim();
+};
+
+export interface MarkdownBlock {
+  start: number; // 起始行 (0-based)
+  end: number; // 结束行 (含)
+  kind: 'frontmatter' | 'fence' | 'text';
+}
+
+/**
+ * 按空行切分块，供实时预览逐块渲染；Frontmatter 与代码块 (含其中的空行) 各为一块
+ */
+export const splitBlocks = (lines: string[]): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  if (/^\uFEFF?---\s*$/.test(lines[0] || '')) {
+    const close = lines.findIndex((line, idx) => idx > 0 && /^---\s*$/.test(line));
+    if (close !== -1) {
+      blocks.push({ start: 0, end: close, kind: 'frontmatter' });
+      i = close + 1;
+    }
+  }
+
+  while (i < lines.length) {
+    if (!lines[i].trim()) {
+      i++;
+      continue;
+    }
+    const fence = lines[i].match(FENCE_PATTERN);
+    if (fence) {
+      let end = i + 1;
+      while (end < lines.length && !lines[end].trim().startsWith(fence[1])) end++;
+      blocks.push({ start: i, end: Math.min(end, lines.length - 1), kind: 'fence' });
+      i = end + 1;
+      continue;
+    }
+    const start = i;
+    while (i + 1 < lines.length && lines[i + 1].trim() && !FENCE_PATTERN.test(lines[i + 1])) i++;
+    blocks.push({ start, end: i, kind: 'text' });
+    i++;
+  }
+  return blocks;
+};
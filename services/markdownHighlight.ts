@@ -0,0 +1,137 @@
+/**
+ * 编辑器源码高亮
+ *
+ * 逐行切分为带类型的片段，供编辑器覆盖层渲染；片段拼接后必须与原行完全一致，
+ * 且只改变颜色与字重，不改变字宽，保证与下方 textarea 的排版逐字对齐。
+ */
+
+export type HighlightType =
+  | 'heading' | 'marker' | 'bold' | 'italic' | 'strike' | 'mark' | 'code'
+  | 'link' | 'url' | 'wikilink' | 'tag' | 'blockId' | 'comment' | 'task' | 'taskDone';
+
+export interface HighlightToken {
+  text: string;
+  type?: HighlightType;
+}
+
+export interface HighlightLine {
+  kind?: 'heading' | 'quote' | 'fence' | 'code' | 'frontmatter' | 'comment' | 'hr';
+  tokens: HighlightToken[];
+}
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const HEADING_PATTERN = /^(#{1,6}\s+)(.*)$/;
+const HR_PATTERN = /^\s*([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE_PATTERN = /^(\s*(?:>\s?)+)(.*)$/;
+const LIST_PATTERN = /^(\s*(?:[-*+]|\d+[.)])\s+)(?:(\[.\])(\s+|$))?(.*)$/;
+
+// 行内语法，按出现位置依次匹配；捕获组与 INLINE_RULES 一一对应
+const INLINE_RULES: { pattern: string; type: HighlightType }[] = [
+  { pattern: '`[^`\\n]+`', type: 'code' },
+  { pattern: '%%.*?%%', type: 'comment' },
+  { pattern: '!?\\[\\[[^\\]\\n]+\\]\\]', type: 'wikilink' },
+  { pattern: '!?\\[[^\\]\\n]*\\]\\([^)\\n]*\\)', type: 'link' },
+  { pattern: '<?https?:\\/\\/[^\\s>)]+>?', type: 'url' },
+  { pattern: '(?:\\*\\*|__)(?=\\S)[^\\n]*?\\S(?:\\*\\*|__)', type: 'bold' },
+  { pattern: '\\*(?=[^\\s*])[^*\\n]*?[^\\s*]?\\*|\\b_(?=[^\\s_])[^_\\n]*?[^\\s_]?_\\b', type: 'italic' },
+  { pattern: '~~[^~\\n]+~~', type: 'strike' },
+  { pattern: '==[^=\\n]+==', type: 'mark' },
+  { pattern: '(?<=^|[\\s(（，,])#[\\p{L}\\p{N}_\\-/]*[\\p{L}_\\-/][\\p{L}\\p{N}_\\-/]*', type: 'tag' },
+  { pattern: '(?<=\\s)\\^[A-Za-z0-9-]+\\s*$', type: 'blockId' },
+];
+const INLINE_PATTERN = new RegExp(INLINE_RULES.map(rule => `(${rule.pattern})`).join('|'), 'gu');
+
+const tokenizeInline = (text: string, base?: HighlightType): HighlightToken[] => {
+  const tokens: HighlightToken[] = [];
+  let last = 0;
+  INLINE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = INLINE_PATTERN.exec(text)) !== null) {
+    if (match.index > last) tokens.push({ text: text.slice(last, match.index), type: base });
+    const ruleIndex = match.slice(1).findIndex(group => group !== undefined);
+    tokens.push({ text: match[0], type: INLINE_RULES[ruleIndex].type });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) tokens.push({ text: text.slice(last), type: base });
+  return tokens;
+};
+
+const highlightLine = (line: string): HighlightLine => {
+  const heading = line.match(HEADING_PATTERN);
+  if (heading) {
+    return { kind: 'heading', tokens: [{ text: heading[1], type: 'marker' }, ...tokenizeInline(heading[2], 'heading')] };
+  }
+  if (HR_PATTERN.test(line)) return { kind: 'hr', tokens: [{ text: line, type: 'marker' }] };
+
+  const quote = line.match(QUOTE_PATTERN);
+  const prefix: HighlightToken[] = [];
+  let rest = line;
+  if (quote) {
+    prefix.push({ text: quote[1], type: 'marker' });
+    rest = quote[2];
+  }
+
+  const list = rest.match(LIST_PATTERN);
+  if (list) {
+    prefix.push({ text: list[1], type: 'marker' });
+    const done = !!list[2] && list[2].toLowerCase() === '[x]';
+    if (list[2]) prefix.push({ text: list[2] + list[3], type: done ? 'taskDone' : 'task' });
+    return { kind: quote ? 'quote' : undefined, tokens: [...prefix, ...tokenizeInline(list[4])] };
+  }
+
+  return { kind: quote ? 'quote' : undefined, tokens: [...prefix, ...tokenizeInline(rest)] };
+};
+
+/**
+ * 高亮整篇文档：处理 Frontmatter、代码块与多行 %% 注释等跨行状态
+ */
+export const highlightMarkdown = (text: string): HighlightLine[] => {
+  const lines = text.split('\n');
+  const result: HighlightLine[] = [];
+  let state: 'normal' | 'frontmatter' | 'fence' | 'comment' = 'normal';
+  let fence = '';
+
+  lines.forEach((rawLine, idx) => {
+    const line = rawLine.replace(/\r$/, '');
+    const plain = (kind: HighlightLine['kind']): HighlightLine => ({ kind, tokens: line ? [{ text: line }] : [] });
+
+    if (state === 'frontmatter') {
+      if (/^---\s*$/.test(line)) state = 'normal';
+      result.push(plain('frontmatter'));
+      return;
+    }
+    if (state === 'fence') {
+      if (line.trim().startsWith(fence)) state = 'normal';
+      result.push(state === 'fence' ? plain('code') : plain('fence'));
+      return;
+    }
+    if (state === 'comment') {
+      if (line.includes('%%')) state = 'normal';
+      result.push(plain('comment'));
+      return;
+    }
+
+    if (idx === 0 && /^\uFEFF?---\s*$/.test(line)) {
+      state = 'frontmatter';
+      result.push(plain('frontmatter'));
+      return;
+    }
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      state = 'fence';
+      fence = fenceMatch[1];
+      result.push(plain('fence'));
+      return;
+    }
+    // 未闭合的 %% 开启多行注释
+    if ((line.match(/%%/g) || []).length % 2 === 1 && line.trim().startsWith('%%')) {
+      state = 'comment';
+      result.push(plain('comment'));
+      return;
+    }
+
+    result.push(highlightLine(line));
+  });
+
+  return result;
+};
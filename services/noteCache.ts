@@ -0,0 +1,50 @@
+import { FileSystemNode } from '../types';
+import { readFileContent } from './fileSystem';
+
+/**
+ * 笔记内容缓存
+ *
+ * 悬停预览、嵌入等场景会反复读取同一批笔记；按路径缓存 readFileContent 的结果，
+ * 同一笔记的并发读取共用一个 Promise。超出容量时淘汰最久未使用的条目。
+ */
+
+export interface NoteCache {
+  read: (node: FileSystemNode) => Promise<string>;
+  invalidate: (path?: string) => void; // 不传路径时清空
+}
+
+export const createNoteCache = (capacity: number = 200): NoteCache => {
+  const entries = new Map<string, Promise<string>>();
+
+  const read = (node: FileSystemNode) => {
+    const cached = entries.get(node.path);
+    if (cached) {
+      // 重新插入，保持 Map 的插入顺序即使用顺序
+      entries.delete(node.path);
+      entries.set(node.path, cached);
+      return cached;
+    }
+
+    const pending = readFileContent(node).catch((error) => {
+      if (entries.get(node.path) === pending) entries.delete(node.path);
+      throw error;
+    });
+    entries.set(node.path, pending);
+    if (entries.size > capacity) {
+      entries.delete(entries.keys().next().value!);
+    }
+    return pending;
+  };
+
+  const invalidate = (path?: string) => {
+    if (path === undefined) {
+      entries.clear();
+      return;
+    }
+    for (const key of Array.from(entries.keys())) {
+      if (key === path || key.startsWith(`${path}/`)) entries.delete(key);
+    }
+  };
+
+  return { read, invalidate };
+};
@@ -0,0 +1,561 @@
+import { TaskItem } from '../types';
+import { ContentIndex, IndexedDocument, createIndexCursor, takeIndexChanges } from './contentIndex';
+import { TagIndex } from './tagIndex';
+import { parseFrontmatter } from './frontmatter';
+import { extractTasks } from './tasks';
+
+/**
+ * 查询块 (```query)
+ *
+ * 类 Dataview 的查询语言，基于每篇笔记的 Frontmatter 与文件信息 (file.*) 做筛选、排序与汇总：
+ *
+ *   TABLE author, date AS "发布日期"
+ *   FROM "Projects" and #project
+ *   WHERE status = "published" and date >= 2023-01-01
+ *   SORT date DESC
+ *   LIMIT 10
+ *
+ * 查询类型：LIST [表达式] / TABLE 表达式 [AS "列名"], ... / TASK
+ */
+
+export interface NoteRecord {
+  path: string;
+  name: string;
+  fields: Record<string, any>; // Frontmatter + file.*
+  tasks: () => TaskItem[]; // 仅 TASK 查询需要，按需提取
+}
+
+export type QueryIndex = NoteRecord[];
+
+export type Expr =
+  | { kind: 'literal'; value: any }
+  | { kind: 'field'; path: string[] }
+  | { kind: 'binary'; op: string; left: Expr; right: Expr }
+  | { kind: 'not'; expr: Expr }
+  | { kind: 'call'; name: string; args: Expr[] };
+
+export type Source =
+  | { kind: 'folder'; path: string }
+  | { kind: 'tag'; tag: string }
+  | { kind: 'and' | 'or'; left: Source; right: Source }
+  | { kind: 'not'; source: Source };
+
+export interface Query {
+  type: 'LIST' | 'TABLE' | 'TASK';
+  fields: { expr: Expr; label: string }[];
+  from: Source | null;
+  where: Expr | null;
+  sort: { expr: Expr; descending: boolean }[];
+  limit: number | null;
+}
+
+export type QueryResult =
+  | { type: 'LIST'; items: { path: string; name: string; value?: any }[] }
+  | { type: 'TABLE'; headers: string[]; rows: { path: string; name: string; cells: any[] }[] }
+  | { type: 'TASK'; groups: { path: string; name: string; tasks: TaskItem[] }[] };
+
+// --- Index ---
+
+const createNoteRecord = (doc: IndexedDocument, tagIndex: TagIndex): NoteRecord => {
+  const { metadata } = parseFrontmatter(doc.content);
+  const slash = doc.path.lastIndexOf('/');
+  const dot = doc.name.lastIndexOf('.');
+  const fields: Record<string, any> = { ...(metadata || {}) };
+  fields.file = {
+    name: dot > 0 ? doc.name.slice(0, dot) : doc.name,
+    path: doc.path,
+    folder: slash === -1 ? '' : doc.path.slice(0, slash),
+    ext: dot > 0 ? doc.name.slice(dot + 1) : '',
+    size: doc.content.length,
+    tags: tagIndex.notes.get(doc.path) || [],
+  };
+
+  let tasks: TaskItem[] | null = null;
+  return {
+    path: doc.path,
+    name: doc.name,
+    fields,
+    tasks: () => tasks || (tasks = extractTasks(doc.path, doc.content)),
+  };
+};
+
+export const buildQueryIndex = (contentIndex: ContentIndex, tagIndex: TagIndex): QueryIndex => {
+  return Array.from(contentIndex.docs.values())
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .map(doc => createNoteRecord(doc, tagIndex));
+};
+
+// 按路径排序的记录中二分查找，返回位置及是否存在
+const findRecord = (records: QueryIndex, path: string): [number, boolean] => {
+  let low = 0;
+  let high = records.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    const order = records[mid].path.localeCompare(path);
+    if (order === 0) return [mid, true];
+    if (order < 0) low = mid + 1;
+    else high = mid;
+  }
+  return [low, false];
+};
+
+/**
+ * 增量维护的查询索引：同步时只重建内容索引中有变化的文档的记录 (标签随内容一起变化)；
+ * 没有变化时返回同一数组，查询不必重新执行
+ */
+export const createQueryIndexer = () => {
+  const cursor = createIndexCursor();
+  let records: QueryIndex = [];
+
+  const sync = (contentIndex: ContentIndex, tagIndex: TagIndex): QueryIndex => {
+    const changes = takeIndexChanges(cursor, contentIndex);
+    if (changes === null) {
+      records = buildQueryIndex(contentIndex, tagIndex);
+      return records;
+    }
+    if (changes.length === 0) return records;
+    records = [...records];
+    for (const path of changes) {
+      const [position, found] = findRecord(records, path);
+      const doc = contentIndex.docs.get(path);
+      if (found && doc) records[position] = createNoteRecord(doc, tagIndex);
+      else if (found) records.splice(position, 1);
+      else if (doc) records.splice(position, 0, createNoteRecord(doc, tagIndex));
+    }
+    return records;
+  };
+
+  return { sync };
+};
+
+// --- Tokenizer ---
+
+interface Token {
+  type: 'string' | 'number' | 'ident' | 'tag' | 'op' | 'eof';
+  value: string;
+  start: number;
+  end: number;
+}
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '=', '<', '>', '(', ')', ',', '!', '-'];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const rest = source.slice(i);
+    const c = source[i];
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+
+    if (c === '"' || c === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== c) {
+        if (source[j] === '\\' && j + 1 < source.length) j++;
+        value += source[j++];
+      }
+      if (j >= source.length) throw new Error(`字符串缺少结束引号 (位置 ${i + 1})`);
+      tokens.push({ type: 'string', value, start: i, end: j + 1 });
+      i = j + 1;
+      continue;
+    }
+
+    // 日期字面量 2023-10-27 按字符串处理，便于与 Frontmatter 中的日期比较
+    const date = rest.match(/^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2})?)?/);
+    if (date) {
+      tokens.push({ type: 'string', value: date[0], start: i, end: i + date[0].length });
+      i += date[0].length;
+      continue;
+    }
+
+    const number = rest.match(/^\d+(?:\.\d+)?/);
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], start: i, end: i + number[0].length });
+      i += number[0].length;
+      continue;
+    }
+
+    const tag = rest.match(/^#[\p{L}\p{N}_\-/]+/u);
+    if (tag) {
+      tokens.push({ type: 'tag', value: tag[0].slice(1), start: i, end: i + tag[0].length });
+      i += tag[0].length;
+      continue;
+    }
+
+    const ident = rest.match(/^[\p{L}_][\p{L}\p{N}_.\-]*/u);
+    if (ident) {
+      tokens.push({ type: 'ident', value: ident[0], start: i, end: i + ident[0].length });
+      i += ident[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find(o => rest.startsWith(o));
+    if (op) {
+      tokens.push({ type: 'op', value: op, start: i, end: i + op.length });
+      i += op.length;
+      continue;
+    }
+
+    throw new Error(`无法识别的字符 "${c}" (位置 ${i + 1})`);
+  }
+  tokens.push({ type: 'eof', value: '', start: source.length, end: source.length });
+  return tokens;
+};
+
+// --- Parser ---
+
+const FUNCTIONS: Record<string, (...args: any[]) => any> = {
+  contains: (haystack: any, needle: any) => {
+    if (Array.isArray(haystack)) return haystack.some(item => looseEquals(item, needle, true));
+    if (haystack === null || haystack === undefined) return false;
+    return String(haystack).toLowerCase().includes(String(needle).toLowerCase());
+  },
+  startswith: (text: any, prefix: any) => text !== null && text !== undefined && String(text).startsWith(String(prefix)),
+  endswith: (text: any, suffix: any) => text !== null && text !== undefined && String(text).endsWith(String(suffix)),
+  lower: (text: any) => text === null || text === undefined ? text : String(text).toLowerCase(),
+  upper: (text: any) => text === null || text === undefined ? text : String(text).toUpperCase(),
+  length: (value: any) => value === null || value === undefined ? 0 : Array.isArray(value) ? value.length : String(value).length,
+  default: (value: any, fallback: any) => value === null || value === undefined || value === '' ? fallback : value,
+  date: (value: any) => {
+    if (value === null || value === undefined) return null;
+    const match = String(value).match(/^\d{4}-\d{2}-\d{2}/);
+    return match ? match[0] : null;
+  },
+  today: () => {
+    const now = new Date();
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+  },
+};
+
+const CLAUSES = ['FROM', 'WHERE', 'SORT', 'LIMIT'];
+
+export const parseQuery = (source: string): Query => {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const isKeyword = (token: Token, ...words: string[]) => token.type === 'ident' && words.includes(token.value.toUpperCase());
+  const isOp = (token: Token, ...ops: string[]) => token.type === 'op' && ops.includes(token.value);
+  const describe = (token: Token) => token.type === 'eof' ? '查询结尾' : `"${token.value}"`;
+  const expectOp = (op: string) => {
+    const token = next();
+    if (!isOp(token, op)) throw new Error(`应为 "${op}"，实际为 ${describe(token)}`);
+  };
+  const atClauseEnd = () => peek().type === 'eof' || isKeyword(peek(), ...CLAUSES);
+
+  // 表达式：OR > AND > NOT > 比较 > 基本项
+  const parseOr = (): Expr => {
+    let left = parseAnd();
+    while (isKeyword(peek(), 'OR') || isOp(peek(), '||')) {
+      next();
+      left = { kind: 'binary', op: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): Expr => {
+    let left = parseNot();
+    while (isKeyword(peek(), 'AND') || isOp(peek(), '&&')) {
+      next();
+      left = { kind: 'binary', op: 'and', left, right: parseNot() };
+    }
+    return left;
+  };
+
+  const parseNot = (): Expr => {
+    if (isKeyword(peek(), 'NOT') || isOp(peek(), '!')) {
+      next();
+      return { kind: 'not', expr: parseNot() };
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): Expr => {
+    const left = parsePrimary();
+    if (isOp(peek(), '=', '==', '!=', '<', '<=', '>', '>=')) {
+      const op = next().value;
+      return { kind: 'binary', op: op === '==' ? '=' : op, left, right: parsePrimary() };
+    }
+    return left;
+  };
+
+  const parsePrimary = (): Expr => {
+    const token = next();
+    if (isOp(token, '(')) {
+      const expr = parseOr();
+      expectOp(')');
+      return expr;
+    }
+    if (isOp(token, '-') && peek().type === 'number') {
+      return { kind: 'literal', value: -Number(next().value) };
+    }
+    if (token.type === 'string') return { kind: 'literal', value: token.value };
+    if (token.type === 'number') return { kind: 'literal', value: Number(token.value) };
+    if (token.type === 'tag') return { kind: 'literal', value: token.value };
+    if (token.type === 'ident') {
+      const upper = token.value.toUpperCase();
+      if (upper === 'TRUE') return { kind: 'literal', value: true };
+      if (upper === 'FALSE') return { kind: 'literal', value: false };
+      if (upper === 'NULL') return { kind: 'literal', value: null };
+      if (isOp(peek(), '(')) {
+        const name = token.value.toLowerCase();
+        if (!FUNCTIONS[name]) throw new Error(`未知函数 ${token.value}()`);
+        next();
+        const args: Expr[] = [];
+        while (!isOp(peek(), ')')) {
+          args.push(parseOr());
+          if (!isOp(peek(), ',')) break;
+          next();
+        }
+        expectOp(')');
+        return { kind: 'call', name, args };
+      }
+      return { kind: 'field', path: token.value.split('.').filter(Boolean) };
+    }
+    throw new Error(`无法解析表达式：意外的 ${describe(token)}`);
+  };
+
+  // FROM "folder" / #tag，可用 and / or / - 组合
+  const parseSourceOr = (): Source => {
+    let left = parseSourceAnd();
+    while (isKeyword(peek(), 'OR') || isOp(peek(), '||')) {
+      next();
+      left = { kind: 'or', left, right: parseSourceAnd() };
+    }
+    return left;
+  };
+
+  const parseSourceAnd = (): Source => {
+    let left = parseSourceNot();
+    while (isKeyword(peek(), 'AND') || isOp(peek(), '&&')) {
+      next();
+      left = { kind: 'and', left, right: parseSourceNot() };
+    }
+    return left;
+  };
+
+  const parseSourceNot = (): Source => {
+    const token = next();
+    if (isKeyword(token, 'NOT') || isOp(token, '-', '!')) return { kind: 'not', source: parseSourceNot() };
+    if (isOp(token, '(')) {
+      const source = parseSourceOr();
+      expectOp(')');
+      return source;
+    }
+    if (token.type === 'string') return { kind: 'folder', path: token.value.replace(/^\/+|\/+$/g, '') };
+    if (token.type === 'tag') return { kind: 'tag', tag: token.value.toLowerCase() };
+    throw new Error(`FROM 只支持 "文件夹" 与 #标签，实际为 ${describe(token)}`);
+  };
+
+  const header = next();
+  if (!isKeyword(header, 'LIST', 'TABLE', 'TASK')) {
+    throw new Error('查询须以 LIST、TABLE 或 TASK 开头');
+  }
+  const query: Query = {
+    type: header.value.toUpperCase() as Query['type'],
+    fields: [],
+    from: null,
+    where: null,
+    sort: [],
+    limit: null,
+  };
+
+  if (query.type !== 'TASK') {
+    while (!atClauseEnd()) {
+      const start = peek().start;
+      const expr = parseOr();
+      let label = source.slice(start, tokens[pos - 1].end).trim();
+      if (isKeyword(peek(), 'AS')) {
+        next();
+        const name = next();
+        if (name.type !== 'string' && name.type !== 'ident') throw new Error('AS 之后应为列名');
+        label = name.value;
+      }
+      query.fields.push({ expr, label });
+      if (!isOp(peek(), ',')) break;
+      next();
+    }
+    if (query.type === 'LIST' && query.fields.length > 1) throw new Error('LIST 只能显示一个表达式');
+  }
+
+  while (peek().type !== 'eof') {
+    const clause = next();
+    const keyword = clause.value.toUpperCase();
+    if (!isKeyword(clause, ...CLAUSES)) throw new Error(`未知的子句 ${describe(clause)}`);
+
+    if (keyword === 'FROM') {
+      const source = parseSourceOr();
+      query.from = query.from ? { kind: 'and', left: query.from, right: source } : source;
+    } else if (keyword === 'WHERE') {
+      const expr = parseOr();
+      query.where = query.where ? { kind: 'binary', op: 'and', left: query.where, right: expr } : expr;
+    } else if (keyword === 'SORT') {
+      do {
+        if (isOp(peek(), ',')) next();
+        const expr = parseOr();
+        let descending = false;
+        if (isKeyword(peek(), 'ASC', 'ASCENDING', 'DESC', 'DESCENDING')) {
+          descending = next().value.toUpperCase().startsWith('DESC');
+        }
+        query.sort.push({ expr, descending });
+      } while (isOp(peek(), ','));
+    } else {
+      const count = next();
+      if (count.type !== 'number') throw new Error('LIMIT 之后应为数字');
+      query.limit = Math.floor(Number(count.value));
+    }
+  }
+
+  return query;
+};
+
+// --- Evaluation ---
+
+const isNil = (value: any) => value === null || value === undefined;
+
+// 字段名不区分大小写
+const lookup = (value: any, key: string) => {
+  if (isNil(value) || typeof value !== 'object') return undefined;
+  if (key in value) return value[key];
+  const lower = key.toLowerCase();
+  const match = Object.keys(value).find(k => k.toLowerCase() === lower);
+  return match === undefined ? undefined : value[match];
+};
+
+const looseEquals = (a: any, b: any, ignoreCase: boolean = false): boolean => {
+  if (isNil(a) || isNil(b)) return isNil(a) && isNil(b);
+  if (Array.isArray(a) && !Array.isArray(b)) return a.some(item => looseEquals(item, b, ignoreCase));
+  if (Array.isArray(a) || Array.isArray(b)) return JSON.stringify(a) === JSON.stringify(b);
+  if (typeof a === 'number' || typeof b === 'number') return Number(a) === Number(b);
+  if (typeof a === 'boolean' || typeof b === 'boolean') return String(a) === String(b);
+  return ignoreCase ? String(a).toLowerCase() === String(b).toLowerCase() : String(a) === String(b);
+};
+
+// 排序比较：空值排在最后，数字按数值，其余按字符串 (日期字符串自然有序)
+export const compareValues = (a: any, b: any): number => {
+  if (isNil(a) || isNil(b)) return isNil(a) ? (isNil(b) ? 0 : 1) : -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+  const textA = Array.isArray(a) ? a.join(', ') : String(a);
+  const textB = Array.isArray(b) ? b.join(', ') : String(b);
+  return textA.localeCompare(textB, undefined, { numeric: true });
+};
+
+export const evaluate = (expr: Expr, scope: Record<string, any>): any => {
+  switch (expr.kind) {
+    case 'literal':
+      return expr.value;
+    case 'field':
+      return expr.path.reduce((value, key) => lookup(value, key), scope as any);
+    case 'not':
+      return !truthy(evaluate(expr.expr, scope));
+    case 'call':
+      return FUNCTIONS[expr.name](...expr.args.map(arg => evaluate(arg, scope)));
+    case 'binary': {
+      if (expr.op === 'and') return truthy(evaluate(expr.left, scope)) && truthy(evaluate(expr.right, scope));
+      if (expr.op === 'or') return truthy(evaluate(expr.left, scope)) || truthy(evaluate(expr.right, scope));
+      const left = evaluate(expr.left, scope);
+      const right = evaluate(expr.right, scope);
+      if (expr.op === '=') return looseEquals(left, right);
+      if (expr.op === '!=') return !looseEquals(left, right);
+      if (isNil(left) || isNil(right)) return false;
+      const order = compareValues(left, right);
+      if (expr.op === '<') return order < 0;
+      if (expr.op === '<=') return order <= 0;
+      if (expr.op === '>') return order > 0;
+      return order >= 0;
+    }
+  }
+};
+
+const truthy = (value: any) => {
+  if (Array.isArray(value)) return value.length > 0;
+  return !isNil(value) && value !== false && value !== '' && value !== 0;
+};
+
+const matchSource = (source: Source, note: NoteRecord): boolean => {
+  switch (source.kind) {
+    case 'folder':
+      return !source.path || note.path === source.path || note.path.startsWith(`${source.path}/`)
+        || note.path.replace(/\.md$/i, '') === source.path;
+    case 'tag':
+      return (note.fields.file.tags as string[]).some(tag => {
+        const lower = tag.toLowerCase();
+        return lower === source.tag || lower.startsWith(`${source.tag}/`);
+      });
+    case 'and':
+      return matchSource(source.left, note) && matchSource(source.right, note);
+    case 'or':
+      return matchSource(source.left, note) || matchSource(source.right, note);
+    case 'not':
+      return !matchSource(source.source, note);
+  }
+};
+
+const sortScopes = <T extends { scope: Record<string, any> }>(items: T[], sort: Query['sort']) => {
+  if (sort.length === 0) return items;
+  const keyed = items.map(item => ({ item, keys: sort.map(s => evaluate(s.expr, item.scope)) }));
+  keyed.sort((a, b) => {
+    for (let i = 0; i < sort.length; i++) {
+      const order = compareValues(a.keys[i], b.keys[i]);
+      // 空值始终排在最后，不受 DESC 影响
+      if (order !== 0) return sort[i].descending && !isNil(a.keys[i]) && !isNil(b.keys[i]) ? -order : order;
+    }
+    return 0;
+  });
+  return keyed.map(k => k.item);
+};
+
+export const runQuery = (query: Query, index: QueryIndex): QueryResult => {
+  const notes = query.from ? index.filter(note => matchSource(query.from!, note)) : index;
+
+  if (query.type === 'TASK') {
+    let tasks = notes.flatMap(note => note.tasks().map(task => ({
+      note,
+      task,
+      scope: { ...note.fields, text: task.text, completed: task.completed, status: task.status, line: task.line },
+    })));
+    if (query.where) tasks = tasks.filter(t => truthy(evaluate(query.where!, t.scope)));
+    tasks = sortScopes(tasks, query.sort);
+    if (query.limit !== null) tasks = tasks.slice(0, query.limit);
+
+    const groups = new Map<string, { path: string; name: string; tasks: TaskItem[] }>();
+    for (const { note, task } of tasks) {
+      if (!groups.has(note.path)) groups.set(note.path, { path: note.path, name: note.name, tasks: [] });
+      groups.get(note.path)!.tasks.push(task);
+    }
+    return { type: 'TASK', groups: Array.from(groups.values()) };
+  }
+
+  let matched = notes.map(note => ({ note, scope: note.fields }));
+  if (query.where) matched = matched.filter(m => truthy(evaluate(query.where!, m.scope)));
+  matched = sortScopes(matched, query.sort);
+  if (query.limit !== null) matched = matched.slice(0, query.limit);
+
+  if (query.type === 'LIST') {
+    const field = query.fields[0];
+    return {
+      type: 'LIST',
+      items: matched.map(({ note, scope }) => ({
+        path: note.path,
+        name: note.name,
+        value: field ? evaluate(field.expr, scope) : undefined,
+      })),
+    };
+  }
+
+  return {
+    type: 'TABLE',
+    headers: query.fields.map(field => field.label),
+    rows: matched.map(({ note, scope }) => ({
+      path: note.path,
+      name: note.name,
+      cells: query.fields.map(field => evaluate(field.expr, scope)),
+    })),
+  };
+};
@@ -0,0 +1,344 @@
+/**
+ * 静态站点导出
+ *
+ * 把选中的笔记按阅读视图的规则渲染为静态 HTML 页面，生成与仓库目录一致的侧边栏、每页的大纲目录与预先生成的搜索索引；
+ * 双链改写为页面间的相对链接，引用的附件复制到站点中。Frontmatter 中 `publish: false` 的笔记不发布，指向它们的链接保留为文字。
+ * 页面通过 CDN 加载 Tailwind，与阅读器使用同一套样式；搜索索引以脚本形式加载，直接打开本地文件也可用。
+ */
+
+import { FileSystemNode, FileType } from '../types';
+import { ZipEntry } from './zip';
+import { parseFrontmatter } from './frontmatter';
+import { extractSection, extractOutline, headingAnchorId, isNoteTarget, stripMarkdown, OutlineItem } from './markdown';
+import { createLinkResolver, splitLinkTarget } from './linkIndex';
+import { isMarkdownFile } from './contentIndex';
+
+const MAX_EMBED_DEPTH = 4;
+// 搜索索引中每篇笔记保留的正文长度
+const MAX_INDEXED_TEXT = 20000;
+
+export interface SiteExportOptions {
+  title: string;
+  root: FileSystemNode;
+  notes: FileSystemNode[];
+  readText: (node: FileSystemNode) => Promise<string>;
+  readBlob: (node: FileSystemNode) => Promise<Blob>;
+  // 按阅读视图渲染正文；fileUrl 把附件引用解析为站点内地址
+  renderMarkdown: (markdown: string, fileUrl: (target: string) => string | null) => string;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface SiteExportResult {
+  entries: ZipEntry[];
+  pageCount: number;
+  unpublished: string[]; // publish: false 而未导出的笔记
+  failures: { path: string; error: string }[];
+}
+
+interface SitePage {
+  node: FileSystemNode;
+  url: string;
+  title: string;
+  body: string;
+}
+
+interface SiteTreeNode {
+  name: string;
+  path: string;
+  url?: string;
+  children: SiteTreeNode[];
+}
+
+export const isPublished = (metadata: Record<string, any> | null) =>
+  !metadata || (metadata.publish !== false && String(metadata.publish).toLowerCase() !== 'false');
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+const encodePath = (path: string) => path.split('/').map(encodeURIComponent).join('/');
+
+/**
+ * 站点内 from 页面到 to 文件的相对地址
+ */
+export const relativeUrl = (from: string, to: string) => {
+  const fromDirs = from.split('/').slice(0, -1);
+  const toParts = to.split('/');
+  let common = 0;
+  while (common < fromDirs.length && common < toParts.length - 1 && fromDirs[common] === toParts[common]) common++;
+  return '../'.repeat(fromDirs.length - common) + encodePath(toParts.slice(common).join('/'));
+};
+
+const pageUrl = (node: FileSystemNode) => node.path.replace(/\.md$/i, '.html');
+
+// 搜索用的纯文本：去掉标记，双链保留显示文字
+const plainText = (body: string) =>
+  body
+    .replace(/!?\[\[(.*?)(?:\|(.*?))?\]\]/g, (_match, link, alias) => alias || link)
+    .split('\n')
+    .map(line => stripMarkdown(line.replace(/^\s*(?:#{1,6}|>|[-*+]|\d+[.)])\s+/, '')))
+    .filter(Boolean)
+    .join('\n')
+    .slice(0, MAX_INDEXED_TEXT);
+
+const buildSiteTree = (dir: FileSystemNode, pages: Map<string, SitePage>): SiteTreeNode[] =>
+  (dir.children || []).flatMap((child): SiteTreeNode[] => {
+    if (child.kind === FileType.DIRECTORY) {
+      const children = buildSiteTree(child, pages);
+      return children.length > 0 ? [{ name: child.name, path: child.path, children }] : [];
+    }
+    const page = pages.get(child.path);
+    return page ? [{ name: child.name.replace(/\.md$/i, ''), path: child.path, url: page.url, children: [] }] : [];
+  });
+
+const renderSiteTree = (nodes: SiteTreeNode[], currentUrl: string, depth = 0): string =>
+  nodes.map(node => {
+    const indent = `padding-left: ${12 + depth * 16}px`;
+    if (node.url) {
+      const active = node.url === currentUrl;
+      return `<a href="${relativeUrl(currentUrl, node.url)}" class="block py-1.5 pr-3 text-sm truncate rounded-md ${active ? 'bg-[#e6f7ff] text-[#00b96b] font-medium' : 'text-[#262626] hover:bg-[#efefef]'}" style="${indent}" title="${escapeHtml(node.name)}">${escapeHtml(node.name)}</a>`;
+    }
+    const open = currentUrl.startsWith(`${node.path}/`);
+    return `<details${open ? ' open' : ''}><summary class="py-1.5 pr-3 text-sm text-[#262626] rounded-md cursor-pointer hover:bg-[#efefef] truncate" style="${indent}">${escapeHtml(node.name)}</summary>${renderSiteTree(node.children, currentUrl, depth + 1)}</details>`;
+  }).join('');
+
+const renderToc = (outline: OutlineItem[]) => {
+  if (outline.length === 0) return '';
+  const items = outline.map(item =>
+    `<a href="#${encodeURIComponent(item.id)}" class="block py-1 text-xs text-gray-500 hover:text-[#00b96b] truncate" style="padding-left: ${(item.level - 1) * 12}px" title="${escapeHtml(item.text)}">${escapeHtml(item.text)}</a>`
+  ).join('');
+  return `<aside class="hidden xl:block w-56 shrink-0"><div class="sticky top-8 max-h-[calc(100vh-4rem)] overflow-y-auto"><div class="text-xs font-semibold text-gray-400 mb-2">大纲</div>${items}</div></aside>`;
+};
+
+const SITE_STYLE = `
+::-webkit-scrollbar { width: 6px; height: 6px; }
+::-webkit-scrollbar-track { background: transparent; }
+::-webkit-scrollbar-thumb { background: #dcdcdc; border-radius: 3px; }
+body {
+  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, "PingFang SC", "Hiragino Sans GB", "Microsoft YaHei", sans-serif;
+  color: #262626;
+  -webkit-font-smoothing: antialiased;
+}
+h1[id], h2[id], h3[id], h4[id] { scroll-margin-top: 2rem; }
+summary { list-style: none; }
+summary::-webkit-details-marker { display: none; }
+summary::before { content: '▸'; display: inline-block; width: 1em; color: #bfbfbf; }
+details[open] > summary::before { content: '▾'; }
+a:not([href]) { color: inherit; cursor: default; }
+`;
+
+// 侧边栏搜索：在预先生成的索引中按标题与正文查找
+const SITE_SCRIPT = `(function () {
+  var root = document.body.getAttribute('data-root') || '';
+  var input = document.getElementById('site-search');
+  var tree = document.getElementById('site-tree');
+  var results = document.getElementById('site-results');
+  var docs = window.SITE_SEARCH_INDEX || [];
+  function escapeHtml(text) {
+    return text.replace(/[&<>"]/g, function (c) { return { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]; });
+  }
+  function snippet(text, index, length) {
+    if (index < 0) return '';
+    var start = Math.max(0, index - 30);
+    return (start > 0 ? '…' : '') + escapeHtml(text.slice(start, index)) +
+      '<mark class="bg-yellow-100 rounded-sm">' + escapeHtml(text.slice(index, index + length)) + '</mark>' +
+      escapeHtml(text.slice(index + length, index + length + 60));
+  }
+  function search(query) {
+    var keyword = query.trim().toLowerCase();
+    if (!keyword) {
+      results.hidden = true;
+      tree.hidden = false;
+      return;
+    }
+    var matches = [];
+    docs.forEach(function (doc) {
+      var inTitle = doc.title.toLowerCase().indexOf(keyword);
+      var inText = doc.text.toLowerCase().indexOf(keyword);
+      if (inTitle === -1 && inText === -1) return;
+      matches.push({ doc: doc, rank: inTitle === -1 ? 1 : 0, index: inText });
+    });
+    matches.sort(function (a, b) { return a.rank - b.rank; });
+    results.innerHTML = matches.length === 0
+      ? '<div class="text-center text-gray-400 text-sm mt-8">没有找到相关文档</div>'
+      : matches.slice(0, 50).map(function (match) {
+          return '<a href="' + root + match.doc.url + '" class="block px-3 py-2 rounded-md hover:bg-[#efefef]">' +
+            '<div class="text-sm font-medium text-[#262626] truncate">' + escapeHtml(match.doc.title) + '</div>' +
+            '<div class="text-xs text-gray-500 mt-0.5 line-clamp-2">' + snippet(match.doc.text, match.index, keyword.length) + '</div></a>';
+        }).join('');
+    tree.hidden = true;
+    results.hidden = false;
+  }
+  input.addEventListener('input', function () { search(input.value); });
+  var initial = new URLSearchParams(location.search).get('q');
+  if (initial) {
+    input.value = initial;
+    search(initial);
+  }
+})();
+`;
+
+const renderPage = (options: { siteTitle: string; pageTitle: string; url: string; sidebar: string; toc: string; content: string }) => {
+  const root = relativeUrl(options.url, 'index.html').replace(/index\.html$/, '');
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${escapeHtml(options.pageTitle === options.siteTitle ? options.siteTitle : `${options.pageTitle} - ${options.siteTitle}`)}</title>
+<script src="https://cdn.tailwindcss.com"></script>
+<style>${SITE_STYLE}</style>
+</head>
+<body class="bg-white" data-root="${root}">
+<div class="flex min-h-screen">
+  <nav class="w-64 shrink-0 bg-[#fafafa] border-r border-[#f0f0f0] hidden md:flex flex-col h-screen sticky top-0">
+    <a href="${root}index.html" class="block px-4 pt-5 pb-3 text-base font-bold text-[#262626] truncate">${escapeHtml(options.siteTitle)}</a>
+    <div class="px-3 pb-2">
+      <input id="site-search" type="search" placeholder="搜索文档" class="w-full h-8 px-3 text-sm bg-white border border-gray-200 rounded-md outline-none focus:border-[#00b96b]" />
+    </div>
+    <div class="flex-1 overflow-y-auto px-2 pb-4">
+      <div id="site-tree">${options.sidebar}</div>
+      <div id="site-results" hidden></div>
+    </div>
+  </nav>
+  <div class="flex-1 min-w-0 flex justify-center gap-10 px-8 py-12">
+    <main class="w-full max-w-[850px] min-w-0">
+      <h1 class="text-3xl font-bold text-gray-800 mb-8">${escapeHtml(options.pageTitle)}</h1>
+      <div class="text-[16px] leading-relaxed text-[#262626]">${options.content}</div>
+    </main>
+    ${options.toc}
+  </div>
+</div>
+<script src="${root}search-index.js"></script>
+<script src="${root}site.js"></script>
+</body>
+</html>
+`;
+};
+
+/**
+ * 生成静态站点的全部文件
+ */
+export const buildStaticSite = async (options: SiteExportOptions): Promise<SiteExportResult> => {
+  const { root, notes, readText, readBlob, renderMarkdown, onProgress } = options;
+  const resolve = createLinkResolver(root);
+  const failures: SiteExportResult['failures'] = [];
+  const unpublished: string[] = [];
+  const total = notes.length * 2;
+  let done = 0;
+
+  // 1. 读取笔记，排除 publish: false
+  const pages = new Map<string, SitePage>();
+  for (const node of notes.filter(isMarkdownFile)) {
+    try {
+      const { metadata, content } = parseFrontmatter(await readText(node));
+      if (isPublished(metadata)) {
+        const title = metadata?.title ? String(metadata.title) : node.name.replace(/\.md$/i, '');
+        pages.set(node.path, { node, url: pageUrl(node), title, body: content });
+      } else {
+        unpublished.push(node.path);
+      }
+    } catch (e: any) {
+      failures.push({ path: node.path, error: e.message || String(e) });
+    }
+    onProgress?.(++done, total);
+  }
+
+  const findPage = (name: string, current: SitePage) => {
+    if (!name) return current;
+    const node = resolve(name);
+    return node ? pages.get(node.path) || null : null;
+  };
+
+  // 2. 展开笔记嵌入；未发布或循环的嵌入退化为双链
+  const expandEmbeds = (markdown: string, current: SitePage, chain: string[]): string =>
+    markdown.replace(/!\[\[(.*?)(?:\|(.*?))?\]\]/g, (match, link: string, alias?: string) => {
+      const { name, subpath } = splitLinkTarget(link);
+      if (!isNoteTarget(name)) return match;
+      const target = findPage(name, current);
+      const section = target && !chain.includes(target.node.path) && chain.length < MAX_EMBED_DEPTH
+        ? extractSection(target.body, subpath)
+        : null;
+      if (section === null) return `[[${link}${alias ? `|${alias}` : ''}]]`;
+      return `\n\n${expandEmbeds(section, target!, [...chain, target!.node.path])}\n\n`;
+    });
+
+  // 3. 渲染页面，改写双链与标签地址，收集引用的附件
+  const tree = buildSiteTree(root, pages);
+  const assets = new Map<string, FileSystemNode>();
+  const searchIndex: { url: string; title: string; headings: string[]; text: string }[] = [];
+  const entries: ZipEntry[] = [];
+
+  const assetUrl = (page: SitePage, target: string) => {
+    const node = resolve(splitLinkTarget(target).name);
+    if (!node || node.kind !== FileType.FILE || isMarkdownFile(node)) return null;
+    assets.set(node.path, node);
+    return relativeUrl(page.url, node.path);
+  };
+
+  const rewriteLinks = (html: string, page: SitePage) =>
+    html
+      .replace(/href="wikilink:([^"]*)"/g, (_match, encoded: string) => {
+        const { name, subpath } = splitLinkTarget(decodeURIComponent(encoded));
+        const target = findPage(name, page);
+        if (target) {
+          const anchor = subpath && !subpath.startsWith('^') ? `#${encodeURIComponent(headingAnchorId(subpath))}` : '';
+          return `href="${target === page && anchor ? '' : relativeUrl(page.url, target.url)}${anchor}"`;
+        }
+        const asset = isNoteTarget(name) ? null : assetUrl(page, name);
+        return asset ? `href="${asset}"` : 'title="未发布的文档"';
+      })
+      .replace(/href="tag:([^"]*)"/g, (_match, encoded: string) =>
+        `href="${relativeUrl(page.url, 'index.html')}?q=${encodeURIComponent(`#${decodeURIComponent(encoded)}`)}"`
+      );
+
+  for (const page of pages.values()) {
+    try {
+      const body = expandEmbeds(page.body, page, [page.node.path]);
+      const content = rewriteLinks(renderMarkdown(body, target => assetUrl(page, target)), page);
+      const outline = extractOutline(body);
+      entries.push({
+        path: page.url,
+        data: renderPage({
+          siteTitle: options.title,
+          pageTitle: page.title,
+          url: page.url,
+          sidebar: renderSiteTree(tree, page.url),
+          toc: renderToc(outline),
+          content,
+        }),
+      });
+      searchIndex.push({ url: encodePath(page.url), title: page.title, headings: outline.map(item => item.text), text: plainText(body) });
+    } catch (e: any) {
+      failures.push({ path: page.node.path, error: e.message || String(e) });
+    }
+    onProgress?.(++done, total);
+  }
+
+  // 4. 首页：仓库根目录没有 index.md 时生成文档目录
+  if (!entries.some(entry => entry.path === 'index.html')) {
+    entries.push({
+      path: 'index.html',
+      data: renderPage({
+        siteTitle: options.title,
+        pageTitle: options.title,
+        url: 'index.html',
+        sidebar: renderSiteTree(tree, 'index.html'),
+        toc: '',
+        content: `<p class="mb-6 text-sm text-gray-500">共 ${pages.size} 篇文档</p><div class="max-w-md">${renderSiteTree(tree, 'index.html')}</div>`,
+      }),
+    });
+  }
+
+  for (const node of assets.values()) {
+    try {
+      entries.push({ path: node.path, data: await readBlob(node) });
+    } catch (e: any) {
+      failures.push({ path: node.path, error: e.message || String(e) });
+    }
+  }
+
+  entries.push({ path: 'search-index.js', data: `window.SITE_SEARCH_INDEX = ${JSON.stringify(searchIndex).replace(/</g, '\\u003c')};\n` });
+  entries.push({ path: 'site.js', data: SITE_SCRIPT });
+
+  return { entries, pageCount: pages.size, unpublished, failures };
+};
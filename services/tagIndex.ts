@@ -0,0 +1,189 @@
+import { parseFrontmatter, updateFrontmatter } from './frontmatter';
+import { ContentIndex, createIndexCursor, takeIndexChanges } from './contentIndex';
+
+/**
+ * 标签提取
+ *
+ * 同时识别 Frontmatter 中的 `tags` (数组或字符串) 与正文中的行内 `#tag`，
+ * 支持 `#project/alpha` 形式的嵌套标签。
+ */
+
+export const INLINE_TAG_PATTERN = /(?:^|[\s(（，,])#([\p{L}\p{N}_\-/]+)/gu;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+export const normalizeTag = (tag: string) => tag.trim().replace(/^#/, '').replace(/\/+$/, '');
+
+/**
+ * Frontmatter tags 可以是数组，也可以是逗号/空格分隔的字符串
+ */
+const frontmatterTags = (metadata: Record<string, any> | null): string[] => {
+  const raw = metadata?.tags ?? metadata?.tag;
+  if (raw === undefined || raw === null) return [];
+  const list = Array.isArray(raw) ? raw : String(raw).split(/[,\s]+/);
+  return list.map(item => normalizeTag(String(item))).filter(Boolean);
+};
+
+/**
+ * 在 Frontmatter 的 tags 中添加或移除标签，未变化时返回 null；正文中的行内标签不受影响。
+ * Frontmatter 无法解析时抛出错误
+ */
+export const updateFrontmatterTag = (content: string, tag: string, mode: 'add' | 'remove'): string | null => {
+  const name = normalizeTag(tag);
+  if (!name) return null;
+  const { metadata, error } = parseFrontmatter(content);
+  if (error) throw new Error(`Frontmatter 解析失败: ${error}`);
+  const current = frontmatterTags(metadata);
+  const key = name.toLowerCase();
+  const exists = current.some(item => item.toLowerCase() === key);
+  if (mode === 'add' ? exists : !exists) return null;
+
+  const tags = mode === 'add' ? [...current, name] : current.filter(item => item.toLowerCase() !== key);
+  // 单数形式的 tag 属性统一合并到 tags
+  const { tag: _legacy, tags: _tags, ...rest } = metadata || {};
+  return updateFrontmatter(content, tags.length > 0 ? { ...rest, tags } : rest);
+};
+
+const inlineTags = (body: string): string[] => {
+  const tags: string[] = [];
+  let inFence = false;
+  for (const line of body.split(/\r?\n/)) {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+    // 忽略行内代码中的 #
+    const text = line.replace(/`[^`]*`/g, '');
+    for (const match of text.matchAll(INLINE_TAG_PATTERN)) {
+      const tag = normalizeTag(match[1]);
+      // 纯数字不是标签 (如 #123)
+      if (tag && !/^\d+$/.test(tag)) tags.push(tag);
+    }
+  }
+  return tags;
+};
+
+/**
+ * 提取文档的全部标签 (去重，保留首次出现的写法)
+ */
+export const extractTags = (content: string): string[] => {
+  const { metadata, content: body } = parseFrontmatter(content);
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const tag of [...frontmatterTags(metadata), ...inlineTags(body)]) {
+    const key = tag.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    result.push(tag);
+  }
+  return result;
+};
+
+export interface TagIndex {
+  notes: Map<string, string[]>; // 笔记路径 -> 标签
+  tags: Map<string, { name: string; paths: Set<string> }>; // 小写标签 -> 显示名与笔记
+}
+
+export interface TagTreeNode {
+  name: string; // 当前层级名称，如 alpha
+  tag: string; // 完整标签，如 project/alpha
+  count: number; // 含子标签在内的笔记数
+  children: TagTreeNode[];
+}
+
+// 重新提取这些文档的标签；已不在内容索引中的文档移除其标签
+const updateDocuments = (index: TagIndex, contentIndex: ContentIndex, paths: Iterable<string>) => {
+  for (const path of paths) {
+    for (const tag of index.notes.get(path) || []) {
+      const key = tag.toLowerCase();
+      const entry = index.tags.get(key);
+      entry?.paths.delete(path);
+      if (entry && entry.paths.size === 0) index.tags.delete(key);
+    }
+    index.notes.delete(path);
+
+    const doc = contentIndex.docs.get(path);
+    const tags = doc ? extractTags(doc.content) : [];
+    if (tags.length === 0) continue;
+    index.notes.set(path, tags);
+    for (const tag of tags) {
+      const key = tag.toLowerCase();
+      let entry = index.tags.get(key);
+      if (!entry) {
+        entry = { name: tag, paths: new Set() };
+        index.tags.set(key, entry);
+      }
+      entry.paths.add(path);
+    }
+  }
+};
+
+export const buildTagIndex = (contentIndex: ContentIndex): TagIndex => {
+  const index: TagIndex = { notes: new Map(), tags: new Map() };
+  updateDocuments(index, contentIndex, contentIndex.docs.keys());
+  return index;
+};
+
+/**
+ * 增量维护的标签索引：同步时只重新提取内容索引中有变化的文档，返回新的对象便于作为渲染依赖
+ */
+export const createTagIndexer = () => {
+  const cursor = createIndexCursor();
+  let index: TagIndex = { notes: new Map(), tags: new Map() };
+
+  const sync = (contentIndex: ContentIndex): TagIndex => {
+    const changes = takeIndexChanges(cursor, contentIndex);
+    if (changes === null) index = buildTagIndex(contentIndex);
+    else updateDocuments(index, contentIndex, changes);
+    return { ...index };
+  };
+
+  return { sync };
+};
+
+/**
+ * 带有该标签 (含子标签，如 #project 包括 #project/alpha) 的笔记路径
+ */
+export const findNotesWithTag = (index: TagIndex, tag: string): string[] => {
+  const wanted = normalizeTag(tag).toLowerCase();
+  const paths = new Set<string>();
+  for (const [key, entry] of index.tags) {
+    if (key === wanted || key.startsWith(`${wanted}/`)) {
+      entry.paths.forEach(path => paths.add(path));
+    }
+  }
+  return Array.from(paths).sort((a, b) => a.localeCompare(b));
+};
+
+/**
+ * 按 `/` 拆分成层级树；只出现过子标签的父级 (如只有 #a/b 时的 a) 也会生成节点
+ */
+export const buildTagTree = (index: TagIndex): TagTreeNode[] => {
+  const root: TagTreeNode = { name: '', tag: '', count: 0, children: [] };
+  const notesByNode = new Map<TagTreeNode, Set<string>>();
+
+  for (const entry of index.tags.values()) {
+    let parent = root;
+    const segments = entry.name.split('/').filter(Boolean);
+    segments.forEach(segment => {
+      let child = parent.children.find(c => c.name.toLowerCase() === segment.toLowerCase());
+      if (!child) {
+        child = { name: segment, tag: parent === root ? segment : `${parent.tag}/${segment}`, count: 0, children: [] };
+        parent.children.push(child);
+        notesByNode.set(child, new Set());
+      }
+      entry.paths.forEach(path => notesByNode.get(child!)!.add(path));
+      parent = child;
+    });
+  }
+
+  const finalize = (nodes: TagTreeNode[]) => {
+    nodes.forEach(node => {
+      node.count = notesByNode.get(node)!.size;
+      finalize(node.children);
+    });
+    nodes.sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+  };
+  finalize(root.children);
+  return root.children;
+};
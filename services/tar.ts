@@ -0,0 +1,53 @@
+/**
+ * 读取 tar.gz 归档
+ *
+ * 支持 ustar 前缀与 PAX / GNU 长文件名，只返回普通文件。
+ */
+
+import { ArchiveFile } from './zip';
+
+const BLOCK = 512;
+
+const readString = (bytes: Uint8Array, start: number, length: number) => {
+  const field = bytes.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return new TextDecoder().decode(end === -1 ? field : field.subarray(0, end));
+};
+
+const readTar = (bytes: Uint8Array): ArchiveFile[] => {
+  const files: ArchiveFile[] = [];
+  let longName: string | null = null;
+  let offset = 0;
+  while (offset + BLOCK <= bytes.length) {
+    const header = bytes.subarray(offset, offset + BLOCK);
+    if (header.every(byte => byte === 0)) break;
+
+    const name = readString(header, 0, 100);
+    const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156]);
+    const prefix = readString(header, 257, 5) === 'ustar' ? readString(header, 345, 155) : '';
+    const data = bytes.subarray(offset + BLOCK, offset + BLOCK + size);
+    offset += BLOCK + Math.ceil(size / BLOCK) * BLOCK;
+
+    if (type === 'L') {
+      longName = readString(data, 0, data.length);
+    } else if (type === 'x') {
+      // PAX 扩展头："<长度> path=<路径>\n"
+      const path = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(new TextDecoder().decode(data));
+      if (path) longName = path[1];
+    } else if (type === 'g') {
+      // 全局扩展头不影响文件名
+    } else {
+      if (type === '0' || type === '\0') {
+        files.push({ path: longName ?? (prefix ? `${prefix}/${name}` : name), data });
+      }
+      longName = null;
+    }
+  }
+  return files;
+};
+
+export const readTarGz = async (blob: Blob): Promise<ArchiveFile[]> => {
+  const unzipped = await new Response(blob.stream().pipeThrough(new DecompressionStream('gzip'))).arrayBuffer();
+  return readTar(new Uint8Array(unzipped));
+};
@@ -0,0 +1,76 @@
+import { TaskItem } from '../types';
+import { ContentIndex, createIndexCursor, takeIndexChanges } from './contentIndex';
+
+/**
+ * 任务提取与切换
+ *
+ * 识别列表项形式的任务 `- [ ] text` / `1. [x] text`，跳过代码块；
+ * 截止日期支持 Tasks 插件的 `📅 2024-01-01` 与 Dataview 的 `due:: 2024-01-01`。
+ */
+
+export const TASK_PATTERN = /^(\s*(?:[-*+]|\d+[.)])\s+)\[(.)\](\s+|$)(.*)$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const DUE_PATTERN = /(?:\u{1F4C5}\u{FE0F}?\s*|\bdue::\s*)(\d{4}-\d{2}-\d{2})/u;
+
+export const extractTasks = (path: string, content: string): TaskItem[] => {
+  const tasks: TaskItem[] = [];
+  let inFence = false;
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence) return;
+    const match = line.match(TASK_PATTERN);
+    if (!match) return;
+    tasks.push({
+      path,
+      line: index + 1,
+      text: match[4].trim(),
+      status: match[2],
+      completed: match[2].toLowerCase() === 'x',
+      due: match[4].match(DUE_PATTERN)?.[1],
+    });
+  });
+  return tasks;
+};
+
+/**
+ * 增量维护的任务列表：同步时只重新提取内容索引中有变化的文档
+ */
+export const createTaskIndexer = () => {
+  const cursor = createIndexCursor();
+  const tasksByPath = new Map<string, TaskItem[]>();
+
+  const sync = (contentIndex: ContentIndex): TaskItem[] => {
+    const changes = takeIndexChanges(cursor, contentIndex);
+    if (changes === null) tasksByPath.clear();
+    for (const path of changes ?? contentIndex.docs.keys()) {
+      tasksByPath.delete(path);
+      const doc = contentIndex.docs.get(path);
+      const tasks = doc ? extractTasks(path, doc.content) : [];
+      if (tasks.length > 0) tasksByPath.set(path, tasks);
+    }
+    return Array.from(tasksByPath.values()).flat();
+  };
+
+  return { sync };
+};
+
+/**
+ * 切换第 line 行 (1-based) 任务的完成状态；该行已不是任务时返回 null
+ */
+export const toggleTaskInContent = (content: string, line: number): string | null => {
+  const lines = content.split('\n');
+  const index = line - 1;
+  if (index < 0 || index >= lines.length) return null;
+
+  // 保留 CRLF 的行尾 \r
+  const text = lines[index].replace(/\r$/, '');
+  const match = text.match(TASK_PATTERN);
+  if (!match) return null;
+
+  const status = match[2].toLowerCase() === 'x' ? ' ' : 'x';
+  lines[index] = `${match[1]}[${status}]${match[3]}${match[4]}${lines[index].endsWith('\r') ? '\r' : ''}`;
+  return lines.join('\n');
+};
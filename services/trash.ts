@@ -0,0 +1,225 @@
+/**
+ * 回收站
+ *
+ * 本地仓库删除的条目移入仓库根目录下的 .trash 文件夹 (与 Obsidian 一致)，
+ * 原路径与删除时间记录在 localStorage 中；Mock 仓库则把节点与其下笔记内容整体保存在记录里，
+ * 粘贴的附件移到以条目 id 区分的 .trash 路径下，恢复时迁回、彻底删除时一并清除。
+ */
+
+import { FileSystemNode, FileType, TrashEntry } from '../types';
+import {
+  readFileContent,
+  createNewFolder,
+  deleteFileSystemNode,
+  moveEntry,
+  putMockContents,
+  scanDirectory,
+  sortChildren
+} from './fileSystem';
+import { moveMockBlobs, deleteMockBlobs } from './blobStore';
+
+const TRASH_PREFIX = 'obsidian_reader_trash_';
+const TRASH_FOLDER = '.trash';
+
+const getRecords = (vaultId: string): TrashEntry[] => {
+  try {
+    const raw = localStorage.getItem(TRASH_PREFIX + vaultId);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.error('读取回收站记录失败', e);
+    return [];
+  }
+};
+
+const saveRecords = (vaultId: string, records: TrashEntry[]) => {
+  localStorage.setItem(TRASH_PREFIX + vaultId, JSON.stringify(records));
+};
+
+export const clearVaultTrash = (vaultId: string) => {
+  localStorage.removeItem(TRASH_PREFIX + vaultId);
+};
+
+// Mock 模式下条目附件在回收站中的存放路径
+const mockBlobPath = (entry: TrashEntry) => `${TRASH_FOLDER}/${entry.id}`;
+
+const getTrashFolder = async (root: FileSystemNode, create: boolean) => {
+  try {
+    return await root.handle.getDirectoryHandle(TRASH_FOLDER, { create });
+  } catch (e: any) {
+    if (e?.name === 'NotFoundError') return null;
+    throw e;
+  }
+};
+
+// 同名时追加序号：笔记.md -> 笔记 2.md
+const uniqueName = (name: string, taken: (candidate: string) => boolean | Promise<boolean>) => {
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const ext = dot > 0 ? name.slice(dot) : '';
+  const next = async (n: number): Promise<string> => {
+    const candidate = n === 1 ? name : `${base} ${n}${ext}`;
+    return (await taken(candidate)) ? next(n + 1) : candidate;
+  };
+  return next(1);
+};
+
+const entryExists = async (dir: any, name: string) => {
+  for await (const key of dir.keys()) {
+    if (key === name) return true;
+  }
+  return false;
+};
+
+const remapNodePaths = (node: FileSystemNode, oldPath: string, newPath: string): FileSystemNode => ({
+  ...node,
+  path: node.path === oldPath ? newPath : `${newPath}${node.path.slice(oldPath.length)}`,
+  sourcePath: node.kind === FileType.FILE ? node.sourcePath || node.path : undefined,
+  children: node.children?.map(child => remapNodePaths(child, oldPath, newPath)),
+});
+
+const collectFiles = (node: FileSystemNode): FileSystemNode[] =>
+  node.kind === FileType.FILE ? [node] : (node.children || []).flatMap(collectFiles);
+
+/**
+ * 把条目移入回收站，并从目录树中移除
+ */
+export const moveToTrash = async (vaultId: string, root: FileSystemNode, parent: FileSystemNode, node: FileSystemNode) => {
+  const entry: TrashEntry = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: node.name,
+    originalPath: node.path,
+    kind: node.kind,
+    deletedAt: Date.now(),
+  };
+
+  if (node.handle) {
+    const trashDir = await getTrashFolder(root, true);
+    entry.trashName = await uniqueName(node.name, candidate => entryExists(trashDir, candidate));
+    await moveEntry(node.handle, parent.handle, trashDir, entry.trashName);
+    parent.children = parent.children?.filter(child => child.path !== node.path);
+  } else {
+    // 保存节点下所有笔记的当前内容，恢复到其他路径时也不依赖静态文件
+    const contents: Record<string, string> = {};
+    for (const file of collectFiles(node)) {
+      if (file.name.endsWith('.md')) contents[file.path] = await readFileContent(file);
+    }
+    entry.node = node;
+    entry.contents = contents;
+    await moveMockBlobs(node.path, mockBlobPath(entry));
+    await deleteFileSystemNode(parent, node);
+  }
+
+  saveRecords(vaultId, [entry, ...getRecords(vaultId)]);
+  return entry;
+};
+
+/**
+ * 回收站中的条目，按删除时间从新到旧。本地仓库以 .trash 中的实际内容为准
+ */
+export const listTrash = async (vaultId: string, root: FileSystemNode): Promise<TrashEntry[]> => {
+  const records = getRecords(vaultId);
+  if (!root.handle) return records;
+
+  const trashDir = await getTrashFolder(root, false);
+  if (!trashDir) {
+    if (records.length > 0) saveRecords(vaultId, []);
+    return [];
+  }
+
+  const byName = new Map(records.map(record => [record.trashName, record]));
+  const entries: TrashEntry[] = [];
+  for await (const handle of trashDir.values()) {
+    const record = byName.get(handle.name);
+    if (record) {
+      entries.push(record);
+      continue;
+    }
+    // 由其他程序移入，原路径未知
+    const deletedAt = handle.kind === 'file' ? (await handle.getFile()).lastModified : 0;
+    entries.push({
+      id: `trash-${handle.name}`,
+      name: handle.name,
+      originalPath: '',
+      kind: handle.kind === 'directory' ? FileType.DIRECTORY : FileType.FILE,
+      deletedAt,
+      trashName: handle.name,
+    });
+  }
+  saveRecords(vaultId, entries.filter(entry => byName.has(entry.trashName)));
+  return entries.sort((a, b) => b.deletedAt - a.deletedAt);
+};
+
+// 逐级查找原路径所在的文件夹，不存在则重新创建
+const ensureFolder = async (root: FileSystemNode, folderPath: string) => {
+  let current = root;
+  for (const name of folderPath.split('/').filter(Boolean)) {
+    const existing = current.children?.find(child => child.name === name && child.kind === FileType.DIRECTORY);
+    current = existing || await createNewFolder(current, name);
+  }
+  return current;
+};
+
+/**
+ * 恢复到原路径；原位置已有同名条目时自动改名。返回恢复后的节点
+ */
+export const restoreFromTrash = async (vaultId: string, root: FileSystemNode, entry: TrashEntry): Promise<FileSystemNode> => {
+  const originalPath = entry.originalPath || entry.name;
+  const slash = originalPath.lastIndexOf('/');
+  const parent = await ensureFolder(root, slash === -1 ? '' : originalPath.slice(0, slash));
+  const name = await uniqueName(entry.name, candidate => !!parent.children?.some(child => child.name === candidate));
+  const path = parent.path ? `${parent.path}/${name}` : name;
+
+  let node: FileSystemNode;
+  if (root.handle) {
+    const trashDir = await getTrashFolder(root, false);
+    if (!trashDir || !entry.trashName) throw new Error('回收站中找不到该条目');
+    const handle = entry.kind === FileType.DIRECTORY
+      ? await trashDir.getDirectoryHandle(entry.trashName)
+      : await trashDir.getFileHandle(entry.trashName);
+    const moved = await moveEntry(handle, trashDir, parent.handle, name);
+    node = entry.kind === FileType.DIRECTORY
+      ? { ...(await scanDirectory(moved, path)), name, isOpen: false }
+      : { name, kind: FileType.FILE, path, handle: moved };
+  } else {
+    if (!entry.node) throw new Error('回收站记录已损坏');
+    node = remapNodePaths(entry.node, entry.originalPath, path);
+    node.name = name;
+    putMockContents(entry.contents || {}, entry.originalPath, path);
+    await moveMockBlobs(mockBlobPath(entry), path);
+  }
+
+  if (!parent.children) parent.children = [];
+  parent.children.push(node);
+  sortChildren(parent.children);
+  saveRecords(vaultId, getRecords(vaultId).filter(record => record.id !== entry.id));
+  return node;
+};
+
+/**
+ * 彻底删除回收站中的条目
+ */
+export const purgeTrashEntry = async (vaultId: string, root: FileSystemNode, entry: TrashEntry) => {
+  if (root.handle && entry.trashName) {
+    const trashDir = await getTrashFolder(root, false);
+    if (trashDir) {
+      try {
+        await trashDir.removeEntry(entry.trashName, { recursive: true });
+      } catch (e: any) {
+        if (e?.name !== 'NotFoundError') throw e;
+      }
+    }
+  } else if (!root.handle) {
+    await deleteMockBlobs([mockBlobPath(entry)]);
+  }
+  saveRecords(vaultId, getRecords(vaultId).filter(record => record.id !== entry.id));
+};
+
+/**
+ * 清空回收站
+ */
+export const emptyTrash = async (vaultId: string, root: FileSystemNode) => {
+  const entries = await listTrash(vaultId, root);
+  for (const entry of entries) {
+    await purgeTrashEntry(vaultId, root, entry);
+  }
+};
@@ -0,0 +1,100 @@
+/**
+ * 本地仓库的惰性加载
+ *
+ * 打开仓库时只读取根目录，文件夹在展开时读取；其余文件夹由后台按层遍历逐个读取，
+ * 每读取一个文件夹回调一次，以便增量建立索引。遍历按时间片让出主线程，不阻塞界面。
+ */
+
+import { FileSystemNode, FileType } from '../types';
+import { loadDirectory } from './fileSystem';
+
+// 连续工作超过该时长 (毫秒) 后让出主线程
+const TIME_SLICE = 16;
+
+export interface VaultCrawler {
+  load: (dir: FileSystemNode) => Promise<void>;
+  resolve: (path: string) => Promise<FileSystemNode | null>;
+  crawl: () => Promise<void>;
+  stop: () => void;
+}
+
+export const createVaultCrawler = (
+  getRoot: () => FileSystemNode,
+  onLoaded: (dir: FileSystemNode, removed: FileSystemNode[]) => void | Promise<void>
+): VaultCrawler => {
+  // 同一文件夹同时被展开与遍历时只读取一次
+  const pending = new WeakMap<FileSystemNode, Promise<void>>();
+  let stopped = false;
+  let running: Promise<void> | null = null;
+  let rerun = false;
+
+  const load = (dir: FileSystemNode) => {
+    if (dir.isLoaded !== false || stopped) return Promise.resolve();
+    let task = pending.get(dir);
+    if (!task) {
+      task = (async () => {
+        const removed = await loadDirectory(dir);
+        if (!stopped) await onLoaded(dir, removed);
+      })().finally(() => pending.delete(dir));
+      pending.set(dir, task);
+    }
+    return task;
+  };
+
+  // 逐级加载路径上的文件夹，返回对应节点
+  const resolve = async (path: string) => {
+    let current: FileSystemNode | undefined = getRoot();
+    for (const name of path.split('/').filter(Boolean)) {
+      await load(current);
+      current = current.children?.find(child => child.name === name);
+      if (!current) return null;
+    }
+    return current;
+  };
+
+  const walk = async () => {
+    const queue = [getRoot()];
+    let sliceStart = performance.now();
+    while (queue.length > 0 && !stopped) {
+      const dir = queue.shift()!;
+      try {
+        await load(dir);
+      } catch (e) {
+        console.warn('读取文件夹失败', dir.path, e);
+      }
+      dir.children?.forEach(child => {
+        if (child.kind === FileType.DIRECTORY) queue.push(child);
+      });
+      if (performance.now() - sliceStart > TIME_SLICE) {
+        await new Promise(done => setTimeout(done, 0));
+        sliceStart = performance.now();
+      }
+    }
+  };
+
+  // 遍历期间再次请求时，结束后重新遍历一次以覆盖新出现的文件夹
+  const crawl = () => {
+    if (running) {
+      rerun = true;
+      return running;
+    }
+    running = (async () => {
+      do {
+        rerun = false;
+        await walk();
+      } while (rerun && !stopped);
+    })().finally(() => {
+      running = null;
+    });
+    return running;
+  };
+
+  return {
+    load,
+    resolve,
+    crawl,
+    stop: () => {
+      stopped = true;
+    },
+  };
+};
@@ -0,0 +1,83 @@
+/**
+ * 本地仓库标识
+ *
+ * 仓库 id 不再由文件夹名生成：优先读取仓库根目录下标记文件中的 id (改名、移动后不变)，
+ * 没有标记文件时用 isSameEntry 与已保存的目录句柄比对；仍无法确定的生成新 id，并在可写时写入标记文件。
+ * 旧版本以 local-文件夹名 为 id 的记录在首次打开时被该仓库认领，原有的清单、草稿与历史记录继续沿用。
+ */
+
+import { getVaultHistory } from './vaultRegistry';
+import { listVaultHandles } from './handleStore';
+
+// 以点开头，扫描与外部修改检测都会忽略
+const MARKER_FILE = '.obsidian-reader.json';
+
+const readMarker = async (dirHandle: any): Promise<string | null> => {
+  try {
+    const file = await (await dirHandle.getFileHandle(MARKER_FILE)).getFile();
+    const { id } = JSON.parse(await file.text());
+    return typeof id === 'string' && id ? id : null;
+  } catch (e: any) {
+    if (e?.name !== 'NotFoundError') console.warn('读取仓库标记文件失败', e);
+    return null;
+  }
+};
+
+const writeMarker = async (dirHandle: any, id: string) => {
+  try {
+    const handle = await dirHandle.getFileHandle(MARKER_FILE, { create: true });
+    const writable = await handle.createWritable();
+    await writable.write(JSON.stringify({ id }, null, 2));
+    await writable.close();
+  } catch (e) {
+    // 只读的文件夹仍可通过已保存的句柄识别
+    console.warn('写入仓库标记文件失败', e);
+  }
+};
+
+const isSameEntry = async (a: any, b: any) => {
+  try {
+    return !!(await a.isSameEntry(b));
+  } catch {
+    return false;
+  }
+};
+
+// 标记文件随文件夹一起被复制时，原仓库仍可访问且标记相同，视为另一个仓库
+const isCopiedVault = async (dirHandle: any, id: string, stored: { id: string; handle: any }[]) => {
+  const original = stored.find(entry => entry.id === id);
+  if (!original || await isSameEntry(original.handle, dirHandle)) return false;
+  return (await readMarker(original.handle)) === id;
+};
+
+const generateVaultId = () =>
+  `local-${typeof crypto.randomUUID === 'function' ? crypto.randomUUID() : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`}`;
+
+/**
+ * 确定本地仓库的 id
+ */
+export const resolveVaultId = async (dirHandle: any): Promise<string> => {
+  const stored = await listVaultHandles();
+
+  const marked = await readMarker(dirHandle);
+  if (marked && !(await isCopiedVault(dirHandle, marked, stored))) return marked;
+
+  let id: string | null = null;
+  for (const entry of stored) {
+    if (await isSameEntry(entry.handle, dirHandle)) {
+      id = entry.id;
+      break;
+    }
+  }
+
+  // 旧记录：同名且尚未被其他文件夹认领
+  if (!id) {
+    const legacyId = `local-${dirHandle.name}`;
+    const claimed = stored.some(entry => entry.id === legacyId);
+    if (!claimed && getVaultHistory().some(vault => vault.id === legacyId)) id = legacyId;
+  }
+
+  id = id || generateVaultId();
+  if (id !== marked) await writeMarker(dirHandle, id);
+  return id;
+};
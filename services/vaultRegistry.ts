@@ -1,4 +1,8 @@
 import { VaultRecord, FileSystemNode } from '../types';
+import { clearVaultDrafts } from './draftStore';
+import { clearVaultHistory } from './versionHistory';
+import { clearVaultTrash } from './trash';
+import { deleteVaultHandle } from './handleStore';
 
 const STORAGE_KEY = 'obsidian_reader_vaults';
 const MANIFEST_PREFIX = 'obsidian_reader_manifest_';
@@ -40,8 +44,12 @@ export const removeVaultFromHistory = (id: string) => {
   const newHistory = history.filter(v => v.id !== id);
   localStorage.setItem(STORAGE_KEY, JSON.stringify(newHistory));
   
-  // Also remove the associated manifest
+  // Also remove the associated manifest, unsaved drafts, version history, trash records and directory handle
   deleteVaultManifest(id);
+  clearVaultDrafts(id);
+  clearVaultHistory(id);
+  clearVaultTrash(id);
+  deleteVaultHandle(id);
   
   return newHistory;
 };
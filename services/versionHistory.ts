@@ -0,0 +1,177 @@
+/**
+ * 笔记版本历史 (IndexedDB)
+ *
+ * 每次写入文件都会记录一份快照；同一笔记短时间内的连续保存 (如自动保存) 合并为一个版本。
+ * 笔记首次写入前先保存原始内容，保证第一次覆盖也可找回。按保留策略清理过旧或过多的版本。
+ */
+
+import { NoteSnapshot, SnapshotSource } from '../types';
+
+const DB_NAME = 'obsidian_reader_history';
+const DB_VERSION = 1;
+const STORE = 'snapshots';
+
+// 连续保存合并为同一版本的时间窗口
+const MERGE_WINDOW = 2 * 60 * 1000;
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface HistoryPolicy {
+  maxVersions: number; // 每篇笔记最多保留的版本数
+  retentionDays: number; // 超过天数的版本被清理，但始终保留最新的一个
+}
+
+export const DEFAULT_HISTORY_POLICY: HistoryPolicy = { maxVersions: 50, retentionDays: 30 };
+
+// 当前仓库与保留策略，由应用在切换仓库或修改设置时更新
+let activeVaultId: string | null = null;
+let activePolicy: HistoryPolicy = DEFAULT_HISTORY_POLICY;
+
+export const configureHistory = (vaultId: string | null, policy: HistoryPolicy = DEFAULT_HISTORY_POLICY) => {
+  activeVaultId = vaultId;
+  activePolicy = policy;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('note', ['vaultId', 'path']);
+        store.createIndex('vault', 'vaultId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const queryNote = (store: IDBObjectStore, vaultId: string, path: string) =>
+  promisify<NoteSnapshot[]>(store.index('note').getAll(IDBKeyRange.only([vaultId, path])));
+
+/**
+ * 笔记的全部版本，按时间从新到旧
+ */
+export const listVersions = async (path: string, vaultId = activeVaultId): Promise<NoteSnapshot[]> => {
+  if (!vaultId) return [];
+  try {
+    const db = await openDatabase();
+    const versions = await queryNote(db.transaction(STORE, 'readonly').objectStore(STORE), vaultId, path);
+    return versions.sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (e) {
+    console.error('读取版本历史失败', e);
+    return [];
+  }
+};
+
+/**
+ * 笔记尚无历史时记录写入前的原始内容
+ */
+export const recordBaseline = async (path: string, readPrevious: () => Promise<string>) => {
+  const vaultId = activeVaultId;
+  if (!vaultId) return;
+  try {
+    const db = await openDatabase();
+    const existing = await queryNote(db.transaction(STORE, 'readonly').objectStore(STORE), vaultId, path);
+    if (existing.length > 0) return;
+    const content = await readPrevious();
+    if (!content) return;
+    const now = Date.now();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).add({ vaultId, path, content, source: 'original', createdAt: now, updatedAt: now });
+    await transactionDone(tx);
+  } catch (e) {
+    console.error('记录原始版本失败', e);
+  }
+};
+
+/**
+ * 记录一次写入；与最新版本相同时忽略，时间窗口内的连续保存合并
+ */
+export const recordSnapshot = async (path: string, content: string, source: SnapshotSource = 'save') => {
+  const vaultId = activeVaultId;
+  if (!vaultId) return;
+  const policy = activePolicy;
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const versions = (await queryNote(store, vaultId, path)).sort((a, b) => b.updatedAt - a.updatedAt);
+    const latest = versions[0];
+    const now = Date.now();
+
+    if (latest && latest.content === content) return;
+    if (source === 'save' && latest?.source === 'save' && now - latest.updatedAt < MERGE_WINDOW) {
+      store.put({ ...latest, content, updatedAt: now });
+    } else {
+      store.add({ vaultId, path, content, source, createdAt: now, updatedAt: now });
+      versions.unshift({ id: -1, vaultId, path, content, source, createdAt: now, updatedAt: now });
+    }
+
+    // 保留策略：最新的版本始终保留
+    const expireBefore = now - policy.retentionDays * DAY;
+    versions.slice(1).forEach((version, idx) => {
+      if (idx + 1 >= policy.maxVersions || version.updatedAt < expireBefore) store.delete(version.id);
+    });
+    await transactionDone(tx);
+  } catch (e) {
+    console.error('记录版本历史失败', e);
+  }
+};
+
+/**
+ * 笔记或文件夹重命名后迁移历史记录
+ */
+export const renameVersionHistory = async (oldPath: string, newPath: string) => {
+  const vaultId = activeVaultId;
+  if (!vaultId) return;
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const versions = await promisify<NoteSnapshot[]>(store.index('vault').getAll(IDBKeyRange.only(vaultId)));
+    versions.forEach(version => {
+      if (version.path === oldPath) {
+        store.put({ ...version, path: newPath });
+      } else if (version.path.startsWith(oldPath + '/')) {
+        store.put({ ...version, path: newPath + version.path.slice(oldPath.length) });
+      }
+    });
+    await transactionDone(tx);
+  } catch (e) {
+    console.error('迁移版本历史失败', e);
+  }
+};
+
+/**
+ * 移除某个仓库的全部历史
+ */
+export const clearVaultHistory = async (vaultId: string) => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const keys = await promisify(store.index('vault').getAllKeys(IDBKeyRange.only(vaultId)));
+    keys.forEach(key => store.delete(key));
+    await transactionDone(tx);
+  } catch (e) {
+    console.error('清除版本历史失败', e);
+  }
+};
@@ -0,0 +1,617 @@
+/**
+ * 语雀知识库导入
+ *
+ * 读取语雀导出的 .lakebook (tar.gz：$meta.json 中的目录与每篇文档的 Lake 格式正文) 或 Markdown 导出的 ZIP，
+ * 按知识库目录重建文件夹层级；卡片、提示框与图片转换为 Obsidian Markdown，归档内的图片与附件另存为文件，
+ * 指向同一知识库文档的链接改写为双链；文件名在仓库中不唯一时双链与嵌入使用完整路径。全程只读取本地文件，无法离线转换的内容 (远程图片、画板等卡片) 记入导入报告。
+ */
+
+import { FileSystemNode, FileType } from '../types';
+import { ZipEntry, ArchiveFile, readZip } from './zip';
+import { readTarGz } from './tar';
+import { parseYaml } from './frontmatter';
+
+export interface YuqueImportIssue {
+  path: string; // 相对导入文件夹的文档路径
+  message: string;
+}
+
+export interface YuqueImportResult {
+  files: ZipEntry[]; // 相对导入文件夹的路径
+  documentCount: number;
+  attachmentCount: number;
+  issues: YuqueImportIssue[];
+}
+
+const ATTACHMENT_FOLDER = 'attachments';
+
+// 语雀提示框类型 -> Obsidian callout 类型
+const CALLOUT_TYPES: Record<string, string> = {
+  info: 'info',
+  tips: 'tip',
+  success: 'success',
+  warning: 'warning',
+  danger: 'danger',
+};
+
+const calloutType = (type: string) => CALLOUT_TYPES[type.toLowerCase()] || 'note';
+
+interface BookDoc {
+  title: string;
+  slug?: string;
+  path: string; // 导入后的相对路径
+  sourcePath?: string; // 归档内路径，Markdown 中的相对引用以此为基准
+  format: 'lake' | 'markdown' | 'unsupported';
+  body: string;
+}
+
+interface Book {
+  docs: BookDoc[];
+  assets: ArchiveFile[];
+  issues: YuqueImportIssue[];
+}
+
+const decoder = new TextDecoder();
+
+const baseName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+const dirName = (path: string) => (path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '');
+
+const joinPath = (dir: string, name: string) => (dir ? `${dir}/${name}` : name);
+
+const safeDecode = (text: string) => {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+};
+
+// 文件名中去掉系统不允许的字符与会破坏双链的 # ^ [ ] |
+export const sanitizeFileName = (name: string) =>
+  name.replace(/[\\/:*?"<>|#^[\]]/g, ' ').replace(/\s+/g, ' ').trim().replace(/^\.+/, '') || '未命名';
+
+// 同一文件夹下重名时追加序号
+const createNameClaimer = () => {
+  const taken = new Map<string, Set<string>>();
+  return (dir: string, name: string, ext: string) => {
+    if (!taken.has(dir)) taken.set(dir, new Set());
+    const names = taken.get(dir)!;
+    let candidate = name;
+    for (let i = 1; names.has(`${candidate}${ext}`.toLowerCase()); i++) candidate = `${name} ${i}`;
+    names.add(`${candidate}${ext}`.toLowerCase());
+    return `${candidate}${ext}`;
+  };
+};
+
+// 归档内的相对路径：处理 ./ 与 ../
+const resolveRelative = (base: string, ref: string) => {
+  const parts = base ? base.split('/') : [];
+  for (const part of ref.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+};
+
+// --- 读取归档 ---
+
+const parseJson = (data: Uint8Array) => JSON.parse(decoder.decode(data));
+
+/**
+ * .lakebook：$meta.json 的 tocYml 描述目录，TITLE 为分组，DOC 对应 <url>.json 中的文档
+ */
+const readLakebook = (files: ArchiveFile[]): Book => {
+  const issues: YuqueImportIssue[] = [];
+  const metaFile = files.find(file => baseName(file.path) === '$meta.json');
+  if (!metaFile) throw new Error('文件中没有 $meta.json，不是有效的 lakebook');
+  let meta = parseJson(metaFile.data);
+  if (typeof meta.meta === 'string') meta = JSON.parse(meta.meta);
+  const book = meta.book || meta;
+  const rawToc = book.tocYml ?? book.toc_yml ?? book.toc ?? [];
+  const toc: any[] = (typeof rawToc === 'string' ? parseYaml(rawToc) : rawToc) || [];
+
+  const docFiles = new Map(
+    files.filter(file => file.path.endsWith('.json') && file !== metaFile).map(file => [baseName(file.path).replace(/\.json$/, ''), file])
+  );
+  const claim = createNameClaimer();
+  const docs: BookDoc[] = [];
+  const used = new Set<ArchiveFile>();
+
+  const loadDoc = (title: string, slug: string, path: string) => {
+    const file = docFiles.get(slug);
+    if (!file) {
+      issues.push({ path, message: '归档中缺少文档正文，已创建空白笔记' });
+      docs.push({ title, slug, path, format: 'markdown', body: '' });
+      return;
+    }
+    used.add(file);
+    const parsed = parseJson(file.data);
+    const doc = parsed.doc || parsed;
+    const type = String(doc.type || 'Doc');
+    if (type.toLowerCase() !== 'doc') {
+      issues.push({ path, message: `语雀${type}类型的文档无法转换为 Markdown` });
+      docs.push({ title, slug, path, format: 'unsupported', body: type });
+      return;
+    }
+    const body = String(doc.body ?? doc.body_asl ?? doc.body_draft ?? '');
+    const format = doc.format === 'markdown' || !/^\s*</.test(body) ? 'markdown' : 'lake';
+    docs.push({ title, slug, path, format, body });
+  };
+
+  const items = toc.filter(item => item && item.type !== 'META');
+  const uuids = new Set(items.map(item => item.uuid));
+  const childrenOf = (uuid: string) => items.filter(item => (item.parent_uuid || '') === uuid);
+
+  // 有子项的文档放在同名文件夹中，与子文档并列
+  const place = (item: any, dir: string) => {
+    const title = String(item.title ?? '');
+    const name = sanitizeFileName(title);
+    const children = childrenOf(item.uuid);
+    if (item.type === 'LINK') {
+      issues.push({ path: joinPath(dir, name), message: `目录中的外部链接未导入: ${item.url || title}` });
+      return;
+    }
+    if (item.type === 'TITLE' || children.length > 0) {
+      const folder = joinPath(dir, claim(dir, name, ''));
+      if (item.type === 'DOC') loadDoc(title, String(item.url ?? ''), joinPath(folder, claim(folder, name, '.md')));
+      children.forEach(child => place(child, folder));
+      return;
+    }
+    loadDoc(title, String(item.url ?? ''), joinPath(dir, claim(dir, name, '.md')));
+  };
+  items.filter(item => !item.parent_uuid || !uuids.has(item.parent_uuid)).forEach(item => place(item, ''));
+
+  // 目录中没有列出的文档放在根目录
+  for (const [slug, file] of docFiles) {
+    if (used.has(file)) continue;
+    const doc = parseJson(file.data).doc;
+    if (!doc || doc.body === undefined) continue;
+    const title = String(doc.title || slug);
+    loadDoc(title, slug, claim('', sanitizeFileName(title), '.md'));
+  }
+
+  return { docs, assets: files.filter(file => !file.path.endsWith('.json')), issues };
+};
+
+/**
+ * Markdown 导出的 ZIP：文件夹结构即知识库目录；只有一个顶层文件夹时以它为根
+ */
+const readMarkdownZip = (files: ArchiveFile[]): Book => {
+  const entries = files.filter(file => !file.path.startsWith('__MACOSX/') && baseName(file.path) !== '.DS_Store');
+  const tops = new Set(entries.map(file => file.path.split('/')[0]));
+  const strip = tops.size === 1 && entries.every(file => file.path.includes('/')) ? `${[...tops][0]}/` : '';
+  const claim = createNameClaimer();
+  const folders = new Map<string, string>([['', '']]);
+
+  const mapFolder = (source: string): string => {
+    if (!folders.has(source)) {
+      const parent = mapFolder(dirName(source));
+      folders.set(source, joinPath(parent, claim(parent, sanitizeFileName(baseName(source)), '')));
+    }
+    return folders.get(source)!;
+  };
+
+  const docs: BookDoc[] = entries
+    .filter(file => /\.md$/i.test(file.path))
+    .map(file => {
+      const relative = file.path.slice(strip.length);
+      const title = baseName(relative).replace(/\.md$/i, '');
+      const dir = mapFolder(dirName(relative));
+      return {
+        title,
+        path: joinPath(dir, claim(dir, sanitizeFileName(title), '.md')),
+        sourcePath: file.path,
+        format: 'markdown' as const,
+        body: decoder.decode(file.data).replace(/^\uFEFF/, ''),
+      };
+    });
+
+  return { docs, assets: entries.filter(file => !/\.md$/i.test(file.path)), issues: [] };
+};
+
+// --- 转换 ---
+
+const parseCardValue = (value: string | null): any => {
+  if (!value) return {};
+  try {
+    return JSON.parse(decodeURIComponent(value.replace(/^data:/, '')));
+  } catch {
+    return {};
+  }
+};
+
+const escapeText = (text: string) => text.replace(/([*`])/g, '\\$1');
+
+// 强调标记不能紧挨空白，把首尾空白移到标记外
+const wrap = (content: string, marker: string, closing = marker) => {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(content)!;
+  return match[2] ? `${match[1]}${marker}${match[2]}${closing}${match[3]}` : content;
+};
+
+const prefixLines = (text: string, prefix: string) =>
+  text.split('\n').map(line => (line ? `${prefix}${line}` : prefix.trimEnd())).join('\n');
+
+// 双链按文件名解析时可能命中的键：文件名，以及 Markdown 去掉扩展名后的名称
+const nameKeys = (name: string) => {
+  const lower = name.toLowerCase();
+  return lower.endsWith('.md') ? [lower, lower.slice(0, -3)] : [lower];
+};
+
+/**
+ * 把一个知识库转换为要写入的文件；rootPath 为导入文件夹在仓库中的路径，
+ * 文档或附件与仓库现有文件、其他导入文件重名时，双链与嵌入使用该路径下的完整路径
+ */
+const convertBook = (book: Book, rootPath: string, vault: FileSystemNode): YuqueImportResult => {
+  const { docs, assets } = book;
+  const issues = [...book.issues];
+  const files: ZipEntry[] = [];
+
+  const docsBySlug = new Map(docs.filter(doc => doc.slug).map(doc => [doc.slug!, doc]));
+  const docsByTitle = new Map(docs.map(doc => [doc.title, doc]));
+  const docsBySource = new Map(docs.filter(doc => doc.sourcePath).map(doc => [doc.sourcePath!, doc]));
+  const nameCounts = new Map<string, number>();
+  const countName = (name: string) => nameKeys(name).forEach(key => nameCounts.set(key, (nameCounts.get(key) || 0) + 1));
+  const walkVault = (node: FileSystemNode) => {
+    if (node.kind === FileType.FILE) countName(node.name);
+    node.children?.forEach(walkVault);
+  };
+  walkVault(vault);
+  docs.forEach(doc => countName(baseName(doc.path)));
+  const linkTarget = (doc: BookDoc) => {
+    const name = baseName(doc.path).replace(/\.md$/, '');
+    return nameCounts.get(name.toLowerCase())! > 1 ? joinPath(rootPath, doc.path).replace(/\.md$/, '') : name;
+  };
+
+  // 归档内的附件：按路径与文件名查找，保存到附件文件夹，重名时追加序号
+  const assetsByPath = new Map(assets.map(file => [file.path, file]));
+  const assetsByName = new Map<string, ArchiveFile>();
+  assets.forEach(file => {
+    const name = baseName(file.path).toLowerCase();
+    if (!assetsByName.has(name)) assetsByName.set(name, file);
+  });
+  const savedAssets = new Map<ArchiveFile, string>();
+  const claimAsset = createNameClaimer();
+  const saveAsset = (file: ArchiveFile) => {
+    if (!savedAssets.has(file)) {
+      const name = baseName(file.path);
+      const dot = name.lastIndexOf('.');
+      const fileName = claimAsset('', sanitizeFileName(dot > 0 ? name.slice(0, dot) : name), dot > 0 ? name.slice(dot) : '');
+      const path = `${ATTACHMENT_FOLDER}/${fileName}`;
+      savedAssets.set(file, nameCounts.has(fileName.toLowerCase()) ? joinPath(rootPath, path) : fileName);
+      files.push({ path, data: file.data });
+    }
+    return savedAssets.get(file)!;
+  };
+
+  for (const doc of docs) {
+    const docIssues = new Set<string>();
+    let remoteImages = 0;
+    const report = (message: string) => docIssues.add(message);
+
+    const findAsset = (ref: string) => {
+      const clean = safeDecode(ref.split(/[?#]/)[0]);
+      if (!/^[a-z][\w+.-]*:/i.test(clean) && doc.sourcePath) {
+        const local = assetsByPath.get(resolveRelative(dirName(doc.sourcePath), clean));
+        if (local) return local;
+      }
+      return assetsByName.get(baseName(clean).toLowerCase()) || null;
+    };
+
+    // 图片：公式图片转回 LaTeX，归档内的图片转为嵌入，其余保留外链
+    const imageMarkdown = (alt: string, src: string, width?: number) => {
+      const [url, hash = ''] = src.split('#');
+      const params = new URLSearchParams(hash);
+      if (params.get('card') === 'math' && params.get('code')) return `$${params.get('code')}$`;
+      const size = width || Number(params.get('width')) || 0;
+      const asset = findAsset(url);
+      if (asset) return `![[${saveAsset(asset)}${size ? `|${Math.round(size)}` : ''}]]`;
+      if (/^https?:/i.test(url)) remoteImages++;
+      else report(`导出文件中没有图片: ${url}`);
+      return `![${alt}](${url})`;
+    };
+
+    // 链接：同一知识库的文档改为双链，其余语雀链接保留并记录
+    const linkMarkdown = (text: string, href: string) => {
+      let target: BookDoc | undefined;
+      let isInternal = false;
+      if (/^https?:/i.test(href)) {
+        try {
+          const url = new URL(href);
+          if (/(^|\.)yuque\.com$/i.test(url.hostname)) {
+            isInternal = true;
+            const slug = safeDecode(url.pathname.split('/').filter(Boolean).pop() || '');
+            target = docsBySlug.get(slug) || docsByTitle.get(slug);
+          }
+        } catch {
+          // 无法解析的地址按普通链接保留
+        }
+      } else if (href && !href.startsWith('#') && !/^[a-z][\w+.-]*:/i.test(href)) {
+        isInternal = true;
+        const path = safeDecode(href.split('#')[0]);
+        target = doc.sourcePath ? docsBySource.get(resolveRelative(dirName(doc.sourcePath), path)) : undefined;
+        target = target || docsBySlug.get(baseName(path));
+      }
+      if (!isInternal) return `[${text}](${href})`;
+      target = target || docsByTitle.get(text.trim());
+      if (!target) {
+        report(`未能对应到知识库文档的链接: ${href}`);
+        return `[${text}](${href})`;
+      }
+      const linkName = linkTarget(target);
+      const alias = text.replace(/[[\]|]/g, '').trim();
+      return alias && alias !== baseName(linkName) ? `[[${linkName}|${alias}]]` : `[[${linkName}]]`;
+    };
+
+    const unsupportedCard = (name: string, block: boolean) => {
+      report(`不支持的语雀卡片「${name}」`);
+      return block ? `> [!warning] 未转换的语雀卡片: ${name}` : `[语雀卡片: ${name}]`;
+    };
+
+    const cardMarkdown = (card: Element, block: boolean): string => {
+      const name = card.getAttribute('name') || '';
+      const value = parseCardValue(card.getAttribute('value'));
+      switch (name) {
+        case 'image':
+          return value.src ? imageMarkdown(value.title || value.name || '', value.src, value.width) : '';
+        case 'codeblock': {
+          const mode = value.mode && value.mode !== 'plain' ? value.mode : '';
+          const code = String(value.code ?? '');
+          const fence = code.includes('```') ? '~~~' : '```';
+          return `${fence}${mode}\n${code}\n${fence}`;
+        }
+        case 'hr':
+          return '---';
+        case 'math':
+          return block ? `$$\n${value.code ?? ''}\n$$` : `$${value.code ?? ''}$`;
+        case 'checkbox':
+          return value === true || value.checked ? '[x] ' : '[ ] ';
+        case 'label':
+          return value.label ? `**${value.label}**` : '';
+        case 'mention':
+          return value.name ? `@${value.name}` : '';
+        case 'file': {
+          const asset = findAsset(value.name || value.src || '');
+          if (asset) return `[[${saveAsset(asset)}]]`;
+          report(`导出文件中没有附件: ${value.name || value.src}`);
+          return `[${value.name || '附件'}](${value.src || ''})`;
+        }
+        case 'yuque':
+        case 'yuqueinline':
+        case 'bookmarkInline':
+        case 'bookmarklink': {
+          const href = value.src || value.url || value.detail?.url || '';
+          const title = value.detail?.title || value.text || value.title || href;
+          return href ? linkMarkdown(title, href) : unsupportedCard(name, block);
+        }
+        default:
+          return unsupportedCard(name || '未知', block);
+      }
+    };
+
+    const inline = (node: Node, inTable = false): string => {
+      if (node.nodeType === Node.TEXT_NODE) return escapeText((node.textContent || '').replace(/\u00a0/g, ' ').replace(/\n/g, ' '));
+      if (node.nodeType !== Node.ELEMENT_NODE) return '';
+      const el = node as HTMLElement;
+      const content = () => Array.from(el.childNodes).map(child => inline(child, inTable)).join('');
+      switch (el.tagName) {
+        case 'STRONG':
+        case 'B':
+          return wrap(content(), '**');
+        case 'EM':
+        case 'I':
+          return wrap(content(), '*');
+        case 'DEL':
+        case 'S':
+        case 'STRIKE':
+          return wrap(content(), '~~');
+        case 'U':
+          return wrap(content(), '<u>', '</u>');
+        case 'SUP':
+        case 'SUB':
+          return wrap(content(), `<${el.tagName.toLowerCase()}>`, `</${el.tagName.toLowerCase()}>`);
+        case 'CODE':
+          return `\`${(el.textContent || '').replace(/`/g, '')}\``;
+        case 'BR':
+          return '<br>';
+        case 'A':
+          return linkMarkdown(content(), el.getAttribute('href') || '');
+        case 'CARD':
+          return cardMarkdown(el, false);
+        case 'SPAN': {
+          // 背景色视为高亮
+          const background = el.style.backgroundColor;
+          return background && !/^(transparent|#fff(fff)?|white|rgba?\(255,\s*255,\s*255)/i.test(background) ? wrap(content(), '==') : content();
+        }
+        default:
+          return content();
+      }
+    };
+
+    const tableMarkdown = (table: HTMLTableElement) => {
+      const rows = Array.from(table.rows).map(row =>
+        Array.from(row.cells).map(cell => blocks(cell).join('<br>').replace(/\n/g, '<br>').replace(/\|/g, '\\|'))
+      );
+      if (rows.length === 0) return '';
+      const columns = Math.max(...rows.map(row => row.length));
+      const line = (cells: string[]) => `| ${Array.from({ length: columns }, (_, i) => cells[i] || '').join(' | ')} |`;
+      return [line(rows[0]), line(Array(columns).fill('---')), ...rows.slice(1).map(line)].join('\n');
+    };
+
+    // 块级内容；Lake 的列表是扁平的，层级记录在 data-lake-indent 上，连续的列表合并为一块
+    const blocks = (parent: Element): string[] => {
+      const result: string[] = [];
+      let listCounters: number[] = [];
+      let previousWasList = false;
+      const push = (block: string, isList = false) => {
+        if (!block.trim()) return;
+        if (isList && previousWasList) result[result.length - 1] += `\n${block}`;
+        else result.push(block);
+        previousWasList = isList;
+        if (!isList) listCounters = [];
+      };
+      for (const child of Array.from(parent.childNodes)) {
+        if (child.nodeType === Node.TEXT_NODE) {
+          push(inline(child).trim());
+          continue;
+        }
+        if (child.nodeType !== Node.ELEMENT_NODE) continue;
+        const el = child as HTMLElement;
+        const heading = /^H([1-6])$/.exec(el.tagName);
+        if (heading) {
+          push(`${'#'.repeat(Number(heading[1]))} ${inline(el).trim()}`);
+          continue;
+        }
+        switch (el.tagName) {
+          case 'P':
+            push(inline(el).trim());
+            break;
+          case 'UL':
+          case 'OL': {
+            const indent = Number(el.getAttribute('data-lake-indent') || el.getAttribute('lake-indent') || 0);
+            listCounters = listCounters.slice(0, indent + 1);
+            const isTask = /task|check/i.test(el.className);
+            const lines = Array.from(el.children).map(item => {
+              let text = inline(item).trim();
+              if (isTask && !/^\[[ x]\] /.test(text)) {
+                const checked = /(^|[^n])checked|done/i.test(item.className) || item.getAttribute('data-checked') === 'true';
+                text = `[${checked ? 'x' : ' '}] ${text}`;
+              }
+              if (el.tagName === 'UL') return `${'    '.repeat(indent)}- ${text}`;
+              listCounters[indent] = (listCounters[indent] ?? (Number(el.getAttribute('start')) || 1) - 1) + 1;
+              return `${'    '.repeat(indent)}${listCounters[indent]}. ${text}`;
+            });
+            push(lines.join('\n'), true);
+            break;
+          }
+          case 'BLOCKQUOTE':
+            push(prefixLines(blocks(el).join('\n\n'), '> '));
+            break;
+          case 'TABLE':
+            push(tableMarkdown(el as HTMLTableElement));
+            break;
+          case 'PRE':
+            push(`\`\`\`\n${el.textContent || ''}\n\`\`\``);
+            break;
+          case 'HR':
+            push('---');
+            break;
+          case 'CARD':
+            push(cardMarkdown(el, true));
+            break;
+          case 'DIV': {
+            // 提示框
+            const type = el.getAttribute('data-type');
+            if (type && /alert/i.test(el.className)) push(`> [!${calloutType(type)}]\n${prefixLines(blocks(el).join('\n\n'), '> ')}`);
+            else blocks(el).forEach(block => push(block));
+            break;
+          }
+          case 'COLGROUP':
+          case 'META':
+          case 'STYLE':
+            break;
+          default:
+            push(inline(el).trim());
+        }
+      }
+      return result;
+    };
+
+    const lakeToMarkdown = (html: string) => {
+      const body = new DOMParser().parseFromString(html.replace(/^\s*<!doctype lake>/i, ''), 'text/html').body;
+      return blocks(body).join('\n\n');
+    };
+
+    // 语雀 Markdown：提示框 :::type … :::，去掉标题锚点与字体标签，代码块内不做改动
+    const convertMarkdown = (markdown: string) => {
+      const transform = (line: string) => {
+        if (/\[此处为语雀[^\]]*卡片[^\]]*\]/.test(line)) report('语雀卡片在 Markdown 导出中只保留了链接');
+        return line
+          .replace(/<a\s+(?:name|id)="[^"]*"\s*>\s*<\/a>/g, '')
+          .replace(/<\/?font[^>]*>/g, '')
+          .replace(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_match, alt: string, src: string) => imageMarkdown(alt, src))
+          .replace(/(?<!!)\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (match, text: string, href: string) =>
+            /^此处为语雀/.test(text) ? match : linkMarkdown(text, href)
+          );
+      };
+      const output: string[] = [];
+      let fence: string | null = null;
+      let inCallout = false;
+      for (let line of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+        const callout = !fence && /^:::\s*(\w+)/.exec(line);
+        if (callout && !inCallout) {
+          inCallout = true;
+          output.push(`> [!${calloutType(callout[1])}]`);
+          continue;
+        }
+        if (!fence && inCallout && /^:::\s*$/.test(line)) {
+          inCallout = false;
+          output.push('');
+          continue;
+        }
+        const marker = /^\s*(```|~~~)/.exec(line)?.[1];
+        if (marker) {
+          if (!fence) fence = marker;
+          else if (marker === fence) fence = null;
+        } else if (!fence) {
+          line = transform(line);
+        }
+        output.push(inCallout ? (line ? `> ${line}` : '>') : line);
+      }
+      return output.join('\n');
+    };
+
+    let content: string;
+    if (doc.format === 'lake') content = lakeToMarkdown(doc.body);
+    else if (doc.format === 'markdown') content = convertMarkdown(doc.body);
+    else content = `> [!warning] 无法转换的语雀文档\n> 原文档为语雀${doc.body}类型，请在语雀中另行导出。`;
+
+    if (remoteImages > 0) report(`${remoteImages} 张远程图片保留为外链 (离线导入不下载)`);
+    docIssues.forEach(message => issues.push({ path: doc.path, message }));
+    files.push({ path: doc.path, data: content.trim() + '\n' });
+  }
+
+  return { files, documentCount: docs.length, attachmentCount: savedAssets.size, issues };
+};
+
+/**
+ * 读取语雀导出文件并转换；按文件头区分 .lakebook (gzip) 与 ZIP
+ */
+export const importYuqueArchive = async (file: Blob, rootPath: string, vault: FileSystemNode): Promise<YuqueImportResult> => {
+  const magic = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  let book: Book;
+  if (magic[0] === 0x1f && magic[1] === 0x8b) {
+    book = readLakebook(await readTarGz(file));
+  } else if (magic[0] === 0x50 && magic[1] === 0x4b) {
+    book = readMarkdownZip(await readZip(file));
+  } else {
+    throw new Error('无法识别的文件格式，请选择语雀导出的 .lakebook 或 Markdown ZIP 文件');
+  }
+  if (book.docs.length === 0) throw new Error('导出文件中没有找到文档');
+  return convertBook(book, rootPath, vault);
+};
+
+/**
+ * 导入报告：按文档列出未能转换的内容
+ */
+export const formatImportReport = (sourceName: string, result: YuqueImportResult) => {
+  const lines = [
+    '# 语雀导入报告',
+    '',
+    `- 来源: ${sourceName}`,
+    `- 导入时间: ${new Date().toLocaleString()}`,
+    `- 文档: ${result.documentCount} 篇，附件: ${result.attachmentCount} 个`,
+    '',
+    '## 未能完整转换的内容',
+    '',
+  ];
+  const byPath = new Map<string, string[]>();
+  result.issues.forEach(issue => {
+    if (!byPath.has(issue.path)) byPath.set(issue.path, []);
+    byPath.get(issue.path)!.push(issue.message);
+  });
+  for (const [path, messages] of byPath) {
+    lines.push(`### ${path}`, '', ...messages.map(message => `- ${message}`), '');
+  }
+  return lines.join('\n');
+};
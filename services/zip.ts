@@ -0,0 +1,163 @@
+/**
+ * ZIP 打包与读取
+ *
+ * 仅使用存储方式 (不压缩)，笔记与图片本身体积不大且图片已是压缩格式；
+ * 文件名按 UTF-8 编码并设置对应标志位，中文路径在常见解压工具中可正常显示。
+ * 读取时支持存储与 Deflate 两种方式，解压使用浏览器自带的 DecompressionStream。
+ */
+
+export interface ZipEntry {
+  path: string; // 包内相对路径，使用 / 分隔
+  data: Blob | Uint8Array | string;
+  lastModified?: number;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS 日期时间格式
+const dosDateTime = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return { time, day };
+};
+
+const toBytes = async (data: ZipEntry['data']) => {
+  if (typeof data === 'string') return new TextEncoder().encode(data);
+  if (data instanceof Uint8Array) return data;
+  return new Uint8Array(await data.arrayBuffer());
+};
+
+/**
+ * 把文件打包为 ZIP
+ */
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path.replace(/^\/+/, ''));
+    const data = await toBytes(entry.data);
+    const crc = crc32(data);
+    const { time, day } = dosDateTime(entry.lastModified ?? Date.now());
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 文件名
+    local.setUint16(8, 0, true); // store
+    local.setUint16(10, time, true);
+    local.setUint16(12, day, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    parts.push(local.buffer, name, data);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true); // version made by
+    header.setUint16(6, 20, true);
+    header.setUint16(8, 0x0800, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, day, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, data.length, true);
+    header.setUint32(24, data.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+    central.push(new Uint8Array(header.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+};
+
+export interface ArchiveFile {
+  path: string;
+  data: Uint8Array;
+}
+
+const inflateRaw = async (data: Uint8Array) =>
+  new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))).arrayBuffer());
+
+// 未设置 UTF-8 标志的文件名多来自 Windows 中文系统，按 GBK 解码
+const decodeName = (bytes: Uint8Array, flags: number) => {
+  if (flags & 0x0800) return new TextDecoder().decode(bytes);
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('gbk').decode(bytes);
+  }
+};
+
+/**
+ * 读取 ZIP 中的文件 (存储与 Deflate 两种方式)，跳过文件夹条目
+ */
+export const readZip = async (blob: Blob): Promise<ArchiveFile[]> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // 从末尾向前查找目录结束记录，其后最多有 65535 字节的注释
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error('不是有效的 ZIP 文件');
+
+  const files: ArchiveFile[] = [];
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('ZIP 文件目录已损坏');
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decodeName(bytes.subarray(offset + 46, offset + 46 + nameLength), flags);
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (path.endsWith('/')) continue;
+    if (flags & 0x0001) throw new Error(`不支持加密的 ZIP 文件: ${path}`);
+
+    // 大小以中央目录为准，本地头可能使用数据描述符而不填写
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) files.push({ path, data: raw });
+    else if (method === 8) files.push({ path, data: await inflateRaw(raw) });
+    else throw new Error(`不支持的压缩方式 (${method}): ${path}`);
+  }
+  return files;
+};
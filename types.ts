@@ -11,6 +11,48 @@ export interface FileSystemNode {
   children?: FileSystemNode[];
   isOpen?: boolean; // 文件夹是否展开（UI状态）
   content?: string; // 缓存内容 (用于 Mock 模式的编辑)
+  sourcePath?: string; // Mock 模式：静态文件的原始路径，移动或改名后仍从原位置读取
+  isLoaded?: boolean; // 本地文件夹：为 false 时子条目尚未从磁盘读取 (可能是缓存的旧内容)
+}
+
+// 侧边栏多选的条目，移动与删除需要所在的父目录
+export interface TreeItem {
+  parent: FileSystemNode;
+  node: FileSystemNode;
+}
+
+export interface FileVersion {
+  lastModified?: number; // 本地文件的修改时间，Mock 模式为空
+  hash: string;
+}
+
+export interface TrashEntry {
+  id: string;
+  name: string;
+  originalPath: string; // 原路径，未知时为空 (如由 Obsidian 移入回收站的条目)
+  kind: FileType;
+  deletedAt: number;
+  trashName?: string; // 本地仓库：在 .trash 中的条目名
+  node?: FileSystemNode; // Mock 仓库：被删除的节点
+  contents?: Record<string, string>; // Mock 仓库：节点下各笔记的内容 (路径 -> 内容)
+}
+
+export type SnapshotSource = 'original' | 'save' | 'restore';
+
+export interface NoteSnapshot {
+  id: number;
+  vaultId: string;
+  path: string;
+  content: string;
+  source: SnapshotSource; // original: 首次写入前的原始内容；restore: 从历史版本恢复
+  createdAt: number;
+  updatedAt: number; // 合并连续保存时更新
+}
+
+export interface VaultChanges {
+  added: string[]; // 新增的文件与文件夹路径
+  removed: string[];
+  modified: string[]; // 内容有变化的文件路径
 }
 
 export interface Breadcrumb {
@@ -20,6 +62,9 @@ export interface Breadcrumb {
 
 export interface AppSettings {
   attachmentPath: string;
+  historyMaxVersions: number; // 每篇笔记保留的历史版本数
+  historyRetentionDays: number;
+  fileExtensions: string[]; // 目录树中显示的附件扩展名 (Markdown 始终显示)
 }
 
 export interface VaultRecord {
@@ -27,5 +72,79 @@ export interface VaultRecord {
   name: string;
   lastAccessed: number;
   type: 'local' | 'mock';
-  handle?: any; // Local mode handle (not persistable in localStorage directly, but tracked in session)
-}
\ No newline at end of file
+  handle?: any; // Local mode handle (not persistable in localStorage; stored in IndexedDB by handleStore)
+}
+
+export interface SearchMatch {
+  line: number; // 源文件中的行号 (1-based)
+  text: string; // 上下文片段
+  ranges: [number, number][]; // 片段内需要高亮的区间
+}
+
+export interface SearchResult {
+  path: string;
+  name: string;
+  score: number;
+  matches: SearchMatch[];
+}
+
+export interface ScrollTarget {
+  line?: number; // 源文件中的行号 (1-based)
+  anchor?: string; // 标题或块引用，如 "Heading" / "^block-id"
+}
+
+export interface ResolvedNote {
+  path: string;
+  name: string;
+  content: string;
+}
+
+export interface LinkReference {
+  sourcePath: string;
+  target: string; // 链接目标 (不含 #subpath)
+  subpath: string; // Heading 或 ^block-id
+  alias?: string;
+  isEmbed: boolean;
+  line: number; // 源文件中的行号 (1-based)
+  column: number;
+  raw: string; // 原始链接文本，如 [[Note|alias]]
+  context: string; // 所在行内容
+  targetPath?: string; // 解析后的目标路径，未解析时为空
+}
+
+export interface LinkSuggestion {
+  title: string; // 笔记名 (不含 .md)
+  path: string;
+  target: string; // 插入 [[...]] 的链接目标，同名笔记存在歧义时为完整路径
+}
+
+export interface LinkMention {
+  sourcePath: string;
+  line: number; // 源文件中的行号 (1-based)
+  column: number;
+  text: string; // 原文中的匹配文本
+  context: string;
+}
+
+export interface LinkRewrite {
+  sourcePath: string;
+  line: number; // 源文件中的行号 (1-based)
+  column: number;
+  before: string; // 原链接文本
+  after: string; // 改写后的链接文本
+}
+
+export interface RenamePlan {
+  oldPath: string;
+  newPath: string;
+  files: { path: string; edits: LinkRewrite[] }[];
+}
+
+export interface TaskItem {
+  path: string;
+  line: number; // 源文件中的行号 (1-based)
+  text: string; // 复选框之后的文本
+  status: string; // 方括号内的字符，' ' 表示未完成
+  completed: boolean;
+  due?: string; // 截止日期 YYYY-MM-DD (📅 2024-01-01 或 due:: 2024-01-01)
+}